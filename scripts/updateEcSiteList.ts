@@ -0,0 +1,184 @@
+/**
+ * Regenerates `data/ecSiteList.json` from Environment Canada's published site list.
+ *
+ * Site codes and names come from `siteList.xml`, which has no coordinates; coordinates come from
+ * `site_list_towns_en.csv`, joined to the XML by site code.
+ *
+ * Usage: pnpm run sites:update
+ *
+ * @module scripts/updateEcSiteList
+ */
+import axios from 'axios';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { parseStringPromise } from 'xml2js';
+import { EnvironmentCanadaSite } from '../src/services/environmentCanadaSites';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Location of Environment Canada's forecast site list
+ */
+const SITE_LIST_URL = 'https://dd.weather.gc.ca/citypage_weather/xml/siteList.xml';
+
+/**
+ * Location of Environment Canada's site coordinates
+ */
+const SITE_COORDINATES_URL = 'https://dd.weather.gc.ca/citypage_weather/docs/site_list_towns_en.csv';
+
+/**
+ * Output path, relative to the working directory
+ */
+const OUTPUT_PATH = join('data', 'ecSiteList.json');
+
+/**
+ * `<site>` entry of `siteList.xml`, with its `code` attribute merged in
+ */
+interface SiteListEntry {
+	code: string;
+	nameEn: string;
+	nameFr: string;
+	provinceCode: string;
+}
+
+/**
+ * Parsed `siteList.xml`; a single site is not wrapped in an array
+ */
+interface SiteListDocument {
+	siteList?: { site?: SiteListEntry | SiteListEntry[] };
+}
+
+/**
+ * Converts an EC coordinate such as "45.40N" or "75.72W" to signed decimal degrees.
+ *
+ * @param value - Coordinate with hemisphere suffix, or signed decimal degrees
+ * @returns Signed decimal degrees, or NaN if the value cannot be parsed
+ */
+function parseCoordinate(value: string | undefined): number {
+	const match = value?.trim().match(/^(-?\d+(?:\.\d+)?)\s*([NSEW])?$/i);
+	if (!match) {
+		return NaN;
+	}
+	const degrees = parseFloat(match[1]);
+	return match[2] && /[SW]/i.test(match[2]) ? -degrees : degrees;
+}
+
+/**
+ * Splits a CSV document into rows of cells, honouring quoted cells.
+ */
+function parseCsv(text: string): string[][] {
+	const rows: string[][] = [];
+	for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+		if (!line.trim()) {
+			continue;
+		}
+		const cells = Array.from(line.matchAll(/(?:^|,)(?:"((?:[^"]|"")*)"|([^,]*))/g), (match) =>
+			(match[1] !== undefined ? match[1].replace(/""/g, '"') : match[2]).trim(),
+		);
+		rows.push(cells);
+	}
+	return rows;
+}
+
+/**
+ * Reads the coordinates of each site from the towns CSV, keyed by site code.
+ *
+ * @param text - Contents of `site_list_towns_en.csv`
+ * @returns Latitude and longitude by site code
+ * @throws {Error} When the file has no code, latitude or longitude column
+ */
+function parseSiteCoordinates(text: string): Map<string, { lat: number; lon: number }> {
+	const rows = parseCsv(text);
+	// The column header row may follow a title row
+	const headerIndex = rows.findIndex((row) => row.some((cell) => /^latitude$/i.test(cell)));
+	const header = rows[headerIndex] ?? [];
+	const [codeColumn, latColumn, lonColumn] = [/^codes?$/i, /^latitude$/i, /^longitude$/i].map((name) =>
+		header.findIndex((cell) => name.test(cell)),
+	);
+	if ([codeColumn, latColumn, lonColumn].includes(-1)) {
+		throw new Error('Site coordinates have no code, latitude or longitude column');
+	}
+
+	const coordinates = new Map<string, { lat: number; lon: number }>();
+	for (const row of rows.slice(headerIndex + 1)) {
+		const lat = parseCoordinate(row[latColumn]);
+		const lon = parseCoordinate(row[lonColumn]);
+		if (row[codeColumn] && !isNaN(lat) && !isNaN(lon)) {
+			coordinates.set(row[codeColumn], { lat, lon });
+		}
+	}
+	return coordinates;
+}
+
+/**
+ * Downloads the site list and its coordinates and writes them in the bundled JSON format, one site
+ * per line. Nothing is written when no site has coordinates.
+ */
+async function updateSiteList(): Promise<void> {
+	const [siteList, siteCoordinates] = await Promise.all(
+		[SITE_LIST_URL, SITE_COORDINATES_URL].map((url) => {
+			logger.info(`Downloading ${url}`);
+			return axios.get<string>(url, {
+				timeout: 30000,
+				responseType: 'text',
+				headers: { 'User-Agent': 'AxleAPI/1.0.0 (Site List Update)' },
+			});
+		}),
+	);
+
+	const parsed: SiteListDocument = await parseStringPromise(siteList.data, {
+		explicitArray: false,
+		mergeAttrs: true,
+		trim: true,
+	});
+	const rawSites = parsed.siteList?.site;
+	if (!rawSites) {
+		throw new Error('Site list has no <site> entries');
+	}
+	const entries = Array.isArray(rawSites) ? rawSites : [rawSites];
+	const coordinates = parseSiteCoordinates(siteCoordinates.data);
+
+	const sites: EnvironmentCanadaSite[] = entries
+		.flatMap((site) => {
+			const location = coordinates.get(site.code);
+			return location
+				? [
+						{
+							code: site.code,
+							nameEn: site.nameEn,
+							nameFr: site.nameFr,
+							province: site.provinceCode,
+							lat: location.lat,
+							lon: location.lon,
+						},
+					]
+				: [];
+		})
+		.sort((a, b) => a.province.localeCompare(b.province) || a.nameEn.localeCompare(b.nameEn));
+
+	if (sites.length === 0) {
+		throw new Error(`None of the ${entries.length} sites has coordinates; ${OUTPUT_PATH} was left unchanged`);
+	}
+	if (sites.length < entries.length) {
+		logger.info(`Skipped ${entries.length - sites.length} sites without coordinates`);
+	}
+
+	const lines = sites.map((site) => `\t\t${JSON.stringify(site).replace(/":/g, '": ').replace(/,"/g, ', "')}`);
+	const output = [
+		'{',
+		`\t"source": ${JSON.stringify(SITE_LIST_URL)},`,
+		`\t"updated": ${JSON.stringify(new Date().toISOString().slice(0, 10))},`,
+		'\t"sites": [',
+		lines.join(',\n'),
+		'\t]',
+		'}',
+		'',
+	].join('\n');
+
+	writeFileSync(join(process.cwd(), OUTPUT_PATH), output, 'utf8');
+	logger.info(`Wrote ${sites.length} sites to ${OUTPUT_PATH}`);
+}
+
+updateSiteList().catch((error) => {
+	logger.error(`Site list update failed: ${error instanceof Error ? error.message : error}`);
+	process.exit(1);
+});
@@ -0,0 +1,206 @@
+/**
+ * Regenerates `data/gazetteer.json` from the GeoNames dump.
+ *
+ * Keeps every Canadian populated place with at least 1,000 inhabitants, with its Latin-script
+ * alternate names, and every other place with at least 15,000 inhabitants.
+ *
+ * Usage: pnpm run gazetteer:update
+ *
+ * @module scripts/updateGazetteer
+ */
+import axios from 'axios';
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { inflateRawSync } from 'zlib';
+import { GazetteerPlace } from '../src/services/geocodingService';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Location of the GeoNames dump files
+ */
+const GEONAMES_URL = 'https://download.geonames.org/export/dump/';
+
+/**
+ * Output path, relative to the working directory
+ */
+const OUTPUT_PATH = join('data', 'gazetteer.json');
+
+/**
+ * Minimum population of places outside Canada
+ */
+const MIN_FOREIGN_POPULATION = 15000;
+
+/**
+ * GeoNames uses numeric first-level codes for Canada; responses use the postal abbreviations
+ */
+const CANADIAN_PROVINCE_CODES: Record<string, string> = {
+	'01': 'AB',
+	'02': 'BC',
+	'03': 'MB',
+	'04': 'NB',
+	'05': 'NL',
+	'07': 'NS',
+	'08': 'ON',
+	'09': 'PE',
+	'10': 'QC',
+	'11': 'SK',
+	'12': 'YT',
+	'13': 'NT',
+	'14': 'NU',
+};
+
+/**
+ * Downloads a file from the GeoNames dump.
+ *
+ * @param file - File name within the dump directory
+ * @returns File contents
+ */
+async function download(file: string): Promise<Buffer> {
+	logger.info(`Downloading ${GEONAMES_URL}${file}`);
+	const response = await axios.get(`${GEONAMES_URL}${file}`, {
+		timeout: 120000,
+		responseType: 'arraybuffer',
+		headers: { 'User-Agent': 'AxleAPI/1.0.0 (Gazetteer Update)' },
+	});
+	return Buffer.from(response.data);
+}
+
+/**
+ * Extracts a deflated entry from a zip archive using its central directory.
+ *
+ * @param archive - Zip archive contents
+ * @param name - Name of the entry to extract
+ * @returns Uncompressed entry contents
+ * @throws {Error} When the archive has no such entry
+ */
+function extractZipEntry(archive: Buffer, name: string): Buffer {
+	const endOfDirectory = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+	if (endOfDirectory < 0) {
+		throw new Error('Not a zip archive');
+	}
+
+	let offset = archive.readUInt32LE(endOfDirectory + 16);
+	const entryCount = archive.readUInt16LE(endOfDirectory + 10);
+	for (let entry = 0; entry < entryCount; entry++) {
+		const method = archive.readUInt16LE(offset + 10);
+		const compressedSize = archive.readUInt32LE(offset + 20);
+		const nameLength = archive.readUInt16LE(offset + 28);
+		const extraLength = archive.readUInt16LE(offset + 30);
+		const commentLength = archive.readUInt16LE(offset + 32);
+		const headerOffset = archive.readUInt32LE(offset + 42);
+		const entryName = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+		if (entryName === name) {
+			const dataStart =
+				headerOffset + 30 + archive.readUInt16LE(headerOffset + 26) + archive.readUInt16LE(headerOffset + 28);
+			const data = archive.subarray(dataStart, dataStart + compressedSize);
+			return method === 0 ? data : inflateRawSync(data);
+		}
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+
+	throw new Error(`Zip archive has no entry ${name}`);
+}
+
+/**
+ * Splits a GeoNames tab-separated file into rows, skipping comments.
+ */
+function parseRows(text: string): string[][] {
+	return text
+		.split('\n')
+		.filter((line) => line && !line.startsWith('#'))
+		.map((line) => line.split('\t'));
+}
+
+/**
+ * Converts a GeoNames first-level code to the code used in the gazetteer.
+ */
+function toRegionCode(country: string, admin1: string): string {
+	return country === 'CA' ? (CANADIAN_PROVINCE_CODES[admin1] ?? admin1) : admin1;
+}
+
+/**
+ * Downloads the GeoNames tables and writes the gazetteer in the bundled JSON format, one place per line.
+ */
+async function updateGazetteer(): Promise<void> {
+	const [cities, admin1Codes, countryInfo] = await Promise.all([
+		download('cities1000.zip'),
+		download('admin1CodesASCII.txt'),
+		download('countryInfo.txt'),
+	]);
+
+	const countries: Record<string, string> = {};
+	for (const [code, , , , name] of parseRows(countryInfo.toString('utf8'))) {
+		countries[code] = name;
+	}
+
+	const regions: Record<string, string> = {};
+	for (const [key, name] of parseRows(admin1Codes.toString('utf8'))) {
+		const [country, admin1] = key.split('.');
+		regions[`${country}.${toRegionCode(country, admin1)}`] = name;
+	}
+
+	// Columns: geonameid, name, asciiname, alternatenames, latitude, longitude, feature class,
+	// feature code, country code, cc2, admin1 code, admin2, admin3, admin4, population, elevation,
+	// dem, timezone, modification date
+	const places: GazetteerPlace[] = parseRows(extractZipEntry(cities, 'cities1000.txt').toString('utf8'))
+		.map((row) => {
+			const [, name, , alternateNames, lat, lon, , , country, , admin1] = row;
+			const population = parseInt(row[14], 10) || null;
+			return {
+				name,
+				alternateNames:
+					country === 'CA'
+						? Array.from(new Set(alternateNames.split(','))).filter(
+								(alternate) =>
+									alternate && alternate !== name && /^[\p{Script=Latin}\s.'’-]+$/u.test(alternate),
+							)
+						: [],
+				country,
+				region: toRegionCode(country, admin1),
+				lat: parseFloat(lat),
+				lon: parseFloat(lon),
+				timezone: row[17],
+				population,
+			};
+		})
+		.filter((place) => place.country === 'CA' || (place.population ?? 0) >= MIN_FOREIGN_POPULATION)
+		.sort(
+			(a, b) =>
+				a.country.localeCompare(b.country) || a.region.localeCompare(b.region) || a.name.localeCompare(b.name),
+		);
+
+	const usedCountries = new Set(places.map((place) => place.country));
+	const usedRegions = new Set(places.map((place) => `${place.country}.${place.region}`));
+	const formatMap = (entries: Array<[string, string]>) =>
+		entries
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([code, name]) => `\t\t${JSON.stringify(code)}: ${JSON.stringify(name)}`)
+			.join(',\n');
+
+	const lines = places.map((place) => `\t\t${JSON.stringify(place).replace(/":/g, '": ').replace(/,"/g, ', "')}`);
+	const output = [
+		'{',
+		`\t"source": ${JSON.stringify(GEONAMES_URL)},`,
+		`\t"updated": ${JSON.stringify(new Date().toISOString().slice(0, 10))},`,
+		'\t"countries": {',
+		formatMap(Object.entries(countries).filter(([code]) => usedCountries.has(code))),
+		'\t},',
+		'\t"regions": {',
+		formatMap(Object.entries(regions).filter(([key]) => usedRegions.has(key))),
+		'\t},',
+		'\t"places": [',
+		lines.join(',\n'),
+		'\t]',
+		'}',
+		'',
+	].join('\n');
+
+	writeFileSync(join(process.cwd(), OUTPUT_PATH), output, 'utf8');
+	logger.info(`Wrote ${places.length} places to ${OUTPUT_PATH}`);
+}
+
+updateGazetteer().catch((error) => {
+	logger.error(`Gazetteer update failed: ${error instanceof Error ? error.message : error}`);
+	process.exit(1);
+});
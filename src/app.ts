@@ -12,6 +12,7 @@ import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { rateLimiter } from './config/rateLimiter';
 import routes from './config/routes';
+import { WeatherSocketController } from './controllers/WeatherSocketController';
 
 /**
  * Application class encapsulating Express app setup and server logic.
@@ -67,13 +68,14 @@ class App {
 	}
 
 	/**
-	 * Starts the server unless running in test mode.
+	 * Starts the server, with the weather WebSocket on the same port, unless running in test mode.
 	 */
 	private start(): void {
 		if (process.env.NODE_ENV !== 'test') {
-			this.app.listen(env.port, () => {
+			const server = this.app.listen(env.port, () => {
 				logger.info(`Server running on port ${env.port}`);
 			});
+			new WeatherSocketController(server);
 		}
 	}
 }
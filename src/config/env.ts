@@ -15,6 +15,10 @@ const envSchema = Joi.object({
 	PORT: Joi.number().default(3000),
 	RATE_LIMIT_MAX: Joi.number().default(100),
 	STATIC_DIR: Joi.string().default('/public/'),
+	WEATHER_PROVIDERS: Joi.string().allow('').optional(),
+	WEATHER_SOCKET_TOKENS: Joi.string().allow('').optional(),
+	WEATHER_SOCKET_ALLOW_ANONYMOUS: Joi.boolean().default(false),
+	WEBHOOK_ALLOW_PRIVATE_URLS: Joi.boolean().default(false),
 }).unknown();
 
 const { value: envVars, error } = envSchema.validate(process.env);
@@ -30,10 +34,21 @@ if (error) {
  * @property {number} port - The port number.
  * @property {number} rateLimitMax - Max requests per window per IP.
  * @property {string} staticDir - Static files directory path.
+ * @property {string|undefined} weatherProviders - Comma-separated provider IDs to enable, in priority order.
+ * @property {string[]} weatherSocketTokens - Tokens accepted by the weather WebSocket.
+ * @property {boolean} weatherSocketAllowAnonymous - Whether the weather WebSocket accepts clients without a token.
+ * @property {boolean} webhookAllowPrivateUrls - Whether webhooks may target localhost and private networks.
  */
 export const env = {
 	nodeEnv: envVars.NODE_ENV,
 	port: envVars.PORT,
 	rateLimitMax: envVars.RATE_LIMIT_MAX,
 	staticDir: envVars.STATIC_DIR,
+	weatherProviders: envVars.WEATHER_PROVIDERS as string | undefined,
+	weatherSocketTokens: ((envVars.WEATHER_SOCKET_TOKENS as string | undefined) ?? '')
+		.split(',')
+		.map((token) => token.trim())
+		.filter(Boolean),
+	weatherSocketAllowAnonymous: envVars.WEATHER_SOCKET_ALLOW_ANONYMOUS as boolean,
+	webhookAllowPrivateUrls: envVars.WEBHOOK_ALLOW_PRIVATE_URLS as boolean,
 };
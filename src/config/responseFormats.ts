@@ -0,0 +1,240 @@
+/**
+ * Alternative response formats of the API endpoints
+ *
+ * Describes, for each endpoint offering them, the tables of its response sent as CSV and how its
+ * response converts to GeoJSON. Point endpoints become a feature located at the requested
+ * coordinates; list endpoints become a feature collection.
+ *
+ * @module config/responseFormats
+ */
+import { GeoJsonFeature, GeoJsonGeometry, ResponseRepresentation } from '../middleware/responseFormat';
+import { GridBounds } from '../services/weatherGridService';
+import { roundTo } from '../services/unitConversion';
+
+/**
+ * `location` block of a response
+ */
+type Location = { latitude?: number; longitude?: number } | null;
+
+/**
+ * Response, or entry of one, located by its `location` block, with its payload in `data`
+ */
+type LocatedResponse<Data = unknown> = { location?: Location; data?: Data; [field: string]: unknown };
+
+/**
+ * Response of GET /weather/grid
+ */
+type WeatherGridResponse = {
+	grid: { bounds: GridBounds; resolution: number };
+	data: { latitudes: number[]; longitudes: number[]; values: unknown[][] };
+	variable: string;
+	unit: unknown;
+	time: string;
+	language: string;
+	timestamp: string;
+	metadata: Record<string, unknown>;
+};
+
+/**
+ * Point geometry of a `location` block, or null when it has no coordinates
+ */
+function toPoint(location: Location | undefined): GeoJsonGeometry | null {
+	const { latitude, longitude } = location ?? {};
+	return Number.isFinite(latitude) && Number.isFinite(longitude)
+		? { type: 'Point', coordinates: [longitude!, latitude!] }
+		: null;
+}
+
+/**
+ * Feature of a point response, located by its `location` block and carrying the whole response
+ */
+function toPointFeature(body: LocatedResponse): GeoJsonFeature {
+	return { type: 'Feature', geometry: toPoint(body.location), properties: body };
+}
+
+/**
+ * GET /weather: hourly and 14-day forecast tables, and a point feature
+ */
+export const weatherRepresentation: ResponseRepresentation<
+	LocatedResponse<{ hourly?: unknown[]; forecast?: { '14day'?: unknown[] } }>
+> = {
+	tables: {
+		hourly: (body) => body.data?.hourly ?? [],
+		'14day': (body) => body.data?.forecast?.['14day'] ?? [],
+	},
+	geojson: toPointFeature,
+};
+
+/**
+ * POST /weather/batch: a feature per location, without a geometry for failed entries
+ */
+export const weatherBatchRepresentation: ResponseRepresentation<{
+	results?: LocatedResponse<LocatedResponse>[];
+	[field: string]: unknown;
+}> = {
+	geojson: ({ results, ...properties }) => ({
+		type: 'FeatureCollection',
+		features: (results ?? []).map((result) => ({
+			type: 'Feature',
+			geometry: toPoint(result.data?.location),
+			properties: result,
+		})),
+		properties,
+	}),
+};
+
+/**
+ * GET /weather/alerts: alert table and a point feature
+ */
+export const alertsRepresentation: ResponseRepresentation<LocatedResponse<{ alerts?: unknown[] }>> = {
+	tables: {
+		alerts: (body) => body.data?.alerts ?? [],
+	},
+	geojson: toPointFeature,
+};
+
+/**
+ * GET /weather/hourly: forecast series table and a point feature
+ */
+export const forecastSeriesRepresentation: ResponseRepresentation<LocatedResponse<{ series?: unknown[] }>> = {
+	tables: {
+		hourly: (body) => body.data?.series ?? [],
+	},
+	geojson: toPointFeature,
+};
+
+/**
+ * GET /weather/models: a point feature
+ */
+export const modelComparisonRepresentation: ResponseRepresentation<LocatedResponse> = {
+	geojson: toPointFeature,
+};
+
+/**
+ * GET /weather/grid: a row per cell, and a polygon feature per cell
+ */
+export const weatherGridRepresentation: ResponseRepresentation<WeatherGridResponse> = {
+	tables: {
+		cells: ({ data, variable, unit, time }) =>
+			data.values.flatMap((values, row) =>
+				values.map((value, column) => ({
+					row,
+					column,
+					latitude: data.latitudes[row],
+					longitude: data.longitudes[column],
+					time,
+					[variable]: value,
+					unit,
+				})),
+			),
+	},
+	geojson: ({ grid, data, variable, unit, time, language, timestamp, metadata }) => {
+		const half = grid.resolution / 2;
+		return {
+			type: 'FeatureCollection',
+			bbox: [grid.bounds.west, grid.bounds.south, grid.bounds.east, grid.bounds.north],
+			features: data.values.flatMap((values, row) =>
+				values.map((value, column): GeoJsonFeature => {
+					const latitude = data.latitudes[row];
+					const longitude = data.longitudes[column];
+					const [west, south, east, north] = [
+						longitude - half,
+						latitude - half,
+						longitude + half,
+						latitude + half,
+					].map((edge) => roundTo(edge, 6));
+					return {
+						type: 'Feature',
+						geometry: {
+							type: 'Polygon',
+							coordinates: [
+								[
+									[west, south],
+									[east, south],
+									[east, north],
+									[west, north],
+									[west, south],
+								],
+							],
+						},
+						properties: { row, column, latitude, longitude, value },
+					};
+				}),
+			),
+			properties: {
+				variable,
+				unit,
+				time,
+				resolution: grid.resolution,
+				language,
+				timestamp,
+				...metadata,
+			},
+		};
+	},
+};
+
+/**
+ * GET /weather/history: hourly and daily tables, and a point feature
+ */
+export const historyRepresentation: ResponseRepresentation<LocatedResponse<{ hourly?: unknown[]; daily?: unknown[] }>> =
+	{
+		tables: {
+			hourly: (body) => body.data?.hourly ?? [],
+			daily: (body) => body.data?.daily ?? [],
+		},
+		geojson: toPointFeature,
+	};
+
+/**
+ * GET /weather/verification: score tables, and a feature per score located at its location
+ */
+export const verificationRepresentation: ResponseRepresentation<{
+	data?: { scores?: LocatedResponse[]; summary?: unknown[] };
+	[field: string]: unknown;
+}> = {
+	tables: {
+		scores: (body) => body.data?.scores ?? [],
+		summary: (body) => body.data?.summary ?? [],
+	},
+	geojson: ({ data, ...properties }) => ({
+		type: 'FeatureCollection',
+		features: (data?.scores ?? []).map((score) => ({
+			type: 'Feature',
+			geometry: toPoint(score.location),
+			properties: score,
+		})),
+		properties,
+	}),
+};
+
+/**
+ * GET /air-quality: hourly table and a point feature
+ */
+export const airQualityRepresentation: ResponseRepresentation<LocatedResponse<{ hourly?: unknown[] }>> = {
+	tables: {
+		hourly: (body) => body.data?.hourly ?? [],
+	},
+	geojson: toPointFeature,
+};
+
+/**
+ * GET /astronomy: a point feature
+ */
+export const astronomyRepresentation: ResponseRepresentation<LocatedResponse> = {
+	geojson: toPointFeature,
+};
+
+/**
+ * GET /discord/accounts: account table, and a feature per account (accounts have no location)
+ */
+export const discordAccountsRepresentation: ResponseRepresentation<{ data?: string[]; [field: string]: unknown }> = {
+	tables: {
+		accounts: (body) => (body.data ?? []).map((id) => ({ id })),
+	},
+	geojson: ({ data, ...properties }) => ({
+		type: 'FeatureCollection',
+		features: (data ?? []).map((id) => ({ type: 'Feature', geometry: null, properties: { id } })),
+		properties,
+	}),
+};
@@ -6,6 +6,20 @@ import { Router } from 'express';
 import { HealthController } from '../controllers/HealthController';
 import { WeatherController } from '../controllers/WeatherController';
 import { DiscordController } from '../controllers/DiscordController';
+import { negotiateFormat } from '../middleware/responseFormat';
+import {
+	airQualityRepresentation,
+	alertsRepresentation,
+	astronomyRepresentation,
+	discordAccountsRepresentation,
+	forecastSeriesRepresentation,
+	historyRepresentation,
+	modelComparisonRepresentation,
+	verificationRepresentation,
+	weatherBatchRepresentation,
+	weatherGridRepresentation,
+	weatherRepresentation,
+} from './responseFormats';
 
 /**
  * Express router instance for API endpoints.
@@ -27,7 +41,79 @@ router.get('/health', healthController.getHealth);
  * @function
  * @memberof module:config/routes
  */
-router.get('/weather', WeatherController.getWeather);
+router.get('/weather', negotiateFormat(weatherRepresentation), WeatherController.getWeather);
+
+/**
+ * Batch weather endpoint
+ * @name POST /api/weather/batch
+ * @function
+ * @memberof module:config/routes
+ */
+router.post('/weather/batch', negotiateFormat(weatherBatchRepresentation), WeatherController.getWeatherBatch);
+
+/**
+ * Weather alerts endpoint
+ * @name GET /api/weather/alerts
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/weather/alerts', negotiateFormat(alertsRepresentation), WeatherController.getAlerts);
+
+/**
+ * Weather iCalendar feed endpoint
+ * @name GET /api/weather/calendar.ics
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/weather/calendar.ics', WeatherController.getWeatherCalendar);
+
+/**
+ * Live weather Server-Sent Events endpoint
+ * @name GET /api/weather/stream
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/weather/stream', WeatherController.getWeatherStream);
+
+/**
+ * Weather forecast time series endpoint
+ * @name GET /api/weather/hourly
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/weather/hourly', negotiateFormat(forecastSeriesRepresentation), WeatherController.getForecastSeries);
+
+/**
+ * Weather model comparison endpoint
+ * @name GET /api/weather/models
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/weather/models', negotiateFormat(modelComparisonRepresentation), WeatherController.getModelComparison);
+
+/**
+ * Weather grid endpoint
+ * @name GET /api/weather/grid
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/weather/grid', negotiateFormat(weatherGridRepresentation), WeatherController.getWeatherGrid);
+
+/**
+ * Weather history endpoint
+ * @name GET /api/weather/history
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/weather/history', negotiateFormat(historyRepresentation), WeatherController.getHistory);
+
+/**
+ * Forecast verification endpoint
+ * @name GET /api/weather/verification
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/weather/verification', negotiateFormat(verificationRepresentation), WeatherController.getVerification);
 
 /**
  * Weather cache status endpoint
@@ -37,12 +123,68 @@ router.get('/weather', WeatherController.getWeather);
  */
 router.get('/weather/cache', WeatherController.getCacheStatus);
 
+/**
+ * Air quality endpoint
+ * @name GET /api/air-quality
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/air-quality', negotiateFormat(airQualityRepresentation), WeatherController.getAirQuality);
+
+/**
+ * Astronomy endpoint
+ * @name GET /api/astronomy
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/astronomy', negotiateFormat(astronomyRepresentation), WeatherController.getAstronomy);
+
+/**
+ * Webhook subscription endpoint
+ * @name POST /api/subscriptions
+ * @function
+ * @memberof module:config/routes
+ */
+router.post('/subscriptions', WeatherController.createSubscription);
+
+/**
+ * Webhook subscription details endpoint
+ * @name GET /api/subscriptions/:id
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/subscriptions/:id', WeatherController.getSubscription);
+
+/**
+ * Webhook unsubscribe endpoint
+ * @name DELETE /api/subscriptions/:id
+ * @function
+ * @memberof module:config/routes
+ */
+router.delete('/subscriptions/:id', WeatherController.deleteSubscription);
+
+/**
+ * Webhook test delivery endpoint
+ * @name POST /api/subscriptions/:id/test
+ * @function
+ * @memberof module:config/routes
+ */
+router.post('/subscriptions/:id/test', WeatherController.testSubscription);
+
+/**
+ * Webhook dead-letter endpoint
+ * @name GET /api/subscriptions/:id/dead-letters
+ * @function
+ * @memberof module:config/routes
+ */
+router.get('/subscriptions/:id/dead-letters', WeatherController.getDeadLetters);
+
 /**
  * Discord active accounts endpoint
  * @name GET /api/discord/accounts
  * @function
  * @memberof module:config/routes
  */
-router.get('/discord/accounts', DiscordController.getActiveAccounts);
+router.get('/discord/accounts', negotiateFormat(discordAccountsRepresentation), DiscordController.getActiveAccounts);
 
 export default router;
@@ -0,0 +1,63 @@
+/**
+ * Weather provider configuration
+ * @module config/weatherProviders
+ */
+import { env } from './env';
+
+/**
+ * Per-provider overrides applied on top of each provider's defaults.
+ * @typedef {Object} WeatherProviderSettings
+ * @property {boolean} [enabled] - Whether the provider takes part in combined responses.
+ * @property {number} [priority] - Lower numbers are preferred for categorical data and single-source sections.
+ * @property {number} [weight] - Blend weight for numeric current conditions.
+ */
+export interface WeatherProviderSettings {
+	enabled?: boolean;
+	priority?: number;
+	weight?: number;
+}
+
+/**
+ * Static provider overrides, keyed by provider ID.
+ */
+const PROVIDER_OVERRIDES: Record<string, WeatherProviderSettings> = {
+	environmentCanada: { enabled: true, priority: 1, weight: 0.7 },
+	openMeteo: { enabled: true, priority: 2, weight: 0.3 },
+};
+
+/**
+ * Builds provider settings from the static overrides and the `WEATHER_PROVIDERS` variable.
+ * When the variable is set, only the listed providers are enabled and their order sets priority.
+ * @param {string|undefined} providerList - Comma-separated provider IDs
+ * @returns {Record<string, WeatherProviderSettings>} Settings keyed by provider ID
+ */
+function buildProviderSettings(providerList: string | undefined): Record<string, WeatherProviderSettings> {
+	const settings: Record<string, WeatherProviderSettings> = {};
+	for (const [id, overrides] of Object.entries(PROVIDER_OVERRIDES)) {
+		settings[id] = { ...overrides };
+	}
+
+	if (providerList === undefined) {
+		return settings;
+	}
+
+	const ids = providerList
+		.split(',')
+		.map((id) => id.trim())
+		.filter(Boolean);
+
+	for (const id of Object.keys(settings)) {
+		settings[id].enabled = false;
+	}
+
+	ids.forEach((id, index) => {
+		settings[id] = { ...settings[id], enabled: true, priority: index + 1 };
+	});
+
+	return settings;
+}
+
+/**
+ * Effective weather provider settings.
+ */
+export const weatherProviderConfig = buildProviderSettings(env.weatherProviders);
@@ -4,8 +4,99 @@
  * @module WeatherController
  */
 import { Request, Response, NextFunction } from 'express';
-import { weatherCacheManager } from '../services/weatherCacheManager';
+import { AirQualityData } from '../services/airQualityService';
+import { getAstronomy } from '../services/astronomyService';
+import { geocodePlace, MAX_PLACE_QUERY_LENGTH, Place, reverseGeocode } from '../services/geocodingService';
+import {
+	DEFAULT_FORECAST_MODELS,
+	DEFAULT_MODEL_DAYS,
+	FORECAST_MODEL_NAMES,
+	ForecastModel,
+	getModelComparison,
+	MAX_MODEL_DAYS,
+	ModelForecast,
+	ModelSpread,
+} from '../services/modelComparisonService';
+import {
+	DEFAULT_LANGUAGE,
+	isSupportedLanguage,
+	SUPPORTED_LANGUAGES,
+	SupportedLanguage,
+	translate,
+} from '../services/localization';
+import {
+	applyUnits,
+	convertSection,
+	createUnitOptions,
+	DEFAULT_UNIT_SYSTEM,
+	getUnitsFor,
+	MAX_PRECISION,
+	Quantity,
+	resolveUnit,
+	UNIT_SYSTEMS,
+	UnitOptions,
+	UnitSystem,
+} from '../services/unitConversion';
+import { airQualityCacheManager, weatherCacheManager } from '../services/weatherCacheManager';
+import {
+	getForecastSeries,
+	getSeriesUnitField,
+	getUnavailableVariables,
+	MAX_SERIES_DAYS,
+	SERIES_RESOLUTIONS,
+	SERIES_VARIABLE_NAMES,
+	SeriesResolution,
+	SeriesVariable,
+	SeriesWindow,
+} from '../services/forecastSeriesService';
+import {
+	forecastVerifier,
+	PRECIPITATION_PROBABILITY_THRESHOLD,
+	VERIFYING_SOURCE,
+} from '../services/forecastVerificationService';
+import {
+	countGridCells,
+	DEFAULT_GRID_RESOLUTION,
+	getWeatherGrid,
+	GridBounds,
+	MAX_GRID_CELLS,
+	MAX_GRID_RESOLUTION,
+	MIN_GRID_RESOLUTION,
+} from '../services/weatherGridService';
+import {
+	getWeatherHistory,
+	HISTORY_START_DATE,
+	HISTORY_VARIABLE_NAMES,
+	HistoryVariable,
+	MAX_HISTORY_DAYS,
+} from '../services/weatherHistoryService';
+import {
+	MAX_STREAM_CONNECTIONS,
+	MAX_STREAM_CONNECTIONS_PER_CLIENT,
+	STREAM_HEARTBEAT_MS,
+	STREAM_RETRY_MS,
+	StreamEvent,
+	weatherStreamManager,
+} from '../services/weatherStreamService';
+import { WeatherAlert, WeatherData } from '../services/weatherTypes';
+import { getWeatherCalendarEvents } from '../services/weatherCalendarService';
+import {
+	DEFAULT_WEBHOOK_EVENTS,
+	isManagementToken,
+	MAX_SUBSCRIPTIONS,
+	MAX_WEBHOOK_URL_LENGTH,
+	MIN_SECRET_LENGTH,
+	validateWebhookUrl,
+	WEBHOOK_EVENTS,
+	WebhookEvent,
+	webhookManager,
+	WebhookSubscription,
+} from '../services/webhookService';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { buildFieldTree, FieldTree, omitFields, parseFieldPaths, pickFields } from '../utils/fieldSelection';
+import { buildCalendar } from '../utils/icalendar';
 import { logger } from '../utils/logger';
+import { createMergePatch } from '../utils/mergePatch';
 
 /**
  * Validates latitude parameter
@@ -23,15 +114,832 @@ function validateLongitude(lon: string): boolean {
 	return !isNaN(longitude) && longitude >= -180 && longitude <= 180;
 }
 
+/**
+ * Status and body of an error response
+ */
+export interface ErrorResponse {
+	status: number;
+	body: { error: string; message: string; provided?: unknown; details?: string; timestamp?: string };
+}
+
+/**
+ * Validated value, or the error response to send instead
+ */
+export type Validated<T> = { value: T } | { error: ErrorResponse };
+
+/**
+ * Builds the result of a failed validation
+ */
+function invalid(status: number, error: string, message: string, provided: unknown): { error: ErrorResponse } {
+	return { error: { status, body: { error, message, provided } } };
+}
+
+/**
+ * Sends the error response of a failed validation.
+ *
+ * @returns Validated value, or null if an error response has been sent
+ */
+function sendIfInvalid<T>(res: Response, result: Validated<T>): T | null {
+	if ('error' in result) {
+		res.status(result.error.status).json(result.error.body);
+		return null;
+	}
+	return result.value;
+}
+
+/**
+ * Validates the response language of the given parameters. Defaults to English when no language is given.
+ */
+function validateLanguage(params: Record<string, unknown>): Validated<SupportedLanguage> {
+	const lang = params.lang ?? DEFAULT_LANGUAGE;
+
+	if (!isSupportedLanguage(lang)) {
+		return invalid(
+			400,
+			'Invalid language',
+			translate('invalidLanguage', DEFAULT_LANGUAGE, { languages: SUPPORTED_LANGUAGES.join(', ') }),
+			lang,
+		);
+	}
+
+	return { value: lang };
+}
+
+/**
+ * Extracts and validates the response language from the query string (or the given parameters, such as
+ * a JSON body), sending a 400 response when invalid. Defaults to English when no language is given.
+ *
+ * @returns Validated language, or null if a response has already been sent
+ */
+function resolveLanguage(
+	req: Request,
+	res: Response,
+	params: Record<string, unknown> = req.query,
+): SupportedLanguage | null {
+	return sendIfInvalid(res, validateLanguage(params));
+}
+
+/**
+ * Query parameters that override the unit of a single quantity
+ */
+const UNIT_OVERRIDE_PARAMETERS: Record<string, Quantity> = {
+	temperature: 'temperature',
+	wind: 'speed',
+	pressure: 'pressure',
+	visibility: 'distance',
+	precipitation: 'precipitation',
+};
+
+/**
+ * Validates the unit options (`units`, per-quantity overrides and `precision`) of the given parameters.
+ * Defaults to metric units with each unit's default precision.
+ */
+function validateUnitOptions(params: Record<string, unknown>, lang: SupportedLanguage): Validated<UnitOptions> {
+	const system = params.units ?? DEFAULT_UNIT_SYSTEM;
+	if (typeof system !== 'string' || !(system in UNIT_SYSTEMS)) {
+		return invalid(
+			400,
+			'Invalid units',
+			translate('invalidUnits', lang, { systems: Object.keys(UNIT_SYSTEMS).join(', ') }),
+			system,
+		);
+	}
+
+	const overrides: Partial<Record<Quantity, string>> = {};
+	for (const [parameter, quantity] of Object.entries(UNIT_OVERRIDE_PARAMETERS)) {
+		const requested = params[parameter];
+		if (requested === undefined) continue;
+
+		const unit = typeof requested === 'string' ? resolveUnit(requested, quantity) : null;
+		if (!unit) {
+			return invalid(
+				400,
+				'Invalid unit',
+				translate('invalidUnitOverride', lang, {
+					unit: String(requested),
+					parameter,
+					supported: getUnitsFor(quantity).join(', '),
+				}),
+				requested,
+			);
+		}
+		overrides[quantity] = unit;
+	}
+
+	let precision: number | null = null;
+	if (params.precision !== undefined) {
+		precision = Number(params.precision);
+		if (!Number.isInteger(precision) || precision < 0 || precision > MAX_PRECISION) {
+			return invalid(
+				400,
+				'Invalid precision',
+				translate('invalidPrecision', lang, { max: MAX_PRECISION }),
+				params.precision,
+			);
+		}
+	}
+
+	return { value: createUnitOptions(system as UnitSystem, overrides, precision) };
+}
+
+/**
+ * Extracts and validates unit options (`units`, per-quantity overrides and `precision`) from the query string,
+ * sending a 400 response when invalid. Defaults to metric units with each unit's default precision.
+ *
+ * @returns Validated unit options, or null if a response has already been sent
+ */
+function resolveUnitOptions(req: Request, res: Response, lang: SupportedLanguage): UnitOptions | null {
+	return sendIfInvalid(res, validateUnitOptions(req.query, lang));
+}
+
+/**
+ * Parses a YYYY-MM-DD date, returning null for malformed or impossible dates
+ */
+function parseIsoDate(value: unknown): string | null {
+	if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+		return null;
+	}
+	const date = new Date(`${value}T00:00:00Z`);
+	return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? value : null;
+}
+
+/**
+ * Extracts and validates the history date range (`start`, optional `end`) and variables (`vars`)
+ * from the query string, sending a 400 response when invalid.
+ *
+ * @returns Validated range and variables, or null if a response has already been sent
+ */
+function resolveHistoryQuery(
+	req: Request,
+	res: Response,
+	lang: SupportedLanguage,
+): { start: string; end: string; variables: HistoryVariable[] } | null {
+	const sendError = (error: string, message: string, provided: unknown) => {
+		res.status(400).json({ error, message, provided });
+		return null;
+	};
+
+	const start = parseIsoDate(req.query.start);
+	if (!start) {
+		return sendError('Invalid date', translate('invalidDate', lang, { parameter: 'start' }), req.query.start);
+	}
+
+	const end = req.query.end === undefined ? start : parseIsoDate(req.query.end);
+	if (!end) {
+		return sendError('Invalid date', translate('invalidDate', lang, { parameter: 'end' }), req.query.end);
+	}
+
+	const today = new Date().toISOString().slice(0, 10);
+	if (end < start) {
+		return sendError('Invalid date range', translate('invalidDateRange', lang), { start, end });
+	}
+	if (start < HISTORY_START_DATE) {
+		return sendError(
+			'Invalid date range',
+			translate('historyDateTooEarly', lang, { earliest: HISTORY_START_DATE }),
+			{ start, end },
+		);
+	}
+	if (end >= today) {
+		return sendError('Invalid date range', translate('historyDateNotPast', lang, { today }), { start, end });
+	}
+
+	const days = (Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000) + 1;
+	if (days > MAX_HISTORY_DAYS) {
+		return sendError('Invalid date range', translate('historyRangeTooLong', lang, { max: MAX_HISTORY_DAYS }), {
+			start,
+			end,
+		});
+	}
+
+	const variables = resolveVariables(req, res, lang, HISTORY_VARIABLE_NAMES);
+	return variables ? { start, end, variables } : null;
+}
+
+/**
+ * Extracts and validates the comma-separated `vars` query parameter, sending a 400 response when it
+ * names unknown variables. Defaults to all supported variables.
+ *
+ * @returns Requested variables, or null if a response has already been sent
+ */
+function resolveVariables<V extends string>(
+	req: Request,
+	res: Response,
+	lang: SupportedLanguage,
+	supported: V[],
+): V[] | null {
+	if (req.query.vars === undefined) {
+		return supported;
+	}
+
+	const requested = String(req.query.vars)
+		.split(',')
+		.map((name) => name.trim())
+		.filter(Boolean);
+	const unknown = requested.filter((name) => !(supported as string[]).includes(name));
+	if (requested.length === 0 || unknown.length > 0) {
+		res.status(400).json({
+			error: 'Invalid variables',
+			message: translate('invalidVariables', lang, {
+				variables: unknown.join(', ') || String(req.query.vars),
+				supported: supported.join(', '),
+			}),
+			provided: req.query.vars,
+		});
+		return null;
+	}
+
+	return Array.from(new Set(requested)) as V[];
+}
+
+/**
+ * Parses a local date (YYYY-MM-DD) or time (YYYY-MM-DDTHH:MM) of a forecast series window.
+ * Dates stand for the first step of the day, or the last step when `endOfDay` is set.
+ *
+ * @returns Local time (YYYY-MM-DDTHH:MM), or null for malformed values
+ */
+function parseLocalTime(value: unknown, resolution: SeriesResolution, endOfDay: boolean): string | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	const match = value.match(/^(\d{4}-\d{2}-\d{2})(?:T(\d{2}):(\d{2}))?$/);
+	if (!match || !parseIsoDate(match[1])) {
+		return null;
+	}
+
+	const [, date, hour, minute] = match;
+	if (hour === undefined) {
+		return `${date}T${endOfDay ? (resolution === '15min' ? '23:45' : '23:00') : '00:00'}`;
+	}
+	if (parseInt(hour, 10) > 23 || parseInt(minute, 10) > 59) {
+		return null;
+	}
+	return `${date}T${hour}:${minute}`;
+}
+
+/**
+ * Extracts and validates the forecast series query (`resolution`, `from`, `to` and `vars`),
+ * sending a 400 response when invalid. Without `from` the series covers the next 24 hours;
+ * with `from` only, it covers the 24 hours from `from`.
+ *
+ * @returns Validated query, or null if a response has already been sent
+ */
+function resolveSeriesQuery(
+	req: Request,
+	res: Response,
+	lang: SupportedLanguage,
+): { resolution: SeriesResolution; window: SeriesWindow | null; variables: SeriesVariable[] } | null {
+	const sendError = (error: string, message: string, provided: unknown) => {
+		res.status(400).json({ error, message, provided });
+		return null;
+	};
+
+	const resolution = (req.query.resolution ?? 'hourly') as SeriesResolution;
+	if (!SERIES_RESOLUTIONS.includes(resolution)) {
+		return sendError(
+			'Invalid resolution',
+			translate('invalidResolution', lang, { resolutions: SERIES_RESOLUTIONS.join(', ') }),
+			req.query.resolution,
+		);
+	}
+
+	let window: SeriesWindow | null = null;
+	if (req.query.from !== undefined || req.query.to !== undefined) {
+		const from = parseLocalTime(req.query.from, resolution, false);
+		if (req.query.from !== undefined && !from) {
+			return sendError(
+				'Invalid time',
+				translate('invalidLocalTime', lang, { parameter: 'from' }),
+				req.query.from,
+			);
+		}
+
+		const to =
+			req.query.to === undefined && from
+				? new Date(
+						Date.parse(`${from}Z`) + 24 * 60 * 60 * 1000 - (resolution === '15min' ? 15 : 60) * 60 * 1000,
+					)
+						.toISOString()
+						.slice(0, 16)
+				: parseLocalTime(req.query.to, resolution, true);
+		if (req.query.to !== undefined && !to) {
+			return sendError('Invalid time', translate('invalidLocalTime', lang, { parameter: 'to' }), req.query.to);
+		}
+
+		if (!from || !to || to <= from) {
+			return sendError('Invalid time window', translate('invalidTimeWindow', lang), {
+				from: req.query.from,
+				to: req.query.to,
+			});
+		}
+
+		// Local times may be up to a day off UTC; past hours belong to the history endpoint
+		const earliest = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+		const latest = new Date(Date.now() + MAX_SERIES_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+		if (from.slice(0, 10) < earliest || to.slice(0, 10) > latest) {
+			return sendError(
+				'Invalid time window',
+				translate('timeWindowOutOfRange', lang, { earliest, latest, max: MAX_SERIES_DAYS }),
+				{ from, to },
+			);
+		}
+
+		window = { from, to };
+	}
+
+	const variables = resolveVariables(req, res, lang, SERIES_VARIABLE_NAMES);
+	if (!variables) {
+		return null;
+	}
+
+	const unavailable = getUnavailableVariables(variables, resolution);
+	if (unavailable.length > 0) {
+		return sendError(
+			'Invalid variables',
+			translate('variablesUnavailableAtResolution', lang, { resolution, variables: unavailable.join(', ') }),
+			req.query.vars ?? null,
+		);
+	}
+
+	return { resolution, window, variables };
+}
+
+/**
+ * Extracts and validates the model comparison query (`models`, `days`, `summary` and `vars`),
+ * sending a 400 response when invalid. Defaults to GEM, GFS, ECMWF and ICON over 5 days.
+ *
+ * @returns Validated query, or null if a response has already been sent
+ */
+function resolveModelQuery(
+	req: Request,
+	res: Response,
+	lang: SupportedLanguage,
+): { models: ForecastModel[]; days: number; summary: boolean; variables: SeriesVariable[] } | null {
+	const sendError = (error: string, message: string, provided: unknown) => {
+		res.status(400).json({ error, message, provided });
+		return null;
+	};
+
+	let models = DEFAULT_FORECAST_MODELS;
+	if (req.query.models !== undefined) {
+		const requested = String(req.query.models)
+			.split(',')
+			.map((name) => name.trim().toLowerCase())
+			.filter(Boolean);
+		const unknown = requested.filter((name) => !(FORECAST_MODEL_NAMES as string[]).includes(name));
+		if (requested.length === 0 || unknown.length > 0) {
+			return sendError(
+				'Invalid models',
+				translate('invalidModels', lang, {
+					models: unknown.join(', ') || String(req.query.models),
+					supported: FORECAST_MODEL_NAMES.join(', '),
+				}),
+				req.query.models,
+			);
+		}
+		models = Array.from(new Set(requested)) as ForecastModel[];
+	}
+
+	const days = req.query.days === undefined ? DEFAULT_MODEL_DAYS : Number(req.query.days);
+	if (!Number.isInteger(days) || days < 1 || days > MAX_MODEL_DAYS) {
+		return sendError('Invalid days', translate('invalidDays', lang, { max: MAX_MODEL_DAYS }), req.query.days);
+	}
+
+	const summary = req.query.summary ?? 'false';
+	if (summary !== 'true' && summary !== 'false') {
+		return sendError('Invalid summary', translate('invalidBoolean', lang, { parameter: 'summary' }), summary);
+	}
+
+	const variables = resolveVariables(req, res, lang, SERIES_VARIABLE_NAMES);
+	if (!variables) {
+		return null;
+	}
+
+	return { models, days, summary: summary === 'true', variables };
+}
+
+/**
+ * Extracts and validates the weather grid query (`bbox`, `resolution`, `var` and `time`),
+ * sending a 400 response when invalid. Defaults to temperature at the current hour on 0.25° cells.
+ *
+ * @returns Validated query, or null if a response has already been sent
+ */
+function resolveGridQuery(
+	req: Request,
+	res: Response,
+	lang: SupportedLanguage,
+): {
+	bounds: GridBounds;
+	resolution: number;
+	variable: SeriesVariable;
+	time: string;
+} | null {
+	const sendError = (error: string, message: string, provided: unknown) => {
+		res.status(400).json({ error, message, provided });
+		return null;
+	};
+
+	const edges = typeof req.query.bbox === 'string' ? req.query.bbox.split(',').map(Number) : [];
+	const [west, south, east, north] = edges;
+	if (
+		edges.length !== 4 ||
+		edges.some((edge) => !Number.isFinite(edge)) ||
+		west < -180 ||
+		east > 180 ||
+		south < -90 ||
+		north > 90 ||
+		west >= east ||
+		south >= north
+	) {
+		return sendError('Invalid bounding box', translate('invalidBoundingBox', lang), req.query.bbox ?? null);
+	}
+	const bounds = { west, south, east, north };
+
+	const resolution = req.query.resolution === undefined ? DEFAULT_GRID_RESOLUTION : Number(req.query.resolution);
+	if (!Number.isFinite(resolution) || resolution < MIN_GRID_RESOLUTION || resolution > MAX_GRID_RESOLUTION) {
+		return sendError(
+			'Invalid resolution',
+			translate('invalidGridResolution', lang, { min: MIN_GRID_RESOLUTION, max: MAX_GRID_RESOLUTION }),
+			req.query.resolution,
+		);
+	}
+
+	const cells = countGridCells(bounds, resolution);
+	if (cells > MAX_GRID_CELLS) {
+		return sendError('Grid too large', translate('gridTooLarge', lang, { cells, max: MAX_GRID_CELLS }), {
+			bbox: req.query.bbox,
+			resolution,
+		});
+	}
+
+	const variable = (req.query.var ?? 'temperature') as SeriesVariable;
+	if (!SERIES_VARIABLE_NAMES.includes(variable)) {
+		return sendError(
+			'Invalid variables',
+			translate('invalidVariables', lang, {
+				variables: String(req.query.var),
+				supported: SERIES_VARIABLE_NAMES.join(', '),
+			}),
+			req.query.var,
+		);
+	}
+
+	// Grids span time zones, so times are UTC and rounded down to the hour
+	let time = `${new Date().toISOString().slice(0, 13)}:00`;
+	if (req.query.time !== undefined) {
+		const match =
+			typeof req.query.time === 'string'
+				? /^(\d{4}-\d{2}-\d{2}T\d{2}):\d{2}(:\d{2})?Z?$/.exec(req.query.time)
+				: null;
+		if (!match || isNaN(Date.parse(`${match[1]}:00Z`))) {
+			return sendError('Invalid time', translate('invalidGridTime', lang), req.query.time);
+		}
+		time = `${match[1]}:00`;
+
+		const earliest = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+		const latest = new Date(Date.now() + MAX_SERIES_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+		if (time.slice(0, 10) < earliest || time.slice(0, 10) > latest) {
+			return sendError(
+				'Invalid time',
+				translate('timeWindowOutOfRange', lang, { earliest, latest, max: MAX_SERIES_DAYS }),
+				req.query.time,
+			);
+		}
+	}
+
+	return { bounds, resolution, variable, time };
+}
+
+/**
+ * Coordinates of a request, with the place they were geocoded from when `q` was given
+ */
+export interface RequestCoordinates {
+	lat: string;
+	lon: string;
+	place: Place | null;
+}
+
+/**
+ * Validates the location of the given parameters: either coordinates (`lat`/`lon`) or a place name
+ * (`q`, e.g. "Ottawa,ON") looked up in the bundled gazetteer. Defaults to Ottawa when neither is given.
+ */
+function validateCoordinates(params: Record<string, unknown>, lang: SupportedLanguage): Validated<RequestCoordinates> {
+	const query = params.q;
+	if (query !== undefined) {
+		if (params.lat !== undefined || params.lon !== undefined) {
+			return invalid(400, 'Conflicting location', translate('conflictingLocation', lang), {
+				q: query,
+				lat: params.lat ?? null,
+				lon: params.lon ?? null,
+			});
+		}
+
+		if (typeof query !== 'string' || !query.trim() || query.length > MAX_PLACE_QUERY_LENGTH) {
+			return invalid(
+				400,
+				'Invalid place query',
+				translate('invalidPlaceQuery', lang, { max: MAX_PLACE_QUERY_LENGTH }),
+				query,
+			);
+		}
+
+		const place = geocodePlace(query);
+		if (!place) {
+			return invalid(404, 'Place not found', translate('placeNotFound', lang, { query }), query);
+		}
+
+		return { value: { lat: String(place.lat), lon: String(place.lon), place } };
+	}
+
+	const lat = params.lat !== undefined && params.lat !== '' ? String(params.lat) : '45.4215'; // Default to Ottawa
+	const lon = params.lon !== undefined && params.lon !== '' ? String(params.lon) : '-75.6998';
+
+	if (!validateLatitude(lat)) {
+		return invalid(400, 'Invalid latitude', translate('invalidLatitude', lang), lat);
+	}
+
+	if (!validateLongitude(lon)) {
+		return invalid(400, 'Invalid longitude', translate('invalidLongitude', lang), lon);
+	}
+
+	return { value: { lat, lon, place: null } };
+}
+
+/**
+ * Extracts and validates the location from the query string (or the given parameters, such as a JSON
+ * body), sending an error response when invalid. Accepts either coordinates (`lat`/`lon`) or a place
+ * name (`q`, e.g. "Ottawa,ON") looked up in the bundled gazetteer, and defaults to Ottawa when neither
+ * is given.
+ *
+ * @returns Validated coordinates, or null if a response has already been sent
+ */
+function resolveCoordinates(
+	req: Request,
+	res: Response,
+	lang: SupportedLanguage,
+	params: Record<string, unknown> = req.query,
+): RequestCoordinates | null {
+	return sendIfInvalid(res, validateCoordinates(params, lang));
+}
+
+/**
+ * Builds the `location` block shared by all responses: the coordinates, the place they were
+ * geocoded from (or the nearest named place) and its time zone.
+ */
+function describeLocation({ lat, lon, place }: RequestCoordinates) {
+	const nearest = place ? { place, distanceKm: 0 } : reverseGeocode(parseFloat(lat), parseFloat(lon));
+
+	return {
+		latitude: parseFloat(lat),
+		longitude: parseFloat(lon),
+		coordinates: `${lat}, ${lon}`,
+		place: nearest
+			? {
+					name: nearest.place.name,
+					region: nearest.place.region,
+					regionName: nearest.place.regionName,
+					country: nearest.place.country,
+					countryName: nearest.place.countryName,
+					distanceKm: Math.round(nearest.distanceKm * 10) / 10,
+				}
+			: null,
+		timezone: nearest?.place.timezone ?? null,
+	};
+}
+
+/**
+ * Longest accepted client-provided webhook secret (characters)
+ */
+const MAX_SECRET_LENGTH = 256;
+
+/**
+ * Extracts and validates the webhook settings (`url`, optional `events` and `secret`) from a
+ * subscription request body, sending a 400 response when invalid.
+ *
+ * @returns Validated settings, or null if a response has already been sent
+ */
+function resolveSubscriptionBody(
+	res: Response,
+	lang: SupportedLanguage,
+	body: Record<string, unknown>,
+): { url: string; events: WebhookEvent[]; secret?: string } | null {
+	const sendError = (error: string, message: string, provided: unknown) => {
+		res.status(400).json({ error, message, provided });
+		return null;
+	};
+
+	const url = validateWebhookUrl(body.url);
+	if (!url) {
+		return sendError(
+			'Invalid webhook URL',
+			translate('invalidWebhookUrl', lang, { max: MAX_WEBHOOK_URL_LENGTH }),
+			body.url ?? null,
+		);
+	}
+
+	const events = body.events ?? DEFAULT_WEBHOOK_EVENTS;
+	if (
+		!Array.isArray(events) ||
+		events.length === 0 ||
+		!events.every((event) => (WEBHOOK_EVENTS as unknown[]).includes(event))
+	) {
+		return sendError(
+			'Invalid events',
+			translate('invalidWebhookEvents', lang, { supported: WEBHOOK_EVENTS.join(', ') }),
+			body.events,
+		);
+	}
+
+	const secret = body.secret;
+	if (
+		secret !== undefined &&
+		(typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH || secret.length > MAX_SECRET_LENGTH)
+	) {
+		// The secret itself is not echoed back
+		return sendError(
+			'Invalid secret',
+			translate('invalidWebhookSecret', lang, { min: MIN_SECRET_LENGTH, max: MAX_SECRET_LENGTH }),
+			typeof secret === 'string' ? `${secret.length} characters` : typeof secret,
+		);
+	}
+
+	return { url, events: Array.from(new Set(events as WebhookEvent[])), secret };
+}
+
+/**
+ * Looks up the subscription named by the `id` route parameter and checks the management token in the
+ * `Authorization: Bearer` header, sending a 404 response when the subscription does not exist, a 401
+ * response without a token and a 403 response when the token is not the subscription's.
+ *
+ * @returns Subscription, or null if a response has already been sent
+ */
+function findSubscription(req: Request, res: Response, lang: SupportedLanguage): WebhookSubscription | null {
+	const subscription = webhookManager.getSubscription(req.params.id);
+	if (!subscription) {
+		res.status(404).json({
+			error: 'Subscription not found',
+			message: translate('subscriptionNotFound', lang, { id: req.params.id }),
+			provided: req.params.id,
+		});
+		return null;
+	}
+
+	const authorization = req.headers.authorization;
+	const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+	if (!token) {
+		res.status(401).json({
+			error: 'Missing management token',
+			message: translate('missingManagementToken', lang),
+		});
+		return null;
+	}
+	if (!isManagementToken(subscription, token)) {
+		res.status(403).json({
+			error: 'Invalid management token',
+			message: translate('invalidManagementToken', lang, { id: subscription.id }),
+		});
+		return null;
+	}
+
+	return subscription;
+}
+
+/**
+ * Describes a subscription for responses; the secret and management token are only returned when the
+ * subscription is created.
+ */
+function describeSubscription(subscription: WebhookSubscription) {
+	return {
+		id: subscription.id,
+		url: subscription.url,
+		events: subscription.events,
+		location: describeLocation({ lat: subscription.lat, lon: subscription.lon, place: null }),
+		language: subscription.lang,
+		createdAt: subscription.createdAt,
+		deliveries: subscription.stats,
+		deadLetters: webhookManager.getDeadLetters(subscription.id).length,
+	};
+}
+
+/**
+ * Gets weather data for coordinates from the cache, starting to cache the location if needed
+ */
+async function getCachedWeather(lat: string, lon: string, lang: SupportedLanguage): Promise<WeatherData> {
+	// Check if data is already cached
+	const weatherData = weatherCacheManager.getCachedData(lat, lon, lang);
+	if (weatherData) {
+		return weatherData;
+	}
+
+	// Start caching for this location (fetches initial data)
+	logger.info(`Starting cache for new location: ${lat}, ${lon} (${lang})`);
+	return weatherCacheManager.startCaching(lat, lon, lang);
+}
+
+/**
+ * Gets air quality data for coordinates from the cache, starting to cache the location if needed
+ */
+async function getCachedAirQuality(lat: string, lon: string, lang: SupportedLanguage): Promise<AirQualityData> {
+	const airQuality = airQualityCacheManager.getCachedData(lat, lon, lang);
+	if (airQuality) {
+		return airQuality;
+	}
+
+	logger.info(`Starting air quality cache for new location: ${lat}, ${lon} (${lang})`);
+	return airQualityCacheManager.startCaching(lat, lon, lang);
+}
+
+/**
+ * Top-level blocks of the weather response that field paths can name directly; other paths name fields of `data`
+ */
+const RESPONSE_FIELD_BLOCKS = ['location', 'metadata'];
+
+/**
+ * Sections of `data` in the weather response
+ */
+const DATA_FIELD_SECTIONS = ['current', 'hourly', 'forecast', 'alerts', 'sources'];
+
+/**
+ * Response fields sent with every sparse response unless excluded
+ */
+const ALWAYS_INCLUDED_FIELDS = ['location', 'language', 'units', 'timestamp'];
+
+/**
+ * Validates the sparse fieldset parameters of the given parameters. `fields` and its alias `include`
+ * keep only the listed paths (plus the location, language, units and timestamp); `exclude` then removes
+ * paths. Paths name fields of `data` (e.g. `current.temperature`) or the top-level `location` and
+ * `metadata` blocks.
+ *
+ * @returns Field trees to keep and remove (null when not given), or the error response
+ */
+function validateFieldSelection(
+	params: Record<string, unknown>,
+	lang: SupportedLanguage,
+): Validated<{ include: FieldTree | null; exclude: FieldTree | null }> {
+	const selected = { fields: [] as string[][], include: [] as string[][], exclude: [] as string[][] };
+
+	for (const parameter of ['fields', 'include', 'exclude'] as const) {
+		const value = params[parameter];
+		if (value === undefined) {
+			continue;
+		}
+
+		const paths = parseFieldPaths(value);
+		if (
+			!paths ||
+			paths.some(
+				([section]) => !RESPONSE_FIELD_BLOCKS.includes(section) && !DATA_FIELD_SECTIONS.includes(section),
+			)
+		) {
+			return invalid(
+				400,
+				'Invalid fields',
+				translate('invalidFields', lang, {
+					parameter,
+					supported: [...DATA_FIELD_SECTIONS, ...RESPONSE_FIELD_BLOCKS].join(', '),
+				}),
+				value,
+			);
+		}
+
+		// Paths outside the top-level blocks are relative to `data`
+		selected[parameter] = paths.map((segments) =>
+			RESPONSE_FIELD_BLOCKS.includes(segments[0]) ? segments : ['data', ...segments],
+		);
+	}
+
+	const included = [...selected.fields, ...selected.include];
+	return {
+		value: {
+			include:
+				included.length > 0
+					? buildFieldTree([...ALWAYS_INCLUDED_FIELDS.map((field) => [field]), ...included])
+					: null,
+			exclude: selected.exclude.length > 0 ? buildFieldTree(selected.exclude) : null,
+		},
+	};
+}
+
 /**
  * Formats the weather response with metadata
  */
-function formatWeatherResponse(data: any, lat: string, lon: string) {
+function formatWeatherResponse(
+	data: WeatherData,
+	coordinates: RequestCoordinates,
+	lang: SupportedLanguage,
+	units: UnitOptions,
+) {
 	return {
 		location: {
-			latitude: parseFloat(lat),
-			longitude: parseFloat(lon),
-			coordinates: `${lat}, ${lon}`,
+			...describeLocation(coordinates),
+			site: data.site || null,
+		},
+		language: lang,
+		units: {
+			system: units.system,
+			...units.units,
+			precision: units.precision,
 		},
 		timestamp: new Date().toISOString(),
 		data: {
@@ -49,7 +957,7 @@ function formatWeatherResponse(data: any, lat: string, lon: string) {
 			capabilities: {
 				current: 'Real-time conditions with feels-like temperature (humidex/wind chill/apparent temp)',
 				hourly: 'Next 24 hours with detailed conditions from Open-Meteo',
-				'7day': 'Weekly forecast from Environment Canada RSS',
+				'7day': 'Daily day/night forecast for the next 7 days from Environment Canada RSS',
 				'14day': 'Extended daily forecast from Open-Meteo',
 				alerts: 'Weather warnings and watches from Environment Canada',
 			},
@@ -58,78 +966,1137 @@ function formatWeatherResponse(data: any, lat: string, lon: string) {
 				seasonal: 'Only monthly/ensemble trends available from Open-Meteo seasonal API',
 			},
 			dataProcessing: {
-				temperatures: 'All temperatures are rounded to nearest degree',
-				feelsLike: 'Unified feels-like using humidex (>20°C), wind chill (<10°C), or apparent temperature',
+				units: 'Converted to the requested unit system; `precision` sets decimal places for every converted value',
+				feelsLike:
+					'Wind chill (≤10°C, wind ≥5 km/h), humidex in Canada (≥20°C, from 25) or NWS heat index elsewhere (≥26.7°C), otherwise the air temperature; the index used is reported in feelsLikeIndex',
 				windData: 'Combined from both sources for comprehensive coverage',
+				confidence:
+					'Blended current values weight each source by its observation age and station distance; current.sources.agreement compares the sources and flags variables on which they disagree',
 			},
 		},
 	};
 }
 
-/**
- * Controller for weather-related endpoints.
- */
-export class WeatherController {
+/**
+ * Validated parameters of a weather request
+ */
+export interface WeatherQuery {
+	coordinates: RequestCoordinates;
+	lang: SupportedLanguage;
+	units: UnitOptions;
+	fieldSelection: { include: FieldTree | null; exclude: FieldTree | null };
+}
+
+/**
+ * Gets the weather data of a location
+ */
+export type WeatherFetcher = (lat: string, lon: string, lang: SupportedLanguage) => Promise<WeatherData>;
+
+/**
+ * Validates the parameters of a weather request: location, language, units and fields, with the
+ * rules of `GET /weather`.
+ *
+ * @param params - Query parameters, or parameters in the same form (such as a WebSocket message)
+ * @returns Validated query, or the error response
+ */
+export function validateWeatherQuery(params: Record<string, unknown>): Validated<WeatherQuery> {
+	const lang = validateLanguage(params);
+	if ('error' in lang) {
+		return lang;
+	}
+	const coordinates = validateCoordinates(params, lang.value);
+	if ('error' in coordinates) {
+		return coordinates;
+	}
+	const units = validateUnitOptions(params, lang.value);
+	if ('error' in units) {
+		return units;
+	}
+	const fieldSelection = validateFieldSelection(params, lang.value);
+	if ('error' in fieldSelection) {
+		return fieldSelection;
+	}
+
+	return {
+		value: {
+			coordinates: coordinates.value,
+			lang: lang.value,
+			units: units.value,
+			fieldSelection: fieldSelection.value,
+		},
+	};
+}
+
+/**
+ * Validates the parameters of a weather request and gets the location's weather data, as
+ * `GET /weather`, batch entries and WebSocket subscriptions do.
+ *
+ * @param params - Query parameters, or parameters in the same form
+ * @param fetchWeather - Gets the weather data; by default from the cache, starting to cache the location
+ * @returns Validated query and weather data, or the error response (500 when the data could not be fetched)
+ */
+export async function loadWeather(
+	params: Record<string, unknown>,
+	fetchWeather: WeatherFetcher = getCachedWeather,
+): Promise<Validated<{ query: WeatherQuery; data: WeatherData }>> {
+	const validated = validateWeatherQuery(params);
+	if ('error' in validated) {
+		return validated;
+	}
+
+	const query = validated.value;
+	const { lat, lon } = query.coordinates;
+	try {
+		return { value: { query, data: await fetchWeather(lat, lon, query.lang) } };
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		logger.error(`Weather fetch error for ${lat}, ${lon}: ${errorMessage}`);
+
+		return {
+			error: {
+				status: 500,
+				body: {
+					error: 'Weather service unavailable',
+					message: translate('weatherUnavailable', query.lang),
+					details: errorMessage,
+					timestamp: new Date().toISOString(),
+				},
+			},
+		};
+	}
+}
+
+/**
+ * Converts cached weather data to the requested units, formats it and shapes it to the requested fields
+ */
+export function buildWeatherResponse(
+	data: WeatherData,
+	{ coordinates, lang, units, fieldSelection }: WeatherQuery,
+): unknown {
+	// Cached data is kept in metric units and converted per request
+	let response: unknown = formatWeatherResponse(applyUnits(data, units), coordinates, lang, units);
+	if (fieldSelection.include) {
+		response = pickFields(response, fieldSelection.include);
+	}
+	if (fieldSelection.exclude) {
+		response = omitFields(response, fieldSelection.exclude);
+	}
+	return response;
+}
+
+/**
+ * Most locations in one batch request
+ */
+const MAX_BATCH_LOCATIONS = 250;
+
+/**
+ * Locations of a batch request fetched at once
+ */
+const BATCH_CONCURRENCY = 8;
+
+/**
+ * Converts parameters from a JSON body to the form of query parameters, so they are validated like
+ * them: numbers become strings and lists (such as `fields`) are joined with commas.
+ */
+function toQueryParams(params: Record<string, unknown>): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(params).map(([key, value]) => [
+			key,
+			typeof value === 'number' ? String(value) : Array.isArray(value) ? value.join(',') : value,
+		]),
+	);
+}
+
+/**
+ * Formats of the weather stream's refresh events
+ */
+const STREAM_MODES = ['snapshot', 'diff'] as const;
+
+/**
+ * Writes a Server-Sent Events message
+ */
+function writeStreamEvent(res: Response, event: string, data: unknown, id?: string): void {
+	res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Controller for weather-related endpoints.
+ */
+export class WeatherController {
+	/**
+	 * Handles GET /weather requests with comprehensive weather data.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async getWeather(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const loaded = sendIfInvalid(res, await loadWeather(req.query));
+		if (!loaded) {
+			return;
+		}
+
+		const { query, data } = loaded;
+		const { lat, lon } = query.coordinates;
+		logger.info(`Weather request for coordinates: ${lat}, ${lon} (${query.lang}, ${query.units.system})`);
+
+		res.json(buildWeatherResponse(data, query));
+	}
+
+	/**
+	 * Handles POST /weather/batch requests with the weather of many locations in one response.
+	 * Each entry of `locations` takes the parameters of GET /weather, with the other body parameters
+	 * as defaults; entries are validated and fetched independently, so one failing location does not
+	 * fail the others.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async getWeatherBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const body: Record<string, unknown> =
+			req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+		const lang = resolveLanguage(req, res, body);
+		if (!lang) {
+			return;
+		}
+
+		// A location given alongside the list would apply to every entry, so it is ignored
+		const { locations, q: _q, lat: _lat, lon: _lon, ...defaults } = body;
+		if (!Array.isArray(locations) || locations.length === 0 || locations.length > MAX_BATCH_LOCATIONS) {
+			res.status(400).json({
+				error: 'Invalid batch',
+				message: translate('invalidBatch', lang, { max: MAX_BATCH_LOCATIONS }),
+				provided: Array.isArray(locations) ? `${locations.length} locations` : (locations ?? null),
+			});
+			return;
+		}
+
+		logger.info(`Weather batch request for ${locations.length} locations (${lang})`);
+
+		// Entries for the same location share one fetch; locations that are not cached yet are fetched
+		// without starting a periodic refresh for each of them
+		const fetches = new Map<string, Promise<WeatherData>>();
+		const fetchShared: WeatherFetcher = (lat, lon, entryLang) => {
+			const key = `${lat},${lon},${entryLang}`;
+			let fetch = fetches.get(key);
+			if (!fetch) {
+				fetch = weatherCacheManager.getOrFetch(lat, lon, entryLang);
+				fetches.set(key, fetch);
+			}
+			return fetch;
+		};
+		const results = await mapWithConcurrency(locations, BATCH_CONCURRENCY, async (location: unknown, index) => {
+			if (
+				!location ||
+				typeof location !== 'object' ||
+				Array.isArray(location) ||
+				!['q', 'lat', 'lon'].some((key) => key in location)
+			) {
+				return {
+					index,
+					status: 400,
+					error: {
+						error: 'Invalid location',
+						message: translate('invalidBatchLocation', lang),
+						provided: location ?? null,
+					},
+				};
+			}
+
+			const loaded = await loadWeather(toQueryParams({ ...defaults, ...location }), fetchShared);
+			if ('error' in loaded) {
+				return { index, status: loaded.error.status, error: loaded.error.body };
+			}
+			return { index, status: 200, data: buildWeatherResponse(loaded.value.data, loaded.value.query) };
+		});
+
+		const succeeded = results.filter((result) => result.status === 200).length;
+		res.json({
+			language: lang,
+			timestamp: new Date().toISOString(),
+			count: results.length,
+			succeeded,
+			failed: results.length - succeeded,
+			results,
+		});
+	}
+
+	/**
+	 * Handles GET /weather/stream requests with a Server-Sent Events stream of the location's weather.
+	 * A `snapshot` event carries the current data, then every cache refresh sends an `update` event
+	 * (the full response, or a JSON merge patch against the previous one in `diff` mode) followed by
+	 * `alert.issued` and `alert.updated` events. Clients resuming with `Last-Event-ID` receive the
+	 * events they missed instead of a snapshot while those are still buffered.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async getWeatherStream(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const query = sendIfInvalid(res, validateWeatherQuery(req.query));
+		if (!query) {
+			return;
+		}
+		const { lang, units } = query;
+
+		try {
+			const { lat, lon } = query.coordinates;
+
+			const mode = req.query.mode ?? 'snapshot';
+			if (!(STREAM_MODES as readonly unknown[]).includes(mode)) {
+				res.status(400).json({
+					error: 'Invalid mode',
+					message: translate('invalidStreamMode', lang, { supported: STREAM_MODES.join(', ') }),
+					provided: mode,
+				});
+				return;
+			}
+
+			const clientId = (req.headers['cf-requesting-ip'] as string) || req.ip || '';
+			const limit = weatherStreamManager.getLimitReached(clientId);
+			if (limit) {
+				const max = limit === 'server' ? MAX_STREAM_CONNECTIONS : MAX_STREAM_CONNECTIONS_PER_CLIENT;
+				res.status(limit === 'server' ? 503 : 429).json({
+					error: 'Too many streams',
+					message: translate(limit === 'server' ? 'streamLimitReached' : 'streamClientLimitReached', lang, {
+						max,
+					}),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
+
+			logger.info(`Weather stream opened for coordinates: ${lat}, ${lon} (${lang}, ${units.system}, ${mode})`);
+
+			const weatherData = await getCachedWeather(lat, lon, lang);
+
+			// EventSource sends the header when reconnecting; the query parameter serves the first connection
+			const lastEventId = req.headers['last-event-id'] ?? req.query.lastEventId;
+			const missedEvents =
+				typeof lastEventId === 'string'
+					? weatherStreamManager.getEventsSince(lat, lon, lang, lastEventId)
+					: null;
+
+			res.status(200).set({
+				'Content-Type': 'text/event-stream',
+				'Cache-Control': 'no-cache, no-transform',
+				Connection: 'keep-alive',
+				'X-Accel-Buffering': 'no',
+			});
+			res.flushHeaders();
+			res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+			const build = (data: WeatherData) => buildWeatherResponse(data, query);
+			const firstUpdate = missedEvents?.find((event) => event.event === 'update');
+
+			// Response the client currently holds, which diffs are computed against
+			let lastResponse = build(
+				firstUpdate?.event === 'update' && firstUpdate.previous ? firstUpdate.previous : weatherData,
+			);
+
+			const send = (event: StreamEvent) => {
+				if (event.event !== 'update') {
+					writeStreamEvent(res, event.event, event.data, event.id);
+					return;
+				}
+
+				const response = build(event.current);
+				const patch = mode === 'diff' ? (createMergePatch(lastResponse, response) ?? {}) : response;
+				lastResponse = response;
+				writeStreamEvent(res, 'update', patch, event.id);
+			};
+
+			if (missedEvents) {
+				missedEvents.forEach(send);
+			} else {
+				writeStreamEvent(res, 'snapshot', lastResponse, weatherStreamManager.getLastEventId(lat, lon, lang));
+			}
+
+			const disconnect = weatherStreamManager.connect(lat, lon, lang, clientId, send);
+			const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_HEARTBEAT_MS);
+
+			req.on('close', () => {
+				clearInterval(heartbeat);
+				disconnect();
+				logger.info(`Weather stream closed for coordinates: ${lat}, ${lon} (${lang})`);
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.error(`Weather stream error: ${errorMessage}`);
+
+			const body = {
+				error: 'Weather service unavailable',
+				message: translate('weatherUnavailable', lang),
+				details: errorMessage,
+				timestamp: new Date().toISOString(),
+			};
+
+			// Once the stream has started, the status can no longer change, so the error is sent as an event
+			if (res.headersSent) {
+				writeStreamEvent(res, 'error', body);
+				res.end();
+				return;
+			}
+			res.status(500).json(body);
+		}
+	}
+
+	/**
+	 * Handles GET /weather/alerts requests with active warnings and watches.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async getAlerts(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		try {
+			const coordinates = resolveCoordinates(req, res, lang);
+			if (!coordinates) {
+				return;
+			}
+			const { lat, lon } = coordinates;
+
+			logger.info(`Weather alerts request for coordinates: ${lat}, ${lon} (${lang})`);
+
+			const weatherData = await getCachedWeather(lat, lon, lang);
+			const alerts: WeatherAlert[] = weatherData.alerts || [];
+			const inEffect = alerts.filter((alert) => alert.status === 'active' && alert.type !== 'notice');
+
+			res.json({
+				location: {
+					...describeLocation(coordinates),
+					site: weatherData.site || null,
+				},
+				language: lang,
+				timestamp: new Date().toISOString(),
+				data: {
+					inEffect: inEffect.length > 0,
+					count: inEffect.length,
+					message: inEffect.length > 0 ? null : translate('noAlertsInEffect', lang),
+					alerts,
+				},
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.error(`Weather alerts fetch error: ${errorMessage}`);
+
+			res.status(500).json({
+				error: 'Weather service unavailable',
+				message: translate('alertsUnavailable', lang),
+				details: errorMessage,
+				timestamp: new Date().toISOString(),
+			});
+		}
+	}
+
+	/**
+	 * Handles GET /weather/calendar.ics requests with an iCalendar feed of the location's forecast days
+	 * and alerts in effect, for subscribing from calendar applications.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async getWeatherCalendar(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		try {
+			const coordinates = resolveCoordinates(req, res, lang);
+			if (!coordinates) {
+				return;
+			}
+			const { lat, lon } = coordinates;
+
+			const units = resolveUnitOptions(req, res, lang);
+			if (!units) {
+				return;
+			}
+
+			logger.info(`Weather calendar request for coordinates: ${lat}, ${lon} (${lang}, ${units.system})`);
+
+			// Cached data is kept in metric units and converted per request
+			const weatherData = applyUnits(await getCachedWeather(lat, lon, lang), units);
+			const { place } = describeLocation(coordinates);
+
+			const calendar = buildCalendar(getWeatherCalendarEvents(weatherData, `${lat},${lon}`, lang), {
+				name: translate('calendarName', lang, { place: place?.name ?? `${lat}, ${lon}` }),
+				refreshInterval: 'PT1H',
+			});
+
+			res.type('text/calendar; charset=utf-8')
+				.set('Content-Disposition', 'inline; filename="weather.ics"')
+				.send(calendar);
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.error(`Weather calendar error: ${errorMessage}`);
+
+			res.status(500).json({
+				error: 'Weather service unavailable',
+				message: translate('calendarUnavailable', lang),
+				details: errorMessage,
+				timestamp: new Date().toISOString(),
+			});
+		}
+	}
+
+	/**
+	 * Handles GET /weather/hourly requests with an hourly or 15-minute forecast time series.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async getForecastSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		try {
+			const coordinates = resolveCoordinates(req, res, lang);
+			if (!coordinates) {
+				return;
+			}
+			const { lat, lon } = coordinates;
+
+			const units = resolveUnitOptions(req, res, lang);
+			if (!units) {
+				return;
+			}
+
+			const query = resolveSeriesQuery(req, res, lang);
+			if (!query) {
+				return;
+			}
+			const { resolution, window, variables } = query;
+
+			logger.info(`Forecast series request for coordinates: ${lat}, ${lon} (${resolution})`);
+
+			const series = await getForecastSeries(lat, lon, window, variables, resolution, lang);
+
+			const location = describeLocation(coordinates);
+
+			res.json({
+				location: {
+					...location,
+					timezone: series.timezone ?? location.timezone,
+					utcOffsetSeconds: series.utcOffsetSeconds,
+				},
+				language: lang,
+				units: {
+					system: units.system,
+					...units.units,
+					precision: units.precision,
+				},
+				timestamp: new Date().toISOString(),
+				resolution,
+				period: window ?? {
+					from: series.entries[0]?.time ?? null,
+					to: series.entries[series.entries.length - 1]?.time ?? null,
+				},
+				data: {
+					series: convertSection(series.entries, 'hourly', units),
+				},
+				metadata: {
+					source: series.source,
+					variables: series.variables,
+					note: 'Times are local to the location',
+				},
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.error(`Forecast series fetch error: ${errorMessage}`);
+
+			res.status(500).json({
+				error: 'Forecast series unavailable',
+				message: translate('forecastSeriesUnavailable', lang),
+				details: errorMessage,
+				timestamp: new Date().toISOString(),
+			});
+		}
+	}
+
 	/**
-	 * Handles GET /weather requests with comprehensive weather data.
+	 * Handles GET /weather/grid requests with one variable sampled over a regular grid, for map overlays.
+	 * Responds with rows of values from the north-west corner; the GeoJSON format has a polygon per cell.
 	 * @param req Express request
 	 * @param res Express response
 	 * @param next Express next function
 	 */
-	public static async getWeather(req: Request, res: Response, next: NextFunction): Promise<void> {
+	public static async getWeatherGrid(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		try {
+			const units = resolveUnitOptions(req, res, lang);
+			if (!units) {
+				return;
+			}
+
+			const query = resolveGridQuery(req, res, lang);
+			if (!query) {
+				return;
+			}
+			const { bounds, resolution, variable, time } = query;
+
+			logger.info(
+				`Weather grid request for ${variable} over ${bounds.west},${bounds.south},${bounds.east},${bounds.north} at ${resolution}°`,
+			);
+
+			const grid = await getWeatherGrid(bounds, resolution, variable, time, lang);
+
+			// Cells Open-Meteo returned nothing for keep a null value
+			const unitField = getSeriesUnitField(variable);
+			const entries = convertSection(
+				grid.cells.map((cell) => cell.entry ?? { time }),
+				'hourly',
+				units,
+			);
+			const values = entries.map((entry) => entry[variable] ?? null);
+			const unit = (unitField && entries.find((entry) => entry[unitField] !== undefined)?.[unitField]) ?? null;
+
+			res.json({
+				language: lang,
+				units: {
+					system: units.system,
+					...units.units,
+					precision: units.precision,
+				},
+				timestamp: new Date().toISOString(),
+				time,
+				variable,
+				unit,
+				grid: {
+					bounds: grid.bounds,
+					resolution,
+					rows: grid.rows,
+					columns: grid.columns,
+				},
+				data: {
+					latitudes: grid.cells.filter((cell) => cell.column === 0).map((cell) => cell.latitude),
+					longitudes: grid.cells.filter((cell) => cell.row === 0).map((cell) => cell.longitude),
+					values: Array.from({ length: grid.rows }, (_, row) =>
+						values.slice(row * grid.columns, (row + 1) * grid.columns),
+					),
+				},
+				metadata: {
+					source: grid.source,
+					cachedCells: grid.cachedCells,
+					note: 'Times are UTC; each value is the forecast at the centre of its cell',
+				},
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.error(`Weather grid fetch error: ${errorMessage}`);
+
+			res.status(500).json({
+				error: 'Weather grid unavailable',
+				message: translate('weatherGridUnavailable', lang),
+				details: errorMessage,
+				timestamp: new Date().toISOString(),
+			});
+		}
+	}
+
+	/**
+	 * Handles GET /weather/models requests with side-by-side forecasts from several models.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async getModelComparison(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		try {
+			const coordinates = resolveCoordinates(req, res, lang);
+			if (!coordinates) {
+				return;
+			}
+			const { lat, lon } = coordinates;
+
+			const units = resolveUnitOptions(req, res, lang);
+			if (!units) {
+				return;
+			}
+
+			const query = resolveModelQuery(req, res, lang);
+			if (!query) {
+				return;
+			}
+			const { models, days, summary, variables } = query;
+
+			logger.info(`Model comparison request for coordinates: ${lat}, ${lon} (${models.join(', ')})`);
+
+			const comparison = await getModelComparison(lat, lon, models, variables, days, lang);
+			const location = describeLocation(coordinates);
+
+			const convertSpread = <T extends Record<string, any>>(
+				spread: ModelSpread<T>,
+				section: 'hourly' | '14day',
+			) => ({
+				min: convertSection(spread.min, section, units),
+				mean: convertSection(spread.mean, section, units),
+				max: convertSection(spread.max, section, units),
+			});
+
+			res.json({
+				location: {
+					...location,
+					timezone: comparison.timezone ?? location.timezone,
+					utcOffsetSeconds: comparison.utcOffsetSeconds,
+				},
+				language: lang,
+				units: {
+					system: units.system,
+					...units.units,
+					precision: units.precision,
+				},
+				timestamp: new Date().toISOString(),
+				days,
+				data: {
+					models: Object.fromEntries(
+						models.map((model) => {
+							const forecast = comparison.models[model] as ModelForecast;
+							return [
+								model,
+								{
+									name: forecast.name,
+									openMeteoModel: forecast.openMeteoModel,
+									hourly: convertSection(forecast.hourly, 'hourly', units),
+									daily: convertSection(forecast.daily, '14day', units),
+								},
+							];
+						}),
+					),
+					summary: summary
+						? {
+								hourly: convertSpread(comparison.spread.hourly, 'hourly'),
+								daily: convertSpread(comparison.spread.daily, '14day'),
+							}
+						: null,
+				},
+				metadata: {
+					source: comparison.source,
+					models,
+					variables: comparison.variables,
+					note: 'Times are local to the location. Models with a shorter horizon report null beyond it and are left out of the summary.',
+				},
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.error(`Model comparison fetch error: ${errorMessage}`);
+
+			res.status(500).json({
+				error: 'Model comparison unavailable',
+				message: translate('modelComparisonUnavailable', lang),
+				details: errorMessage,
+				timestamp: new Date().toISOString(),
+			});
+		}
+	}
+
+	/**
+	 * Handles GET /weather/history requests with past hourly and daily observations.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async getHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		try {
+			const coordinates = resolveCoordinates(req, res, lang);
+			if (!coordinates) {
+				return;
+			}
+			const { lat, lon } = coordinates;
+
+			const units = resolveUnitOptions(req, res, lang);
+			if (!units) {
+				return;
+			}
+
+			const query = resolveHistoryQuery(req, res, lang);
+			if (!query) {
+				return;
+			}
+			const { start, end, variables } = query;
+
+			logger.info(`Weather history request for coordinates: ${lat}, ${lon} from ${start} to ${end}`);
+
+			const history = await getWeatherHistory(lat, lon, start, end, variables, lang);
+
+			res.json({
+				location: describeLocation(coordinates),
+				language: lang,
+				units: {
+					system: units.system,
+					...units.units,
+					precision: units.precision,
+				},
+				timestamp: new Date().toISOString(),
+				period: { start, end },
+				data: {
+					hourly: convertSection(history.hourly, 'hourly', units),
+					daily: convertSection(history.daily, '14day', units),
+				},
+				metadata: {
+					source: history.source,
+					variables: history.variables,
+				},
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.error(`Weather history fetch error: ${errorMessage}`);
+
+			res.status(500).json({
+				error: 'Weather history unavailable',
+				message: translate('historyUnavailable', lang),
+				details: errorMessage,
+				timestamp: new Date().toISOString(),
+			});
+		}
+	}
+
+	/**
+	 * Handles GET /air-quality requests with AQHI, pollutant, index and pollen data.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async getAirQuality(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		try {
+			const coordinates = resolveCoordinates(req, res, lang);
+			if (!coordinates) {
+				return;
+			}
+			const { lat, lon } = coordinates;
+
+			logger.info(`Air quality request for coordinates: ${lat}, ${lon} (${lang})`);
+
+			const airQuality = await getCachedAirQuality(lat, lon, lang);
+
+			res.json({
+				location: {
+					...describeLocation(coordinates),
+					aqhiCommunity: airQuality.aqhi?.community ?? null,
+				},
+				language: lang,
+				timestamp: new Date().toISOString(),
+				data: {
+					aqhi: airQuality.aqhi
+						? { current: airQuality.aqhi.current, forecast: airQuality.aqhi.forecast }
+						: null,
+					current: airQuality.current,
+					hourly: airQuality.hourly,
+					sources: airQuality.sources,
+				},
+				metadata: {
+					note: 'AQHI is reported for Canadian communities only; pollen is only modelled over Europe',
+				},
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.error(`Air quality fetch error: ${errorMessage}`);
+
+			res.status(500).json({
+				error: 'Air quality service unavailable',
+				message: translate('airQualityUnavailable', lang),
+				details: errorMessage,
+				timestamp: new Date().toISOString(),
+			});
+		}
+	}
+
+	/**
+	 * Handles GET /astronomy requests with sun and moon times, positions and phase for a local date.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static getAstronomy(req: Request, res: Response, next: NextFunction): void {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
 		try {
-			// Extract and validate coordinates
-			const lat = (req.query.lat as string) || '45.4215'; // Default to Ottawa
-			const lon = (req.query.lon as string) || '-75.6998';
+			const coordinates = resolveCoordinates(req, res, lang);
+			if (!coordinates) {
+				return;
+			}
+			const { lat, lon } = coordinates;
 
-			// Validate coordinates
-			if (!validateLatitude(lat)) {
+			const date = req.query.date === undefined ? null : parseIsoDate(req.query.date);
+			if (req.query.date !== undefined && !date) {
 				res.status(400).json({
-					error: 'Invalid latitude',
-					message: 'Latitude must be between -90 and 90',
-					provided: lat,
+					error: 'Invalid date',
+					message: translate('invalidDate', lang, { parameter: 'date' }),
+					provided: req.query.date,
 				});
 				return;
 			}
 
-			if (!validateLongitude(lon)) {
+			logger.info(`Astronomy request for coordinates: ${lat}, ${lon} on ${date ?? 'today'}`);
+
+			const location = describeLocation(coordinates);
+			const {
+				date: localDate,
+				timezone,
+				utcOffset,
+				at,
+				sun,
+				moon,
+				source,
+			} = getAstronomy(location.latitude, location.longitude, date, location.timezone, lang);
+
+			res.json({
+				location: { ...location, timezone, utcOffset },
+				language: lang,
+				timestamp: new Date().toISOString(),
+				date: localDate,
+				data: { at, sun, moon },
+				metadata: {
+					source,
+					note: timezone
+						? 'Times are local to the nearest named place'
+						: 'No named place is nearby, so times use an offset estimated from the longitude',
+				},
+			});
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			logger.error(`Astronomy calculation error: ${errorMessage}`);
+
+			res.status(500).json({
+				error: 'Astronomy unavailable',
+				message: translate('astronomyUnavailable', lang),
+				details: errorMessage,
+				timestamp: new Date().toISOString(),
+			});
+		}
+	}
+
+	/**
+	 * Handles GET /verification requests with the accuracy of each source's past forecasts, scored
+	 * against Environment Canada observations. Without a location, every verified location is reported.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static getVerification(req: Request, res: Response, next: NextFunction): void {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		const { q, lat, lon, source } = req.query;
+		let coordinates: RequestCoordinates | null = null;
+		if (q !== undefined || lat !== undefined || lon !== undefined) {
+			coordinates = resolveCoordinates(req, res, lang);
+			if (!coordinates) {
+				return;
+			}
+		}
+
+		const report = forecastVerifier.getReport({
+			lat: coordinates ? parseFloat(coordinates.lat) : undefined,
+			lon: coordinates ? parseFloat(coordinates.lon) : undefined,
+			source: typeof source === 'string' && source ? source : undefined,
+		});
+
+		res.json({
+			location: coordinates ? describeLocation(coordinates) : null,
+			language: lang,
+			timestamp: new Date().toISOString(),
+			data: report,
+			metadata: {
+				verifiedAgainst: VERIFYING_SOURCE,
+				precipitationThreshold: `${PRECIPITATION_PROBABILITY_THRESHOLD}%`,
+				...forecastVerifier.getStats(),
+				note: 'Forecasts are archived and verified only for locations the weather cache refreshes; scores reset on restart',
+			},
+		});
+	}
+
+	/**
+	 * Handles POST /subscriptions requests registering a webhook for weather alerts and condition changes.
+	 * The location and language are read from the JSON body, and the location is cached so its refreshes
+	 * trigger deliveries. The response carries the management token the other subscription routes require.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async createSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const body: Record<string, unknown> = req.body && typeof req.body === 'object' ? req.body : {};
+		const lang = resolveLanguage(req, res, body);
+		if (!lang) {
+			return;
+		}
+
+		try {
+			// Subscriptions never fall back to the default location
+			if (body.q === undefined && body.lat === undefined && body.lon === undefined) {
 				res.status(400).json({
-					error: 'Invalid longitude',
-					message: 'Longitude must be between -180 and 180',
-					provided: lon,
+					error: 'Missing location',
+					message: translate('missingLocation', lang),
+					provided: null,
 				});
 				return;
 			}
 
-			logger.info(`Weather request for coordinates: ${lat}, ${lon}`);
+			const coordinates = resolveCoordinates(req, res, lang, body);
+			if (!coordinates) {
+				return;
+			}
+			const { lat, lon } = coordinates;
+
+			const settings = resolveSubscriptionBody(res, lang, body);
+			if (!settings) {
+				return;
+			}
 
-			// Check if data is already cached
-			let weatherData = weatherCacheManager.getCachedData(lat, lon);
+			logger.info(`Webhook subscription request for coordinates: ${lat}, ${lon} (${lang})`);
 
-			if (!weatherData) {
-				// Start caching for this location (fetches initial data)
-				logger.info(`Starting cache for new location: ${lat}, ${lon}`);
-				weatherData = await weatherCacheManager.startCaching(lat, lon);
+			if (!weatherCacheManager.isCaching(lat, lon, lang)) {
+				await weatherCacheManager.startCaching(lat, lon, lang);
 			}
 
-			// Format and return response
-			const response = formatWeatherResponse(weatherData, lat, lon);
+			const subscription = webhookManager.subscribe({ ...settings, lat, lon, lang });
+			if (!subscription) {
+				res.status(503).json({
+					error: 'Subscription limit reached',
+					message: translate('subscriptionLimitReached', lang, { max: MAX_SUBSCRIPTIONS }),
+					timestamp: new Date().toISOString(),
+				});
+				return;
+			}
 
-			res.json(response);
+			res.status(201).json({
+				...describeSubscription(subscription),
+				location: describeLocation(coordinates),
+				secret: subscription.secret,
+				managementToken: subscription.managementToken,
+				timestamp: new Date().toISOString(),
+			});
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-			logger.error(`Advanced weather fetch error: ${errorMessage}`);
+			logger.error(`Webhook subscription error: ${errorMessage}`);
 
-			// Provide helpful error response
 			res.status(500).json({
-				error: 'Weather service unavailable',
-				message: 'Unable to fetch weather data from available sources',
+				error: 'Subscription unavailable',
+				message: translate('subscriptionUnavailable', lang),
 				details: errorMessage,
 				timestamp: new Date().toISOString(),
 			});
 		}
 	}
 
+	/**
+	 * Handles GET /subscriptions/:id requests with a subscription and its delivery statistics.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static getSubscription(req: Request, res: Response, next: NextFunction): void {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		const subscription = findSubscription(req, res, lang);
+		if (!subscription) {
+			return;
+		}
+
+		res.json({ ...describeSubscription(subscription), timestamp: new Date().toISOString() });
+	}
+
+	/**
+	 * Handles DELETE /subscriptions/:id requests removing a subscription; pending retries are dropped, and
+	 * the location stops being refreshed once its last subscription is removed.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static deleteSubscription(req: Request, res: Response, next: NextFunction): void {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		if (!findSubscription(req, res, lang)) {
+			return;
+		}
+
+		webhookManager.unsubscribe(req.params.id);
+		res.status(204).end();
+	}
+
+	/**
+	 * Handles POST /subscriptions/:id/test requests sending a single signed `ping` delivery.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static async testSubscription(req: Request, res: Response, next: NextFunction): Promise<void> {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		const subscription = findSubscription(req, res, lang);
+		if (!subscription) {
+			return;
+		}
+
+		logger.info(`Webhook test delivery for subscription ${subscription.id}`);
+
+		const result = await webhookManager.sendTest(subscription);
+		res.json({ subscriptionId: subscription.id, ...result, timestamp: new Date().toISOString() });
+	}
+
+	/**
+	 * Handles GET /subscriptions/:id/dead-letters requests with the deliveries that failed every attempt.
+	 * @param req Express request
+	 * @param res Express response
+	 * @param next Express next function
+	 */
+	public static getDeadLetters(req: Request, res: Response, next: NextFunction): void {
+		const lang = resolveLanguage(req, res);
+		if (!lang) {
+			return;
+		}
+
+		const subscription = findSubscription(req, res, lang);
+		if (!subscription) {
+			return;
+		}
+
+		const deadLetters = webhookManager.getDeadLetters(subscription.id);
+		res.json({
+			subscriptionId: subscription.id,
+			count: deadLetters.length,
+			deadLetters,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
 	/**
 	 * Gets cache status and statistics
 	 */
@@ -137,6 +2104,7 @@ export class WeatherController {
 		try {
 			const stats = weatherCacheManager.getCacheStats();
 			const locations = weatherCacheManager.getCachedLocations();
+			const airQualityStats = airQualityCacheManager.getCacheStats();
 
 			const response = {
 				cache: {
@@ -150,8 +2118,23 @@ export class WeatherController {
 					},
 					locations: locations.map((loc) => ({
 						coordinates: `${loc.lat}, ${loc.lon}`,
+						language: loc.lang,
 						key: loc.key,
 					})),
+					airQuality: {
+						statistics: {
+							totalLocations: airQualityStats.totalLocations,
+							totalFetches: airQualityStats.totalFetches,
+							totalErrors: airQualityStats.totalErrors,
+							averageAge: `${Math.round(airQualityStats.averageAge / 1000)}s`,
+						},
+						locations: airQualityCacheManager.getCachedLocations().map((loc) => ({
+							coordinates: `${loc.lat}, ${loc.lon}`,
+							language: loc.lang,
+							key: loc.key,
+						})),
+					},
+					streams: weatherStreamManager.getStats(),
 				},
 				timestamp: new Date().toISOString(),
 			};
@@ -0,0 +1,504 @@
+/**
+ * WeatherSocketController serves live weather for many locations over one WebSocket connection.
+ * Clients subscribe to and unsubscribe from locations with JSON messages, and receive a snapshot
+ * of each subscribed location whenever the weather cache refreshes it, along with its alerts.
+ * @module WeatherSocketController
+ */
+import { timingSafeEqual } from 'crypto';
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { env } from '../config/env';
+import { DEFAULT_LANGUAGE, isSupportedLanguage, SupportedLanguage, translate } from '../services/localization';
+import { CacheRefresh, weatherCacheManager } from '../services/weatherCacheManager';
+import { detectEvents } from '../services/webhookService';
+import { WeatherData } from '../services/weatherTypes';
+import { logger } from '../utils/logger';
+import { buildWeatherResponse, loadWeather, WeatherQuery } from './WeatherController';
+
+/**
+ * Path WebSocket upgrades are accepted on
+ */
+export const WEATHER_SOCKET_PATH = '/api/weather/socket';
+
+/**
+ * Most open connections at once
+ */
+const MAX_SOCKET_CONNECTIONS = 200;
+
+/**
+ * Most locations a connection can subscribe to
+ */
+const MAX_SUBSCRIPTIONS_PER_CONNECTION = 50;
+
+/**
+ * Largest accepted client message (bytes)
+ */
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+/**
+ * Unsent data above which snapshots are held back, keeping only the latest per subscription (bytes)
+ */
+const HIGH_WATER_MARK_BYTES = 1024 * 1024;
+
+/**
+ * Unsent data above which a connection is dropped as unable to keep up (bytes)
+ */
+const MAX_BUFFERED_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Interval between pings; connections that have not answered the previous ping are closed (milliseconds)
+ */
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Message types clients can send
+ */
+const CLIENT_MESSAGE_TYPES = ['subscribe', 'unsubscribe', 'list', 'ping'] as const;
+
+/**
+ * What a subscription receives: weather snapshots and alert events
+ */
+type SocketChannel = 'weather' | 'alerts';
+
+/**
+ * All subscribable channels, also the default
+ */
+const SOCKET_CHANNELS: SocketChannel[] = ['weather', 'alerts'];
+
+/**
+ * Location a connection follows
+ */
+interface SocketSubscription {
+	id: string;
+	key: string;
+	query: WeatherQuery;
+	channels: SocketChannel[];
+	connection: SocketConnection;
+}
+
+/**
+ * State of an open connection
+ */
+interface SocketConnection {
+	id: string;
+	socket: WebSocket;
+	lang: SupportedLanguage;
+	subscriptions: Map<string, SocketSubscription>;
+	/** Latest snapshot per subscription held back while the connection is congested */
+	pendingSnapshots: Map<string, string>;
+	nextSubscriptionId: number;
+	isAlive: boolean;
+}
+
+/**
+ * Controller for the weather WebSocket endpoint.
+ */
+export class WeatherSocketController {
+	private webSocketServer = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+	private connections: Set<SocketConnection> = new Set();
+	private subscriptionsByLocation: Map<string, Set<SocketSubscription>> = new Map();
+	private nextConnectionId = 1;
+
+	/**
+	 * Accepts WebSocket upgrades on the HTTP server and starts forwarding weather cache refreshes.
+	 * @param httpServer HTTP server the Express app listens on
+	 * @param tokens Tokens clients connect with
+	 * @param allowAnonymous Whether clients may connect without a token
+	 */
+	constructor(
+		httpServer: Server,
+		private readonly tokens: string[] = env.weatherSocketTokens,
+		private readonly allowAnonymous: boolean = env.weatherSocketAllowAnonymous,
+	) {
+		httpServer.on('upgrade', (req, socket, head) => this.handleUpgrade(req, socket, head));
+		weatherCacheManager.onRefresh((refresh) => this.handleRefresh(refresh));
+
+		setInterval(() => this.checkHeartbeats(), HEARTBEAT_INTERVAL_MS).unref();
+		if (tokens.length === 0 && !allowAnonymous) {
+			logger.warn(
+				'Weather WebSocket refuses every connection: set WEATHER_SOCKET_TOKENS, or WEATHER_SOCKET_ALLOW_ANONYMOUS=true to accept any client',
+			);
+			return;
+		}
+		logger.info(`Weather WebSocket accepting connections on ${WEATHER_SOCKET_PATH}`);
+	}
+
+	/**
+	 * Authenticates and limits upgrade requests before completing the WebSocket handshake.
+	 * A token is required in the `Authorization: Bearer` header or the `token` query parameter,
+	 * unless anonymous clients are allowed.
+	 */
+	private handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		const reject = (status: string) => {
+			socket.end(`HTTP/1.1 ${status}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+		};
+
+		if (url.pathname !== WEATHER_SOCKET_PATH) {
+			reject('404 Not Found');
+			return;
+		}
+
+		const authorization = req.headers.authorization;
+		const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : url.searchParams.get('token');
+		if (!this.allowAnonymous && !this.tokens.some((valid) => tokensMatch(token, valid))) {
+			logger.info(`Weather WebSocket connection refused: missing or invalid token from ${getClientIp(req)}`);
+			reject('401 Unauthorized');
+			return;
+		}
+
+		if (this.connections.size >= MAX_SOCKET_CONNECTIONS) {
+			logger.error(`Weather WebSocket connection refused: limit of ${MAX_SOCKET_CONNECTIONS} reached`);
+			reject('503 Service Unavailable');
+			return;
+		}
+
+		const lang = url.searchParams.get('lang') ?? DEFAULT_LANGUAGE;
+		this.webSocketServer.handleUpgrade(req, socket, head, (ws) =>
+			this.handleConnection(ws, req, isSupportedLanguage(lang) ? lang : DEFAULT_LANGUAGE),
+		);
+	}
+
+	/**
+	 * Sets up a new connection and greets it with its limits.
+	 */
+	private handleConnection(socket: WebSocket, req: IncomingMessage, lang: SupportedLanguage): void {
+		const connection: SocketConnection = {
+			id: String(this.nextConnectionId++),
+			socket,
+			lang,
+			subscriptions: new Map(),
+			pendingSnapshots: new Map(),
+			nextSubscriptionId: 1,
+			isAlive: true,
+		};
+		this.connections.add(connection);
+		logger.info(`Weather WebSocket connection ${connection.id} opened from ${getClientIp(req)}`);
+
+		socket.on('pong', () => {
+			connection.isAlive = true;
+		});
+		socket.on('message', (data) => void this.handleMessage(connection, data));
+		socket.on('close', () => {
+			for (const subscription of connection.subscriptions.values()) {
+				this.removeSubscription(subscription);
+			}
+			this.connections.delete(connection);
+			logger.info(`Weather WebSocket connection ${connection.id} closed`);
+		});
+		socket.on('error', (error) => {
+			logger.error(`Weather WebSocket connection ${connection.id} error: ${error.message}`);
+		});
+
+		this.send(connection, {
+			type: 'welcome',
+			connectionId: connection.id,
+			limits: { subscriptions: MAX_SUBSCRIPTIONS_PER_CONNECTION, messageBytes: MAX_MESSAGE_BYTES },
+			channels: SOCKET_CHANNELS,
+			timestamp: new Date().toISOString(),
+		});
+	}
+
+	/**
+	 * Handles a client message. Every reply echoes the message's `id` as `requestId`.
+	 */
+	private async handleMessage(connection: SocketConnection, data: RawData): Promise<void> {
+		let message: Record<string, unknown> | null = null;
+		try {
+			const parsed = JSON.parse(data.toString());
+			message = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+		} catch {
+			message = null;
+		}
+
+		const requestId = message?.id ?? null;
+		if (!message || !(CLIENT_MESSAGE_TYPES as readonly unknown[]).includes(message.type)) {
+			this.send(connection, {
+				type: 'error',
+				requestId,
+				error: 'Invalid message',
+				message: translate('invalidSocketMessage', connection.lang, { types: CLIENT_MESSAGE_TYPES.join(', ') }),
+				provided: message?.type ?? null,
+			});
+			return;
+		}
+
+		switch (message.type) {
+			case 'subscribe':
+				await this.subscribe(connection, message, requestId);
+				break;
+			case 'unsubscribe':
+				this.unsubscribe(connection, message, requestId);
+				break;
+			case 'list':
+				this.send(connection, {
+					type: 'subscriptions',
+					requestId,
+					subscriptions: Array.from(connection.subscriptions.values(), describeSubscription),
+				});
+				break;
+			case 'ping':
+				this.send(connection, { type: 'pong', requestId, timestamp: new Date().toISOString() });
+				break;
+		}
+	}
+
+	/**
+	 * Subscribes a connection to a location, then sends its current snapshot. Accepts the location,
+	 * language, unit and field parameters of `GET /weather` plus the `channels` to receive.
+	 */
+	private async subscribe(
+		connection: SocketConnection,
+		message: Record<string, unknown>,
+		requestId: unknown,
+	): Promise<void> {
+		const lang = isSupportedLanguage(message.lang) ? message.lang : connection.lang;
+		const sendError = (error: string, errorMessage: string, provided: unknown) =>
+			this.send(connection, { type: 'error', requestId, error, message: errorMessage, provided });
+
+		if (connection.subscriptions.size >= MAX_SUBSCRIPTIONS_PER_CONNECTION) {
+			sendError(
+				'Subscription limit reached',
+				translate('socketSubscriptionLimitReached', lang, { max: MAX_SUBSCRIPTIONS_PER_CONNECTION }),
+				connection.subscriptions.size,
+			);
+			return;
+		}
+
+		const channels = message.channels ?? SOCKET_CHANNELS;
+		if (
+			!Array.isArray(channels) ||
+			channels.length === 0 ||
+			!channels.every((channel) => (SOCKET_CHANNELS as unknown[]).includes(channel))
+		) {
+			sendError(
+				'Invalid channels',
+				translate('invalidSocketChannels', lang, { supported: SOCKET_CHANNELS.join(', ') }),
+				message.channels,
+			);
+			return;
+		}
+
+		// Parameters are validated like query parameters, so numbers are accepted as strings would be
+		const params = Object.fromEntries(
+			Object.entries(message)
+				.filter(([key]) => !['type', 'id', 'channels'].includes(key))
+				.map(([key, value]) => [key, typeof value === 'number' ? String(value) : value]),
+		);
+		const loaded = await loadWeather(params);
+		if ('error' in loaded) {
+			this.send(connection, { type: 'error', requestId, ...loaded.error.body });
+			return;
+		}
+
+		const { query, data: weatherData } = loaded.value;
+		const { lat, lon } = query.coordinates;
+
+		// The connection may have closed or filled up while the location was being fetched
+		if (
+			connection.socket.readyState !== WebSocket.OPEN ||
+			connection.subscriptions.size >= MAX_SUBSCRIPTIONS_PER_CONNECTION
+		) {
+			return;
+		}
+
+		const subscription: SocketSubscription = {
+			id: `${connection.id}.${connection.nextSubscriptionId++}`,
+			key: `${lat},${lon},${query.lang}`,
+			query,
+			channels: Array.from(new Set(channels as SocketChannel[])),
+			connection,
+		};
+		connection.subscriptions.set(subscription.id, subscription);
+
+		// The location is kept refreshed while any connection subscribes to it
+		const subscriptions = this.subscriptionsByLocation.get(subscription.key) ?? new Set();
+		if (subscriptions.size === 0) {
+			weatherCacheManager.retain(lat, lon, query.lang);
+		}
+		subscriptions.add(subscription);
+		this.subscriptionsByLocation.set(subscription.key, subscriptions);
+
+		logger.info(`Weather WebSocket connection ${connection.id} subscribed to ${subscription.key}`);
+
+		this.send(connection, { type: 'subscribed', requestId, subscription: describeSubscription(subscription) });
+		if (subscription.channels.includes('weather')) {
+			this.sendSnapshot(subscription, weatherData);
+		}
+	}
+
+	/**
+	 * Removes one of a connection's subscriptions.
+	 */
+	private unsubscribe(connection: SocketConnection, message: Record<string, unknown>, requestId: unknown): void {
+		const subscription =
+			typeof message.subscription === 'string' ? connection.subscriptions.get(message.subscription) : undefined;
+		if (!subscription) {
+			this.send(connection, {
+				type: 'error',
+				requestId,
+				error: 'Subscription not found',
+				message: translate('socketSubscriptionNotFound', connection.lang, {
+					id: String(message.subscription),
+				}),
+				provided: message.subscription ?? null,
+			});
+			return;
+		}
+
+		this.removeSubscription(subscription);
+		this.send(connection, { type: 'unsubscribed', requestId, subscription: subscription.id });
+	}
+
+	/**
+	 * Detaches a subscription from its connection and location, releasing the location after its last one
+	 */
+	private removeSubscription(subscription: SocketSubscription): void {
+		subscription.connection.subscriptions.delete(subscription.id);
+		subscription.connection.pendingSnapshots.delete(subscription.id);
+
+		const subscriptions = this.subscriptionsByLocation.get(subscription.key);
+		subscriptions?.delete(subscription);
+		if (subscriptions?.size === 0) {
+			this.subscriptionsByLocation.delete(subscription.key);
+			const { lat, lon } = subscription.query.coordinates;
+			weatherCacheManager.release(lat, lon, subscription.query.lang);
+		}
+	}
+
+	/**
+	 * Sends a refreshed location's snapshot and its new or updated alerts to its subscriptions.
+	 */
+	private handleRefresh(refresh: CacheRefresh): void {
+		const subscriptions = this.subscriptionsByLocation.get(`${refresh.lat},${refresh.lon},${refresh.lang}`);
+		if (!subscriptions) {
+			return;
+		}
+
+		const alertEvents = detectEvents(refresh.previous, refresh.current).filter(
+			({ event }) => event !== 'conditions.changed',
+		);
+
+		for (const subscription of subscriptions) {
+			if (subscription.channels.includes('weather')) {
+				this.sendSnapshot(subscription, refresh.current);
+			}
+			if (subscription.channels.includes('alerts')) {
+				for (const { event, data } of alertEvents) {
+					this.send(subscription.connection, { type: 'alert', subscription: subscription.id, event, data });
+				}
+			}
+		}
+	}
+
+	/**
+	 * Sends a subscription's snapshot, or holds it back while the connection is congested so that
+	 * only the latest snapshot of each location is sent once it catches up.
+	 */
+	private sendSnapshot(subscription: SocketSubscription, weatherData: WeatherData): void {
+		const { connection } = subscription;
+		const message = JSON.stringify({
+			type: 'snapshot',
+			subscription: subscription.id,
+			data: buildWeatherResponse(weatherData, subscription.query),
+		});
+
+		if (connection.socket.bufferedAmount > HIGH_WATER_MARK_BYTES) {
+			connection.pendingSnapshots.set(subscription.id, message);
+			return;
+		}
+		this.write(connection, message);
+	}
+
+	/**
+	 * Sends a message to a connection
+	 */
+	private send(connection: SocketConnection, message: Record<string, unknown>): void {
+		this.write(connection, JSON.stringify(message));
+	}
+
+	/**
+	 * Writes to a connection, dropping it when it has fallen too far behind and sending held-back
+	 * snapshots once its buffer drains.
+	 */
+	private write(connection: SocketConnection, message: string): void {
+		const { socket } = connection;
+		if (socket.readyState !== WebSocket.OPEN) {
+			return;
+		}
+
+		if (socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+			logger.error(`Weather WebSocket connection ${connection.id} dropped: unable to keep up`);
+			socket.terminate();
+			return;
+		}
+
+		socket.send(message, () => this.flushPendingSnapshots(connection));
+	}
+
+	/**
+	 * Sends held-back snapshots while the connection's buffer is below the high-water mark
+	 */
+	private flushPendingSnapshots(connection: SocketConnection): void {
+		for (const [subscriptionId, message] of connection.pendingSnapshots) {
+			if (connection.socket.bufferedAmount > HIGH_WATER_MARK_BYTES) {
+				return;
+			}
+			connection.pendingSnapshots.delete(subscriptionId);
+			this.write(connection, message);
+		}
+	}
+
+	/**
+	 * Closes connections that did not answer the previous ping, then pings the others
+	 */
+	private checkHeartbeats(): void {
+		for (const connection of this.connections) {
+			if (!connection.isAlive) {
+				logger.info(`Weather WebSocket connection ${connection.id} timed out`);
+				connection.socket.terminate();
+				continue;
+			}
+			connection.isAlive = false;
+			connection.socket.ping();
+		}
+	}
+}
+
+/**
+ * Describes a subscription for messages
+ */
+function describeSubscription(subscription: SocketSubscription) {
+	const { coordinates, lang, units } = subscription.query;
+	return {
+		id: subscription.id,
+		location: {
+			latitude: parseFloat(coordinates.lat),
+			longitude: parseFloat(coordinates.lon),
+			place: coordinates.place?.name ?? null,
+		},
+		language: lang,
+		units: units.system,
+		channels: subscription.channels,
+	};
+}
+
+/**
+ * Compares a provided token with a valid one in constant time
+ */
+function tokensMatch(provided: string | null, valid: string): boolean {
+	if (!provided) {
+		return false;
+	}
+	const providedBuffer = Buffer.from(provided);
+	const validBuffer = Buffer.from(valid);
+	return providedBuffer.length === validBuffer.length && timingSafeEqual(providedBuffer, validBuffer);
+}
+
+/**
+ * Gets the client IP of a request, preferring Cloudflare's header as the rate limiter does
+ */
+function getClientIp(req: IncomingMessage): string {
+	return (req.headers['cf-requesting-ip'] as string) || req.socket.remoteAddress || '';
+}
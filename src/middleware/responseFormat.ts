@@ -0,0 +1,160 @@
+/**
+ * Content negotiation middleware for alternative response formats
+ *
+ * Lets an endpoint's response be sent as CSV, XML or GeoJSON instead of JSON. The format comes
+ * from the `format` query parameter, or else is negotiated from the `Accept` header, with JSON
+ * as the default. Controllers keep calling `res.json`: the middleware serializes the body in the
+ * chosen format. Error responses are always JSON.
+ *
+ * @module middleware/responseFormat
+ */
+import { Request, Response, NextFunction } from 'express';
+import { DEFAULT_LANGUAGE, isSupportedLanguage, translate } from '../services/localization';
+import { toCsv } from '../utils/csv';
+import { toXml } from '../utils/xml';
+
+/**
+ * Formats a response can be sent in
+ */
+export type ResponseFormat = 'json' | 'xml' | 'csv' | 'geojson';
+
+/**
+ * Media types of each format, in order of preference
+ */
+const FORMAT_MEDIA_TYPES: Record<ResponseFormat, string[]> = {
+	json: ['application/json'],
+	xml: ['application/xml', 'text/xml'],
+	csv: ['text/csv'],
+	geojson: ['application/geo+json'],
+};
+
+/**
+ * GeoJSON geometry (RFC 7946)
+ */
+export interface GeoJsonGeometry {
+	type: 'Point' | 'Polygon';
+	coordinates: number[] | number[][][];
+}
+
+/**
+ * GeoJSON feature; features without a location have a null geometry
+ */
+export interface GeoJsonFeature {
+	type: 'Feature';
+	geometry: GeoJsonGeometry | null;
+	properties: Record<string, unknown> | null;
+}
+
+/**
+ * GeoJSON feature collection, with the response fields that describe every feature as `properties`
+ */
+export interface GeoJsonFeatureCollection {
+	type: 'FeatureCollection';
+	bbox?: number[];
+	features: GeoJsonFeature[];
+	properties?: Record<string, unknown>;
+}
+
+/**
+ * Alternative representations of an endpoint's JSON response. XML is available for every endpoint;
+ * CSV and GeoJSON only when the endpoint describes how to derive them.
+ *
+ * @typeParam Body - Type of the endpoint's successful responses
+ */
+export interface ResponseRepresentation<Body = unknown> {
+	/** Tables offered as CSV, by name; the first is sent unless `table` names another */
+	tables?: Record<string, (body: Body) => unknown[]>;
+	/** Converts the response to a GeoJSON feature or feature collection */
+	geojson?: (body: Body) => GeoJsonFeature | GeoJsonFeatureCollection;
+}
+
+/**
+ * Creates middleware sending the responses of an endpoint in the format the client asks for.
+ * Unsupported `format` values and `table` names are rejected with a 400 response, and `Accept`
+ * headers matching none of the formats with a 406 response.
+ *
+ * @param representation - CSV tables and GeoJSON conversion of the endpoint's response
+ * @returns Express middleware to place before the endpoint's handler
+ *
+ * @example
+ * ```typescript
+ * router.get('/weather/alerts', negotiateFormat({ tables: { alerts: (body) => body.data.alerts } }), getAlerts);
+ * ```
+ */
+export function negotiateFormat<Body>(representation: ResponseRepresentation<Body> = {}) {
+	const { tables = {}, geojson } = representation;
+	const tableNames = Object.keys(tables);
+	const formats = (Object.keys(FORMAT_MEDIA_TYPES) as ResponseFormat[]).filter(
+		(format) => (format !== 'csv' || tableNames.length > 0) && (format !== 'geojson' || geojson),
+	);
+
+	return (req: Request, res: Response, next: NextFunction): void => {
+		const lang = isSupportedLanguage(req.query.lang) ? req.query.lang : DEFAULT_LANGUAGE;
+		res.vary('Accept');
+
+		let format: ResponseFormat | undefined;
+		if (req.query.format !== undefined) {
+			format = formats.find((supported) => supported === req.query.format);
+			if (!format) {
+				res.status(400).json({
+					error: 'Invalid format',
+					message: translate('invalidFormat', lang, { supported: formats.join(', ') }),
+					provided: req.query.format,
+				});
+				return;
+			}
+		} else {
+			const accepted = req.accepts(formats.flatMap((supported) => FORMAT_MEDIA_TYPES[supported]));
+			format = formats.find((supported) => accepted && FORMAT_MEDIA_TYPES[supported].includes(accepted));
+			if (!format) {
+				res.status(406).json({
+					error: 'Not acceptable',
+					message: translate('notAcceptable', lang, {
+						supported: formats.flatMap((supported) => FORMAT_MEDIA_TYPES[supported]).join(', '),
+					}),
+					provided: req.get('Accept') ?? null,
+				});
+				return;
+			}
+		}
+
+		const table = format === 'csv' ? (req.query.table ?? tableNames[0]) : null;
+		if (format === 'csv' && !tableNames.includes(table as string)) {
+			res.status(400).json({
+				error: 'Invalid table',
+				message: translate('invalidTable', lang, { supported: tableNames.join(', ') }),
+				provided: table,
+			});
+			return;
+		}
+
+		if (format === 'json') {
+			next();
+			return;
+		}
+
+		const json = res.json.bind(res);
+		res.json = ((body: unknown) => {
+			if (res.statusCode >= 400) {
+				return json(body);
+			}
+			// Successful responses are the endpoint's response type; errors were sent as they are above
+			const response = body as Body;
+			switch (format) {
+				case 'xml':
+					return res.type('application/xml; charset=utf-8').send(toXml(body));
+				case 'csv':
+					// The byte order mark lets spreadsheet applications detect UTF-8 (e.g. in °C)
+					return res
+						.type('text/csv; charset=utf-8; header=present')
+						.set('Content-Disposition', `inline; filename="${table}.csv"`)
+						.send(`\uFEFF${toCsv(tables[table as string](response))}`);
+				default:
+					res.type('application/geo+json');
+					return json(geojson!(response));
+			}
+		}) as Response['json'];
+
+		next();
+	};
+}
@@ -0,0 +1,622 @@
+/**
+ * Air Quality Service
+ *
+ * Combines Environment Canada Air Quality Health Index (AQHI) observations and forecasts
+ * with pollutant concentrations, air quality indices and pollen counts from the Open-Meteo
+ * air quality API. Every index and pollen count is classified into a health-risk category.
+ *
+ * @module AirQualityService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import axios, { AxiosRequestConfig } from 'axios';
+import { calculateHaversineDistance, isPointInCanada } from './geography';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './localization';
+import { logger } from '../utils/logger';
+
+/**
+ * Base URL for the Open-Meteo air quality API
+ */
+const OPEN_METEO_AIR_QUALITY_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+
+/**
+ * Base URL for the MSC GeoMet OGC API, which publishes Environment Canada AQHI data
+ */
+const GEOMET_API_URL = 'https://api.weather.gc.ca/collections';
+
+/**
+ * HTTP request timeout for air quality requests (milliseconds)
+ */
+const AIR_QUALITY_TIMEOUT_MS = 10000;
+
+/**
+ * Days of hourly air quality forecast requested from Open-Meteo (pollen is only forecast for 4 days)
+ */
+const AIR_QUALITY_FORECAST_DAYS = 5;
+
+/**
+ * Search radius around the requested location for AQHI communities (degrees)
+ */
+const AQHI_SEARCH_RADIUS_DEG = 0.75;
+
+/**
+ * Maximum distance to the AQHI community that serves a request (kilometres)
+ */
+const MAX_AQHI_DISTANCE_KM = 75;
+
+/**
+ * Unit of pollutant concentrations
+ */
+const CONCENTRATION_UNIT = 'µg/m³';
+
+/**
+ * Unit of pollen counts
+ */
+const POLLEN_UNIT = 'grains/m³';
+
+/**
+ * Open-Meteo pollutant variables, keyed by response field
+ */
+const POLLUTANT_VARIABLES = {
+	pm25: 'pm2_5',
+	pm10: 'pm10',
+	ozone: 'ozone',
+	nitrogenDioxide: 'nitrogen_dioxide',
+	sulphurDioxide: 'sulphur_dioxide',
+	carbonMonoxide: 'carbon_monoxide',
+} as const;
+
+/**
+ * Open-Meteo pollen variables, keyed by pollen type. Pollen is only modelled over Europe;
+ * elsewhere the values are null.
+ */
+const POLLEN_VARIABLES = {
+	alder: 'alder_pollen',
+	birch: 'birch_pollen',
+	grass: 'grass_pollen',
+	mugwort: 'mugwort_pollen',
+	olive: 'olive_pollen',
+	ragweed: 'ragweed_pollen',
+} as const;
+
+/**
+ * Open-Meteo index variables
+ */
+const INDEX_VARIABLES = ['us_aqi', 'european_aqi'] as const;
+
+/**
+ * Pollutant reported in air quality responses
+ */
+export type Pollutant = keyof typeof POLLUTANT_VARIABLES;
+
+/**
+ * Pollen type reported in air quality responses
+ */
+export type PollenType = keyof typeof POLLEN_VARIABLES;
+
+/**
+ * Health-risk category of an AQHI value or pollen count
+ */
+export type HealthRisk = 'low' | 'moderate' | 'high' | 'veryHigh';
+
+/**
+ * Health-risk category of a US AQI value
+ */
+export type UsAqiCategory =
+	| 'good'
+	| 'moderate'
+	| 'unhealthyForSensitiveGroups'
+	| 'unhealthy'
+	| 'veryUnhealthy'
+	| 'hazardous';
+
+/**
+ * Health-risk category of a European AQI value
+ */
+export type EuropeanAqiCategory = 'good' | 'fair' | 'moderate' | 'poor' | 'veryPoor' | 'extremelyPoor';
+
+/**
+ * Upper bound (inclusive) of each category of a scale, lowest first. Values above the
+ * last bound fall into the last category.
+ */
+type RiskScale<C extends string> = ReadonlyArray<readonly [upTo: number, category: C]>;
+
+/**
+ * AQHI health-risk scale (values are rounded before classification; "10+" is very high)
+ */
+const AQHI_SCALE: RiskScale<HealthRisk> = [
+	[3, 'low'],
+	[6, 'moderate'],
+	[10, 'high'],
+	[Infinity, 'veryHigh'],
+];
+
+/**
+ * US EPA AQI scale
+ */
+const US_AQI_SCALE: RiskScale<UsAqiCategory> = [
+	[50, 'good'],
+	[100, 'moderate'],
+	[150, 'unhealthyForSensitiveGroups'],
+	[200, 'unhealthy'],
+	[300, 'veryUnhealthy'],
+	[Infinity, 'hazardous'],
+];
+
+/**
+ * European Environment Agency AQI scale
+ */
+const EUROPEAN_AQI_SCALE: RiskScale<EuropeanAqiCategory> = [
+	[20, 'good'],
+	[40, 'fair'],
+	[60, 'moderate'],
+	[80, 'poor'],
+	[100, 'veryPoor'],
+	[Infinity, 'extremelyPoor'],
+];
+
+/**
+ * Pollen count scales (grains/m³), after the National Allergy Bureau thresholds for trees, grasses and weeds
+ */
+const TREE_POLLEN_SCALE: RiskScale<HealthRisk> = [
+	[14, 'low'],
+	[89, 'moderate'],
+	[1499, 'high'],
+	[Infinity, 'veryHigh'],
+];
+const GRASS_POLLEN_SCALE: RiskScale<HealthRisk> = [
+	[4, 'low'],
+	[19, 'moderate'],
+	[199, 'high'],
+	[Infinity, 'veryHigh'],
+];
+const WEED_POLLEN_SCALE: RiskScale<HealthRisk> = [
+	[9, 'low'],
+	[49, 'moderate'],
+	[499, 'high'],
+	[Infinity, 'veryHigh'],
+];
+
+/**
+ * Scale used to classify each pollen type
+ */
+const POLLEN_SCALES: Record<PollenType, RiskScale<HealthRisk>> = {
+	alder: TREE_POLLEN_SCALE,
+	birch: TREE_POLLEN_SCALE,
+	olive: TREE_POLLEN_SCALE,
+	grass: GRASS_POLLEN_SCALE,
+	mugwort: WEED_POLLEN_SCALE,
+	ragweed: WEED_POLLEN_SCALE,
+};
+
+/**
+ * Health-risk category names, by language
+ */
+const CATEGORY_NAMES: Record<SupportedLanguage, Record<HealthRisk | UsAqiCategory | EuropeanAqiCategory, string>> = {
+	en: {
+		low: 'Low risk',
+		moderate: 'Moderate',
+		high: 'High risk',
+		veryHigh: 'Very high risk',
+		good: 'Good',
+		fair: 'Fair',
+		unhealthyForSensitiveGroups: 'Unhealthy for sensitive groups',
+		unhealthy: 'Unhealthy',
+		veryUnhealthy: 'Very unhealthy',
+		hazardous: 'Hazardous',
+		poor: 'Poor',
+		veryPoor: 'Very poor',
+		extremelyPoor: 'Extremely poor',
+	},
+	fr: {
+		low: 'Risque faible',
+		moderate: 'Modéré',
+		high: 'Risque élevé',
+		veryHigh: 'Risque très élevé',
+		good: 'Bon',
+		fair: 'Acceptable',
+		unhealthyForSensitiveGroups: 'Mauvais pour les groupes sensibles',
+		unhealthy: 'Mauvais',
+		veryUnhealthy: 'Très mauvais',
+		hazardous: 'Dangereux',
+		poor: 'Médiocre',
+		veryPoor: 'Très médiocre',
+		extremelyPoor: 'Extrêmement médiocre',
+	},
+};
+
+/**
+ * Index value with its health-risk category
+ */
+export interface AirQualityIndex<C extends string = string> {
+	value: number | null;
+	category: C | null;
+	label: string | null;
+}
+
+/**
+ * AQHI observation or forecast for an Environment Canada community
+ */
+export interface AqhiReading extends AirQualityIndex<HealthRisk> {
+	time: string | null;
+}
+
+/**
+ * Environment Canada AQHI community that served a request
+ */
+export interface AqhiCommunity {
+	id: string;
+	name: string;
+	latitude: number;
+	longitude: number;
+	distanceKm: number;
+}
+
+/**
+ * Pollen count with its health-risk category
+ */
+export interface PollenReading extends AirQualityIndex<HealthRisk> {
+	unit: string;
+}
+
+/**
+ * Air quality at a point in time
+ */
+export interface AirQualityConditions {
+	time: string;
+	usAqi: AirQualityIndex<UsAqiCategory>;
+	europeanAqi: AirQualityIndex<EuropeanAqiCategory>;
+	pollutants: Record<Pollutant, number | null>;
+	pollutantUnit: string;
+	pollen: Record<PollenType, PollenReading>;
+}
+
+/**
+ * Combined air quality data for a location
+ */
+export interface AirQualityData {
+	aqhi: {
+		community: AqhiCommunity;
+		current: AqhiReading | null;
+		forecast: AqhiReading[];
+	} | null;
+	current: AirQualityConditions | null;
+	hourly: AirQualityConditions[];
+	sources: {
+		primary: string;
+		secondary: string[];
+	};
+}
+
+/**
+ * Open-Meteo air quality API response
+ */
+interface OpenMeteoAirQualityResponse {
+	current?: { time: string; [variable: string]: number | string | null };
+	hourly?: { time: string[]; [variable: string]: Array<number | null> | string[] };
+}
+
+/**
+ * GeoJSON feature returned by the GeoMet AQHI collections
+ */
+interface AqhiFeature {
+	geometry: { coordinates: [number, number] } | null;
+	properties: {
+		location_id: string;
+		location_name_en: string;
+		location_name_fr: string;
+		aqhi: number | null;
+		observation_datetime?: string;
+		forecast_datetime?: string;
+		publication_datetime?: string;
+	};
+}
+
+/**
+ * Common request configuration for air quality APIs
+ */
+const REQUEST_CONFIG: AxiosRequestConfig = {
+	timeout: AIR_QUALITY_TIMEOUT_MS,
+	headers: {
+		'User-Agent': 'AxleAPI/1.0.0 (Air Quality Service)',
+		Accept: 'application/json',
+	},
+};
+
+/**
+ * Classifies a value on a risk scale.
+ *
+ * @param value - Index value or pollen count
+ * @param scale - Scale to classify on
+ * @param lang - Language of the category label
+ * @returns Value with its category and label (null when the value is missing)
+ */
+function classify<C extends HealthRisk | UsAqiCategory | EuropeanAqiCategory>(
+	value: number | null | undefined,
+	scale: RiskScale<C>,
+	lang: SupportedLanguage,
+): AirQualityIndex<C> {
+	if (value === null || value === undefined || isNaN(value)) {
+		return { value: null, category: null, label: null };
+	}
+
+	const category = scale.find(([upTo]) => value <= upTo)![1];
+	return { value, category, label: CATEGORY_NAMES[lang][category] };
+}
+
+/**
+ * Classifies an AQHI value. AQHI categories are defined on whole numbers.
+ *
+ * @param value - AQHI value
+ * @param lang - Language of the category label
+ * @returns AQHI value with its health-risk category
+ */
+export function classifyAqhi(value: number | null | undefined, lang: SupportedLanguage = DEFAULT_LANGUAGE) {
+	return classify(value === null || value === undefined ? value : Math.round(value), AQHI_SCALE, lang);
+}
+
+/**
+ * Classifies a US AQI value.
+ *
+ * @param value - US AQI value
+ * @param lang - Language of the category label
+ * @returns US AQI value with its health-risk category
+ */
+export function classifyUsAqi(value: number | null | undefined, lang: SupportedLanguage = DEFAULT_LANGUAGE) {
+	return classify(value, US_AQI_SCALE, lang);
+}
+
+/**
+ * Builds air quality conditions from a set of Open-Meteo values.
+ *
+ * @param time - Time of the values
+ * @param getValue - Returns the value of an Open-Meteo variable
+ * @param lang - Language of the category labels
+ * @returns Air quality conditions
+ */
+function toAirQualityConditions(
+	time: string,
+	getValue: (variable: string) => number | null,
+	lang: SupportedLanguage,
+): AirQualityConditions {
+	const pollutants = Object.fromEntries(
+		Object.entries(POLLUTANT_VARIABLES).map(([pollutant, variable]) => [pollutant, getValue(variable)]),
+	) as Record<Pollutant, number | null>;
+
+	const pollen = Object.fromEntries(
+		(Object.keys(POLLEN_VARIABLES) as PollenType[]).map((type) => [
+			type,
+			{ ...classify(getValue(POLLEN_VARIABLES[type]), POLLEN_SCALES[type], lang), unit: POLLEN_UNIT },
+		]),
+	) as Record<PollenType, PollenReading>;
+
+	return {
+		time,
+		usAqi: classify(getValue('us_aqi'), US_AQI_SCALE, lang),
+		europeanAqi: classify(getValue('european_aqi'), EUROPEAN_AQI_SCALE, lang),
+		pollutants,
+		pollutantUnit: CONCENTRATION_UNIT,
+		pollen,
+	};
+}
+
+/**
+ * Fetches pollutant, index and pollen data from the Open-Meteo air quality API.
+ *
+ * @param lat - Latitude coordinate as string
+ * @param lon - Longitude coordinate as string
+ * @returns Promise resolving to the Open-Meteo response
+ *
+ * @throws {Error} When the API request fails or returns invalid data
+ */
+async function fetchOpenMeteoAirQuality(lat: string, lon: string): Promise<OpenMeteoAirQualityResponse> {
+	const variables = [...INDEX_VARIABLES, ...Object.values(POLLUTANT_VARIABLES), ...Object.values(POLLEN_VARIABLES)];
+	const params = new URLSearchParams({
+		latitude: lat,
+		longitude: lon,
+		current: variables.join(','),
+		hourly: variables.join(','),
+		timezone: 'auto',
+		forecast_days: AIR_QUALITY_FORECAST_DAYS.toString(),
+	});
+
+	try {
+		logger.info(`Fetching Open-Meteo air quality for coordinates ${lat}, ${lon}`);
+		const response = await axios.get<OpenMeteoAirQualityResponse>(
+			`${OPEN_METEO_AIR_QUALITY_URL}?${params}`,
+			REQUEST_CONFIG,
+		);
+
+		if (!response.data || typeof response.data !== 'object') {
+			throw new Error('Invalid response format from Open-Meteo air quality API');
+		}
+
+		return response.data;
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		logger.error(`Open-Meteo air quality API error: ${errorMessage}`);
+		throw new Error(`Open-Meteo air quality API unavailable: ${errorMessage}`);
+	}
+}
+
+/**
+ * Fetches features of a GeoMet AQHI collection around a location.
+ *
+ * @param collection - Collection name
+ * @param lat - Latitude
+ * @param lon - Longitude
+ * @param query - Additional query parameters
+ * @returns Features in the search area
+ */
+async function fetchAqhiFeatures(
+	collection: string,
+	lat: number,
+	lon: number,
+	query: Record<string, string>,
+): Promise<AqhiFeature[]> {
+	const params = new URLSearchParams({
+		f: 'json',
+		bbox: [
+			lon - AQHI_SEARCH_RADIUS_DEG,
+			lat - AQHI_SEARCH_RADIUS_DEG,
+			lon + AQHI_SEARCH_RADIUS_DEG,
+			lat + AQHI_SEARCH_RADIUS_DEG,
+		].join(','),
+		limit: '500',
+		...query,
+	});
+
+	const response = await axios.get<{ features?: AqhiFeature[] }>(
+		`${GEOMET_API_URL}/${collection}/items?${params}`,
+		REQUEST_CONFIG,
+	);
+	return Array.isArray(response.data?.features) ? response.data.features : [];
+}
+
+/**
+ * Fetches the latest AQHI observation and forecast for the community nearest to a location.
+ *
+ * @param lat - Latitude coordinate as string
+ * @param lon - Longitude coordinate as string
+ * @param lang - Language of community names and category labels
+ * @returns AQHI data, or null when no community is close enough
+ */
+async function getAqhiData(lat: string, lon: string, lang: SupportedLanguage): Promise<AirQualityData['aqhi']> {
+	const latitude = parseFloat(lat);
+	const longitude = parseFloat(lon);
+
+	logger.info(`Fetching Environment Canada AQHI for coordinates ${lat}, ${lon}`);
+	const [observations, forecasts] = await Promise.all([
+		fetchAqhiFeatures('aqhi-observations-realtime', latitude, longitude, { latest: 'true' }),
+		fetchAqhiFeatures('aqhi-forecasts-realtime', latitude, longitude, {}),
+	]);
+
+	const withDistance = (feature: AqhiFeature) => ({
+		feature,
+		distanceKm: feature.geometry
+			? calculateHaversineDistance(
+					latitude,
+					longitude,
+					feature.geometry.coordinates[1],
+					feature.geometry.coordinates[0],
+				)
+			: Infinity,
+	});
+
+	const nearest = [...observations, ...forecasts].map(withDistance).sort((a, b) => a.distanceKm - b.distanceKm)[0];
+	if (!nearest || nearest.distanceKm > MAX_AQHI_DISTANCE_KM) {
+		return null;
+	}
+
+	const { location_id: locationId } = nearest.feature.properties;
+	const observation = observations
+		.filter((feature) => feature.properties.location_id === locationId)
+		.sort((a, b) =>
+			(b.properties.observation_datetime ?? '').localeCompare(a.properties.observation_datetime ?? ''),
+		)[0];
+
+	// Forecasts are republished several times a day; only the latest publication is current
+	const communityForecasts = forecasts.filter((feature) => feature.properties.location_id === locationId);
+	const latestPublication = communityForecasts
+		.map((feature) => feature.properties.publication_datetime ?? '')
+		.sort()
+		.pop();
+	const forecast = communityForecasts
+		.filter((feature) => (feature.properties.publication_datetime ?? '') === latestPublication)
+		.sort((a, b) => (a.properties.forecast_datetime ?? '').localeCompare(b.properties.forecast_datetime ?? ''))
+		.map((feature) => ({
+			time: feature.properties.forecast_datetime ?? null,
+			...classifyAqhi(feature.properties.aqhi, lang),
+		}));
+
+	const { properties, geometry } = nearest.feature;
+	return {
+		community: {
+			id: locationId,
+			name: lang === 'fr' ? properties.location_name_fr : properties.location_name_en,
+			latitude: geometry!.coordinates[1],
+			longitude: geometry!.coordinates[0],
+			distanceKm: Math.round(nearest.distanceKm * 10) / 10,
+		},
+		current: observation
+			? {
+					time: observation.properties.observation_datetime ?? null,
+					...classifyAqhi(observation.properties.aqhi, lang),
+				}
+			: null,
+		forecast,
+	};
+}
+
+/**
+ * Retrieves combined air quality data for a location.
+ *
+ * AQHI is only requested for Canadian coordinates. Either source may fail on its own;
+ * an error is thrown only when neither returns data.
+ *
+ * @param lat - Latitude coordinate as string
+ * @param lon - Longitude coordinate as string
+ * @param lang - Language of community names and category labels
+ * @returns Promise resolving to the combined air quality data
+ *
+ * @throws {Error} When no source returns data
+ *
+ * @example
+ * ```typescript
+ * const airQuality = await getAirQualityData('45.4215', '-75.6998');
+ * console.log(`AQHI: ${airQuality.aqhi?.current?.value} (${airQuality.aqhi?.current?.label})`);
+ * ```
+ */
+export async function getAirQualityData(
+	lat: string,
+	lon: string,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+): Promise<AirQualityData> {
+	const inCanada = isPointInCanada(parseFloat(lat), parseFloat(lon));
+
+	const [openMeteoResult, aqhiResult] = await Promise.allSettled([
+		fetchOpenMeteoAirQuality(lat, lon),
+		inCanada ? getAqhiData(lat, lon, lang) : Promise.resolve(null),
+	]);
+
+	if (aqhiResult.status === 'rejected') {
+		const errorMessage = aqhiResult.reason instanceof Error ? aqhiResult.reason.message : 'Unknown error';
+		logger.error(`Environment Canada AQHI error: ${errorMessage}`);
+	}
+
+	const aqhi = aqhiResult.status === 'fulfilled' ? aqhiResult.value : null;
+	const openMeteo = openMeteoResult.status === 'fulfilled' ? openMeteoResult.value : null;
+	if (!aqhi && !openMeteo) {
+		throw new Error('No air quality source returned data');
+	}
+
+	const current = openMeteo?.current;
+	const hourly = openMeteo?.hourly;
+	const sources = [...(aqhi ? ['Environment Canada'] : []), ...(openMeteo ? ['Open-Meteo'] : [])];
+
+	return {
+		aqhi,
+		current: current
+			? toAirQualityConditions(
+					current.time,
+					(variable) => (typeof current[variable] === 'number' ? (current[variable] as number) : null),
+					lang,
+				)
+			: null,
+		hourly: hourly
+			? hourly.time.map((time, index) =>
+					toAirQualityConditions(
+						time,
+						(variable) => (hourly[variable] as Array<number | null> | undefined)?.[index] ?? null,
+						lang,
+					),
+				)
+			: [],
+		sources: {
+			primary: sources[0],
+			secondary: sources.slice(1),
+		},
+	};
+}
@@ -0,0 +1,644 @@
+/**
+ * Astronomy Service
+ *
+ * Computes sun and moon times, positions and phases locally for any coordinate and date,
+ * so no upstream service is needed. Uses the low-precision formulas from Astronomical
+ * Algorithms (Meeus) as popularized by SunCalc, which are accurate to about a minute
+ * for rise and set times.
+ *
+ * @module AstronomyService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './localization';
+
+/**
+ * Degrees to radians
+ */
+const RAD = Math.PI / 180;
+
+/**
+ * Milliseconds per day and per hour
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Julian dates of the Unix epoch and of J2000.0
+ */
+const J1970 = 2440588;
+const J2000 = 2451545;
+
+/**
+ * Obliquity of the ecliptic
+ */
+const OBLIQUITY = RAD * 23.4397;
+
+/**
+ * Correction of the Julian cycle used for solar transits
+ */
+const J0 = 0.0009;
+
+/**
+ * Sun altitudes that define each event: sunrise and sunset account for refraction and the
+ * sun's radius, twilights end when the sun is 6°, 12° and 18° below the horizon, and the
+ * golden hour lasts while the sun is below 6° above it
+ */
+const SUN_ALTITUDES = {
+	horizon: -0.833,
+	civil: -6,
+	nautical: -12,
+	astronomical: -18,
+	goldenHour: 6,
+};
+
+/**
+ * Moon altitude at rise and set, accounting for refraction, parallax and the moon's radius
+ */
+const MOON_HORIZON = 0.133 * RAD;
+
+/**
+ * Mean distance from the Earth to the Sun (km)
+ */
+const SUN_DISTANCE_KM = 149598000;
+
+/**
+ * Moon phases in order, starting at the new moon
+ */
+export type MoonPhase =
+	| 'newMoon'
+	| 'waxingCrescent'
+	| 'firstQuarter'
+	| 'waxingGibbous'
+	| 'fullMoon'
+	| 'waningGibbous'
+	| 'lastQuarter'
+	| 'waningCrescent';
+
+/**
+ * Localized moon phase names
+ */
+const MOON_PHASE_NAMES: Record<MoonPhase, Record<SupportedLanguage, string>> = {
+	newMoon: { en: 'New Moon', fr: 'Nouvelle lune' },
+	waxingCrescent: { en: 'Waxing Crescent', fr: 'Premier croissant' },
+	firstQuarter: { en: 'First Quarter', fr: 'Premier quartier' },
+	waxingGibbous: { en: 'Waxing Gibbous', fr: 'Gibbeuse croissante' },
+	fullMoon: { en: 'Full Moon', fr: 'Pleine lune' },
+	waningGibbous: { en: 'Waning Gibbous', fr: 'Gibbeuse décroissante' },
+	lastQuarter: { en: 'Last Quarter', fr: 'Dernier quartier' },
+	waningCrescent: { en: 'Waning Crescent', fr: 'Dernier croissant' },
+};
+
+/**
+ * Moon phases in order of the phase fraction
+ */
+const MOON_PHASES = Object.keys(MOON_PHASE_NAMES) as MoonPhase[];
+
+/**
+ * Start and end of a period; either is null when the sun never crosses the altitude
+ */
+export interface TimeRange {
+	start: string | null;
+	end: string | null;
+}
+
+/**
+ * Position in the sky
+ */
+export interface SkyPosition {
+	/** Degrees above the horizon */
+	elevation: number;
+	/** Degrees clockwise from north */
+	azimuth: number;
+}
+
+/**
+ * Sun times and position for a day
+ */
+export interface SunData {
+	sunrise: string | null;
+	sunset: string | null;
+	solarNoon: string;
+	/** Time between sunrise and sunset (seconds) */
+	daylightDuration: number;
+	alwaysUp: boolean;
+	alwaysDown: boolean;
+	/** Dawn and dusk of each twilight, i.e. when the sun crosses -6°, -12° and -18° */
+	twilight: Record<'civil' | 'nautical' | 'astronomical', { dawn: string | null; dusk: string | null }>;
+	/** Periods between sunrise or sunset and the sun being 6° above the horizon */
+	goldenHour: { morning: TimeRange | null; evening: TimeRange | null };
+	/** Elevation at solar noon (degrees) */
+	noonElevation: number;
+	position: SkyPosition;
+}
+
+/**
+ * Moon times, phase and position for a day
+ */
+export interface MoonData {
+	moonrise: string | null;
+	moonset: string | null;
+	alwaysUp: boolean;
+	alwaysDown: boolean;
+	/** Phase fraction: 0 new moon, 0.25 first quarter, 0.5 full moon, 0.75 last quarter */
+	phase: number;
+	phaseCode: MoonPhase;
+	phaseName: string;
+	/** Illuminated fraction of the disc (%) */
+	illumination: number;
+	position: SkyPosition & { distanceKm: number };
+}
+
+/**
+ * Astronomy data for a location and date
+ */
+export interface AstronomyData {
+	/** Local date (YYYY-MM-DD) */
+	date: string;
+	/** IANA time zone of the times, or null when a longitude-based offset is used */
+	timezone: string | null;
+	/** UTC offset of the times at the reference time (e.g. "-04:00") */
+	utcOffset: string;
+	/** Time the positions, phase and illumination are given for: now for today, otherwise local noon */
+	at: string;
+	sun: SunData;
+	moon: MoonData;
+	source: string;
+}
+
+/**
+ * Sun and moon fields of current conditions
+ */
+export interface CurrentAstronomy {
+	sunrise: string | null;
+	sunset: string | null;
+	moonPhase: string | null;
+	moonrise: string | null;
+	moonset: string | null;
+}
+
+/**
+ * Converts a time to days since J2000.0.
+ */
+function toDays(ms: number): number {
+	return ms / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+/**
+ * Converts a Julian date to a time.
+ */
+function fromJulian(julian: number): number {
+	return (julian + 0.5 - J1970) * DAY_MS;
+}
+
+function rightAscension(longitude: number, latitude: number): number {
+	return Math.atan2(
+		Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY),
+		Math.cos(longitude),
+	);
+}
+
+function declination(longitude: number, latitude: number): number {
+	return Math.asin(
+		Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude),
+	);
+}
+
+function siderealTime(days: number, lw: number): number {
+	return RAD * (280.16 + 360.9856235 * days) - lw;
+}
+
+function altitude(hourAngle: number, phi: number, dec: number): number {
+	return Math.asin(Math.sin(phi) * Math.sin(dec) + Math.cos(phi) * Math.cos(dec) * Math.cos(hourAngle));
+}
+
+/**
+ * Azimuth in degrees clockwise from north
+ */
+function azimuth(hourAngle: number, phi: number, dec: number): number {
+	const fromSouth = Math.atan2(
+		Math.sin(hourAngle),
+		Math.cos(hourAngle) * Math.sin(phi) - Math.tan(dec) * Math.cos(phi),
+	);
+	return (fromSouth / RAD + 180) % 360;
+}
+
+function solarMeanAnomaly(days: number): number {
+	return RAD * (357.5291 + 0.98560028 * days);
+}
+
+function eclipticLongitude(meanAnomaly: number): number {
+	const center =
+		RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+	const perihelion = RAD * 102.9372;
+	return meanAnomaly + center + perihelion + Math.PI;
+}
+
+function sunCoords(days: number): { ra: number; dec: number } {
+	const longitude = eclipticLongitude(solarMeanAnomaly(days));
+	return { ra: rightAscension(longitude, 0), dec: declination(longitude, 0) };
+}
+
+function moonCoords(days: number): { ra: number; dec: number; distanceKm: number } {
+	const meanLongitude = RAD * (218.316 + 13.176396 * days);
+	const meanAnomaly = RAD * (134.963 + 13.064993 * days);
+	const meanDistance = RAD * (93.272 + 13.22935 * days);
+
+	const longitude = meanLongitude + RAD * 6.289 * Math.sin(meanAnomaly);
+	const latitude = RAD * 5.128 * Math.sin(meanDistance);
+	return {
+		ra: rightAscension(longitude, latitude),
+		dec: declination(longitude, latitude),
+		distanceKm: 385001 - 20905 * Math.cos(meanAnomaly),
+	};
+}
+
+/**
+ * Atmospheric refraction for an altitude (radians)
+ */
+function refraction(h: number): number {
+	const altitudeAboveHorizon = Math.max(h, 0);
+	return 0.0002967 / Math.tan(altitudeAboveHorizon + 0.00312536 / (altitudeAboveHorizon + 0.08901179));
+}
+
+/**
+ * Computes the sun's position at a time.
+ *
+ * @returns Elevation and azimuth in degrees
+ */
+function sunPosition(ms: number, lat: number, lon: number): SkyPosition {
+	const days = toDays(ms);
+	const { ra, dec } = sunCoords(days);
+	const hourAngle = siderealTime(days, RAD * -lon) - ra;
+	return {
+		elevation: altitude(hourAngle, RAD * lat, dec) / RAD,
+		azimuth: azimuth(hourAngle, RAD * lat, dec),
+	};
+}
+
+/**
+ * Computes the moon's position at a time, with refraction applied to the altitude.
+ *
+ * @returns Elevation (radians), azimuth (degrees) and distance (km)
+ */
+function moonPosition(ms: number, lat: number, lon: number): { altitude: number; azimuth: number; distanceKm: number } {
+	const days = toDays(ms);
+	const { ra, dec, distanceKm } = moonCoords(days);
+	const hourAngle = siderealTime(days, RAD * -lon) - ra;
+	const h = altitude(hourAngle, RAD * lat, dec);
+	return { altitude: h + refraction(h), azimuth: azimuth(hourAngle, RAD * lat, dec), distanceKm };
+}
+
+/**
+ * Computes the moon's phase and illuminated fraction at a time.
+ */
+function moonIllumination(ms: number): { phase: number; fraction: number } {
+	const days = toDays(ms);
+	const sun = sunCoords(days);
+	const moon = moonCoords(days);
+
+	const elongation = Math.acos(
+		Math.sin(sun.dec) * Math.sin(moon.dec) + Math.cos(sun.dec) * Math.cos(moon.dec) * Math.cos(sun.ra - moon.ra),
+	);
+	const inclination = Math.atan2(
+		SUN_DISTANCE_KM * Math.sin(elongation),
+		moon.distanceKm - SUN_DISTANCE_KM * Math.cos(elongation),
+	);
+	const angle = Math.atan2(
+		Math.cos(sun.dec) * Math.sin(sun.ra - moon.ra),
+		Math.sin(sun.dec) * Math.cos(moon.dec) - Math.cos(sun.dec) * Math.sin(moon.dec) * Math.cos(sun.ra - moon.ra),
+	);
+
+	return {
+		phase: 0.5 + (0.5 * inclination * (angle < 0 ? -1 : 1)) / Math.PI,
+		fraction: (1 + Math.cos(inclination)) / 2,
+	};
+}
+
+/**
+ * Computes the times the sun crosses a set of altitudes on the solar day nearest to a time.
+ *
+ * @param ms - Time near the solar noon of the day (local noon)
+ * @returns Solar noon, and the rising and setting time at each altitude; a crossing is null and
+ *          flagged when the sun stays above (`alwaysAbove`) or below the altitude all day
+ */
+function sunTimes(
+	ms: number,
+	lat: number,
+	lon: number,
+): {
+	solarNoon: number;
+	crossings: Record<
+		keyof typeof SUN_ALTITUDES,
+		{ rise: number | null; set: number | null; alwaysAbove: boolean; alwaysBelow: boolean }
+	>;
+} {
+	const lw = RAD * -lon;
+	const phi = RAD * lat;
+	const cycle = Math.round(toDays(ms) - J0 - lw / (2 * Math.PI));
+
+	const approxTransit = (hourAngle: number) => J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+	const transit = approxTransit(0);
+	const meanAnomaly = solarMeanAnomaly(transit);
+	const longitude = eclipticLongitude(meanAnomaly);
+	const dec = declination(longitude, 0);
+	const julianTransit = (ds: number) =>
+		J2000 + ds + 0.0053 * Math.sin(meanAnomaly) - 0.0069 * Math.sin(2 * longitude);
+	const julianNoon = julianTransit(transit);
+
+	const crossings = {} as ReturnType<typeof sunTimes>['crossings'];
+	for (const [event, degrees] of Object.entries(SUN_ALTITUDES) as Array<[keyof typeof SUN_ALTITUDES, number]>) {
+		const cosHourAngle =
+			(Math.sin(RAD * degrees) - Math.sin(phi) * Math.sin(dec)) / (Math.cos(phi) * Math.cos(dec));
+		if (cosHourAngle < -1 || cosHourAngle > 1) {
+			crossings[event] = { rise: null, set: null, alwaysAbove: cosHourAngle < -1, alwaysBelow: cosHourAngle > 1 };
+			continue;
+		}
+
+		const julianSet = julianTransit(approxTransit(Math.acos(cosHourAngle)));
+		const julianRise = julianNoon - (julianSet - julianNoon);
+		crossings[event] = {
+			rise: fromJulian(julianRise),
+			set: fromJulian(julianSet),
+			alwaysAbove: false,
+			alwaysBelow: false,
+		};
+	}
+
+	return { solarNoon: fromJulian(julianNoon), crossings };
+}
+
+/**
+ * Finds moonrise and moonset within 24 hours of a start time by fitting a parabola to the
+ * moon's altitude every two hours.
+ */
+function moonTimes(
+	start: number,
+	lat: number,
+	lon: number,
+): { rise: number | null; set: number | null; alwaysUp: boolean; alwaysDown: boolean } {
+	const altitudeAt = (hours: number) => moonPosition(start + hours * HOUR_MS, lat, lon).altitude - MOON_HORIZON;
+
+	let rise: number | null = null;
+	let set: number | null = null;
+	let previous = altitudeAt(0);
+	let extremum = previous;
+
+	for (let hour = 1; hour <= 24; hour += 2) {
+		const middle = altitudeAt(hour);
+		const next = altitudeAt(hour + 1);
+
+		const a = (previous + next) / 2 - middle;
+		const b = (next - previous) / 2;
+		const vertex = -b / (2 * a);
+		extremum = (a * vertex + b) * vertex + middle;
+		const discriminant = b * b - 4 * a * middle;
+
+		let roots = 0;
+		let first = 0;
+		let second = 0;
+		if (discriminant >= 0) {
+			const offset = Math.sqrt(discriminant) / (Math.abs(a) * 2);
+			first = vertex - offset;
+			second = vertex + offset;
+			if (Math.abs(first) <= 1) roots++;
+			if (Math.abs(second) <= 1) roots++;
+			if (first < -1) first = second;
+		}
+
+		if (roots === 1) {
+			if (previous < 0) {
+				rise = hour + first;
+			} else {
+				set = hour + first;
+			}
+		} else if (roots === 2) {
+			rise = hour + (extremum < 0 ? second : first);
+			set = hour + (extremum < 0 ? first : second);
+		}
+
+		if (rise !== null && set !== null) {
+			break;
+		}
+		previous = next;
+	}
+
+	return {
+		rise: rise !== null ? start + rise * HOUR_MS : null,
+		set: set !== null ? start + set * HOUR_MS : null,
+		alwaysUp: rise === null && set === null && extremum > 0,
+		alwaysDown: rise === null && set === null && extremum <= 0,
+	};
+}
+
+/**
+ * Returns the UTC offset of a time zone at a time, in minutes. Without a time zone, the
+ * offset is approximated from the longitude (15° per hour).
+ */
+export function getUtcOffsetMinutes(ms: number, timezone: string | null, lon: number): number {
+	if (timezone) {
+		try {
+			const parts = Object.fromEntries(
+				new Intl.DateTimeFormat('en-US', {
+					timeZone: timezone,
+					hourCycle: 'h23',
+					year: 'numeric',
+					month: '2-digit',
+					day: '2-digit',
+					hour: '2-digit',
+					minute: '2-digit',
+					second: '2-digit',
+				})
+					.formatToParts(new Date(ms))
+					.map((part) => [part.type, part.value]),
+			);
+			const wallTime = Date.UTC(
+				Number(parts.year),
+				Number(parts.month) - 1,
+				Number(parts.day),
+				Number(parts.hour),
+				Number(parts.minute),
+				Number(parts.second),
+			);
+			return Math.round((wallTime - Math.floor(ms / 1000) * 1000) / 60000);
+		} catch {
+			// Unknown time zones fall back to the longitude offset
+		}
+	}
+	return Math.round(lon / 15) * 60;
+}
+
+/**
+ * Formats a UTC offset in minutes as "+HH:MM".
+ */
+function formatOffset(minutes: number): string {
+	const sign = minutes < 0 ? '-' : '+';
+	const absolute = Math.abs(minutes);
+	return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}:${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Formats a time as a local ISO 8601 timestamp with its offset (e.g. "2025-06-29T05:15:12-04:00").
+ */
+function formatLocalTime(ms: number, timezone: string | null, lon: number): string {
+	const rounded = Math.round(ms / 1000) * 1000;
+	const offset = getUtcOffsetMinutes(rounded, timezone, lon);
+	return `${new Date(rounded + offset * 60000).toISOString().slice(0, 19)}${formatOffset(offset)}`;
+}
+
+/**
+ * Returns the local date (YYYY-MM-DD) at a time.
+ */
+export function getLocalDate(ms: number, timezone: string | null, lon: number): string {
+	return new Date(ms + getUtcOffsetMinutes(ms, timezone, lon) * 60000).toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the time of local midnight at the start of a date.
+ */
+function getLocalMidnight(date: string, timezone: string | null, lon: number): number {
+	const wallMidnight = Date.parse(`${date}T00:00:00Z`);
+	const estimate = wallMidnight - getUtcOffsetMinutes(wallMidnight, timezone, lon) * 60000;
+	return wallMidnight - getUtcOffsetMinutes(estimate, timezone, lon) * 60000;
+}
+
+/**
+ * Names the moon phase of a phase fraction.
+ */
+function getMoonPhase(phase: number): MoonPhase {
+	return MOON_PHASES[Math.round(phase * MOON_PHASES.length) % MOON_PHASES.length];
+}
+
+/**
+ * Rounds a value to 1 decimal place.
+ */
+function roundOne(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+/**
+ * Computes sun and moon data for a location and local date.
+ *
+ * @param lat - Latitude in decimal degrees
+ * @param lon - Longitude in decimal degrees
+ * @param date - Local date (YYYY-MM-DD), or null for today
+ * @param timezone - IANA time zone of the location, or null to approximate it from the longitude
+ * @param lang - Language of the moon phase name
+ * @param now - Current time, used for today's date and positions
+ * @returns Sun and moon data with local times
+ *
+ * @example
+ * ```typescript
+ * const astronomy = getAstronomy(45.42, -75.69, '2025-06-21', 'America/Toronto');
+ * console.log(astronomy.sun.sunrise); // "2025-06-21T05:15:..-04:00"
+ * console.log(astronomy.sun.goldenHour.evening?.start);
+ * ```
+ */
+export function getAstronomy(
+	lat: number,
+	lon: number,
+	date: string | null,
+	timezone: string | null,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+	now: number = Date.now(),
+): AstronomyData {
+	const today = getLocalDate(now, timezone, lon);
+	const localDate = date ?? today;
+	const midnight = getLocalMidnight(localDate, timezone, lon);
+	const at = localDate === today ? now : midnight + 12 * HOUR_MS;
+	const format = (ms: number | null) => (ms !== null ? formatLocalTime(ms, timezone, lon) : null);
+
+	const { solarNoon, crossings } = sunTimes(midnight + 12 * HOUR_MS, lat, lon);
+	const horizon = crossings.horizon;
+	const golden = crossings.goldenHour;
+	const twilight = (event: 'civil' | 'nautical' | 'astronomical') => ({
+		dawn: format(crossings[event].rise),
+		dusk: format(crossings[event].set),
+	});
+
+	// Golden hour lasts all day when the sun rises but never climbs above 6°
+	let goldenHour: SunData['goldenHour'] = { morning: null, evening: null };
+	if (horizon.rise !== null && horizon.set !== null && !golden.alwaysAbove) {
+		goldenHour = {
+			morning: { start: format(horizon.rise), end: format(golden.rise ?? solarNoon) },
+			evening: { start: format(golden.set ?? solarNoon), end: format(horizon.set) },
+		};
+	}
+
+	let daylightDuration = horizon.alwaysAbove ? 24 * 60 * 60 : 0;
+	if (horizon.rise !== null && horizon.set !== null) {
+		daylightDuration = Math.round((horizon.set - horizon.rise) / 1000);
+	}
+
+	const sunNow = sunPosition(at, lat, lon);
+	const moonNow = moonPosition(at, lat, lon);
+	const moon = moonTimes(midnight, lat, lon);
+	const { phase, fraction } = moonIllumination(at);
+	const phaseCode = getMoonPhase(phase);
+
+	return {
+		date: localDate,
+		timezone,
+		utcOffset: formatOffset(getUtcOffsetMinutes(at, timezone, lon)),
+		at: formatLocalTime(at, timezone, lon),
+		sun: {
+			sunrise: format(horizon.rise),
+			sunset: format(horizon.set),
+			solarNoon: formatLocalTime(solarNoon, timezone, lon),
+			daylightDuration,
+			alwaysUp: horizon.alwaysAbove,
+			alwaysDown: horizon.alwaysBelow,
+			twilight: {
+				civil: twilight('civil'),
+				nautical: twilight('nautical'),
+				astronomical: twilight('astronomical'),
+			},
+			goldenHour,
+			noonElevation: roundOne(sunPosition(solarNoon, lat, lon).elevation),
+			position: { elevation: roundOne(sunNow.elevation), azimuth: roundOne(sunNow.azimuth) },
+		},
+		moon: {
+			moonrise: format(moon.rise),
+			moonset: format(moon.set),
+			alwaysUp: moon.alwaysUp,
+			alwaysDown: moon.alwaysDown,
+			phase: Math.round(phase * 1000) / 1000,
+			phaseCode,
+			phaseName: MOON_PHASE_NAMES[phaseCode][lang],
+			illumination: roundOne(fraction * 100),
+			position: {
+				elevation: roundOne(moonNow.altitude / RAD),
+				azimuth: roundOne(moonNow.azimuth),
+				distanceKm: Math.round(moonNow.distanceKm),
+			},
+		},
+		source: 'Computed locally',
+	};
+}
+
+/**
+ * Computes today's sun and moon fields of current conditions.
+ *
+ * @param lat - Latitude in decimal degrees
+ * @param lon - Longitude in decimal degrees
+ * @param timezone - IANA time zone of the location, or null to approximate it from the longitude
+ * @param lang - Language of the moon phase name
+ * @returns Sunrise, sunset, moonrise and moonset as local times, and the current moon phase name
+ */
+export function getCurrentAstronomy(
+	lat: number,
+	lon: number,
+	timezone: string | null,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+): CurrentAstronomy {
+	const { sun, moon } = getAstronomy(lat, lon, null, timezone, lang);
+	return {
+		sunrise: sun.sunrise,
+		sunset: sun.sunset,
+		moonPhase: moon.phaseName,
+		moonrise: moon.moonrise,
+		moonset: moon.moonset,
+	};
+}
@@ -0,0 +1,412 @@
+/**
+ * Environment Canada Alerts Parser
+ *
+ * Parses the "Warnings and Watches" entries of Environment Canada RSS feeds into
+ * typed weather alerts. Both the English and French feeds are understood.
+ *
+ * @module EnvironmentCanadaAlerts
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { DEFAULT_LANGUAGE, SupportedLanguage, translate } from './localization';
+import { AlertSeverity, AlertType, WeatherAlert } from './weatherTypes';
+import { logger } from '../utils/logger';
+
+/**
+ * RSS categories used by Environment Canada for alert entries, in English and French
+ */
+export const ALERT_CATEGORIES: readonly string[] = ['Warnings and Watches', 'Veilles et avertissements'];
+
+/**
+ * Source name reported on parsed alerts
+ */
+const ALERT_SOURCE = 'Environment Canada';
+
+/**
+ * UTC offsets (hours) for the time zone abbreviations used in EC feeds
+ */
+const TIME_ZONE_OFFSETS: Record<string, number> = {
+	UTC: 0,
+	GMT: 0,
+	NST: -3.5,
+	NDT: -2.5,
+	AST: -4,
+	ADT: -3,
+	EST: -5,
+	EDT: -4,
+	CST: -6,
+	CDT: -5,
+	MST: -7,
+	MDT: -6,
+	PST: -8,
+	PDT: -7,
+	// French abbreviations
+	HNT: -3.5,
+	HAT: -2.5,
+	HNA: -4,
+	HAA: -3,
+	HNE: -5,
+	HAE: -4,
+	HNC: -6,
+	HAC: -5,
+	HNR: -7,
+	HAR: -6,
+	HNP: -8,
+	HAP: -7,
+};
+
+/**
+ * English month names, indexed from 0
+ */
+const MONTHS_EN = [
+	'january',
+	'february',
+	'march',
+	'april',
+	'may',
+	'june',
+	'july',
+	'august',
+	'september',
+	'october',
+	'november',
+	'december',
+];
+
+/**
+ * French month names, indexed from 0
+ */
+const MONTHS_FR = [
+	'janvier',
+	'février',
+	'mars',
+	'avril',
+	'mai',
+	'juin',
+	'juillet',
+	'août',
+	'septembre',
+	'octobre',
+	'novembre',
+	'décembre',
+];
+
+/**
+ * Alert types recognized in titles, most specific first
+ */
+const ALERT_TYPE_KEYWORDS: Array<{ keyword: RegExp; type: AlertType }> = [
+	{ keyword: /\bWARNING\b/i, type: 'warning' },
+	{ keyword: /\bWATCH\b/i, type: 'watch' },
+	{ keyword: /\bADVISORY\b/i, type: 'advisory' },
+	{ keyword: /\bSTATEMENT\b/i, type: 'statement' },
+	{ keyword: /\bAVERTISSEMENT\b/i, type: 'warning' },
+	{ keyword: /\bVEILLE\b/i, type: 'watch' },
+	{ keyword: /\bAVIS\b/i, type: 'advisory' },
+	{ keyword: /\bBULLETIN\b/i, type: 'statement' },
+];
+
+/**
+ * Hazards whose warnings are treated as extreme
+ */
+const EXTREME_HAZARDS = /\b(TORNADO|HURRICANE|TSUNAMI|STORM SURGE|TORNADE|OURAGAN|ONDES? DE TEMPÊTE)\b/i;
+
+/**
+ * "Issued" and "Expires" lines of alert summaries, in English and French
+ */
+const ISSUED_PATTERN = /(?:Issued|Émis)\s*:\s*([^\n]+)/i;
+const EXPIRES_PATTERN = /(?:Expires?|Expiration)\s*:\s*([^\n]+)/i;
+
+/**
+ * Titles reporting that no alerts are in effect
+ */
+const NO_ALERTS_PATTERN = /no watches or warnings in effect|aucune veille ou alerte en vigueur/i;
+
+/**
+ * Headlines of alerts that have ended
+ */
+const ENDED_PATTERN = /\b(ENDED|TERMIN[ÉE]E?S?)(?![A-Z])/i;
+
+/**
+ * Text element of a feed entry as parsed by xml2js: a plain string, or an object holding the
+ * text in `_` when the element has attributes such as `type="html"`
+ */
+export type AtomText = string | { _?: string; content?: string; type?: string };
+
+/**
+ * Entry of an Environment Canada Atom feed as parsed by xml2js with `explicitArray: false`
+ * and `mergeAttrs: true`
+ */
+export interface AtomEntry {
+	id?: string;
+	title?: AtomText;
+	summary?: AtomText;
+	link?: string | { href?: string; type?: string };
+	category?: { term?: string };
+	published?: string;
+	updated?: string;
+}
+
+/**
+ * Local date and time parts of an Environment Canada timestamp
+ */
+interface EcTimestampParts {
+	year: number;
+	month: number;
+	day: number;
+	hour: number;
+	minute: number;
+	zone: string;
+}
+
+/**
+ * Splits an Environment Canada timestamp in either language into its local date and time parts.
+ *
+ * @param text - Timestamp text from an RSS summary or title
+ * @returns Local date and time parts, or null if the text cannot be parsed
+ */
+function parseEcTimestampParts(text: string | null | undefined): EcTimestampParts | null {
+	if (!text) return null;
+
+	const englishMatch = text.match(
+		/(\d{1,2}):(\d{2})\s*(AM|PM)\s+([A-Z]{2,4})\s+(?:[A-Za-z]+\s+)?(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})/i,
+	);
+	if (englishMatch) {
+		const [, hourText, minuteText, meridiem, zone, dayText, monthText, yearText] = englishMatch;
+		return toTimestampParts(
+			yearText,
+			MONTHS_EN.indexOf(monthText.toLowerCase()),
+			dayText,
+			(parseInt(hourText, 10) % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0),
+			minuteText,
+			zone,
+		);
+	}
+
+	// French timestamps may name the weekday with an article ("15h00 HAE le samedi 28 juin 2025")
+	const frenchMatch = text.match(
+		/(\d{1,2})\s*h\s*(\d{2})\s+([A-Z]{2,4})\s+(?:le\s+)?(?:[^\s\d]+\s+)?(\d{1,2})(?:er)?\s+([^\s\d]+)\s+(\d{4})/i,
+	);
+	if (frenchMatch) {
+		const [, hourText, minuteText, zone, dayText, monthText, yearText] = frenchMatch;
+		return toTimestampParts(
+			yearText,
+			MONTHS_FR.indexOf(monthText.toLowerCase()),
+			dayText,
+			parseInt(hourText, 10),
+			minuteText,
+			zone,
+		);
+	}
+
+	return null;
+}
+
+/**
+ * Builds timestamp parts, rejecting unknown months.
+ */
+function toTimestampParts(
+	yearText: string,
+	month: number,
+	dayText: string,
+	hour: number,
+	minuteText: string,
+	zone: string,
+): EcTimestampParts | null {
+	if (month === -1) return null;
+
+	return {
+		year: parseInt(yearText, 10),
+		month,
+		day: parseInt(dayText, 10),
+		hour,
+		minute: parseInt(minuteText, 10),
+		zone: zone.toUpperCase(),
+	};
+}
+
+/**
+ * Parses an Environment Canada timestamp such as "11:09 AM EDT Saturday 28 June 2025"
+ * or its French form "11h09 HAE samedi 28 juin 2025".
+ *
+ * @param text - Timestamp text from an RSS summary or title
+ * @returns ISO 8601 timestamp in UTC, or null if the text cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * parseEcTimestamp('11:09 AM EDT Saturday 28 June 2025'); // "2025-06-28T15:09:00.000Z"
+ * parseEcTimestamp('11h09 HAE samedi 28 juin 2025'); // "2025-06-28T15:09:00.000Z"
+ * ```
+ */
+export function parseEcTimestamp(text: string | null | undefined): string | null {
+	const parts = parseEcTimestampParts(text);
+	const offset = parts ? TIME_ZONE_OFFSETS[parts.zone] : undefined;
+	if (!parts || offset === undefined) return null;
+
+	const utc = Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute) - offset * 60 * 60 * 1000;
+	return new Date(utc).toISOString();
+}
+
+/**
+ * Parses the calendar date of an Environment Canada timestamp in the time zone it was written in,
+ * which is the local time zone of the forecast site.
+ *
+ * @param text - Timestamp text from an RSS summary or title
+ * @returns Local date (YYYY-MM-DD), or null if the text cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * parseEcLocalDate('9:00 PM PDT Saturday 28 June 2025'); // "2025-06-28" (already the 29th in UTC)
+ * ```
+ */
+export function parseEcLocalDate(text: string | null | undefined): string | null {
+	const parts = parseEcTimestampParts(text);
+	if (!parts) return null;
+
+	return new Date(Date.UTC(parts.year, parts.month, parts.day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Extracts plain text from an RSS entry summary.
+ *
+ * @param summary - Summary as parsed by xml2js
+ * @returns Summary text with HTML removed
+ */
+function getSummaryText(summary: AtomText | undefined): string {
+	let text = '';
+	if (typeof summary === 'string') {
+		text = summary;
+	} else if (summary?._) {
+		text = summary._;
+	} else if (summary?.content) {
+		text = summary.content;
+	}
+
+	return text
+		.replace(/<!\[CDATA\[|\]\]>/g, '')
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<[^>]*>/g, '')
+		.replace(/&nbsp;/g, ' ')
+		.trim();
+}
+
+/**
+ * Determines alert severity from its type and hazard.
+ *
+ * @param type - Alert type
+ * @param headline - Alert headline
+ * @returns Alert severity
+ */
+function determineSeverity(type: AlertType, headline: string): AlertSeverity {
+	// Colour-coded alerts state their level explicitly
+	if (/\b(RED|ROUGE)\b/i.test(headline)) return 'extreme';
+	if (/\bORANGE\b/i.test(headline)) return 'severe';
+	if (/\b(YELLOW|JAUNE)\b/i.test(headline)) return 'moderate';
+
+	switch (type) {
+		case 'warning':
+			return EXTREME_HAZARDS.test(headline) ? 'extreme' : 'severe';
+		case 'watch':
+			return 'moderate';
+		case 'advisory':
+		case 'statement':
+			return 'minor';
+		default:
+			return 'unknown';
+	}
+}
+
+/**
+ * Parses a single "Warnings and Watches" entry.
+ *
+ * @param entry - RSS entry
+ * @returns Parsed alert, or null when the entry reports that no alerts are in effect
+ */
+function parseAlertEntry(entry: AtomEntry): WeatherAlert | null {
+	const title = typeof entry.title === 'string' ? entry.title : entry.title?._ || '';
+
+	if (NO_ALERTS_PATTERN.test(title)) {
+		return null;
+	}
+
+	// Titles look like "SEVERE THUNDERSTORM WATCH IN EFFECT, Ottawa (Kanata - Orléans)"
+	const titleMatch = title.match(/^(.+?)(?:,\s*(.+))?$/);
+	const headline = (titleMatch?.[1] || title).trim();
+	const area = titleMatch?.[2]?.trim() || null;
+
+	const typeMatch = ALERT_TYPE_KEYWORDS.find(({ keyword }) => keyword.test(headline));
+	const type: AlertType = typeMatch ? typeMatch.type : 'statement';
+
+	const summary = getSummaryText(entry.summary);
+	const issuedMatch = summary.match(ISSUED_PATTERN);
+	const expiresMatch = summary.match(EXPIRES_PATTERN);
+	const description = summary.replace(ISSUED_PATTERN, '').replace(EXPIRES_PATTERN, '').replace(/\s+/g, ' ').trim();
+
+	const link = typeof entry.link === 'string' ? entry.link : entry.link?.href || null;
+
+	return {
+		id: entry.id || `${headline}|${area ?? ''}`,
+		type,
+		severity: determineSeverity(type, headline),
+		status: ENDED_PATTERN.test(headline) ? 'ended' : 'active',
+		headline,
+		description: description || null,
+		area,
+		issued: parseEcTimestamp(issuedMatch?.[1]) || entry.published || entry.updated || null,
+		expires: parseEcTimestamp(expiresMatch?.[1]),
+		link,
+		source: ALERT_SOURCE,
+	};
+}
+
+/**
+ * Parses all "Warnings and Watches" entries of a feed.
+ *
+ * @param entries - All RSS entries of the feed
+ * @returns Alerts in effect (empty when the feed reports no watches or warnings)
+ */
+export function parseAlertEntries(entries: AtomEntry[]): WeatherAlert[] {
+	const alerts: WeatherAlert[] = [];
+
+	for (const entry of entries.filter((item) => ALERT_CATEGORIES.includes(item.category?.term ?? ''))) {
+		try {
+			const alert = parseAlertEntry(entry);
+			if (alert) {
+				alerts.push(alert);
+			}
+		} catch (error) {
+			logger.error(`Error parsing alert entry: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	return alerts;
+}
+
+/**
+ * Creates a notice alert for stale observation data.
+ *
+ * @param message - Description of the data age problem
+ * @param observationTime - Time of the stale observation
+ * @param lang - Language of the headline
+ * @returns Notice alert
+ */
+export function createStaleDataNotice(
+	message: string,
+	observationTime: string,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+): WeatherAlert {
+	return {
+		id: `stale-data|${observationTime}`,
+		type: 'notice',
+		severity: 'minor',
+		status: 'active',
+		headline: translate('staleDataHeadline', lang),
+		description: message,
+		area: null,
+		issued: null,
+		expires: null,
+		link: null,
+		source: ALERT_SOURCE,
+	};
+}
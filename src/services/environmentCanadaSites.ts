@@ -0,0 +1,99 @@
+/**
+ * Environment Canada Site Catalogue
+ *
+ * Loads the bundled Environment Canada forecast site list (`data/ecSiteList.json`, generated
+ * from EC's `siteList.xml` by `pnpm run sites:update`) into a spatial index so any coordinate
+ * can be resolved to its nearest forecast site.
+ *
+ * @module EnvironmentCanadaSites
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SpatialIndex } from './spatialIndex';
+import { logger } from '../utils/logger';
+
+/**
+ * Path of the bundled site list, relative to the working directory
+ */
+const SITE_LIST_PATH = join('data', 'ecSiteList.json');
+
+/**
+ * Environment Canada forecast site
+ */
+export interface EnvironmentCanadaSite {
+	code: string | null;
+	nameEn: string;
+	nameFr: string;
+	province: string;
+	lat: number;
+	lon: number;
+}
+
+/**
+ * Structure of the bundled site list file
+ */
+export interface EnvironmentCanadaSiteList {
+	source: string;
+	updated: string | null;
+	sites: EnvironmentCanadaSite[];
+}
+
+/**
+ * Lazily built index over the site list
+ */
+let siteIndex: SpatialIndex<EnvironmentCanadaSite> | null = null;
+
+/**
+ * Loads the site list and builds the spatial index on first use.
+ *
+ * @returns Spatial index of all forecast sites
+ * @throws {Error} When the site list file cannot be read or parsed
+ */
+function getSiteIndex(): SpatialIndex<EnvironmentCanadaSite> {
+	if (siteIndex) {
+		return siteIndex;
+	}
+
+	const filePath = join(process.cwd(), SITE_LIST_PATH);
+	const siteList: EnvironmentCanadaSiteList = JSON.parse(readFileSync(filePath, 'utf8'));
+
+	siteIndex = new SpatialIndex(siteList.sites);
+	logger.info(`Loaded ${siteIndex.size} Environment Canada forecast sites from ${SITE_LIST_PATH}`);
+	// Only `pnpm run sites:update` records a fetch date; without one the file is the hand-made seed
+	if (!siteList.updated) {
+		logger.warn(`${SITE_LIST_PATH} is a seed without site codes; run \`pnpm run sites:update\``);
+	}
+	return siteIndex;
+}
+
+/**
+ * Finds the Environment Canada forecast site nearest to a coordinate.
+ *
+ * @param lat - Latitude in decimal degrees
+ * @param lon - Longitude in decimal degrees
+ * @returns Nearest site and its distance in kilometres, or null if the catalogue is empty
+ *
+ * @example
+ * ```typescript
+ * const nearest = findNearestSite(46.49, -80.99);
+ * console.log(nearest?.site.nameEn); // "Greater Sudbury"
+ * ```
+ */
+export function findNearestSite(lat: number, lon: number): { site: EnvironmentCanadaSite; distanceKm: number } | null {
+	const nearest = getSiteIndex().nearest(lat, lon);
+	return nearest ? { site: nearest.item, distanceKm: nearest.distanceKm } : null;
+}
+
+/**
+ * Builds the identifier used in Environment Canada's location-based RSS feed URLs.
+ *
+ * @param site - Forecast site
+ * @returns Feed identifier in the form "lat_lon" (e.g. "45.400_-75.720")
+ */
+export function getSiteFeedId(site: EnvironmentCanadaSite): string {
+	return `${site.lat.toFixed(3)}_${site.lon.toFixed(3)}`;
+}
@@ -2,7 +2,8 @@
  * Environment Canada Weather Service
  *
  * This service fetches and processes weather data from Environment Canada RSS feeds.
- * It provides current conditions and 7-day forecasts for major Canadian cities.
+ * It provides current conditions and 7-day forecasts for the nearest Environment Canada forecast site,
+ * in English or French. Both feed languages are parsed into the same structure.
  *
  * @module EnvironmentCanadaWeatherService
  * @author AxleAPI
@@ -12,6 +13,17 @@
 
 import axios, { AxiosResponse } from 'axios';
 import { parseStringPromise } from 'xml2js';
+import {
+	AtomEntry,
+	createStaleDataNotice,
+	parseAlertEntries,
+	parseEcLocalDate,
+	parseEcTimestamp,
+} from './environmentCanadaAlerts';
+import { EnvironmentCanadaSite, findNearestSite, getSiteFeedId } from './environmentCanadaSites';
+import { DEFAULT_LANGUAGE, SupportedLanguage, translate } from './localization';
+import { convertValue, Quantity, roundTo, UNIT_SYSTEMS } from './unitConversion';
+import { ForecastPeriod, PrecipitationTotals, SevenDayForecast, WeatherAlert } from './weatherTypes';
 import { logger } from '../utils/logger';
 
 /**
@@ -25,40 +37,66 @@ const MAX_DATA_AGE_HOURS = 3;
 const REQUEST_TIMEOUT_MS = 10000;
 
 /**
- * Base URL for Environment Canada RSS feeds
+ * Base URL for Environment Canada location-based RSS feeds
  */
-const RSS_BASE_URL = 'https://weather.gc.ca/rss/city';
+const RSS_BASE_URL = 'https://weather.gc.ca/rss/weather';
 
 /**
- * Coordinates to city code mapping for major Canadian cities.
- * Format: "lat,lon": "province-citycode"
+ * Feed file suffix for each response language (e.g. "45.400_-75.720_f.xml")
  */
-const CITY_CODE_MAP: Record<string, string> = {
-	// Ottawa area
-	'45.4,-75.7': 'on-118',
-	'45.403,-75.687': 'on-118',
-	'45.4,-75.69': 'on-118',
-	// Toronto
-	'43.65,-79.38': 'on-143',
-	'43.7,-79.4': 'on-143',
-	// Vancouver
-	'49.25,-123.1': 'bc-74',
-	'49.3,-123.1': 'bc-74',
-	// Calgary
-	'51.05,-114.07': 'ab-52',
-	'51.0,-114.1': 'ab-52',
-	// Edmonton
-	'53.55,-113.5': 'ab-50',
-	'53.5,-113.5': 'ab-50',
-	// Montreal
-	'45.5,-73.58': 'qc-147',
-	'45.5,-73.6': 'qc-147',
-	// Winnipeg
-	'49.9,-97.1': 'mb-38',
-	// Halifax
-	'44.6,-63.6': 'ns-19',
-	// Quebec City
-	'46.8,-71.2': 'qc-133',
+const FEED_LANGUAGE_SUFFIX: Record<SupportedLanguage, string> = {
+	en: 'e',
+	fr: 'f',
+};
+
+/**
+ * RSS categories of current conditions and forecast entries, in English and French
+ */
+const CURRENT_CONDITIONS_CATEGORIES = ['Current Conditions', 'Conditions actuelles'];
+const FORECAST_CATEGORIES = ['Weather Forecasts', 'Prévisions météo'];
+
+/**
+ * Weekday names in English and French, indexed from Sunday
+ */
+const WEEKDAYS = [
+	['sunday', 'dimanche'],
+	['monday', 'lundi'],
+	['tuesday', 'mardi'],
+	['wednesday', 'mercredi'],
+	['thursday', 'jeudi'],
+	['friday', 'vendredi'],
+	['saturday', 'samedi'],
+];
+
+/**
+ * Forecast period names that cover the evening or night ("Tonight", "Sunday night", "Dimanche soir et nuit")
+ */
+const NIGHT_PERIOD_PATTERN = /\b(night|tonight|evening|soir|nuit)\b/i;
+
+/**
+ * Issue time at the end of forecast summaries, in English and French
+ */
+const FORECAST_ISSUED_PATTERN = /(?:Forecast issued|Prévisions émises)\s*(?:à\s*)?:?\s*(.+)$/i;
+
+/**
+ * French current-conditions labels mapped to their English equivalents,
+ * so both feeds are parsed by the same code
+ */
+const FRENCH_SUMMARY_LABELS: Record<string, string> = {
+	'enregistrées à': 'observed at',
+	condition: 'condition',
+	température: 'temperature',
+	'pression / tendance': 'pressure / tendency',
+	pression: 'pressure',
+	visibilité: 'visibility',
+	humidité: 'humidity',
+	humidex: 'humidex',
+	'refroidissement éolien': 'wind chill',
+	'point de rosée': 'dewpoint',
+	vent: 'wind',
+	'cote air santé': 'air quality health index',
+	'indice uv': 'uv index',
+	précipitations: 'precipitation',
 };
 
 /**
@@ -88,18 +126,13 @@ interface CurrentWeatherData {
 	stationName: string | null;
 	stationId: string;
 	observationTime: string | null;
-	precipitation: {
-		past1Hr: number | null;
-		past3Hr: number | null;
-		past6Hr: number | null;
-		past24Hr: number | null;
-		unit: string | null;
-	};
+	precipitation: PrecipitationTotals;
 	uvIndex: number | null;
 	humidex: number | null;
 	windChill: number | null;
 	cloudCover: number | null;
 	cloudCoverUnit: string | null;
+	/** The feed has no sun or moon data; the advanced weather service computes it for the requested location */
 	sunrise: string | null;
 	sunset: string | null;
 	moonPhase: string | null;
@@ -110,112 +143,73 @@ interface CurrentWeatherData {
 }
 
 /**
- * Weather forecast data structure for 7-day forecasts
+ * Sections parsed from a single RSS feed
  */
-interface ForecastData {
-	period: string;
-	date: string | null;
-	temperature: number | null;
-	temperatureType: string | null;
-	temperatureUnit: string;
-	condition: string | null;
-	precipitationChance: number | null;
-	precipitation: {
-		type: string;
-		amount: number;
-		unit: string;
-	} | null;
-	windSummary: string | null;
-	summary: string;
-	fullSummary: string;
+interface ParsedWeatherFeed {
+	current: CurrentWeatherData;
+	forecast: SevenDayForecast[];
+	alerts: WeatherAlert[];
+	observationUpdated: string | null;
+}
+
+/**
+ * Forecast site that served the request
+ */
+interface ForecastSiteData {
+	name: string;
+	code: string | null;
+	province: string;
+	latitude: number;
+	longitude: number;
+	distanceKm: number;
 }
 
 /**
  * Complete weather service response structure
  */
-interface WeatherServiceResponse {
+export interface WeatherServiceResponse {
+	site: ForecastSiteData;
 	current: CurrentWeatherData[];
-	'7day': ForecastData[];
-	alerts: Array<{ warning: string }>;
+	'7day': SevenDayForecast[];
+	alerts: WeatherAlert[];
 	hourly: never[];
 	daily: never[];
 	'14day': never[];
 }
 
 /**
- * Finds the appropriate Environment Canada city code for given coordinates.
- * Uses a nearest-neighbor approach for unmapped coordinates.
+ * Resolves the Environment Canada forecast site nearest to the given coordinates.
  *
  * @param lat - Latitude as string
  * @param lon - Longitude as string
- * @returns Environment Canada city code (e.g., "on-118")
+ * @returns Nearest forecast site and its distance in kilometers
+ *
+ * @throws {Error} When the coordinates are invalid or the site catalogue is empty
  *
  * @example
  * ```typescript
- * const cityCode = findCityCode("45.4215", "-75.6998");
- * console.log(cityCode); // "on-118"
+ * const { site, distanceKm } = resolveForecastSite("46.49", "-80.99");
+ * console.log(site.nameEn); // "Greater Sudbury"
  * ```
  */
-function findCityCode(lat: string, lon: string): string {
+function resolveForecastSite(lat: string, lon: string): { site: EnvironmentCanadaSite; distanceKm: number } {
 	const latNum = parseFloat(lat);
 	const lonNum = parseFloat(lon);
 
 	// Validate coordinates
 	if (isNaN(latNum) || isNaN(lonNum)) {
-		logger.error(`Invalid coordinates provided: ${lat}, ${lon}. Using default Ottawa.`);
-		return 'on-118';
-	}
-
-	// Try exact coordinate matches first
-	const exactKey = `${lat},${lon}`;
-	if (CITY_CODE_MAP[exactKey]) {
-		return CITY_CODE_MAP[exactKey];
+		throw new Error(`Invalid coordinates provided: ${lat}, ${lon}`);
 	}
 
-	// Try rounded coordinates (1 decimal place)
-	const coordKey = `${latNum.toFixed(1)},${lonNum.toFixed(1)}`;
-	if (CITY_CODE_MAP[coordKey]) {
-		return CITY_CODE_MAP[coordKey];
-	}
-
-	// Find nearest city using haversine distance
-	let nearestCode = 'on-118'; // Default to Ottawa
-	let minDistance = Infinity;
-
-	for (const [coords, code] of Object.entries(CITY_CODE_MAP)) {
-		const [cityLat, cityLon] = coords.split(',').map(Number);
-		const distance = calculateHaversineDistance(latNum, lonNum, cityLat, cityLon);
-
-		if (distance < minDistance) {
-			minDistance = distance;
-			nearestCode = code;
-		}
+	const nearest = findNearestSite(latNum, lonNum);
+	if (!nearest) {
+		throw new Error('Environment Canada site catalogue is empty');
 	}
 
 	logger.info(
-		`Using nearest city code ${nearestCode} for coordinates ${lat}, ${lon} (distance: ${minDistance.toFixed(2)}km)`,
+		`Using forecast site ${nearest.site.nameEn}, ${nearest.site.province} for coordinates ${lat}, ${lon} (distance: ${nearest.distanceKm.toFixed(2)}km)`,
 	);
-	return nearestCode;
-}
-
-/**
- * Calculates the haversine distance between two coordinate points.
- *
- * @param lat1 - First latitude
- * @param lon1 - First longitude
- * @param lat2 - Second latitude
- * @param lon2 - Second longitude
- * @returns Distance in kilometers
- */
-function calculateHaversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-	const R = 6371; // Earth's radius in kilometers
-	const dLat = ((lat2 - lat1) * Math.PI) / 180;
-	const dLon = ((lon2 - lon1) * Math.PI) / 180;
-	const a =
-		Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-		Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
-	const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-	return R * c;
+	return nearest;
 }
 
 /**
@@ -253,8 +247,9 @@ function parseWeatherSummary(htmlSummary: any): Record<string, string> {
 		// Remove CDATA wrapper and normalize line breaks
 		const cleanText = summaryText
 			.replace(/<!\[CDATA\[|\]\]>/g, '')
-			.replace(/<br\/?>/gi, '\n')
-			.replace(/&nbsp;/g, ' ');
+			.replace(/<br\s*\/?>/gi, '\n')
+			.replace(/&nbsp;/g, ' ')
+			.replace(/&deg;/g, '°');
 
 		const lines = cleanText.split('\n').filter((line) => line.trim());
 
@@ -262,8 +257,12 @@ function parseWeatherSummary(htmlSummary: any): Record<string, string> {
 		lines.forEach((line) => {
 			const match = line.match(/<b>([^:]+):<\/b>\s*(.+)/i);
 			if (match) {
-				const key = match[1].trim().toLowerCase().replace(/\s+/g, ' ');
-				const value = match[2].trim().replace(/<[^>]*>/g, ''); // Remove remaining HTML
+				const label = match[1].trim().toLowerCase().replace(/\s+/g, ' ');
+				const key = FRENCH_SUMMARY_LABELS[label] || label;
+				const value = match[2]
+					.trim()
+					.replace(/<[^>]*>/g, '') // Remove remaining HTML
+					.replace(/(\d),(\d)/g, '$1.$2'); // French decimal commas
 				data[key] = value;
 			}
 		});
@@ -298,16 +297,20 @@ function safeParseFloat(value: string | undefined, fieldName: string): number |
  * Checks if weather data is stale and creates appropriate warnings.
  *
  * @param observationTime - ISO timestamp of last observation
+ * @param lang - Language of the warning message
  * @returns Warning message if data is stale, null otherwise
  */
-function checkDataAge(observationTime: string): string | null {
+function checkDataAge(observationTime: string, lang: SupportedLanguage): string | null {
 	try {
 		const observationDate = new Date(observationTime);
 		const now = new Date();
 		const ageHours = (now.getTime() - observationDate.getTime()) / (1000 * 60 * 60);
 
 		if (ageHours > MAX_DATA_AGE_HOURS) {
-			return `Data is ${Math.round(ageHours)} hours old. Latest observation: ${observationDate.toISOString()}`;
+			return translate('staleDataDescription', lang, {
+				hours: Math.round(ageHours),
+				observationTime: observationDate.toISOString(),
+			});
 		}
 
 		return null;
@@ -323,6 +326,7 @@ function checkDataAge(observationTime: string): string | null {
  *
  * @param lat - Latitude coordinate as string
  * @param lon - Longitude coordinate as string
+ * @param lang - Feed language (English or French)
  * @returns Promise resolving to structured weather data
  *
  * @throws {Error} When RSS feed is unavailable or data cannot be parsed
@@ -332,19 +336,27 @@ function checkDataAge(observationTime: string): string | null {
  * try {
  *   const weatherData = await getWeatherData("45.4215", "-75.6998");
  *   console.log(`Current temperature: ${weatherData.current[0].temperature}°C`);
- *   console.log(`7-day forecast has ${weatherData['7day'].length} periods`);
+ *   console.log(`7-day forecast covers ${weatherData['7day'].length} days`);
  * } catch (error) {
  *   console.error('Weather service error:', error.message);
  * }
  * ```
  */
-export async function getWeatherData(lat: string, lon: string): Promise<WeatherServiceResponse> {
+export async function getWeatherData(
+	lat: string,
+	lon: string,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+): Promise<WeatherServiceResponse> {
 	const startTime = Date.now();
-	const cityCode = findCityCode(lat, lon);
-	const endpoint = `${RSS_BASE_URL}/${cityCode}_e.xml`;
+	const { site, distanceKm } = resolveForecastSite(lat, lon);
+	const feedId = getSiteFeedId(site);
+	const stationId = site.code || feedId;
+	const endpoint = `${RSS_BASE_URL}/${feedId}_${FEED_LANGUAGE_SUFFIX[lang]}.xml`;
 
 	try {
-		logger.info(`Fetching Environment Canada weather data for ${lat}, ${lon} using city code ${cityCode}`);
+		logger.info(
+			`Fetching Environment Canada weather data for ${lat}, ${lon} using site ${site.nameEn} (${feedId})`,
+		);
 
 		// Fetch RSS feed with timeout and error handling
 		const response: AxiosResponse = await axios.get(endpoint, {
@@ -359,156 +371,300 @@ export async function getWeatherData(lat: string, lon: string): Promise<WeatherS
 			throw new Error(`HTTP ${response.status}: Failed to fetch weather data from ${endpoint}`);
 		}
 
-		// Parse XML to JSON with comprehensive options
-		const result = await parseStringPromise(response.data, {
-			trim: true,
-			explicitArray: false,
-			mergeAttrs: true,
-			normalize: true,
-			normalizeTags: false,
-			explicitRoot: false,
-		});
-
-		// The parsed result has feed properties at root level due to explicitRoot: false
-		const feed = result;
-		if (!feed || !feed.entry) {
-			throw new Error('Invalid RSS feed structure: missing feed or entries');
-		}
-
-		const entries = Array.isArray(feed.entry) ? feed.entry : [feed.entry];
-
-		// Find current conditions entry
-		const currentConditionsEntry = entries.find((entry: any) => entry.category?.term === 'Current Conditions');
+		const { current, forecast, alerts, observationUpdated } = await parseWeatherFeed(response.data, stationId);
 
-		if (!currentConditionsEntry) {
-			throw new Error('Current conditions not found in RSS feed');
+		// Check data age and generate notices
+		const dataAgeWarning = observationUpdated ? checkDataAge(observationUpdated, lang) : null;
+		if (dataAgeWarning) {
+			alerts.push(createStaleDataNotice(dataAgeWarning, observationUpdated!, lang));
 		}
 
-		// Parse weather data from HTML summary
-		const weatherData = parseWeatherSummary(currentConditionsEntry.summary);
-
-		// Extract forecast entries (next 6 periods for 3-day forecast)
-		const forecastEntries = entries
-			.filter((entry: any) => entry.category?.term === 'Weather Forecasts')
-			.slice(0, 6);
-
-		// Check data age and generate warnings
-		const dataAgeWarning = currentConditionsEntry.updated ? checkDataAge(currentConditionsEntry.updated) : null;
-
-		// Parse current conditions with enhanced error handling
-		const current = parseCurrentConditions(weatherData, cityCode, currentConditionsEntry.updated);
-		const forecast = parseForecastData(forecastEntries);
-
 		const responseTime = Date.now() - startTime;
 		logger.info(`Environment Canada weather data fetched successfully in ${responseTime}ms`);
 
 		return {
+			site: {
+				name: lang === 'fr' ? site.nameFr : site.nameEn,
+				code: site.code,
+				province: site.province,
+				latitude: site.lat,
+				longitude: site.lon,
+				distanceKm: Math.round(distanceKm * 10) / 10,
+			},
 			current: [current],
 			'7day': forecast,
-			alerts: dataAgeWarning ? [{ warning: dataAgeWarning }] : [],
+			alerts,
 			hourly: [], // RSS doesn't provide hourly data
 			daily: [], // RSS doesn't provide structured daily data
-			'14day': [], // RSS only provides 6-period forecast
+			'14day': [], // RSS only provides a 7-day forecast
 		};
 	} catch (error) {
 		const responseTime = Date.now() - startTime;
 		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
 		logger.error(
-			`Environment Canada weather service error after ${responseTime}ms: ${errorMessage} | Endpoint: ${endpoint} | City: ${cityCode} | Coords: ${lat}, ${lon}`,
+			`Environment Canada weather service error after ${responseTime}ms: ${errorMessage} | Endpoint: ${endpoint} | Site: ${site.nameEn} | Coords: ${lat}, ${lon}`,
 		);
 
 		throw new Error(`Environment Canada weather service unavailable: ${errorMessage}`);
 	}
 }
 
+/**
+ * Parses an Environment Canada RSS feed into current conditions, forecast periods and alerts.
+ *
+ * @param xml - Raw RSS feed XML
+ * @param stationId - Environment Canada site identifier reported with the observation
+ * @returns Promise resolving to the parsed feed sections
+ *
+ * @throws {Error} When the feed structure is invalid or has no current conditions
+ */
+export async function parseWeatherFeed(xml: string, stationId: string): Promise<ParsedWeatherFeed> {
+	// Parse XML to JSON with comprehensive options
+	const result = await parseStringPromise(xml, {
+		trim: true,
+		explicitArray: false,
+		mergeAttrs: true,
+		normalize: true,
+		normalizeTags: false,
+		explicitRoot: false,
+	});
+
+	// The parsed result has feed properties at root level due to explicitRoot: false
+	const feed = result;
+	if (!feed || !feed.entry) {
+		throw new Error('Invalid RSS feed structure: missing feed or entries');
+	}
+
+	const entries: AtomEntry[] = Array.isArray(feed.entry) ? feed.entry : [feed.entry];
+
+	// Find current conditions entry
+	const currentConditionsEntry = entries.find((entry) =>
+		CURRENT_CONDITIONS_CATEGORIES.includes(entry.category?.term ?? ''),
+	);
+
+	if (!currentConditionsEntry) {
+		throw new Error('Current conditions not found in RSS feed');
+	}
+
+	// Parse weather data from HTML summary
+	const weatherData = parseWeatherSummary(currentConditionsEntry.summary);
+
+	// Extract forecast entries (every period of the 7-day forecast)
+	const forecastEntries = entries.filter((entry) => FORECAST_CATEGORIES.includes(entry.category?.term ?? ''));
+
+	return {
+		current: parseCurrentConditions(weatherData, stationId, currentConditionsEntry.updated || null),
+		forecast: pairForecastPeriods(parseForecastPeriods(forecastEntries)),
+		alerts: parseAlertEntries(entries),
+		observationUpdated: currentConditionsEntry.updated || null,
+	};
+}
+
+/**
+ * Converts a measurement to the service's canonical unit (°C, km/h, kPa, km or mm).
+ *
+ * @param value - Measured value
+ * @param unit - Unit as written in the feed
+ * @param quantity - Kind of measurement
+ * @returns Value in the canonical unit rounded to 1 decimal place, or null if the unit is unknown
+ *
+ * @example
+ * ```typescript
+ * normalizeMeasurement(10, 'mph', 'speed'); // 16.1
+ * normalizeMeasurement(1012, 'hPa', 'pressure'); // 101.2
+ * ```
+ */
+function normalizeMeasurement(
+	value: number | null,
+	unit: string | null | undefined,
+	quantity: Quantity,
+): number | null {
+	if (value === null) return null;
+
+	const canonicalUnit = UNIT_SYSTEMS.metric[quantity];
+	const converted = convertValue(value, unit || canonicalUnit, canonicalUnit);
+	if (converted === null) {
+		logger.error(`Unknown ${quantity} unit: ${unit}`);
+		return null;
+	}
+
+	return roundTo(converted, 1);
+}
+
+/**
+ * Parses a temperature such as "26.3°C", "-4°F" or "33".
+ *
+ * @param text - Temperature text from the summary
+ * @param fieldName - Name of field for error logging
+ * @returns Temperature in °C, or null
+ */
+function parseTemperature(text: string | undefined, fieldName: string): number | null {
+	const match = text?.match(/(-?\d+(?:\.\d+)?)\s*°?\s*([CF])?\b/i);
+	if (!match) return null;
+
+	const value = safeParseFloat(match[1], fieldName);
+	return normalizeMeasurement(value, match[2] ? `°${match[2].toUpperCase()}` : '°C', 'temperature');
+}
+
+/**
+ * Parses a wind description such as "SW 19 km/h gust 30 km/h", "calm" or "VRB 4 km/h",
+ * or the French "SO 19 km/h rafales 30 km/h" and "calme".
+ *
+ * @param text - Wind text from the summary
+ * @returns Wind speed and gust in km/h and direction (compass point as written, "VRB" or null when calm)
+ */
+function parseWind(text: string | undefined): { speed: number | null; direction: string | null; gust: number | null } {
+	if (!text) {
+		return { speed: null, direction: null, gust: null };
+	}
+
+	if (/^\s*calme?\b/i.test(text)) {
+		return { speed: 0, direction: null, gust: null };
+	}
+
+	const windMatch = text.match(/^\s*([NSEWO]{1,3}|VRB|variable)?\s*(\d+(?:\.\d+)?)\s*(km\/h|mph|knots?|kt|m\/s)?/i);
+	const direction = windMatch?.[1] ? (/^v/i.test(windMatch[1]) ? 'VRB' : windMatch[1].toUpperCase()) : null;
+	const unit = windMatch?.[3] || 'km/h';
+	const speed = windMatch ? normalizeMeasurement(safeParseFloat(windMatch[2], 'windSpeed'), unit, 'speed') : null;
+
+	// Gusts are written as "gust 30 km/h", "gusting to 30 km/h" or "rafales 30 km/h"
+	const gustMatch = text.match(
+		/(?:gust(?:ing|s)?|rafales?)\s+(?:to\s+|à\s+)?(\d+(?:\.\d+)?)\s*(km\/h|mph|knots?|kt|m\/s)?/i,
+	);
+	const gust = gustMatch
+		? normalizeMeasurement(safeParseFloat(gustMatch[1], 'windGust'), gustMatch[2] || unit, 'speed')
+		: null;
+
+	return { speed, direction, gust };
+}
+
+/**
+ * Splits the "Observed at" line into station name and observation time.
+ *
+ * @param text - Text such as "Ottawa Airport 4:00 PM EDT Saturday 28 June 2025"
+ * @returns Station name and ISO observation time when present
+ */
+function parseObservedAt(text: string | undefined): { stationName: string | null; observedAt: string | null } {
+	if (!text) {
+		return { stationName: null, observedAt: null };
+	}
+
+	const timeIndex = text.search(/\d{1,2}(:\d{2}\s*(AM|PM)|\s*h\s*\d{2}\s+[A-Z]{2,4}\b)/i);
+	if (timeIndex === -1) {
+		return { stationName: text.trim(), observedAt: null };
+	}
+
+	return {
+		stationName: text.slice(0, timeIndex).trim() || null,
+		observedAt: parseEcTimestamp(text.slice(timeIndex)),
+	};
+}
+
+/**
+ * Maps a pressure tendency ("rising", "à la baisse", ...) to a language-independent code.
+ *
+ * @param text - Tendency text following the pressure value
+ * @returns "rising", "falling", "steady", or null when absent
+ */
+function parsePressureTendency(text: string | undefined): string | null {
+	if (!text) return null;
+	if (/rising|hausse/i.test(text)) return 'rising';
+	if (/falling|baisse/i.test(text)) return 'falling';
+	if (/steady|stable/i.test(text)) return 'steady';
+	return null;
+}
+
 /**
  * Parses current weather conditions from Environment Canada data.
+ * Every measurement is normalized to °C, km/h, kPa, km and mm.
  *
  * @param weatherData - Parsed weather data from RSS summary
- * @param cityCode - Environment Canada city code
+ * @param stationId - Environment Canada site identifier
  * @param observationTime - Time of observation
  * @returns Structured current weather data
  */
 function parseCurrentConditions(
 	weatherData: Record<string, string>,
-	cityCode: string,
+	stationId: string,
 	observationTime: string | null,
 ): CurrentWeatherData {
-	// Parse temperature with enhanced regex
-	const tempMatch = weatherData.temperature?.match(/(-?\d+\.?\d*)\s*°?([CF])?/);
-	const temperature = tempMatch ? safeParseFloat(tempMatch[1], 'temperature') : null;
-	const temperatureUnit = tempMatch?.[2] ? `°${tempMatch[2]}` : '°C';
-
-	// Parse pressure with tendency
-	const pressureMatch = weatherData['pressure / tendency']?.match(/(\d+\.?\d*)\s*(\w+)\s*(\w+)?/);
-	const pressure = pressureMatch ? safeParseFloat(pressureMatch[1], 'pressure') : null;
-	const pressureUnit = pressureMatch?.[2] || null;
-	const pressureTendency = pressureMatch?.[3] || null;
-
-	// Enhanced wind parsing with gust detection
-	const windMatch = weatherData.wind?.match(/([NSEW]+)\s+(\d+)\s+(\w+\/?\w*)/);
-	const windSpeed = windMatch ? safeParseFloat(windMatch[2], 'windSpeed') : null;
-	const windDirection = windMatch?.[1] || null;
-	const windSpeedUnit = windMatch?.[3] || null;
-
-	// Extract wind gusts
-	const windGustMatch = weatherData.wind?.match(/gusting?\s+to\s+(\d+)/i);
-	const windGust = windGustMatch ? safeParseFloat(windGustMatch[1], 'windGust') : null;
-	const windGustUnit = windGust ? windSpeedUnit : null;
+	const temperature = parseTemperature(weatherData.temperature, 'temperature');
+	const dewPoint = parseTemperature(weatherData.dewpoint, 'dewPoint');
+
+	// Humidex and wind chill are unitless index values in °C terms
+	const humidex = parseTemperature(weatherData.humidex, 'humidex');
+	const windChill = parseTemperature(weatherData['wind chill'], 'windChill');
+
+	// Parse pressure with tendency (e.g. "101.2 kPa falling")
+	const pressureText = weatherData['pressure / tendency'] || weatherData.pressure;
+	const pressureMatch = pressureText?.match(/(\d+(?:\.\d+)?)\s*(kPa|hPa|mb|inHg)?\s*(.*)$/i);
+	const pressure = pressureMatch
+		? normalizeMeasurement(safeParseFloat(pressureMatch[1], 'pressure'), pressureMatch[2] || 'kPa', 'pressure')
+		: null;
+	const pressureTendency = parsePressureTendency(pressureMatch?.[3]);
+
+	const wind = parseWind(weatherData.wind);
 
 	// Parse visibility
-	const visibilityMatch = weatherData.visibility?.match(/(\d+\.?\d*)\s*(\w+)/);
-	const visibility = visibilityMatch ? safeParseFloat(visibilityMatch[1], 'visibility') : null;
-	const visibilityUnit = visibilityMatch?.[2] || null;
+	const visibilityMatch = weatherData.visibility?.match(/(\d+(?:\.\d+)?)\s*(km|mi|m)\b/i);
+	const visibility = visibilityMatch
+		? normalizeMeasurement(safeParseFloat(visibilityMatch[1], 'visibility'), visibilityMatch[2], 'distance')
+		: null;
 
 	// Parse humidity
-	const humidityMatch = weatherData.humidity?.match(/(\d+)\s*%?/);
+	const humidityMatch = weatherData.humidity?.match(/(\d+(?:\.\d+)?)\s*%?/);
 	const humidity = humidityMatch ? safeParseFloat(humidityMatch[1], 'humidity') : null;
 
-	// Parse dewpoint
-	const dewpointMatch = weatherData.dewpoint?.match(/(-?\d+\.?\d*)\s*°?([CF])?/);
-	const dewPoint = dewpointMatch ? safeParseFloat(dewpointMatch[1], 'dewPoint') : null;
-	const dewPointUnit = dewpointMatch?.[2] ? `°${dewpointMatch[2]}` : '°C';
-
 	// Parse Air Quality Health Index
 	const aqhiMatch = weatherData['air quality health index']?.match(/(\d+)/);
 	const airQuality = aqhiMatch ? safeParseFloat(aqhiMatch[1], 'airQuality') : null;
 
+	// Parse UV index
+	const uvMatch = weatherData['uv index']?.match(/(\d+(?:\.\d+)?)/);
+	const uvIndex = uvMatch ? safeParseFloat(uvMatch[1], 'uvIndex') : null;
+
+	// Parse precipitation amounts (e.g. "1.2 mm" or "trace")
+	const precipitation: PrecipitationTotals = {
+		past1Hr: parsePrecipitation(weatherData['precipitation (past hour)'] || weatherData['precipitation']),
+		past3Hr: parsePrecipitation(weatherData['precipitation (past 3 hours)']),
+		past6Hr: parsePrecipitation(weatherData['precipitation (past 6 hours)']),
+		past24Hr: parsePrecipitation(weatherData['precipitation (past 24 hours)']),
+		unit: 'mm',
+	};
+	const hasPrecipitation = Object.values(precipitation).some((value) => typeof value === 'number');
+	if (!hasPrecipitation) precipitation.unit = null;
+
+	const { stationName, observedAt } = parseObservedAt(weatherData['observed at']);
+
 	return {
 		temperature,
-		temperatureUnit,
+		temperatureUnit: '°C',
 		condition: weatherData.condition || null,
 		humidity,
 		humidityUnit: humidity !== null ? '%' : null,
-		windSpeed,
-		windSpeedUnit,
-		windDirection,
-		windDirectionUnit: windDirection ? '°' : null,
-		windGust,
-		windGustUnit,
+		windSpeed: wind.speed,
+		windSpeedUnit: wind.speed !== null ? 'km/h' : null,
+		windDirection: wind.direction,
+		windDirectionUnit: wind.direction ? 'compass' : null,
+		windGust: wind.gust,
+		windGustUnit: wind.gust !== null ? 'km/h' : null,
 		pressure,
-		pressureUnit,
+		pressureUnit: pressure !== null ? 'kPa' : null,
 		pressureTendency,
 		visibility,
-		visibilityUnit,
+		visibilityUnit: visibility !== null ? 'km' : null,
 		dewPoint,
-		dewPointUnit,
+		dewPointUnit: dewPoint !== null ? '°C' : null,
 		airQuality,
 		airQualityUnit: airQuality !== null ? 'AQHI' : null,
-		stationName: weatherData['observed at'] || null,
-		stationId: cityCode,
-		observationTime,
-		precipitation: {
-			past1Hr: null,
-			past3Hr: null,
-			past6Hr: null,
-			past24Hr: null,
-			unit: null,
-		},
-		uvIndex: null,
-		humidex: null,
-		windChill: null,
+		stationName,
+		stationId,
+		observationTime: observedAt || observationTime,
+		precipitation,
+		uvIndex,
+		humidex,
+		windChill,
 		cloudCover: null,
 		cloudCoverUnit: null,
 		sunrise: null,
@@ -522,12 +678,93 @@ function parseCurrentConditions(
 }
 
 /**
- * Parses 7-day forecast data from Environment Canada RSS entries.
+ * Parses a precipitation amount such as "1.2 mm", "0.5 cm" or "trace".
+ *
+ * @param text - Precipitation text from the summary
+ * @returns Amount in mm (0 for trace), or null
+ */
+function parsePrecipitation(text: string | undefined): number | null {
+	if (!text) return null;
+	if (/trace/i.test(text)) return 0;
+
+	const match = text.match(/(\d+(?:\.\d+)?)\s*(mm|cm|in)?/i);
+	return match
+		? normalizeMeasurement(safeParseFloat(match[1], 'precipitation'), match[2] || 'mm', 'precipitation')
+		: null;
+}
+
+/**
+ * Resolves the calendar date of a forecast period from its name and the forecast issue date.
+ * Periods named after a weekday fall on the first such day on or after the issue date;
+ * "Today", "Tonight" and similar periods fall on the issue date.
+ *
+ * @param period - Period name (e.g. "Sunday night", "Ce soir et cette nuit")
+ * @param issuedDate - Local date the forecast was issued (YYYY-MM-DD)
+ * @returns Local date of the period (YYYY-MM-DD), or null without an issue date
+ */
+function resolvePeriodDate(period: string, issuedDate: string | null): string | null {
+	if (!issuedDate) return null;
+
+	const issued = new Date(`${issuedDate}T00:00:00Z`);
+	const firstWord = period.trim().split(/\s+/)[0].toLowerCase();
+	const weekday = WEEKDAYS.findIndex((names) => names.includes(firstWord));
+	if (weekday === -1) {
+		return issuedDate;
+	}
+
+	const daysAhead = (weekday - issued.getUTCDay() + 7) % 7;
+	return new Date(issued.getTime() + daysAhead * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Pairs consecutive day and night forecast periods into daily records.
+ * A forecast issued in the evening starts with a night-only day, and the last day usually has no night.
+ *
+ * @param periods - Forecast periods in feed order
+ * @returns One record per calendar date
+ */
+function pairForecastPeriods(periods: ForecastPeriod[]): SevenDayForecast[] {
+	const days: Array<{ date: string | null; day: ForecastPeriod | null; night: ForecastPeriod | null }> = [];
+
+	for (const period of periods) {
+		const last = days[days.length - 1];
+		if (period.isNight && last && !last.night && last.date === period.date) {
+			last.night = period;
+		} else {
+			days.push({
+				date: period.date,
+				day: period.isNight ? null : period,
+				night: period.isNight ? period : null,
+			});
+		}
+	}
+
+	return days.map(({ date, day, night }) => {
+		const dayPeriods = [day, night].filter((period): period is ForecastPeriod => period !== null);
+		const chances = dayPeriods
+			.map((period) => period.precipitationChance)
+			.filter((chance): chance is number => chance !== null);
+
+		return {
+			date,
+			temperatureHigh: dayPeriods.find((period) => period.temperatureType === 'high')?.temperature ?? null,
+			temperatureLow: dayPeriods.find((period) => period.temperatureType === 'low')?.temperature ?? null,
+			temperatureUnit: '°C',
+			condition: day?.condition ?? night?.condition ?? null,
+			precipitationChance: chances.length > 0 ? Math.max(...chances) : null,
+			day,
+			night,
+		};
+	});
+}
+
+/**
+ * Parses forecast periods from Environment Canada RSS entries.
  *
  * @param forecastEntries - Array of RSS forecast entries
- * @returns Array of structured forecast data
+ * @returns Array of structured forecast periods
  */
-function parseForecastData(forecastEntries: any[]): ForecastData[] {
+function parseForecastPeriods(forecastEntries: any[]): ForecastPeriod[] {
 	return forecastEntries.map((entry: any) => {
 		const title = entry.title || '';
 		let summary = '';
@@ -551,21 +788,24 @@ function parseForecastData(forecastEntries: any[]): ForecastData[] {
 		const periodMatch = title.match(/^([^:]+):/);
 		const period = periodMatch ? periodMatch[1] : title;
 
-		// Extract temperature with enhanced parsing
-		const tempMatch = title.match(/(High|Low)\s+(-?\d+)/i);
-		const tempValue = tempMatch ? parseInt(tempMatch[2]) : null;
-		const tempType = tempMatch ? tempMatch[1].toLowerCase() : null;
+		// Extract temperature (e.g. "High 28", "Low minus 5", "Maximum plus 2")
+		const tempMatch = title.match(/(High|Low|Maximum|Minimum)\s+(?:(minus|moins|plus)\s+)?(-?\d+)/i);
+		const tempSign = tempMatch && /minus|moins/i.test(tempMatch[2] || '') ? -1 : 1;
+		const tempValue = tempMatch ? tempSign * parseInt(tempMatch[3]) : null;
+		const tempType = tempMatch ? (/high|maximum/i.test(tempMatch[1]) ? 'high' : 'low') : null;
 
-		// Extract precipitation probability
-		const popMatch = title.match(/POP\s+(\d+)%/i);
+		// Extract precipitation probability ("POP 30%" in English, "PdP 30%" in French)
+		const popMatch = title.match(/(?:POP|PdP)\s+(\d+)\s*%/i);
 		const precipitationChance = popMatch ? parseInt(popMatch[1]) : null;
 
 		// Extract wind information from summary
-		const windSummaryMatch = summary.match(/wind\s+[^.]*(\d+)\s*km\/h[^.]*/i);
+		const windSummaryMatch = summary.match(/(?:wind|vents?)\s+[^.]*(\d+)\s*km\/h[^.]*/i);
 		const windSummary = windSummaryMatch ? windSummaryMatch[0] : null;
 
 		// Extract precipitation details
-		const precipMatch = summary.match(/(rain|snow|showers|flurries)[^.]*amount[^.]*(\d+(?:\.\d+)?)[^.]*(mm|cm)/i);
+		const precipMatch = summary.match(
+			/(rain|snow|showers|flurries|pluie|neige|averses|bruine)[^.]*(?:amount|hauteur)[^.]*(\d+(?:\.\d+)?)[^.]*(mm|cm)/i,
+		);
 		const precipitation = precipMatch
 			? {
 					type: precipMatch[1],
@@ -574,9 +814,13 @@ function parseForecastData(forecastEntries: any[]): ForecastData[] {
 				}
 			: null;
 
+		// Every summary ends with the local issue time ("Forecast issued 3:00 PM EDT Saturday 28 June 2025")
+		const issuedMatch = summary.match(FORECAST_ISSUED_PATTERN);
+
 		return {
 			period,
-			date: entry.updated || null,
+			date: resolvePeriodDate(period, parseEcLocalDate(issuedMatch?.[1])),
+			isNight: NIGHT_PERIOD_PATTERN.test(period),
 			temperature: tempValue,
 			temperatureType: tempType,
 			temperatureUnit: '°C',
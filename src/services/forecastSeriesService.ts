@@ -0,0 +1,339 @@
+/**
+ * Forecast Series Service
+ *
+ * Retrieves hourly or 15-minute forecast time series from the Open-Meteo forecast API for a
+ * chosen window and subset of variables, so clients can chart a few variables over several
+ * days without downloading the full combined weather payload.
+ *
+ * @module ForecastSeriesService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import axios, { AxiosResponse } from 'axios';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './localization';
+import { OPEN_METEO_BASE_URL, OpenMeteoResponse, OpenMeteoSeries, toHourlyForecast } from './openMeteoWeatherService';
+import { getWarmWeatherIndex } from './thermalComfort';
+import { HourlyForecast } from './weatherTypes';
+import { logger } from '../utils/logger';
+
+/**
+ * HTTP request timeout for series requests (milliseconds)
+ */
+const SERIES_TIMEOUT_MS = 10000;
+
+/**
+ * Forecast horizon of the Open-Meteo forecast API (days)
+ */
+export const MAX_SERIES_DAYS = 16;
+
+/**
+ * Length of the default window, starting at the current hour (hours)
+ */
+const DEFAULT_WINDOW_HOURS = 24;
+
+/**
+ * Cache lifetime for series responses (10 minutes, matching the weather cache refresh)
+ */
+const SERIES_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Maximum number of cached series responses; the least recently used entry is evicted first
+ */
+const MAX_SERIES_CACHE_ENTRIES = 500;
+
+/**
+ * Time step of a series
+ */
+export type SeriesResolution = 'hourly' | '15min';
+
+/**
+ * All series resolutions
+ */
+export const SERIES_RESOLUTIONS: readonly SeriesResolution[] = ['hourly', '15min'];
+
+/**
+ * Open-Meteo parameters of each resolution: the variable list, the window bounds, the number
+ * of steps from the current time, and the number of steps per hour
+ */
+const RESOLUTION_PARAMETERS = {
+	hourly: { variables: 'hourly', start: 'start_hour', end: 'end_hour', count: 'forecast_hours', stepsPerHour: 1 },
+	'15min': {
+		variables: 'minutely_15',
+		start: 'start_minutely_15',
+		end: 'end_minutely_15',
+		count: 'forecast_minutely_15',
+		stepsPerHour: 4,
+	},
+} as const satisfies Record<SeriesResolution, Record<string, string | number>>;
+
+/**
+ * Variables that can be requested with `vars`, with the Open-Meteo variables they need, the unit
+ * field that labels them, the field naming the index they were derived from, if any, and whether
+ * Open-Meteo provides them at 15-minute resolution
+ */
+const SERIES_VARIABLES = {
+	temperature: { openMeteo: ['temperature_2m'], unitField: 'temperatureUnit', quarterHourly: true },
+	feelsLike: {
+		openMeteo: ['temperature_2m', 'relative_humidity_2m', 'dew_point_2m', 'wind_speed_10m', 'apparent_temperature'],
+		unitField: 'feelsLikeUnit',
+		indexField: 'feelsLikeIndex',
+		quarterHourly: true,
+	},
+	condition: { openMeteo: ['weather_code'], unitField: null, quarterHourly: true },
+	humidity: { openMeteo: ['relative_humidity_2m'], unitField: 'humidityUnit', quarterHourly: true },
+	dewPoint: { openMeteo: ['dew_point_2m'], unitField: 'dewPointUnit', quarterHourly: true },
+	precipitationProbability: { openMeteo: ['precipitation_probability'], unitField: null, quarterHourly: false },
+	precipitation: { openMeteo: ['precipitation'], unitField: 'precipitationUnit', quarterHourly: true },
+	windSpeed: { openMeteo: ['wind_speed_10m'], unitField: 'windSpeedUnit', quarterHourly: true },
+	windDirection: { openMeteo: ['wind_direction_10m'], unitField: null, quarterHourly: true },
+	windGusts: { openMeteo: ['wind_gusts_10m'], unitField: 'windSpeedUnit', quarterHourly: true },
+	pressure: { openMeteo: ['pressure_msl'], unitField: 'pressureUnit', quarterHourly: false },
+	cloudCover: { openMeteo: ['cloud_cover'], unitField: 'cloudCoverUnit', quarterHourly: false },
+	visibility: { openMeteo: ['visibility'], unitField: 'visibilityUnit', quarterHourly: true },
+	uvIndex: { openMeteo: ['uv_index'], unitField: null, quarterHourly: false },
+} satisfies Record<
+	string,
+	{
+		openMeteo: string[];
+		unitField: keyof HourlyForecast | null;
+		indexField?: keyof HourlyForecast;
+		quarterHourly: boolean;
+	}
+>;
+
+/**
+ * Name of a variable accepted by `vars`
+ */
+export type SeriesVariable = keyof typeof SERIES_VARIABLES;
+
+/**
+ * All series variables, returned when `vars` is not given
+ */
+export const SERIES_VARIABLE_NAMES = Object.keys(SERIES_VARIABLES) as SeriesVariable[];
+
+/**
+ * Lists the requested variables that are not available at a resolution.
+ *
+ * @param variables - Requested variables
+ * @param resolution - Series resolution
+ * @returns Unavailable variables (empty when all are available)
+ */
+export function getUnavailableVariables(variables: SeriesVariable[], resolution: SeriesResolution): SeriesVariable[] {
+	return resolution === '15min' ? variables.filter((variable) => !SERIES_VARIABLES[variable].quarterHourly) : [];
+}
+
+/**
+ * Collects the Open-Meteo variables needed for a set of series variables.
+ *
+ * @param variables - Requested variables
+ * @returns Unique Open-Meteo variable names
+ */
+export function collectSeriesVariables(variables: SeriesVariable[]): string[] {
+	return Array.from(new Set(variables.flatMap((variable) => SERIES_VARIABLES[variable].openMeteo)));
+}
+
+/**
+ * Gets the field of an hourly entry holding a variable's unit.
+ *
+ * @param variable - Series variable
+ * @returns Unit field, or null for unitless variables
+ */
+export function getSeriesUnitField(variable: SeriesVariable): keyof HourlyForecast | null {
+	return SERIES_VARIABLES[variable].unitField;
+}
+
+/**
+ * Time series entry holding the time and the requested variables with their units
+ */
+export type SeriesEntry = Partial<HourlyForecast> & { time: string };
+
+/**
+ * Forecast time series for a location
+ */
+export interface ForecastSeries {
+	resolution: SeriesResolution;
+	/** IANA time zone of the location; entry times are local times in this zone */
+	timezone: string | null;
+	utcOffsetSeconds: number | null;
+	variables: SeriesVariable[];
+	entries: SeriesEntry[];
+	source: string;
+}
+
+/**
+ * Window of a series in the location's local time (YYYY-MM-DDTHH:MM); the default window
+ * covers the next 24 hours from the current hour
+ */
+export interface SeriesWindow {
+	from: string;
+	to: string;
+}
+
+/**
+ * Open-Meteo forecast API response for a series request
+ */
+interface OpenMeteoSeriesResponse {
+	timezone?: string;
+	utc_offset_seconds?: number;
+	hourly?: OpenMeteoSeries<OpenMeteoResponse['hourly']>;
+	minutely_15?: OpenMeteoSeries<OpenMeteoResponse['hourly']>;
+}
+
+/**
+ * Cached series response with its expiry
+ */
+interface SeriesCacheEntry {
+	data: ForecastSeries;
+	expiresAt: number;
+}
+
+/**
+ * Series responses keyed by location, window, resolution, variables and language
+ */
+const seriesCache = new Map<string, SeriesCacheEntry>();
+
+/**
+ * Returns a cached response, refreshing its position in the eviction order.
+ */
+function getCachedSeries(key: string): ForecastSeries | null {
+	const entry = seriesCache.get(key);
+	if (!entry) {
+		return null;
+	}
+
+	seriesCache.delete(key);
+	if (entry.expiresAt <= Date.now()) {
+		return null;
+	}
+
+	seriesCache.set(key, entry);
+	return entry.data;
+}
+
+/**
+ * Stores a response, evicting the least recently used entry when the cache is full.
+ */
+function setCachedSeries(key: string, data: ForecastSeries): void {
+	if (seriesCache.size >= MAX_SERIES_CACHE_ENTRIES) {
+		const oldestKey = seriesCache.keys().next().value;
+		if (oldestKey !== undefined) {
+			seriesCache.delete(oldestKey);
+		}
+	}
+
+	seriesCache.set(key, { data, expiresAt: Date.now() + SERIES_TTL_MS });
+}
+
+/**
+ * Keeps the time, the requested variables and their unit fields of an hourly entry.
+ *
+ * @param entry - Complete hourly entry
+ * @param variables - Requested variables
+ * @returns Sparse series entry
+ */
+export function pickVariables(entry: HourlyForecast, variables: SeriesVariable[]): SeriesEntry {
+	const picked: Record<string, unknown> = { time: entry.time };
+	for (const variable of variables) {
+		picked[variable] = entry[variable];
+		const config = SERIES_VARIABLES[variable];
+		if (config.unitField) {
+			picked[config.unitField] = entry[config.unitField];
+		}
+		if ('indexField' in config) {
+			picked[config.indexField] = entry[config.indexField];
+		}
+	}
+	return picked as SeriesEntry;
+}
+
+/**
+ * Retrieves a forecast time series for a location.
+ *
+ * @param lat - Latitude coordinate as string
+ * @param lon - Longitude coordinate as string
+ * @param window - Local time window, or null for the next 24 hours
+ * @param variables - Variables to include
+ * @param resolution - Time step of the series
+ * @param lang - Language of the condition text
+ * @returns Promise resolving to the series
+ *
+ * @throws {Error} When the forecast API fails or returns invalid data
+ *
+ * @example
+ * ```typescript
+ * const series = await getForecastSeries('45.4215', '-75.6998', { from: '2025-06-29T00:00', to: '2025-07-01T23:00' }, [
+ * 	'temperature',
+ * 	'windGusts',
+ * ]);
+ * console.log(`${series.entries.length} hours in ${series.timezone}`);
+ * ```
+ */
+export async function getForecastSeries(
+	lat: string,
+	lon: string,
+	window: SeriesWindow | null,
+	variables: SeriesVariable[] = SERIES_VARIABLE_NAMES,
+	resolution: SeriesResolution = 'hourly',
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+): Promise<ForecastSeries> {
+	const key = [lat, lon, window?.from, window?.to, resolution, [...variables].sort().join('+'), lang].join(',');
+	const cached = getCachedSeries(key);
+	if (cached) {
+		logger.info(`Serving cached forecast series for ${lat}, ${lon}`);
+		return cached;
+	}
+
+	const parameters = RESOLUTION_PARAMETERS[resolution];
+	const params = new URLSearchParams({
+		latitude: lat,
+		longitude: lon,
+		[parameters.variables]: collectSeriesVariables(variables).join(','),
+		timezone: 'auto',
+	});
+	if (window) {
+		params.set(parameters.start, window.from);
+		params.set(parameters.end, window.to);
+	} else {
+		params.set(parameters.count, String(DEFAULT_WINDOW_HOURS * parameters.stepsPerHour));
+	}
+
+	try {
+		logger.info(`Fetching ${resolution} forecast series for coordinates ${lat}, ${lon}`);
+
+		const response: AxiosResponse<OpenMeteoSeriesResponse> = await axios.get(`${OPEN_METEO_BASE_URL}?${params}`, {
+			timeout: SERIES_TIMEOUT_MS,
+			headers: {
+				'User-Agent': 'AxleAPI/1.0.0 (Forecast Series Service)',
+				Accept: 'application/json',
+			},
+		});
+
+		const series = response.data?.[parameters.variables];
+		if (!series || !Array.isArray(series.time)) {
+			throw new Error('Invalid response format from Open-Meteo API');
+		}
+
+		const warmIndex = getWarmWeatherIndex(parseFloat(lat), parseFloat(lon));
+		const result: ForecastSeries = {
+			resolution,
+			timezone: response.data.timezone ?? null,
+			utcOffsetSeconds: response.data.utc_offset_seconds ?? null,
+			variables,
+			entries: series.time.map((_, index) =>
+				pickVariables(toHourlyForecast(series, index, lang, 'Open-Meteo', warmIndex), variables),
+			),
+			source: 'Open-Meteo',
+		};
+
+		setCachedSeries(key, result);
+		return result;
+	} catch (error) {
+		// Open-Meteo explains rejected requests in a `reason` field
+		const reason = axios.isAxiosError(error) ? error.response?.data?.reason : null;
+		const errorMessage = reason || (error instanceof Error ? error.message : 'Unknown error');
+		logger.error(`Open-Meteo forecast series error: ${errorMessage}`);
+		throw new Error(`Forecast series unavailable: ${errorMessage}`);
+	}
+}
@@ -0,0 +1,623 @@
+/**
+ * Forecast Verification Service
+ *
+ * Scores past forecasts against Environment Canada observations. Whenever the weather cache
+ * refreshes a location, the hourly and daily forecasts of every source are archived with their
+ * lead time; once the observation for an hour (or every hour of a day) arrives, the archived
+ * forecasts for it are scored. Temperature forecasts are scored by their mean absolute error and
+ * bias, and precipitation forecasts by how often they correctly called for precipitation or not.
+ *
+ * Scores are grouped by source, location and lead time, giving the evidence for tuning the blend
+ * weights of the providers. They are kept in memory and do not survive a restart.
+ *
+ * @module ForecastVerificationService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { getLocalDate, getUtcOffsetMinutes } from './astronomyService';
+import { reverseGeocode } from './geocodingService';
+import { roundTo } from './unitConversion';
+import { CacheRefresh, weatherCacheManager } from './weatherCacheManager';
+import { WeatherData } from './weatherTypes';
+import { logger } from '../utils/logger';
+
+/**
+ * Source whose observations forecasts are verified against
+ */
+export const VERIFYING_SOURCE = 'Environment Canada';
+
+/**
+ * Precipitation probability (%) from which a forecast counts as calling for precipitation
+ */
+export const PRECIPITATION_PROBABILITY_THRESHOLD = 50;
+
+/**
+ * Upper bounds of the hourly lead time groups (hours)
+ */
+const HOURLY_LEAD_BUCKETS = [3, 6, 12, 24, 48] as const;
+
+/**
+ * Hourly observations needed before a day's high, low and precipitation are scored
+ */
+const MIN_DAILY_OBSERVATIONS = 18;
+
+/**
+ * Time after which unverified forecasts and observations are discarded (milliseconds)
+ */
+const ARCHIVE_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Most locations archived at once
+ */
+const MAX_ARCHIVED_LOCATIONS = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Words of English and French Environment Canada conditions that report falling precipitation
+ */
+const PRECIPITATION_CONDITION =
+	/rain|shower|drizzle|snow|flurr|sleet|hail|ice pellets|thunder|precipitation|pluie|averse|bruine|neige|grésil|grêle|orage|précipitation/i;
+
+/**
+ * Forecasts scored: hourly forecasts, or daily highs, lows and precipitation
+ */
+export type VerificationKind = 'hourly' | 'daily';
+
+/**
+ * Mean absolute error and bias (forecast minus observed) of temperature forecasts
+ */
+export interface TemperatureScore {
+	count: number;
+	mae: number;
+	bias: number;
+	unit: '°C';
+}
+
+/**
+ * Share of precipitation forecasts that correctly called for precipitation or dry weather
+ */
+export interface PrecipitationScore {
+	count: number;
+	hitRate: number;
+	/** Forecasts that called for precipitation that then fell */
+	hits: number;
+	/** Forecasts that called for precipitation that did not fall */
+	falseAlarms: number;
+	/** Forecasts that called for dry weather when precipitation fell */
+	misses: number;
+}
+
+/**
+ * Scores of one source's forecasts, for a location and lead time or aggregated across them
+ */
+export interface VerificationScore {
+	source: string;
+	kind: VerificationKind;
+	/** Lead time group, such as "0-3h" for hourly or "2d" for daily forecasts */
+	leadTime?: string;
+	location?: { latitude: number; longitude: number };
+	/** Hourly temperature, or the daily high and low */
+	temperature: TemperatureScore | null;
+	temperatureHigh?: TemperatureScore | null;
+	temperatureLow?: TemperatureScore | null;
+	precipitation: PrecipitationScore | null;
+}
+
+/**
+ * Filters of a verification report
+ */
+export interface VerificationFilter {
+	lat?: number;
+	lon?: number;
+	source?: string;
+}
+
+/**
+ * Running totals of forecast errors
+ */
+interface ErrorTotals {
+	count: number;
+	absoluteError: number;
+	error: number;
+}
+
+/**
+ * Running totals of precipitation forecasts
+ */
+interface PrecipitationTotals {
+	hits: number;
+	falseAlarms: number;
+	misses: number;
+	correctNegatives: number;
+}
+
+/**
+ * Running totals of one source's forecasts for a location and lead time
+ */
+interface ScoreTotals {
+	source: string;
+	kind: VerificationKind;
+	leadTime: string;
+	latitude: number;
+	longitude: number;
+	temperature: ErrorTotals;
+	temperatureHigh: ErrorTotals;
+	temperatureLow: ErrorTotals;
+	precipitation: PrecipitationTotals;
+}
+
+/**
+ * Hourly forecast waiting for its observation
+ */
+interface ArchivedHour {
+	source: string;
+	validAt: number;
+	leadHours: number;
+	temperature: number | null;
+	precipitation: boolean | null;
+}
+
+/**
+ * Daily forecast waiting for its day's observations
+ */
+interface ArchivedDay {
+	source: string;
+	date: string;
+	leadDays: number;
+	high: number | null;
+	low: number | null;
+	precipitation: boolean | null;
+}
+
+/**
+ * Observations of a local day, gathered hour by hour
+ */
+interface ObservedDay {
+	hours: Set<number>;
+	high: number;
+	low: number;
+	precipitation: boolean;
+}
+
+/**
+ * Archived forecasts and observations of a location
+ */
+interface LocationArchive {
+	latitude: number;
+	longitude: number;
+	timezone: string | null;
+	hours: Map<string, ArchivedHour>;
+	days: Map<string, ArchivedDay>;
+	observedDays: Map<string, ObservedDay>;
+	verifiedHours: Set<number>;
+}
+
+/**
+ * Names the hourly lead time group of a lead time, such as "3-6h"
+ */
+function getHourlyLeadTime(leadHours: number): string {
+	let lower = 0;
+	for (const upper of HOURLY_LEAD_BUCKETS) {
+		if (leadHours < upper) {
+			return `${lower}-${upper}h`;
+		}
+		lower = upper;
+	}
+	return `${lower}h+`;
+}
+
+/**
+ * Whether a forecast calls for precipitation, from its probability or else its amount
+ */
+function predictsPrecipitation(probability: number | null, amount: number | null): boolean | null {
+	if (probability !== null) {
+		return probability >= PRECIPITATION_PROBABILITY_THRESHOLD;
+	}
+	return amount !== null ? amount > 0 : null;
+}
+
+function addError(totals: ErrorTotals, forecast: number | null, observed: number): void {
+	if (forecast === null) {
+		return;
+	}
+	totals.count++;
+	totals.absoluteError += Math.abs(forecast - observed);
+	totals.error += forecast - observed;
+}
+
+function addPrecipitation(totals: PrecipitationTotals, forecast: boolean | null, observed: boolean): void {
+	if (forecast === null) {
+		return;
+	}
+	if (forecast) {
+		totals[observed ? 'hits' : 'falseAlarms']++;
+	} else {
+		totals[observed ? 'misses' : 'correctNegatives']++;
+	}
+}
+
+function toTemperatureScore(totals: ErrorTotals): TemperatureScore | null {
+	if (totals.count === 0) {
+		return null;
+	}
+	return {
+		count: totals.count,
+		mae: roundTo(totals.absoluteError / totals.count, 2),
+		bias: roundTo(totals.error / totals.count, 2),
+		unit: '°C',
+	};
+}
+
+function toPrecipitationScore(totals: PrecipitationTotals): PrecipitationScore | null {
+	const count = totals.hits + totals.falseAlarms + totals.misses + totals.correctNegatives;
+	if (count === 0) {
+		return null;
+	}
+	return {
+		count,
+		hitRate: roundTo((totals.hits + totals.correctNegatives) / count, 2),
+		hits: totals.hits,
+		falseAlarms: totals.falseAlarms,
+		misses: totals.misses,
+	};
+}
+
+function emptyErrorTotals(): ErrorTotals {
+	return { count: 0, absoluteError: 0, error: 0 };
+}
+
+function mergeErrorTotals(target: ErrorTotals, source: ErrorTotals): void {
+	target.count += source.count;
+	target.absoluteError += source.absoluteError;
+	target.error += source.error;
+}
+
+/**
+ * Archives forecasts, verifies them against observations and keeps their scores.
+ */
+export class ForecastVerifier {
+	private archives: Map<string, LocationArchive> = new Map();
+	private totals: Map<string, ScoreTotals> = new Map();
+
+	/**
+	 * Archives the forecasts of a cache refresh and scores those its observation verifies.
+	 * Refreshes of the same location in other languages archive the same forecasts and are
+	 * not scored twice.
+	 *
+	 * @param refresh - Cache refresh
+	 * @param now - Time of the refresh
+	 */
+	handleRefresh(refresh: CacheRefresh<Partial<WeatherData> | null>, now: number = Date.now()): void {
+		const data = refresh.current;
+		if (!data) {
+			return;
+		}
+
+		const archive = this.getArchive(refresh.lat, refresh.lon);
+		if (!archive) {
+			return;
+		}
+
+		this.recordObservation(archive, data);
+		this.archiveForecasts(archive, data, now);
+		this.prune(archive, now);
+	}
+
+	/**
+	 * Gets the scores of every source, location and lead time, with each source's scores
+	 * aggregated across locations and lead times.
+	 *
+	 * @param filter - Location (matched exactly) or source to report on
+	 * @returns Detailed scores and per-source summaries
+	 */
+	getReport(filter: VerificationFilter = {}): { summary: VerificationScore[]; scores: VerificationScore[] } {
+		const matching = [...this.totals.values()].filter(
+			(totals) =>
+				(filter.source === undefined || totals.source === filter.source) &&
+				(filter.lat === undefined || totals.latitude === filter.lat) &&
+				(filter.lon === undefined || totals.longitude === filter.lon),
+		);
+
+		const scores = matching
+			.sort(
+				(a, b) =>
+					a.source.localeCompare(b.source) ||
+					a.kind.localeCompare(b.kind) ||
+					a.latitude - b.latitude ||
+					a.longitude - b.longitude ||
+					this.leadOrder(a) - this.leadOrder(b),
+			)
+			.map((totals) => this.toScore(totals, true));
+
+		const summaries = new Map<string, ScoreTotals>();
+		for (const totals of matching) {
+			const key = `${totals.source}|${totals.kind}`;
+			let summary = summaries.get(key);
+			if (!summary) {
+				summary = this.createTotals(totals.source, totals.kind, '', 0, 0);
+				summaries.set(key, summary);
+			}
+			mergeErrorTotals(summary.temperature, totals.temperature);
+			mergeErrorTotals(summary.temperatureHigh, totals.temperatureHigh);
+			mergeErrorTotals(summary.temperatureLow, totals.temperatureLow);
+			for (const outcome of Object.keys(summary.precipitation) as (keyof PrecipitationTotals)[]) {
+				summary.precipitation[outcome] += totals.precipitation[outcome];
+			}
+		}
+
+		return {
+			summary: [...summaries.values()].map((totals) => this.toScore(totals, false)),
+			scores,
+		};
+	}
+
+	/**
+	 * Gets verification statistics
+	 */
+	getStats(): { locations: number; pendingForecasts: number; scoreGroups: number } {
+		let pendingForecasts = 0;
+		for (const archive of this.archives.values()) {
+			pendingForecasts += archive.hours.size + archive.days.size;
+		}
+		return { locations: this.archives.size, pendingForecasts, scoreGroups: this.totals.size };
+	}
+
+	/**
+	 * Gets a location's archive, creating it if there is room
+	 */
+	private getArchive(lat: string, lon: string): LocationArchive | null {
+		const latitude = parseFloat(lat);
+		const longitude = parseFloat(lon);
+		const key = `${latitude},${longitude}`;
+
+		let archive = this.archives.get(key);
+		if (!archive) {
+			if (this.archives.size >= MAX_ARCHIVED_LOCATIONS) {
+				return null;
+			}
+			archive = {
+				latitude,
+				longitude,
+				timezone: reverseGeocode(latitude, longitude)?.place.timezone ?? null,
+				hours: new Map(),
+				days: new Map(),
+				observedDays: new Map(),
+				verifiedHours: new Set(),
+			};
+			this.archives.set(key, archive);
+		}
+		return archive;
+	}
+
+	/**
+	 * Archives the hourly and daily forecasts of a refresh, replacing the previous forecast each
+	 * source made for the same time at the same lead time
+	 */
+	private archiveForecasts(archive: LocationArchive, data: Partial<WeatherData>, now: number): void {
+		const { timezone, longitude } = archive;
+
+		for (const hour of data.hourly ?? []) {
+			// Hourly times are local wall-clock times (YYYY-MM-DDTHH:MM)
+			const wallTime = Date.parse(`${hour.time.slice(0, 16)}:00Z`);
+			if (isNaN(wallTime)) {
+				continue;
+			}
+			const validAt = wallTime - getUtcOffsetMinutes(wallTime, timezone, longitude) * 60000;
+			const leadHours = Math.round((validAt - now) / HOUR_MS);
+			if (leadHours < 0 || archive.verifiedHours.has(validAt)) {
+				continue;
+			}
+			archive.hours.set(`${hour.source}|${validAt}|${leadHours}`, {
+				source: hour.source,
+				validAt,
+				leadHours,
+				temperature: hour.temperature,
+				precipitation: predictsPrecipitation(hour.precipitationProbability, hour.precipitation),
+			});
+		}
+
+		const today = Date.parse(`${getLocalDate(now, timezone, longitude)}T00:00:00Z`);
+		const archiveDay = (forecast: Omit<ArchivedDay, 'leadDays'>) => {
+			const leadDays = Math.round((Date.parse(`${forecast.date}T00:00:00Z`) - today) / DAY_MS);
+			if (isNaN(leadDays) || leadDays < 0) {
+				return;
+			}
+			archive.days.set(`${forecast.source}|${forecast.date}|${leadDays}`, { ...forecast, leadDays });
+		};
+
+		for (const day of data['7day'] ?? []) {
+			if (day.date) {
+				archiveDay({
+					source: VERIFYING_SOURCE,
+					date: day.date,
+					high: day.temperatureHigh,
+					low: day.temperatureLow,
+					// Environment Canada only gives a chance of precipitation from 30%, so none means dry
+					precipitation: (day.precipitationChance ?? 0) >= PRECIPITATION_PROBABILITY_THRESHOLD,
+				});
+			}
+		}
+
+		for (const day of data['14day'] ?? []) {
+			archiveDay({
+				source: day.source,
+				date: day.date,
+				high: day.temperatureMax,
+				low: day.temperatureMin,
+				precipitation: predictsPrecipitation(day.precipitationProbability, day.precipitationSum),
+			});
+		}
+	}
+
+	/**
+	 * Records the Environment Canada observation of a refresh, scoring the hourly forecasts for
+	 * its hour and the daily forecasts of days that have been fully observed
+	 */
+	private recordObservation(archive: LocationArchive, data: Partial<WeatherData>): void {
+		const current = data.current?.[0];
+		const temperature = current?.sources.agreement?.temperature?.values[VERIFYING_SOURCE];
+		const observedAt = current?.observationTime ? Date.parse(current.observationTime) : NaN;
+		if (!current || temperature === undefined || isNaN(observedAt)) {
+			return;
+		}
+
+		// Observations are hourly, so each one verifies the forecasts for its hour once
+		const hour = Math.round(observedAt / HOUR_MS) * HOUR_MS;
+		if (archive.verifiedHours.has(hour)) {
+			return;
+		}
+		archive.verifiedHours.add(hour);
+
+		// The condition comes from the primary source, which is only the observation when it is Environment Canada
+		const precipitation =
+			current.sources.primary === VERIFYING_SOURCE && current.condition !== null
+				? PRECIPITATION_CONDITION.test(current.condition)
+				: null;
+
+		for (const [key, forecast] of archive.hours) {
+			if (forecast.validAt !== hour) {
+				continue;
+			}
+			const totals = this.getTotals(archive, forecast.source, 'hourly', getHourlyLeadTime(forecast.leadHours));
+			addError(totals.temperature, forecast.temperature, temperature);
+			if (precipitation !== null) {
+				addPrecipitation(totals.precipitation, forecast.precipitation, precipitation);
+			}
+			archive.hours.delete(key);
+		}
+
+		const date = getLocalDate(hour, archive.timezone, archive.longitude);
+		let day = archive.observedDays.get(date);
+		if (!day) {
+			day = { hours: new Set(), high: temperature, low: temperature, precipitation: false };
+			archive.observedDays.set(date, day);
+		}
+		day.hours.add(hour);
+		day.high = Math.max(day.high, temperature);
+		day.low = Math.min(day.low, temperature);
+		day.precipitation ||= precipitation === true;
+
+		// Earlier days are complete once an observation from a later day arrives
+		for (const [observedDate, observed] of archive.observedDays) {
+			if (observedDate >= date) {
+				continue;
+			}
+			if (observed.hours.size >= MIN_DAILY_OBSERVATIONS) {
+				this.verifyDay(archive, observedDate, observed);
+			}
+			archive.observedDays.delete(observedDate);
+		}
+	}
+
+	/**
+	 * Scores the daily forecasts of a fully observed day
+	 */
+	private verifyDay(archive: LocationArchive, date: string, observed: ObservedDay): void {
+		for (const [key, forecast] of archive.days) {
+			if (forecast.date !== date) {
+				continue;
+			}
+			const totals = this.getTotals(archive, forecast.source, 'daily', `${forecast.leadDays}d`);
+			addError(totals.temperatureHigh, forecast.high, observed.high);
+			addError(totals.temperatureLow, forecast.low, observed.low);
+			addPrecipitation(totals.precipitation, forecast.precipitation, observed.precipitation);
+			archive.days.delete(key);
+		}
+		logger.info(`Verified daily forecasts for ${archive.latitude}, ${archive.longitude} on ${date}`);
+	}
+
+	/**
+	 * Discards forecasts and observations too old to be verified
+	 */
+	private prune(archive: LocationArchive, now: number): void {
+		const cutoff = now - ARCHIVE_RETENTION_MS;
+		for (const [key, forecast] of archive.hours) {
+			if (forecast.validAt < cutoff) {
+				archive.hours.delete(key);
+			}
+		}
+		const cutoffDate = getLocalDate(cutoff, archive.timezone, archive.longitude);
+		for (const [key, forecast] of archive.days) {
+			if (forecast.date < cutoffDate) {
+				archive.days.delete(key);
+			}
+		}
+		for (const hour of archive.verifiedHours) {
+			if (hour < cutoff) {
+				archive.verifiedHours.delete(hour);
+			}
+		}
+	}
+
+	/**
+	 * Gets the running totals of a source's forecasts for a location and lead time
+	 */
+	private getTotals(archive: LocationArchive, source: string, kind: VerificationKind, leadTime: string): ScoreTotals {
+		const key = `${source}|${kind}|${leadTime}|${archive.latitude},${archive.longitude}`;
+		let totals = this.totals.get(key);
+		if (!totals) {
+			totals = this.createTotals(source, kind, leadTime, archive.latitude, archive.longitude);
+			this.totals.set(key, totals);
+		}
+		return totals;
+	}
+
+	private createTotals(
+		source: string,
+		kind: VerificationKind,
+		leadTime: string,
+		latitude: number,
+		longitude: number,
+	): ScoreTotals {
+		return {
+			source,
+			kind,
+			leadTime,
+			latitude,
+			longitude,
+			temperature: emptyErrorTotals(),
+			temperatureHigh: emptyErrorTotals(),
+			temperatureLow: emptyErrorTotals(),
+			precipitation: { hits: 0, falseAlarms: 0, misses: 0, correctNegatives: 0 },
+		};
+	}
+
+	/**
+	 * Orders lead time groups by their start ("0-3h" before "12-24h", "1d" before "10d")
+	 */
+	private leadOrder(totals: ScoreTotals): number {
+		return parseInt(totals.leadTime, 10);
+	}
+
+	/**
+	 * Converts running totals to scores, with or without their location and lead time
+	 */
+	private toScore(totals: ScoreTotals, detailed: boolean): VerificationScore {
+		return {
+			source: totals.source,
+			kind: totals.kind,
+			...(detailed && {
+				leadTime: totals.leadTime,
+				location: { latitude: totals.latitude, longitude: totals.longitude },
+			}),
+			...(totals.kind === 'hourly'
+				? { temperature: toTemperatureScore(totals.temperature) }
+				: {
+						temperature: null,
+						temperatureHigh: toTemperatureScore(totals.temperatureHigh),
+						temperatureLow: toTemperatureScore(totals.temperatureLow),
+					}),
+			precipitation: toPrecipitationScore(totals.precipitation),
+		};
+	}
+}
+
+/**
+ * Shared forecast verifier, fed by the weather cache's refreshes
+ */
+export const forecastVerifier = new ForecastVerifier();
+weatherCacheManager.onRefresh((refresh) => forecastVerifier.handleRefresh(refresh));
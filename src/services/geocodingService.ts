@@ -0,0 +1,225 @@
+/**
+ * Geocoding Service
+ *
+ * Resolves place names such as "Ottawa,ON" to coordinates and coordinates to the nearest
+ * named place, using the gazetteer bundled in `data/gazetteer.json` (generated from GeoNames
+ * by `pnpm run gazetteer:update`), so no external geocoding service is needed.
+ *
+ * @module GeocodingService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { SpatialIndex } from './spatialIndex';
+import { logger } from '../utils/logger';
+
+/**
+ * Path of the bundled gazetteer, relative to the working directory
+ */
+const GAZETTEER_PATH = join('data', 'gazetteer.json');
+
+/**
+ * Distance beyond which a coordinate is not described by its nearest place (kilometres)
+ */
+const MAX_REVERSE_DISTANCE_KM = 150;
+
+/**
+ * Longest accepted place query (characters)
+ */
+export const MAX_PLACE_QUERY_LENGTH = 100;
+
+/**
+ * Place in the bundled gazetteer
+ */
+export interface GazetteerPlace {
+	name: string;
+	alternateNames: string[];
+	/** ISO 3166-1 alpha-2 country code */
+	country: string;
+	/** First-level division code, e.g. the postal abbreviation of a Canadian province */
+	region: string;
+	lat: number;
+	lon: number;
+	/** IANA time zone */
+	timezone: string;
+	population: number | null;
+}
+
+/**
+ * Structure of the bundled gazetteer file
+ */
+export interface Gazetteer {
+	source: string;
+	updated: string | null;
+	/** Country names keyed by country code */
+	countries: Record<string, string>;
+	/** Region names keyed by "country.region" */
+	regions: Record<string, string>;
+	places: GazetteerPlace[];
+}
+
+/**
+ * Place returned by forward and reverse geocoding
+ */
+export interface Place {
+	name: string;
+	region: string;
+	regionName: string | null;
+	country: string;
+	countryName: string | null;
+	lat: number;
+	lon: number;
+	timezone: string;
+}
+
+/**
+ * Gazetteer with its lookup structures, built on first use
+ */
+interface GazetteerIndex {
+	gazetteer: Gazetteer;
+	spatial: SpatialIndex<GazetteerPlace>;
+	/** Places keyed by every normalized name they are known by */
+	names: Map<string, GazetteerPlace[]>;
+}
+
+let gazetteerIndex: GazetteerIndex | null = null;
+
+/**
+ * Normalizes a name for matching: accents, case and punctuation are ignored, and "St"/"Ste"
+ * match "Saint"/"Sainte".
+ *
+ * @param text - Name as written
+ * @returns Normalized name
+ *
+ * @example
+ * ```typescript
+ * normalizePlaceName("St. John's"); // "saint johns"
+ * ```
+ */
+export function normalizePlaceName(text: string): string {
+	return text
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/['’]/g, '')
+		.replace(/[^a-z0-9]+/g, ' ')
+		.trim()
+		.replace(/\bste\b/g, 'sainte')
+		.replace(/\bst\b/g, 'saint');
+}
+
+/**
+ * Loads the gazetteer and builds its indexes on first use.
+ *
+ * @returns Gazetteer with spatial and name indexes
+ * @throws {Error} When the gazetteer file cannot be read or parsed
+ */
+function getGazetteerIndex(): GazetteerIndex {
+	if (gazetteerIndex) {
+		return gazetteerIndex;
+	}
+
+	const filePath = join(process.cwd(), GAZETTEER_PATH);
+	const gazetteer: Gazetteer = JSON.parse(readFileSync(filePath, 'utf8'));
+
+	const names = new Map<string, GazetteerPlace[]>();
+	for (const place of gazetteer.places) {
+		for (const name of new Set([place.name, ...place.alternateNames].map(normalizePlaceName))) {
+			const places = names.get(name);
+			if (places) {
+				places.push(place);
+			} else {
+				names.set(name, [place]);
+			}
+		}
+	}
+
+	gazetteerIndex = { gazetteer, spatial: new SpatialIndex(gazetteer.places), names };
+	logger.info(`Loaded ${gazetteer.places.length} places from ${GAZETTEER_PATH}`);
+	return gazetteerIndex;
+}
+
+/**
+ * Converts a gazetteer entry to a place with its region and country names.
+ */
+function toPlace(place: GazetteerPlace, gazetteer: Gazetteer): Place {
+	return {
+		name: place.name,
+		region: place.region,
+		regionName: gazetteer.regions[`${place.country}.${place.region}`] ?? null,
+		country: place.country,
+		countryName: gazetteer.countries[place.country] ?? null,
+		lat: place.lat,
+		lon: place.lon,
+		timezone: place.timezone,
+	};
+}
+
+/**
+ * Checks whether a qualifier such as "ON", "Ontario", "CA" or "Canada" names the place's region or country.
+ */
+function matchesQualifier(place: GazetteerPlace, qualifier: string, gazetteer: Gazetteer): boolean {
+	return [
+		place.region,
+		gazetteer.regions[`${place.country}.${place.region}`],
+		place.country,
+		gazetteer.countries[place.country],
+	].some((name) => name !== undefined && normalizePlaceName(name) === qualifier);
+}
+
+/**
+ * Finds the place named by a query. The query is a place name optionally followed by
+ * comma-separated region and country qualifiers; when several places match, the most
+ * populous one is returned.
+ *
+ * @param query - Place query, e.g. "Ottawa", "Ottawa,ON" or "London, Ontario, Canada"
+ * @returns Matching place, or null if none matches
+ *
+ * @example
+ * ```typescript
+ * const place = geocodePlace('Sudbury, ON');
+ * console.log(place?.name, place?.lat, place?.lon); // "Greater Sudbury" 46.49 -80.99
+ * ```
+ */
+export function geocodePlace(query: string): Place | null {
+	const [name, ...qualifiers] = query.split(',').map(normalizePlaceName);
+	if (!name) {
+		return null;
+	}
+
+	const { gazetteer, names } = getGazetteerIndex();
+	const candidates = (names.get(name) ?? []).filter((place) =>
+		qualifiers.filter(Boolean).every((qualifier) => matchesQualifier(place, qualifier, gazetteer)),
+	);
+	if (candidates.length === 0) {
+		return null;
+	}
+
+	const best = candidates.reduce((a, b) => ((b.population ?? 0) > (a.population ?? 0) ? b : a));
+	return toPlace(best, gazetteer);
+}
+
+/**
+ * Finds the named place nearest to a coordinate.
+ *
+ * @param lat - Latitude in decimal degrees
+ * @param lon - Longitude in decimal degrees
+ * @returns Nearest place and its distance in kilometres, or null if no place is within 150 km
+ *
+ * @example
+ * ```typescript
+ * const nearest = reverseGeocode(45.42, -75.69);
+ * console.log(`${nearest?.place.name}, ${nearest?.place.region}`); // "Ottawa, ON"
+ * ```
+ */
+export function reverseGeocode(lat: number, lon: number): { place: Place; distanceKm: number } | null {
+	const { gazetteer, spatial } = getGazetteerIndex();
+	const nearest = spatial.nearest(lat, lon);
+	if (!nearest || nearest.distanceKm > MAX_REVERSE_DISTANCE_KM) {
+		return null;
+	}
+	return { place: toPlace(nearest.item, gazetteer), distanceKm: nearest.distanceKm };
+}
@@ -0,0 +1,249 @@
+/**
+ * Geography Utilities
+ *
+ * Distance calculations and coverage-area checks used to decide which weather
+ * providers can serve a given coordinate.
+ *
+ * @module Geography
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { WeatherCoverage } from './weatherTypes';
+
+/**
+ * Simplified outline of Canada as [longitude, latitude] vertices.
+ * Follows the US border closely in populated areas, down to the rivers between border towns
+ * on the Great Lakes, the St. Lawrence and the Saint John, and the coast loosely elsewhere,
+ * which is accurate enough to keep foreign coordinates away from Canadian sources.
+ */
+const CANADA_BOUNDARY: ReadonlyArray<readonly [number, number]> = [
+	// 49th parallel, Pacific to Lake of the Woods
+	[-123.32, 49.0],
+	[-95.15, 49.0],
+	[-95.15, 49.38],
+	[-94.82, 49.32],
+	// Rainy River, Rainy Lake and the boundary waters to Pigeon River
+	[-94.7, 48.72],
+	[-94.2, 48.65],
+	[-93.8, 48.52],
+	[-93.41, 48.605],
+	[-93.2, 48.6],
+	[-92.9, 48.55],
+	[-92.0, 48.35],
+	[-91.0, 48.2],
+	[-90.0, 48.1],
+	[-89.6, 48.0],
+	// Lake Superior
+	[-88.37, 48.3],
+	[-85.0, 47.2],
+	// St. Marys River, past the two Sault Ste. Maries and around St. Joseph Island
+	[-84.75, 46.63],
+	[-84.58, 46.52],
+	[-84.42, 46.505],
+	[-84.37, 46.508],
+	[-84.3, 46.505],
+	[-84.25, 46.52],
+	[-84.12, 46.5],
+	[-84.15, 46.3],
+	[-84.05, 46.05],
+	[-83.7, 45.98],
+	[-83.45, 45.95],
+	// Lake Huron and the St. Clair River, between Port Huron and Sarnia
+	[-82.5, 45.34],
+	[-82.43, 43.05],
+	[-82.418, 42.98],
+	[-82.46, 42.85],
+	[-82.52, 42.62],
+	// Lake St. Clair and the Detroit River, between Detroit and Windsor
+	[-82.93, 42.355],
+	[-83.0, 42.335],
+	[-83.05, 42.318],
+	[-83.09, 42.28],
+	[-83.12, 42.2],
+	[-83.15, 42.03],
+	// Lake Erie, south of Pelee Island
+	[-83.1, 41.95],
+	[-82.7, 41.68],
+	[-82.4, 41.68],
+	[-81.7, 41.95],
+	[-81.0, 42.25],
+	[-80.0, 42.38],
+	[-79.3, 42.65],
+	[-78.93, 42.83],
+	// Niagara River, between Buffalo and Fort Erie and the two Niagara Falls
+	[-78.905, 42.9],
+	[-79.03, 43.0],
+	[-79.06, 43.06],
+	[-79.075, 43.075],
+	[-79.068, 43.09],
+	[-79.05, 43.12],
+	[-79.045, 43.16],
+	[-79.055, 43.2],
+	[-79.063, 43.26],
+	// Lake Ontario
+	[-78.7, 43.63],
+	[-76.8, 43.63],
+	[-76.45, 43.95],
+	// St. Lawrence River, through the Thousand Islands to Cornwall
+	[-76.4, 44.1],
+	[-76.3, 44.15],
+	[-76.1, 44.25],
+	[-75.97, 44.34],
+	[-75.85, 44.38],
+	[-75.66, 44.575],
+	[-75.5, 44.7],
+	[-75.3, 44.84],
+	[-74.9, 44.98],
+	[-74.66, 45.0],
+	// 45th parallel, south of Stanstead
+	[-73.35, 45.005],
+	[-72.12, 44.995],
+	[-72.08, 44.995],
+	[-71.5, 45.01],
+	// Hall's Stream and the height of land along the Maine border, west of Coburn Gore and Jackman
+	[-71.08, 45.305],
+	[-70.85, 45.36],
+	[-70.82, 45.45],
+	[-70.39, 45.8],
+	[-70.05, 46.42],
+	[-70.0, 46.7],
+	// St. Francis and Saint John rivers, between Edmundston and Madawaska, to Hamlin
+	[-69.23, 47.45],
+	[-68.89, 47.18],
+	[-68.59, 47.255],
+	[-68.33, 47.366],
+	[-67.93, 47.165],
+	[-67.79, 47.07],
+	[-67.78, 45.7],
+	[-67.43, 45.2],
+	[-66.95, 44.8],
+	// Atlantic coast and Labrador
+	[-66.0, 43.3],
+	[-65.5, 43.0],
+	[-59.5, 43.5],
+	[-52.0, 46.4],
+	[-52.3, 50.0],
+	[-55.0, 53.0],
+	[-60.0, 57.0],
+	[-64.5, 60.5],
+	// Davis Strait around Cape Dyer and Qikiqtarjuaq, Baffin Bay and Nares Strait
+	[-61.0, 66.6],
+	[-63.5, 67.9],
+	[-67.0, 70.2],
+	[-70.0, 72.0],
+	[-74.0, 76.0],
+	[-68.0, 80.0],
+	[-60.0, 82.5],
+	[-62.0, 83.3],
+	// Arctic Ocean
+	[-90.0, 82.5],
+	[-120.0, 78.0],
+	[-130.0, 72.0],
+	[-141.0, 69.65],
+	// Alaska border
+	[-141.0, 60.3],
+	[-139.0, 60.0],
+	[-137.5, 59.2],
+	[-135.5, 59.8],
+	[-133.5, 58.5],
+	[-131.0, 56.0],
+	[-130.0, 55.0],
+	// Pacific coast
+	[-133.2, 54.3],
+	[-131.0, 51.5],
+	[-128.0, 50.0],
+	[-125.0, 48.4],
+	[-123.5, 48.2],
+	[-123.2, 48.7],
+];
+
+/**
+ * Outline of Saint-Pierre and Miquelon, French islands inside the outline of Canada
+ */
+const SAINT_PIERRE_AND_MIQUELON: ReadonlyArray<readonly [number, number]> = [
+	[-56.45, 46.72],
+	[-56.05, 46.72],
+	[-56.05, 47.16],
+	[-56.45, 47.16],
+];
+
+/**
+ * Calculates the haversine distance between two coordinate points.
+ *
+ * @param lat1 - First latitude
+ * @param lon1 - First longitude
+ * @param lat2 - Second latitude
+ * @param lon2 - Second longitude
+ * @returns Distance in kilometers
+ */
+export function calculateHaversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+	const R = 6371; // Earth's radius in kilometers
+	const dLat = ((lat2 - lat1) * Math.PI) / 180;
+	const dLon = ((lon2 - lon1) * Math.PI) / 180;
+	const a =
+		Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+		Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+	const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+	return R * c;
+}
+
+/**
+ * Tests whether a point lies inside a polygon using ray casting.
+ *
+ * @param lat - Latitude of the point
+ * @param lon - Longitude of the point
+ * @param polygon - Polygon vertices as [longitude, latitude]
+ * @returns True if the point is inside the polygon
+ */
+function isPointInPolygon(lat: number, lon: number, polygon: ReadonlyArray<readonly [number, number]>): boolean {
+	let inside = false;
+
+	for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+		const [lonI, latI] = polygon[i];
+		const [lonJ, latJ] = polygon[j];
+
+		const crosses = latI > lat !== latJ > lat && lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI;
+		if (crosses) {
+			inside = !inside;
+		}
+	}
+
+	return inside;
+}
+
+/**
+ * Checks whether a coordinate falls inside Canada.
+ *
+ * @param lat - Latitude in decimal degrees
+ * @param lon - Longitude in decimal degrees
+ * @returns True for Canadian coordinates
+ *
+ * @example
+ * ```typescript
+ * isPointInCanada(45.4215, -75.6998); // true (Ottawa)
+ * isPointInCanada(35.6762, 139.6503); // false (Tokyo)
+ * ```
+ */
+export function isPointInCanada(lat: number, lon: number): boolean {
+	return isPointInPolygon(lat, lon, CANADA_BOUNDARY) && !isPointInPolygon(lat, lon, SAINT_PIERRE_AND_MIQUELON);
+}
+
+/**
+ * Checks whether a coordinate falls inside a provider's declared coverage region.
+ *
+ * @param coverage - Coverage declared by the provider
+ * @param lat - Latitude in decimal degrees
+ * @param lon - Longitude in decimal degrees
+ * @returns True if the region covers the coordinate
+ */
+export function isWithinCoverageRegion(coverage: WeatherCoverage, lat: number, lon: number): boolean {
+	switch (coverage.region) {
+		case 'canada':
+			return isPointInCanada(lat, lon);
+		case 'global':
+		default:
+			return true;
+	}
+}
@@ -13,11 +13,56 @@
 // Environment Canada Weather Service
 export { getWeatherData as getEnvironmentCanadaData } from './environmentCanadaWeatherService';
 
+// Open-Meteo Weather Service
+export { getOpenMeteoData } from './openMeteoWeatherService';
+
 // Advanced Weather Service (combines multiple sources)
 export { getAdvancedWeatherData } from './advancedWeatherService';
 
+// Weather Provider Registry (pluggable data sources)
+export { weatherProviderRegistry, WeatherProviderRegistry } from './weatherProviderRegistry';
+export type { WeatherProvider, WeatherCapability, ProviderWeatherData } from './weatherTypes';
+
+// Air Quality Service (Environment Canada AQHI and Open-Meteo air quality)
+export { getAirQualityData } from './airQualityService';
+
+// Astronomy Service (sun and moon, computed locally)
+export { getAstronomy } from './astronomyService';
+
+// Forecast Series Service (hourly and 15-minute time series)
+export { getForecastSeries } from './forecastSeriesService';
+
+// Forecast Verification Service (per-source accuracy against observations)
+export { forecastVerifier } from './forecastVerificationService';
+
+// Weather Calendar Service (iCalendar events of forecasts and alerts)
+export { getWeatherCalendarEvents } from './weatherCalendarService';
+
+// Weather Grid Service (gridded values for map overlays)
+export { getWeatherGrid } from './weatherGridService';
+
+// Geocoding Service (offline gazetteer)
+export { geocodePlace, reverseGeocode } from './geocodingService';
+export type { Place } from './geocodingService';
+
+// Model Comparison Service (per-model forecasts and spread)
+export { getModelComparison } from './modelComparisonService';
+
+// Webhook Service (alert and condition change deliveries)
+export { webhookManager, signPayload } from './webhookService';
+
+// Weather Stream Service (Server-Sent Events of cache refreshes)
+export { weatherStreamManager } from './weatherStreamService';
+
+// Weather History Service (Open-Meteo archive)
+export { getWeatherHistory } from './weatherHistoryService';
+
+// Localization (English and French responses)
+export { SUPPORTED_LANGUAGES, DEFAULT_LANGUAGE } from './localization';
+export type { SupportedLanguage } from './localization';
+
 // Weather Cache Manager (automatic refresh every 10 minutes)
-export { weatherCacheManager } from './weatherCacheManager';
+export { weatherCacheManager, airQualityCacheManager } from './weatherCacheManager';
 
 /**
  * Service configuration and metadata
@@ -47,12 +92,103 @@ export const WEATHER_SERVICES = {
 		reliability: 'High (Multiple Sources)',
 		features: [
 			'Unified feels-like temperature calculation',
-			'Rounded temperatures for consistency',
+			'Metric, imperial or SI units with per-quantity overrides and output precision',
 			'Wind data from multiple sources',
 			'Graceful fallback between sources',
+			'Confidence and disagreement flags from source agreement, observation age and station distance',
+			'Pluggable provider registry configurable via WEATHER_PROVIDERS',
+			'English and French responses',
 			'Production-ready error handling',
 		],
 	},
+	airQuality: {
+		name: 'Air Quality Service',
+		description: 'Air quality health index, pollutants and pollen',
+		provides: [
+			'AQHI observations and forecasts',
+			'hourly pollutant forecast',
+			'US and European AQI',
+			'pollen counts',
+		],
+		coverage: 'Global (AQHI in Canada, pollen in Europe)',
+		sources: ['Environment Canada', 'Open-Meteo'],
+		updateFrequency: 'Hourly',
+	},
+	modelComparison: {
+		name: 'Model Comparison Service',
+		description: 'Side-by-side forecasts from several weather models',
+		provides: ['hourly forecast per model', 'daily forecast per model', 'min/mean/max spread across models'],
+		coverage: 'Global (regional models only within their domains)',
+		sources: ['Open-Meteo (GEM, HRDPS, GFS, ECMWF, ICON, UKMO, Météo-France, JMA)'],
+		updateFrequency: 'Hourly',
+	},
+	astronomy: {
+		name: 'Astronomy Service',
+		description: 'Sun and moon times, positions and phases computed locally',
+		provides: [
+			'sunrise, sunset and solar noon',
+			'civil, nautical and astronomical twilight',
+			'golden hour',
+			'solar elevation and azimuth',
+			'moonrise, moonset, phase and illumination',
+		],
+		coverage: 'Global',
+		sources: ['Computed locally'],
+		updateFrequency: 'On request',
+	},
+	calendar: {
+		name: 'Weather Calendar Service',
+		description: 'iCalendar feed of forecast days and alerts in effect',
+		provides: ['all-day forecast events', 'timed alert events until expiry', 'calendar app subscriptions'],
+		coverage: 'Any location served by the weather endpoint',
+		updateFrequency: 'Hourly (subscriber refresh)',
+	},
+	grid: {
+		name: 'Weather Grid Service',
+		description: 'One forecast variable sampled over a regular grid for map overlays',
+		provides: ['JSON rows of values', 'GeoJSON cells', 'per-cell caching', 'multi-coordinate Open-Meteo requests'],
+		coverage: 'Global',
+		updateFrequency: 'Hourly (10-minute cache)',
+	},
+	batch: {
+		name: 'Batch Weather Service',
+		description: 'Weather for up to 250 locations in one request',
+		provides: ['per-location fields and units', 'per-location results and errors', 'bounded concurrent fetches'],
+		coverage: 'Any location served by the weather endpoint',
+		updateFrequency: 'Real-time (10-minute cache)',
+	},
+	stream: {
+		name: 'Weather Stream Service',
+		description: 'Server-Sent Events stream of refreshed weather data and alerts',
+		provides: ['snapshot on connect', 'full or diff updates on refresh', 'alert events', 'Last-Event-ID resume'],
+		coverage: 'Any location served by the weather endpoint',
+		updateFrequency: 'Every cache refresh (10 minutes)',
+	},
+	socket: {
+		name: 'Weather WebSocket',
+		description: 'Live weather for many locations over one WebSocket connection',
+		provides: ['per-location subscriptions', 'snapshots on refresh', 'alert events'],
+		coverage: 'Any location served by the weather endpoint',
+		updateFrequency: 'Every cache refresh (10 minutes)',
+	},
+	verification: {
+		name: 'Forecast Verification Service',
+		description: "Accuracy of each source's past forecasts, scored against Environment Canada observations",
+		provides: [
+			'temperature mean absolute error and bias',
+			'precipitation hit rate',
+			'scores by source, location and lead time',
+		],
+		coverage: 'Locations kept in the weather cache',
+		updateFrequency: 'Every new hourly observation',
+	},
+	webhooks: {
+		name: 'Webhook Service',
+		description: 'Signed push deliveries of weather alerts and condition changes',
+		provides: ['new and updated alerts', 'current condition changes', 'retries with backoff', 'dead-letter list'],
+		coverage: 'Any location served by the weather endpoint',
+		updateFrequency: 'Every cache refresh (10 minutes)',
+	},
 } as const;
 
 /**
@@ -69,15 +205,15 @@ export async function getWeatherServiceHealth(): Promise<{
 
 	try {
 		const { getWeatherData } = await import('./environmentCanadaWeatherService');
-		const { getAdvancedWeatherData } = await import('./advancedWeatherService');
+		const { getOpenMeteoData } = await import('./openMeteoWeatherService');
 
-		const [envTest, advancedTest] = await Promise.allSettled([
+		const [envTest, openMeteoTest] = await Promise.allSettled([
 			getWeatherData(testLat, testLon),
-			getAdvancedWeatherData(testLat, testLon),
+			getOpenMeteoData(testLat, testLon),
 		]);
 
 		const environmentCanada = envTest.status === 'fulfilled';
-		const openMeteo = advancedTest.status === 'fulfilled' && advancedTest.value.hourly.length > 0; // Open-Meteo provides hourly data
+		const openMeteo = openMeteoTest.status === 'fulfilled';
 
 		let overall: 'healthy' | 'degraded' | 'unavailable';
 		if (environmentCanada && openMeteo) {
@@ -0,0 +1,347 @@
+/**
+ * Localization
+ *
+ * Supported response languages and the translated API messages served for each of them.
+ * Weather condition names are localized by the services that produce them.
+ *
+ * @module Localization
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+/**
+ * Languages responses can be served in
+ */
+export type SupportedLanguage = 'en' | 'fr';
+
+/**
+ * All supported languages, in the order they are advertised
+ */
+export const SUPPORTED_LANGUAGES: readonly SupportedLanguage[] = ['en', 'fr'];
+
+/**
+ * Language used when a request does not specify one
+ */
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
+
+/**
+ * Translated API messages. Placeholders in braces are replaced by `translate`.
+ */
+const MESSAGES = {
+	invalidLatitude: {
+		en: 'Latitude must be between -90 and 90',
+		fr: 'La latitude doit être comprise entre -90 et 90',
+	},
+	invalidLongitude: {
+		en: 'Longitude must be between -180 and 180',
+		fr: 'La longitude doit être comprise entre -180 et 180',
+	},
+	invalidPlaceQuery: {
+		en: 'q must be a place name of at most {max} characters, optionally followed by a province or country (e.g. Ottawa,ON)',
+		fr: 'q doit être un nom de lieu d’au plus {max} caractères, éventuellement suivi d’une province ou d’un pays (p. ex. Ottawa,ON)',
+	},
+	conflictingLocation: {
+		en: 'Give either q or lat and lon, not both',
+		fr: 'Fournissez soit q, soit lat et lon, mais pas les deux',
+	},
+	placeNotFound: {
+		en: 'No place named "{query}" was found',
+		fr: 'Aucun lieu nommé « {query} » n’a été trouvé',
+	},
+	missingLocation: {
+		en: 'Give a location with q or lat and lon',
+		fr: 'Fournissez un lieu avec q ou lat et lon',
+	},
+	invalidLanguage: {
+		en: 'Language must be one of: {languages}',
+		fr: 'La langue doit être l’une des suivantes : {languages}',
+	},
+	invalidUnits: {
+		en: 'Units must be one of: {systems}',
+		fr: 'Les unités doivent être l’une des suivantes : {systems}',
+	},
+	invalidUnitOverride: {
+		en: 'Unsupported unit "{unit}" for {parameter}. Supported units: {supported}',
+		fr: 'Unité « {unit} » non prise en charge pour {parameter}. Unités prises en charge : {supported}',
+	},
+	invalidPrecision: {
+		en: 'Precision must be an integer between 0 and {max}',
+		fr: 'La précision doit être un entier compris entre 0 et {max}',
+	},
+	invalidFields: {
+		en: '{parameter} must be a comma-separated list of field paths such as current.temperature, starting with one of: {supported}',
+		fr: '{parameter} doit être une liste de chemins de champs séparés par des virgules, comme current.temperature, commençant par l’un des suivants : {supported}',
+	},
+	invalidDate: {
+		en: '{parameter} must be a date in YYYY-MM-DD format',
+		fr: '{parameter} doit être une date au format AAAA-MM-JJ',
+	},
+	invalidDateRange: {
+		en: 'end must be on or after start',
+		fr: 'end doit être identique ou postérieure à start',
+	},
+	historyDateTooEarly: {
+		en: 'History is available from {earliest}',
+		fr: 'L’historique est disponible à partir du {earliest}',
+	},
+	historyDateNotPast: {
+		en: 'History is only available for past dates; end must be before {today}',
+		fr: 'L’historique n’est disponible que pour les dates passées; end doit être antérieure au {today}',
+	},
+	historyRangeTooLong: {
+		en: 'History requests are limited to {max} days',
+		fr: 'Les demandes d’historique sont limitées à {max} jours',
+	},
+	invalidVariables: {
+		en: 'Unknown variables: {variables}. Supported variables: {supported}',
+		fr: 'Variables inconnues : {variables}. Variables prises en charge : {supported}',
+	},
+	invalidLocalTime: {
+		en: '{parameter} must be a local date (YYYY-MM-DD) or time (YYYY-MM-DDTHH:MM)',
+		fr: '{parameter} doit être une date (AAAA-MM-JJ) ou une heure locale (AAAA-MM-JJTHH:MM)',
+	},
+	invalidTimeWindow: {
+		en: 'to must be after from, and from is required when to is given',
+		fr: 'to doit être postérieure à from, et from est obligatoire lorsque to est fourni',
+	},
+	timeWindowOutOfRange: {
+		en: 'Forecasts are available from {earliest} to {latest} ({max} days ahead)',
+		fr: 'Les prévisions sont disponibles du {earliest} au {latest} ({max} jours à l’avance)',
+	},
+	invalidResolution: {
+		en: 'Resolution must be one of: {resolutions}',
+		fr: 'La résolution doit être l’une des suivantes : {resolutions}',
+	},
+	variablesUnavailableAtResolution: {
+		en: 'Variables not available at {resolution} resolution: {variables}',
+		fr: 'Variables non disponibles à la résolution {resolution} : {variables}',
+	},
+	invalidBoundingBox: {
+		en: 'bbox must be west,south,east,north in degrees, with west before east and south before north',
+		fr: 'bbox doit être ouest,sud,est,nord en degrés, avec l’ouest avant l’est et le sud avant le nord',
+	},
+	invalidGridResolution: {
+		en: 'resolution must be a cell size in degrees between {min} and {max}',
+		fr: 'resolution doit être une taille de cellule en degrés comprise entre {min} et {max}',
+	},
+	gridTooLarge: {
+		en: 'The grid would have {cells} cells, more than the maximum of {max}; use a coarser resolution or a smaller bbox',
+		fr: 'La grille compterait {cells} cellules, plus que le maximum de {max}; utilisez une résolution plus grossière ou une bbox plus petite',
+	},
+	invalidGridTime: {
+		en: 'time must be a UTC time (YYYY-MM-DDTHH:MM)',
+		fr: 'time doit être une heure UTC (AAAA-MM-JJTHH:MM)',
+	},
+	invalidFormat: {
+		en: 'Format must be one of: {supported}',
+		fr: 'Le format doit être l’un des suivants : {supported}',
+	},
+	invalidTable: {
+		en: 'CSV table must be one of: {supported}',
+		fr: 'Le tableau CSV doit être l’un des suivants : {supported}',
+	},
+	notAcceptable: {
+		en: 'None of the accepted media types is available. Supported media types: {supported}',
+		fr: 'Aucun des types de média acceptés n’est disponible. Types de média pris en charge : {supported}',
+	},
+	invalidModels: {
+		en: 'Unknown models: {models}. Supported models: {supported}',
+		fr: 'Modèles inconnus : {models}. Modèles pris en charge : {supported}',
+	},
+	invalidDays: {
+		en: 'days must be an integer between 1 and {max}',
+		fr: 'days doit être un entier compris entre 1 et {max}',
+	},
+	invalidBoolean: {
+		en: '{parameter} must be true or false',
+		fr: '{parameter} doit être true ou false',
+	},
+	invalidBatch: {
+		en: 'locations must be a non-empty list of at most {max} locations',
+		fr: 'locations doit être une liste non vide d’au plus {max} lieux',
+	},
+	invalidBatchLocation: {
+		en: 'Each location must be an object with q or lat and lon, and may set its own fields and units',
+		fr: 'Chaque lieu doit être un objet avec q ou lat et lon, et peut définir ses propres champs et unités',
+	},
+	calendarName: {
+		en: 'Weather for {place}',
+		fr: 'Météo pour {place}',
+	},
+	calendarHigh: {
+		en: 'High {temperature}',
+		fr: 'Max. {temperature}',
+	},
+	calendarLow: {
+		en: 'Low {temperature}',
+		fr: 'Min. {temperature}',
+	},
+	calendarPrecipitationChance: {
+		en: 'POP {chance}%',
+		fr: 'PdP {chance} %',
+	},
+	calendarSources: {
+		en: 'Sources: {sources}',
+		fr: 'Sources : {sources}',
+	},
+	calendarNoForecast: {
+		en: 'No forecast details',
+		fr: 'Aucun détail de prévision',
+	},
+	calendarForecastCategory: {
+		en: 'Weather forecast',
+		fr: 'Prévisions météo',
+	},
+	invalidWebhookUrl: {
+		en: 'url must be an http or https URL of at most {max} characters that does not target a private network',
+		fr: 'url doit être une URL http ou https d’au plus {max} caractères qui ne cible pas un réseau privé',
+	},
+	invalidWebhookEvents: {
+		en: 'events must be a non-empty list of: {supported}',
+		fr: 'events doit être une liste non vide parmi : {supported}',
+	},
+	invalidWebhookSecret: {
+		en: 'secret must be a string of {min} to {max} characters',
+		fr: 'secret doit être une chaîne de {min} à {max} caractères',
+	},
+	subscriptionNotFound: {
+		en: 'No subscription with id "{id}" was found',
+		fr: 'Aucun abonnement avec l’identifiant « {id} » n’a été trouvé',
+	},
+	missingManagementToken: {
+		en: 'Send the management token returned when the subscription was created in the Authorization: Bearer header',
+		fr: 'Envoyez le jeton de gestion renvoyé à la création de l’abonnement dans l’en-tête Authorization: Bearer',
+	},
+	invalidManagementToken: {
+		en: 'The token is not the management token of subscription "{id}"',
+		fr: 'Le jeton n’est pas le jeton de gestion de l’abonnement « {id} »',
+	},
+	subscriptionLimitReached: {
+		en: 'The maximum of {max} subscriptions has been reached',
+		fr: 'Le nombre maximal de {max} abonnements a été atteint',
+	},
+	subscriptionUnavailable: {
+		en: 'Unable to start monitoring weather for the location',
+		fr: 'Impossible de commencer la surveillance météo du lieu',
+	},
+	invalidStreamMode: {
+		en: 'Mode must be one of: {supported}',
+		fr: 'Le mode doit être l’un des suivants : {supported}',
+	},
+	streamLimitReached: {
+		en: 'The maximum of {max} open streams has been reached, please try again later',
+		fr: 'Le nombre maximal de {max} flux ouverts a été atteint, veuillez réessayer plus tard',
+	},
+	invalidSocketMessage: {
+		en: 'Messages must be JSON objects with a type of: {types}',
+		fr: 'Les messages doivent être des objets JSON dont le type est l’un des suivants : {types}',
+	},
+	invalidSocketChannels: {
+		en: 'channels must be a non-empty list of: {supported}',
+		fr: 'channels doit être une liste non vide parmi : {supported}',
+	},
+	socketSubscriptionLimitReached: {
+		en: 'At most {max} locations can be subscribed to on one connection',
+		fr: 'Au plus {max} lieux peuvent être suivis sur une même connexion',
+	},
+	socketSubscriptionNotFound: {
+		en: 'No subscription with id "{id}" exists on this connection',
+		fr: 'Aucun abonnement avec l’identifiant « {id} » n’existe sur cette connexion',
+	},
+	streamClientLimitReached: {
+		en: 'At most {max} streams can be open at once from the same client',
+		fr: 'Au plus {max} flux peuvent être ouverts en même temps par le même client',
+	},
+	modelComparisonUnavailable: {
+		en: 'Unable to fetch the model forecasts',
+		fr: 'Impossible d’obtenir les prévisions des modèles',
+	},
+	calendarUnavailable: {
+		en: 'Unable to build the weather calendar',
+		fr: 'Impossible de créer le calendrier météo',
+	},
+	weatherGridUnavailable: {
+		en: 'Unable to fetch the weather grid',
+		fr: 'Impossible d’obtenir la grille météo',
+	},
+	forecastSeriesUnavailable: {
+		en: 'Unable to fetch the forecast time series',
+		fr: 'Impossible d’obtenir la série chronologique des prévisions',
+	},
+	historyUnavailable: {
+		en: 'Unable to fetch historical weather data',
+		fr: 'Impossible d’obtenir les données météo historiques',
+	},
+	airQualityUnavailable: {
+		en: 'Unable to fetch air quality data from available sources',
+		fr: 'Impossible d’obtenir les données sur la qualité de l’air auprès des sources disponibles',
+	},
+	astronomyUnavailable: {
+		en: 'Unable to compute astronomy data',
+		fr: 'Impossible de calculer les données astronomiques',
+	},
+	weatherUnavailable: {
+		en: 'Unable to fetch weather data from available sources',
+		fr: 'Impossible d’obtenir les données météo auprès des sources disponibles',
+	},
+	alertsUnavailable: {
+		en: 'Unable to fetch weather alerts from available sources',
+		fr: 'Impossible d’obtenir les alertes météo auprès des sources disponibles',
+	},
+	noAlertsInEffect: {
+		en: 'No watches or warnings in effect',
+		fr: 'Aucune veille ou alerte en vigueur',
+	},
+	staleDataHeadline: {
+		en: 'Observation data is out of date',
+		fr: 'Les données d’observation ne sont pas à jour',
+	},
+	staleDataDescription: {
+		en: 'Data is {hours} hours old. Latest observation: {observationTime}',
+		fr: 'Les données datent de {hours} heures. Dernière observation : {observationTime}',
+	},
+	unknownWeatherCode: {
+		en: 'Unknown weather condition (code: {code})',
+		fr: 'Condition météo inconnue (code : {code})',
+	},
+} satisfies Record<string, Record<SupportedLanguage, string>>;
+
+/**
+ * Key of a translated message
+ */
+export type MessageKey = keyof typeof MESSAGES;
+
+/**
+ * Checks whether a value is a supported language code.
+ *
+ * @param value - Value to check (e.g. a query parameter)
+ * @returns True if the value is a supported language
+ */
+export function isSupportedLanguage(value: unknown): value is SupportedLanguage {
+	return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Returns a message in the requested language with its placeholders filled in.
+ *
+ * @param key - Message key
+ * @param lang - Response language
+ * @param params - Values for the message placeholders
+ * @returns Translated message
+ *
+ * @example
+ * ```typescript
+ * translate('unknownWeatherCode', 'fr', { code: 42 }); // "Condition météo inconnue (code : 42)"
+ * ```
+ */
+export function translate(
+	key: MessageKey,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+	params: Record<string, string | number> = {},
+): string {
+	const template: string = MESSAGES[key][lang] ?? MESSAGES[key][DEFAULT_LANGUAGE];
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		name in params ? String(params[name]) : placeholder,
+	);
+}
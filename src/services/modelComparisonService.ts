@@ -0,0 +1,413 @@
+/**
+ * Model Comparison Service
+ *
+ * Retrieves hourly and daily forecasts from several numerical weather prediction models
+ * (GEM, GFS, ECMWF, ICON, ...) through the Open-Meteo forecast API in a single request,
+ * and summarizes the spread between them so forecasters can judge model agreement.
+ *
+ * @module ModelComparisonService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import axios, { AxiosResponse } from 'axios';
+import {
+	collectSeriesVariables,
+	pickVariables,
+	SERIES_VARIABLE_NAMES,
+	SeriesEntry,
+	SeriesVariable,
+} from './forecastSeriesService';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './localization';
+import {
+	OPEN_METEO_BASE_URL,
+	OpenMeteoResponse,
+	summarizeDailyFeelsLike,
+	toDailyForecast,
+	toHourlyForecast,
+} from './openMeteoWeatherService';
+import { getWarmWeatherIndex } from './thermalComfort';
+import { FourteenDayForecast } from './weatherTypes';
+import { logger } from '../utils/logger';
+
+/**
+ * HTTP request timeout for model comparison requests (milliseconds)
+ */
+const MODELS_TIMEOUT_MS = 15000;
+
+/**
+ * Cache lifetime for comparison responses (10 minutes, matching the weather cache refresh)
+ */
+const MODELS_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Maximum number of cached comparison responses; the least recently used entry is evicted first
+ */
+const MAX_MODELS_CACHE_ENTRIES = 200;
+
+/**
+ * Forecast days returned when `days` is not given
+ */
+export const DEFAULT_MODEL_DAYS = 5;
+
+/**
+ * Longest forecast that can be compared (days); models with a shorter horizon report null beyond it
+ */
+export const MAX_MODEL_DAYS = 16;
+
+/**
+ * Models that can be requested with `models`, with their Open-Meteo model identifiers
+ */
+const FORECAST_MODELS = {
+	gem: { openMeteo: 'gem_seamless', name: 'GEM (Environment Canada)' },
+	hrdps: { openMeteo: 'gem_hrdps_continental', name: 'HRDPS (Environment Canada)' },
+	gfs: { openMeteo: 'gfs_seamless', name: 'GFS (NOAA)' },
+	ecmwf: { openMeteo: 'ecmwf_ifs025', name: 'ECMWF IFS' },
+	icon: { openMeteo: 'icon_seamless', name: 'ICON (DWD)' },
+	ukmo: { openMeteo: 'ukmo_seamless', name: 'UKMO (Met Office)' },
+	meteofrance: { openMeteo: 'meteofrance_seamless', name: 'ARPEGE/AROME (Météo-France)' },
+	jma: { openMeteo: 'jma_seamless', name: 'JMA' },
+} satisfies Record<string, { openMeteo: string; name: string }>;
+
+/**
+ * Name of a model accepted by `models`
+ */
+export type ForecastModel = keyof typeof FORECAST_MODELS;
+
+/**
+ * All supported models
+ */
+export const FORECAST_MODEL_NAMES = Object.keys(FORECAST_MODELS) as ForecastModel[];
+
+/**
+ * Models compared when `models` is not given
+ */
+export const DEFAULT_FORECAST_MODELS: ForecastModel[] = ['gem', 'gfs', 'ecmwf', 'icon'];
+
+/**
+ * Open-Meteo daily variables requested from every model
+ */
+const DAILY_MODEL_VARIABLES = [
+	'weather_code',
+	'temperature_2m_max',
+	'temperature_2m_min',
+	'apparent_temperature_max',
+	'apparent_temperature_min',
+	'precipitation_sum',
+	'precipitation_probability_max',
+	'wind_speed_10m_max',
+	'wind_gusts_10m_max',
+	'wind_direction_10m_dominant',
+	'uv_index_max',
+];
+
+/**
+ * Fields of the 14-day shape kept on daily model entries
+ */
+const DAILY_MODEL_FIELDS = [
+	'date',
+	'temperatureMax',
+	'temperatureMin',
+	'temperatureUnit',
+	'feelsLikeMax',
+	'feelsLikeMin',
+	'feelsLikeUnit',
+	'feelsLikeMaxIndex',
+	'feelsLikeMinIndex',
+	'condition',
+	'precipitationSum',
+	'precipitationProbability',
+	'precipitationUnit',
+	'windSpeedMax',
+	'windGustsMax',
+	'windDirection',
+	'windSpeedUnit',
+	'uvIndexMax',
+] as const satisfies ReadonlyArray<keyof FourteenDayForecast>;
+
+/**
+ * Fields that cannot be summarized: condition text, feels-like indices, and wind directions, whose
+ * arithmetic mean is meaningless
+ */
+const UNSUMMARIZED_FIELDS = ['condition', 'feelsLikeIndex', 'feelsLikeMaxIndex', 'feelsLikeMinIndex', 'windDirection'];
+
+/**
+ * Daily model forecast entry
+ */
+export type ModelDailyEntry = Pick<FourteenDayForecast, (typeof DAILY_MODEL_FIELDS)[number]>;
+
+/**
+ * Forecast of a single model
+ */
+export interface ModelForecast {
+	name: string;
+	openMeteoModel: string;
+	hourly: SeriesEntry[];
+	daily: ModelDailyEntry[];
+}
+
+/**
+ * Minimum, mean and maximum across models of every numeric field, as entries of the same
+ * shape as the model entries so they convert between units like them. Models without a
+ * value for a field are left out; fields no model provides are null.
+ */
+export interface ModelSpread<T> {
+	min: T[];
+	mean: T[];
+	max: T[];
+}
+
+/**
+ * Forecasts of several models for a location
+ */
+export interface ModelComparison {
+	/** IANA time zone of the location; entry times are local times in this zone */
+	timezone: string | null;
+	utcOffsetSeconds: number | null;
+	days: number;
+	variables: SeriesVariable[];
+	models: Partial<Record<ForecastModel, ModelForecast>>;
+	spread: {
+		hourly: ModelSpread<SeriesEntry>;
+		daily: ModelSpread<ModelDailyEntry>;
+	};
+	source: string;
+}
+
+/**
+ * Open-Meteo forecast API response for several models. Each variable is suffixed with the
+ * model identifier (e.g. `temperature_2m_gem_seamless`), except when a single model is requested.
+ */
+interface OpenMeteoModelsResponse {
+	timezone?: string;
+	utc_offset_seconds?: number;
+	hourly?: { time: string[]; [variable: string]: Array<number | null> | string[] };
+	daily?: { time: string[]; [variable: string]: Array<number | null> | string[] };
+}
+
+/**
+ * Cached comparison response with its expiry
+ */
+interface ModelsCacheEntry {
+	data: ModelComparison;
+	expiresAt: number;
+}
+
+/**
+ * Comparison responses keyed by location, models, variables, days and language
+ */
+const modelsCache = new Map<string, ModelsCacheEntry>();
+
+/**
+ * Returns a cached response, refreshing its position in the eviction order.
+ */
+function getCachedComparison(key: string): ModelComparison | null {
+	const entry = modelsCache.get(key);
+	if (!entry) {
+		return null;
+	}
+
+	modelsCache.delete(key);
+	if (entry.expiresAt <= Date.now()) {
+		return null;
+	}
+
+	modelsCache.set(key, entry);
+	return entry.data;
+}
+
+/**
+ * Stores a response, evicting the least recently used entry when the cache is full.
+ */
+function setCachedComparison(key: string, data: ModelComparison): void {
+	if (modelsCache.size >= MAX_MODELS_CACHE_ENTRIES) {
+		const oldestKey = modelsCache.keys().next().value;
+		if (oldestKey !== undefined) {
+			modelsCache.delete(oldestKey);
+		}
+	}
+
+	modelsCache.set(key, { data, expiresAt: Date.now() + MODELS_TTL_MS });
+}
+
+/**
+ * Extracts the series of one model from a multi-model Open-Meteo series by removing the model suffix.
+ *
+ * @param series - Hourly or daily series with suffixed variables
+ * @param openMeteoModel - Open-Meteo model identifier
+ * @param single - Whether only one model was requested, in which case variables are not suffixed
+ * @returns Series of the model with plain variable names
+ */
+function extractModelSeries<T extends { time: string[] }>(
+	series: NonNullable<OpenMeteoModelsResponse['hourly']>,
+	openMeteoModel: string,
+	single: boolean,
+): T {
+	const suffix = `_${openMeteoModel}`;
+	const extracted: Record<string, unknown> = { time: series.time };
+
+	for (const [variable, values] of Object.entries(series)) {
+		if (variable.endsWith(suffix)) {
+			extracted[variable.slice(0, -suffix.length)] = values;
+		} else if (single && variable !== 'time') {
+			extracted[variable] = values;
+		}
+	}
+	return extracted as T;
+}
+
+/**
+ * Summarizes aligned entries of several models into minimum, mean and maximum entries.
+ *
+ * @param entriesByModel - Entries of each model, aligned by index
+ * @returns Spread entries; non-numeric fields are copied from the first model
+ */
+function summarizeModels<T extends object>(entriesByModel: T[][]): ModelSpread<T> {
+	const spread: ModelSpread<T> = { min: [], mean: [], max: [] };
+	const [first = []] = entriesByModel;
+
+	first.forEach((template, index) => {
+		const min: Record<string, unknown> = {};
+		const mean: Record<string, unknown> = {};
+		const max: Record<string, unknown> = {};
+
+		for (const [field, value] of Object.entries(template)) {
+			if (UNSUMMARIZED_FIELDS.includes(field)) {
+				continue;
+			}
+			if (typeof value === 'string') {
+				min[field] = mean[field] = max[field] = value;
+				continue;
+			}
+
+			const values = entriesByModel
+				.map((entries) => (entries[index] as Record<string, unknown> | undefined)?.[field])
+				.filter((candidate): candidate is number => typeof candidate === 'number' && !isNaN(candidate));
+			min[field] = values.length > 0 ? Math.min(...values) : null;
+			max[field] = values.length > 0 ? Math.max(...values) : null;
+			mean[field] =
+				values.length > 0
+					? Math.round((values.reduce((sum, candidate) => sum + candidate, 0) / values.length) * 100) / 100
+					: null;
+		}
+
+		spread.min.push(min as T);
+		spread.mean.push(mean as T);
+		spread.max.push(max as T);
+	});
+
+	return spread;
+}
+
+/**
+ * Retrieves the forecasts of several models for a location.
+ *
+ * @param lat - Latitude coordinate as string
+ * @param lon - Longitude coordinate as string
+ * @param models - Models to compare
+ * @param variables - Hourly variables to include
+ * @param days - Forecast days, starting today
+ * @param lang - Language of the condition text
+ * @returns Promise resolving to the forecast of each model and their spread
+ *
+ * @throws {Error} When the forecast API fails or returns invalid data
+ *
+ * @example
+ * ```typescript
+ * const comparison = await getModelComparison('45.4215', '-75.6998', ['gem', 'gfs'], ['temperature'], 5);
+ * const day = comparison.spread.daily;
+ * console.log(`Day 5 high: ${day.min[4].temperatureMax} to ${day.max[4].temperatureMax}°C`);
+ * ```
+ */
+export async function getModelComparison(
+	lat: string,
+	lon: string,
+	models: ForecastModel[] = DEFAULT_FORECAST_MODELS,
+	variables: SeriesVariable[] = SERIES_VARIABLE_NAMES,
+	days = DEFAULT_MODEL_DAYS,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+): Promise<ModelComparison> {
+	const key = [lat, lon, [...models].sort().join('+'), [...variables].sort().join('+'), days, lang].join(',');
+	const cached = getCachedComparison(key);
+	if (cached) {
+		logger.info(`Serving cached model comparison for ${lat}, ${lon}`);
+		return cached;
+	}
+
+	const params = new URLSearchParams({
+		latitude: lat,
+		longitude: lon,
+		models: models.map((model) => FORECAST_MODELS[model].openMeteo).join(','),
+		hourly: collectSeriesVariables(variables).join(','),
+		daily: DAILY_MODEL_VARIABLES.join(','),
+		forecast_days: String(days),
+		timezone: 'auto',
+	});
+
+	try {
+		logger.info(`Fetching ${models.join(', ')} model forecasts for coordinates ${lat}, ${lon}`);
+
+		const response: AxiosResponse<OpenMeteoModelsResponse> = await axios.get(`${OPEN_METEO_BASE_URL}?${params}`, {
+			timeout: MODELS_TIMEOUT_MS,
+			headers: {
+				'User-Agent': 'AxleAPI/1.0.0 (Model Comparison Service)',
+				Accept: 'application/json',
+			},
+		});
+
+		const { hourly, daily } = response.data ?? {};
+		if (!hourly || !Array.isArray(hourly.time) || !daily || !Array.isArray(daily.time)) {
+			throw new Error('Invalid response format from Open-Meteo API');
+		}
+
+		const warmIndex = getWarmWeatherIndex(parseFloat(lat), parseFloat(lon));
+		const forecasts: Partial<Record<ForecastModel, ModelForecast>> = {};
+		for (const model of models) {
+			const { openMeteo, name } = FORECAST_MODELS[model];
+			const source = `Open-Meteo (${name})`;
+			const modelHourly = extractModelSeries<OpenMeteoResponse['hourly']>(hourly, openMeteo, models.length === 1);
+			const modelDaily = extractModelSeries<OpenMeteoResponse['daily']>(daily, openMeteo, models.length === 1);
+			const hourlyEntries = modelHourly.time.map((_, index) =>
+				toHourlyForecast(modelHourly, index, lang, source, warmIndex),
+			);
+			const dailyEntries = summarizeDailyFeelsLike(
+				modelDaily.time.map((_, index) => toDailyForecast(modelDaily, index, lang, source)),
+				hourlyEntries,
+			);
+
+			forecasts[model] = {
+				name,
+				openMeteoModel: openMeteo,
+				hourly: hourlyEntries.map((entry) => pickVariables(entry, variables)),
+				daily: dailyEntries.map(
+					(entry) =>
+						Object.fromEntries(DAILY_MODEL_FIELDS.map((field) => [field, entry[field]])) as ModelDailyEntry,
+				),
+			};
+		}
+
+		const compared = models.map((model) => forecasts[model] as ModelForecast);
+		const result: ModelComparison = {
+			timezone: response.data.timezone ?? null,
+			utcOffsetSeconds: response.data.utc_offset_seconds ?? null,
+			days,
+			variables,
+			models: forecasts,
+			spread: {
+				hourly: summarizeModels(compared.map((forecast) => forecast.hourly)),
+				daily: summarizeModels(compared.map((forecast) => forecast.daily)),
+			},
+			source: 'Open-Meteo',
+		};
+
+		setCachedComparison(key, result);
+		return result;
+	} catch (error) {
+		// Open-Meteo explains rejected requests in a `reason` field
+		const reason = axios.isAxiosError(error) ? error.response?.data?.reason : null;
+		const errorMessage = reason || (error instanceof Error ? error.message : 'Unknown error');
+		logger.error(`Open-Meteo model comparison error: ${errorMessage}`);
+		throw new Error(`Model comparison unavailable: ${errorMessage}`);
+	}
+}
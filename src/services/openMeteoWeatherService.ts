@@ -0,0 +1,524 @@
+/**
+ * Open-Meteo Weather Service
+ *
+ * This service fetches weather data from the Open-Meteo forecast API and processes it
+ * into the standardized hourly and 14-day forecast formats.
+ *
+ * @module OpenMeteoWeatherService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import axios, { AxiosResponse, AxiosRequestConfig } from 'axios';
+import { DEFAULT_LANGUAGE, SupportedLanguage, translate } from './localization';
+import { calculateFeelsLike, FeelsLikeIndex, WarmWeatherIndex } from './thermalComfort';
+import { FourteenDayForecast, HourlyForecast } from './weatherTypes';
+import { logger } from '../utils/logger';
+
+/**
+ * Base URL for the Open-Meteo forecast API
+ */
+export const OPEN_METEO_BASE_URL = 'https://api.open-meteo.com/v1/forecast';
+
+/**
+ * HTTP request timeout for Open-Meteo API calls (milliseconds)
+ */
+const OPEN_METEO_TIMEOUT_MS = 10000;
+
+/**
+ * Maximum forecast days supported by Open-Meteo
+ */
+const MAX_FORECAST_DAYS = 14;
+
+/**
+ * Open-Meteo API response interface
+ */
+export interface OpenMeteoResponse {
+	current: {
+		temperature_2m: number;
+		relative_humidity_2m: number;
+		dew_point_2m?: number;
+		apparent_temperature: number;
+		weather_code: number;
+		wind_speed_10m: number;
+		wind_direction_10m: number;
+		wind_gusts_10m: number;
+		pressure_msl: number;
+		cloud_cover: number;
+		uv_index?: number;
+		[key: string]: any;
+	};
+	hourly: {
+		time: string[];
+		temperature_2m: number[];
+		relative_humidity_2m: number[];
+		dew_point_2m: number[];
+		apparent_temperature: number[];
+		precipitation_probability: number[];
+		precipitation: number[];
+		weather_code: number[];
+		pressure_msl: number[];
+		cloud_cover: number[];
+		visibility: number[];
+		wind_speed_10m: number[];
+		wind_direction_10m: number[];
+		wind_gusts_10m: number[];
+		uv_index: number[];
+	};
+	daily: {
+		time: string[];
+		weather_code: number[];
+		temperature_2m_max: number[];
+		temperature_2m_min: number[];
+		apparent_temperature_max: number[];
+		apparent_temperature_min: number[];
+		sunrise: string[];
+		sunset: string[];
+		daylight_duration: number[];
+		sunshine_duration: number[];
+		uv_index_max: number[];
+		precipitation_sum: number[];
+		precipitation_probability_max: number[];
+		wind_speed_10m_max: number[];
+		wind_gusts_10m_max: number[];
+		wind_direction_10m_dominant: number[];
+	};
+}
+
+/**
+ * Fetches weather data from Open-Meteo API with comprehensive parameters.
+ *
+ * @param lat - Latitude coordinate as string
+ * @param lon - Longitude coordinate as string
+ * @returns Promise resolving to Open-Meteo API response
+ *
+ * @throws {Error} When API request fails or returns invalid data
+ *
+ * @example
+ * ```typescript
+ * const data = await getOpenMeteoData("45.4215", "-75.6998");
+ * console.log(`Current temp: ${data.current.temperature_2m}°C`);
+ * ```
+ */
+export async function getOpenMeteoData(lat: string, lon: string): Promise<OpenMeteoResponse> {
+	const params = new URLSearchParams({
+		latitude: lat,
+		longitude: lon,
+		// Current conditions parameters
+		current: [
+			'temperature_2m',
+			'relative_humidity_2m',
+			'dew_point_2m',
+			'apparent_temperature',
+			'is_day',
+			'precipitation',
+			'weather_code',
+			'cloud_cover',
+			'pressure_msl',
+			'surface_pressure',
+			'wind_speed_10m',
+			'wind_direction_10m',
+			'wind_gusts_10m',
+		].join(','),
+		// Hourly forecast parameters (next 48 hours available)
+		hourly: [
+			'temperature_2m',
+			'relative_humidity_2m',
+			'dew_point_2m',
+			'apparent_temperature',
+			'precipitation_probability',
+			'precipitation',
+			'weather_code',
+			'pressure_msl',
+			'cloud_cover',
+			'visibility',
+			'wind_speed_10m',
+			'wind_direction_10m',
+			'wind_gusts_10m',
+			'uv_index',
+		].join(','),
+		// Daily forecast parameters (up to 16 days available)
+		daily: [
+			'weather_code',
+			'temperature_2m_max',
+			'temperature_2m_min',
+			'apparent_temperature_max',
+			'apparent_temperature_min',
+			'sunrise',
+			'sunset',
+			'daylight_duration',
+			'sunshine_duration',
+			'uv_index_max',
+			'precipitation_sum',
+			'precipitation_probability_max',
+			'wind_speed_10m_max',
+			'wind_gusts_10m_max',
+			'wind_direction_10m_dominant',
+		].join(','),
+		timezone: 'auto',
+		forecast_days: MAX_FORECAST_DAYS.toString(),
+	});
+
+	const requestConfig: AxiosRequestConfig = {
+		timeout: OPEN_METEO_TIMEOUT_MS,
+		headers: {
+			'User-Agent': 'AxleAPI/1.0.0 (Advanced Weather Service)',
+			Accept: 'application/json',
+		},
+	};
+
+	try {
+		const url = `${OPEN_METEO_BASE_URL}?${params}`;
+		logger.info(`Fetching Open-Meteo data for coordinates ${lat}, ${lon}`);
+
+		const response: AxiosResponse<OpenMeteoResponse> = await axios.get(url, requestConfig);
+
+		if (response.status !== 200) {
+			throw new Error(`HTTP ${response.status}: Failed to fetch Open-Meteo data`);
+		}
+
+		// Validate response structure
+		if (!response.data || typeof response.data !== 'object') {
+			throw new Error('Invalid response format from Open-Meteo API');
+		}
+
+		if (!response.data.current && !response.data.hourly && !response.data.daily) {
+			throw new Error('Open-Meteo API returned no weather data');
+		}
+
+		logger.info('Open-Meteo data fetched successfully');
+		return response.data;
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		logger.error(`Open-Meteo API error: ${errorMessage}`);
+		throw new Error(`Open-Meteo API unavailable: ${errorMessage}`);
+	}
+}
+
+/**
+ * WMO weather interpretation codes, by language
+ */
+const WEATHER_CODE_NAMES: Record<SupportedLanguage, Record<number, string>> = {
+	en: {
+		0: 'Clear sky',
+		1: 'Mainly clear',
+		2: 'Partly cloudy',
+		3: 'Overcast',
+		45: 'Fog',
+		48: 'Depositing rime fog',
+		51: 'Light drizzle',
+		53: 'Moderate drizzle',
+		55: 'Dense drizzle',
+		56: 'Light freezing drizzle',
+		57: 'Dense freezing drizzle',
+		61: 'Slight rain',
+		63: 'Moderate rain',
+		65: 'Heavy rain',
+		66: 'Light freezing rain',
+		67: 'Heavy freezing rain',
+		71: 'Slight snow',
+		73: 'Moderate snow',
+		75: 'Heavy snow',
+		77: 'Snow grains',
+		80: 'Slight rain showers',
+		81: 'Moderate rain showers',
+		82: 'Violent rain showers',
+		85: 'Slight snow showers',
+		86: 'Heavy snow showers',
+		95: 'Thunderstorm',
+		96: 'Thunderstorm with slight hail',
+		99: 'Thunderstorm with heavy hail',
+	},
+	fr: {
+		0: 'Ciel dégagé',
+		1: 'Généralement dégagé',
+		2: 'Partiellement nuageux',
+		3: 'Couvert',
+		45: 'Brouillard',
+		48: 'Brouillard givrant',
+		51: 'Bruine faible',
+		53: 'Bruine modérée',
+		55: 'Bruine forte',
+		56: 'Bruine verglaçante faible',
+		57: 'Bruine verglaçante forte',
+		61: 'Pluie faible',
+		63: 'Pluie modérée',
+		65: 'Pluie forte',
+		66: 'Pluie verglaçante faible',
+		67: 'Pluie verglaçante forte',
+		71: 'Neige faible',
+		73: 'Neige modérée',
+		75: 'Neige forte',
+		77: 'Neige en grains',
+		80: 'Averses de pluie faibles',
+		81: 'Averses de pluie modérées',
+		82: 'Averses de pluie violentes',
+		85: 'Averses de neige faibles',
+		86: 'Averses de neige fortes',
+		95: 'Orage',
+		96: 'Orage avec grêle faible',
+		99: 'Orage avec grêle forte',
+	},
+};
+
+/**
+ * Converts Open-Meteo weather codes to human-readable conditions.
+ * Based on WMO weather interpretation codes.
+ *
+ * @param code - WMO weather code from Open-Meteo
+ * @param lang - Language of the condition text
+ * @returns Human-readable weather condition string
+ *
+ * @example
+ * ```typescript
+ * interpretWeatherCode(61); // "Slight rain"
+ * interpretWeatherCode(61, 'fr'); // "Pluie faible"
+ * ```
+ */
+export function interpretWeatherCode(code: number, lang: SupportedLanguage = DEFAULT_LANGUAGE): string {
+	return WEATHER_CODE_NAMES[lang][code] || translate('unknownWeatherCode', lang, { code });
+}
+
+/**
+ * Hourly or daily series of an Open-Meteo response in which only `time` is guaranteed.
+ * Variables that were not requested are absent.
+ */
+export type OpenMeteoSeries<T extends { time: string[] }> = Pick<T, 'time'> & Partial<Omit<T, 'time'>>;
+
+/**
+ * Builds a standardized hourly entry from one index of an Open-Meteo hourly series.
+ * Fields whose variable is missing from the series are null.
+ *
+ * @param hourly - Hourly series from the forecast or archive API
+ * @param index - Index of the hour to convert
+ * @param lang - Language of the condition text
+ * @param source - Source name reported on the entry
+ * @param warmIndex - Index used for the feels-like temperature in warm weather
+ * @returns Hourly forecast object
+ */
+export function toHourlyForecast(
+	hourly: OpenMeteoSeries<OpenMeteoResponse['hourly']>,
+	index: number,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+	source = 'Open-Meteo',
+	warmIndex: WarmWeatherIndex = 'humidex',
+): HourlyForecast {
+	const at = (values: Array<number | null> | undefined): number | null => values?.[index] ?? null;
+
+	const temperature = at(hourly.temperature_2m);
+	const humidity = at(hourly.relative_humidity_2m);
+	const windSpeed = at(hourly.wind_speed_10m);
+	const weatherCode = at(hourly.weather_code);
+
+	const dewPoint = at(hourly.dew_point_2m);
+
+	// Feels-like is only computed when it was requested, which is signalled by the apparent temperature
+	const feelsLike = hourly.apparent_temperature
+		? calculateFeelsLike(
+				{ temperature, humidity, dewPoint, windSpeed, apparentTemperature: at(hourly.apparent_temperature) },
+				warmIndex,
+			)
+		: { value: null, index: null };
+
+	return {
+		time: hourly.time[index],
+		temperature,
+		temperatureUnit: '°C',
+		feelsLike: feelsLike.value,
+		feelsLikeUnit: '°C',
+		feelsLikeIndex: feelsLike.index,
+		condition: weatherCode !== null ? interpretWeatherCode(weatherCode, lang) : null,
+		humidity,
+		humidityUnit: '%',
+		dewPoint,
+		dewPointUnit: '°C',
+		precipitationProbability: at(hourly.precipitation_probability),
+		precipitation: at(hourly.precipitation),
+		precipitationUnit: 'mm',
+		windSpeed,
+		windDirection: at(hourly.wind_direction_10m),
+		windGusts: at(hourly.wind_gusts_10m),
+		windSpeedUnit: 'km/h',
+		pressure: at(hourly.pressure_msl),
+		pressureUnit: 'hPa',
+		cloudCover: at(hourly.cloud_cover),
+		cloudCoverUnit: '%',
+		visibility: at(hourly.visibility),
+		visibilityUnit: 'm',
+		uvIndex: at(hourly.uv_index),
+		source,
+	};
+}
+
+/**
+ * Builds a standardized daily entry from one index of an Open-Meteo daily series.
+ * Fields whose variable is missing from the series are null.
+ *
+ * @param daily - Daily series from the forecast or archive API
+ * @param index - Index of the day to convert
+ * @param lang - Language of the condition text
+ * @param source - Source name reported on the entry
+ * @returns Daily forecast object
+ */
+export function toDailyForecast(
+	daily: OpenMeteoSeries<OpenMeteoResponse['daily']>,
+	index: number,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+	source = 'Open-Meteo',
+): FourteenDayForecast {
+	const at = <T>(values: Array<T | null> | undefined): T | null => values?.[index] ?? null;
+
+	const tempMax = at(daily.temperature_2m_max);
+	const tempMin = at(daily.temperature_2m_min);
+	const weatherCode = at(daily.weather_code);
+
+	// Use apparent temperature as feels-like, fallback to actual temperature. Callers with the hourly
+	// series replace these with the extremes of the hourly feels-like (see summarizeDailyFeelsLike).
+	const apparentMax = at(daily.apparent_temperature_max);
+	const apparentMin = at(daily.apparent_temperature_min);
+	const feelsLikeMax = daily.apparent_temperature_max ? (apparentMax ?? tempMax) : null;
+	const feelsLikeMin = daily.apparent_temperature_min ? (apparentMin ?? tempMin) : null;
+	const indexOf = (value: number | null, apparent: number | null): FeelsLikeIndex | null =>
+		value === null ? null : apparent !== null ? 'apparentTemperature' : 'temperature';
+
+	return {
+		date: daily.time[index],
+		temperatureMax: tempMax,
+		temperatureMin: tempMin,
+		temperatureUnit: '°C',
+		feelsLikeMax,
+		feelsLikeMin,
+		feelsLikeUnit: '°C',
+		feelsLikeMaxIndex: indexOf(feelsLikeMax, apparentMax),
+		feelsLikeMinIndex: indexOf(feelsLikeMin, apparentMin),
+		condition: weatherCode !== null ? interpretWeatherCode(weatherCode, lang) : null,
+		precipitationSum: at(daily.precipitation_sum),
+		precipitationProbability: at(daily.precipitation_probability_max),
+		precipitationUnit: 'mm',
+		windSpeedMax: at(daily.wind_speed_10m_max),
+		windGustsMax: at(daily.wind_gusts_10m_max),
+		windDirection: at(daily.wind_direction_10m_dominant),
+		windSpeedUnit: 'km/h',
+		uvIndexMax: at(daily.uv_index_max),
+		sunrise: at(daily.sunrise),
+		sunset: at(daily.sunset),
+		daylightDuration: at(daily.daylight_duration),
+		sunshineDuration: at(daily.sunshine_duration),
+		source,
+	};
+}
+
+/**
+ * Hours of a day the hourly series must cover for its feels-like extremes to replace the daily ones
+ * (23 allows for the day clocks spring forward)
+ */
+const MIN_HOURS_PER_DAY = 23;
+
+/**
+ * Replaces the daily feels-like extremes with the highest and lowest hourly feels-like of each
+ * date, so daily entries use the same indices as hourly ones. Days the hourly series does not
+ * cover in full keep their values.
+ *
+ * @param daily - Daily entries
+ * @param hourly - Hourly entries covering the same dates, in local time
+ * @returns Daily entries with updated feels-like extremes
+ */
+export function summarizeDailyFeelsLike(daily: FourteenDayForecast[], hourly: HourlyForecast[]): FourteenDayForecast[] {
+	const hoursByDate = new Map<string, HourlyForecast[]>();
+	for (const hour of hourly) {
+		if (hour.feelsLike === null) {
+			continue;
+		}
+		const date = hour.time.slice(0, 10);
+		hoursByDate.set(date, [...(hoursByDate.get(date) ?? []), hour]);
+	}
+
+	return daily.map((day) => {
+		const hours = hoursByDate.get(day.date) ?? [];
+		if (hours.length < MIN_HOURS_PER_DAY) {
+			return day;
+		}
+
+		const warmest = hours.reduce((a, b) => ((b.feelsLike as number) > (a.feelsLike as number) ? b : a));
+		const coldest = hours.reduce((a, b) => ((b.feelsLike as number) < (a.feelsLike as number) ? b : a));
+		return {
+			...day,
+			feelsLikeMax: warmest.feelsLike,
+			feelsLikeMin: coldest.feelsLike,
+			feelsLikeMaxIndex: warmest.feelsLikeIndex,
+			feelsLikeMinIndex: coldest.feelsLikeIndex,
+		};
+	});
+}
+
+/**
+ * Processes Open-Meteo hourly data into standardized format.
+ * Extracts next 24 hours starting from current time.
+ *
+ * @param data - Open-Meteo API response
+ * @param lang - Language of the condition text
+ * @param warmIndex - Index used for the feels-like temperature in warm weather
+ * @returns Array of hourly forecast objects
+ */
+export function processOpenMeteoHourly(
+	data: OpenMeteoResponse,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+	warmIndex: WarmWeatherIndex = 'humidex',
+): HourlyForecast[] {
+	if (!data.hourly) {
+		logger.error('No hourly data available from Open-Meteo');
+		return [];
+	}
+
+	const hourly = data.hourly;
+	const hourlyForecasts: HourlyForecast[] = [];
+	const now = new Date();
+
+	// Find starting index for current/next hour
+	let startIndex = 0;
+	for (let i = 0; i < hourly.time.length; i++) {
+		const forecastTime = new Date(hourly.time[i]);
+		if (forecastTime >= now) {
+			startIndex = i;
+			break;
+		}
+	}
+
+	// Process next 24 hours
+	const endIndex = Math.min(startIndex + 24, hourly.time.length);
+	for (let i = startIndex; i < endIndex; i++) {
+		hourlyForecasts.push(toHourlyForecast(hourly, i, lang, 'Open-Meteo', warmIndex));
+	}
+
+	logger.info(`Processed ${hourlyForecasts.length} hourly forecasts from Open-Meteo`);
+	return hourlyForecasts;
+}
+
+/**
+ * Processes Open-Meteo daily data into 14-day forecast format.
+ *
+ * @param data - Open-Meteo API response
+ * @param lang - Language of the condition text
+ * @param warmIndex - Index used for the feels-like temperature in warm weather
+ * @returns Array of daily forecast objects
+ */
+export function processOpenMeteoDaily(
+	data: OpenMeteoResponse,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+	warmIndex: WarmWeatherIndex = 'humidex',
+): FourteenDayForecast[] {
+	if (!data.daily) {
+		logger.error('No daily data available from Open-Meteo');
+		return [];
+	}
+
+	const hourly = data.hourly;
+	const dailyForecasts = summarizeDailyFeelsLike(
+		data.daily.time.map((_, index) => toDailyForecast(data.daily, index, lang)),
+		hourly ? hourly.time.map((_, index) => toHourlyForecast(hourly, index, lang, 'Open-Meteo', warmIndex)) : [],
+	);
+
+	logger.info(`Processed ${dailyForecasts.length} daily forecasts from Open-Meteo`);
+	return dailyForecasts;
+}
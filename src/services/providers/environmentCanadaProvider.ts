@@ -0,0 +1,78 @@
+/**
+ * Environment Canada Weather Provider
+ *
+ * Adapts the Environment Canada RSS service to the weather provider contract.
+ *
+ * @module EnvironmentCanadaProvider
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { findNearestSite } from '../environmentCanadaSites';
+import { getWeatherData, WeatherServiceResponse } from '../environmentCanadaWeatherService';
+import { ProviderRequest, ProviderWeatherData, WeatherProvider } from '../weatherTypes';
+
+/**
+ * Environment Canada provider: official observations, 7-day forecast and alerts for Canada
+ */
+export const environmentCanadaProvider: WeatherProvider<WeatherServiceResponse> = {
+	id: 'environmentCanada',
+	name: 'Environment Canada',
+	priority: 1,
+	weight: 0.7,
+	reliability: 0.9,
+	capabilities: ['current', '7day', 'alerts'],
+	coverage: {
+		region: 'canada',
+		description: 'Official Canadian weather service',
+		maxStationDistanceKm: 150,
+	},
+
+	getStationDistance(request: ProviderRequest): number | null {
+		const lat = parseFloat(request.lat);
+		const lon = parseFloat(request.lon);
+		if (isNaN(lat) || isNaN(lon)) {
+			return null;
+		}
+		return findNearestSite(lat, lon)?.distanceKm ?? null;
+	},
+
+	fetch(request: ProviderRequest): Promise<WeatherServiceResponse> {
+		return getWeatherData(request.lat, request.lon, request.lang);
+	},
+
+	normalize(raw: WeatherServiceResponse): ProviderWeatherData {
+		const envCurrent = raw.current[0];
+
+		return {
+			site: raw.site,
+			current: envCurrent
+				? {
+						temperature: envCurrent.temperature,
+						humidex: envCurrent.humidex,
+						windChill: envCurrent.windChill,
+						condition: envCurrent.condition,
+						humidity: envCurrent.humidity,
+						windSpeed: envCurrent.windSpeed,
+						windDirection: envCurrent.windDirection,
+						windGust: envCurrent.windGust,
+						pressure: envCurrent.pressure,
+						pressureTendency: envCurrent.pressureTendency,
+						visibility: envCurrent.visibility,
+						dewPoint: envCurrent.dewPoint,
+						airQuality: envCurrent.airQuality,
+						airQualityUnit: envCurrent.airQualityUnit,
+						stationName: envCurrent.stationName,
+						stationId: envCurrent.stationId,
+						observationTime: envCurrent.observationTime,
+						precipitation: envCurrent.precipitation,
+						uvIndex: envCurrent.uvIndex,
+						cloudCover: envCurrent.cloudCover,
+					}
+				: null,
+			'7day': raw['7day'],
+			alerts: raw.alerts,
+		};
+	},
+};
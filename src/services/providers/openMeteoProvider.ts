@@ -0,0 +1,69 @@
+/**
+ * Open-Meteo Weather Provider
+ *
+ * Adapts the Open-Meteo forecast service to the weather provider contract.
+ *
+ * @module OpenMeteoProvider
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import {
+	getOpenMeteoData,
+	interpretWeatherCode,
+	OpenMeteoResponse,
+	processOpenMeteoDaily,
+	processOpenMeteoHourly,
+} from '../openMeteoWeatherService';
+import { getWarmWeatherIndex } from '../thermalComfort';
+import { ProviderRequest, ProviderWeatherData, WeatherProvider } from '../weatherTypes';
+
+/**
+ * Open-Meteo provider: global model data for current conditions, hourly and 14-day forecasts
+ */
+export const openMeteoProvider: WeatherProvider<OpenMeteoResponse> = {
+	id: 'openMeteo',
+	name: 'Open-Meteo',
+	priority: 2,
+	weight: 0.3,
+	reliability: 0.8,
+	capabilities: ['current', 'hourly', '14day'],
+	coverage: {
+		region: 'global',
+		description: 'European weather model with global coverage',
+	},
+
+	fetch(request: ProviderRequest): Promise<OpenMeteoResponse> {
+		return getOpenMeteoData(request.lat, request.lon);
+	},
+
+	normalize(raw: OpenMeteoResponse, request: ProviderRequest): ProviderWeatherData {
+		const current = raw.current;
+		const lang = request.lang;
+		const warmIndex = getWarmWeatherIndex(parseFloat(request.lat), parseFloat(request.lon));
+
+		return {
+			current: current
+				? {
+						temperature: current.temperature_2m,
+						apparentTemperature: current.apparent_temperature,
+						condition: interpretWeatherCode(current.weather_code, lang),
+						humidity: current.relative_humidity_2m,
+						windSpeed: current.wind_speed_10m,
+						windDirection: current.wind_direction_10m,
+						windGust: current.wind_gusts_10m,
+						// Convert hPa to kPa
+						pressure: current.pressure_msl ? Math.round(current.pressure_msl / 10) / 10 : null,
+						// Convert m to km
+						visibility: current.visibility ? Math.round((current.visibility / 1000) * 10) / 10 : null,
+						dewPoint: current.dew_point_2m ?? null,
+						uvIndex: current.uv_index || null,
+						cloudCover: current.cloud_cover ?? null,
+					}
+				: null,
+			hourly: raw.hourly ? processOpenMeteoHourly(raw, lang, warmIndex) : [],
+			'14day': raw.daily ? processOpenMeteoDaily(raw, lang, warmIndex) : [],
+		};
+	},
+};
@@ -0,0 +1,198 @@
+/**
+ * Source Agreement
+ *
+ * Scores how far the blended current conditions can be trusted. Each provider's reading is
+ * weighted by its reliability, the age of its observation and the distance to its station; each
+ * blended variable is then scored by how closely the providers agree, and flagged when they
+ * diverge by more than the variable's tolerance.
+ *
+ * @module SourceAgreement
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { roundTo } from './unitConversion';
+
+/**
+ * Current condition variables compared across providers
+ */
+export type AgreementField = 'temperature' | 'dewPoint' | 'humidity' | 'windSpeed' | 'pressure';
+
+/**
+ * Spread between providers above which a variable is flagged, with the unit values are compared in
+ */
+export const AGREEMENT_TOLERANCES: Record<AgreementField, { tolerance: number; unit: string }> = {
+	temperature: { tolerance: 3, unit: '°C' },
+	dewPoint: { tolerance: 3, unit: '°C' },
+	humidity: { tolerance: 15, unit: '%' },
+	windSpeed: { tolerance: 15, unit: 'km/h' },
+	pressure: { tolerance: 0.5, unit: 'kPa' },
+};
+
+/**
+ * Observation ages and station distances at which a reading starts losing and stops losing weight
+ */
+const QUALITY_THRESHOLDS = {
+	FRESH_OBSERVATION_MINUTES: 60, // Hourly observations count fully...
+	STALE_OBSERVATION_MINUTES: 180, // ...and half as much once three hours old
+	NEARBY_STATION_KM: 10, // Stations within 10 km count fully...
+	DEFAULT_MAX_STATION_KM: 150, // ...and half as much at the provider's maximum distance
+	MIN_FACTOR: 0.5,
+} as const;
+
+/**
+ * Share of the best reading's quality kept as confidence when providers disagree completely
+ */
+const DISAGREEMENT_PENALTY = 0.6;
+
+/**
+ * Quality of one provider's current conditions
+ */
+export interface SourceQuality {
+	/** Reliability adjusted for observation age and station distance (0-1) */
+	score: number;
+	observationAgeMinutes: number | null;
+	stationDistanceKm: number | null;
+}
+
+/**
+ * Provider readings of one variable and how closely they agree
+ */
+export interface FieldAgreement {
+	/** Reading of each provider, keyed by provider name */
+	values: Record<string, number>;
+	unit: string;
+	/** Difference between the highest and lowest reading */
+	spread: number;
+	/** Confidence in the blended value (0-1) */
+	confidence: number;
+	/** Whether the spread exceeds the variable's tolerance */
+	disagreement: boolean;
+}
+
+/**
+ * Reading of a variable by one provider
+ */
+export interface SourceReading {
+	source: string;
+	value: number;
+	quality: number;
+}
+
+/**
+ * Scales a factor from 1 down to the minimum as a value grows from `full` to `half`
+ */
+function decay(value: number, full: number, half: number): number {
+	if (value <= full) {
+		return 1;
+	}
+	return 1 - (1 - QUALITY_THRESHOLDS.MIN_FACTOR) * Math.min(1, (value - full) / Math.max(half - full, 1));
+}
+
+/**
+ * Scores a provider's current conditions from its reliability, the age of its observation and the
+ * distance to its station. Model data without an observation time or station counts as fresh and local.
+ *
+ * @param reliability - Provider reliability (0-1)
+ * @param observationTime - Observation timestamp, if the provider reports one
+ * @param stationDistanceKm - Distance to the provider's station, for station-based providers
+ * @param maxStationDistanceKm - Farthest station the provider is used with
+ * @param now - Reference time
+ * @returns Source quality
+ *
+ * @example
+ * ```typescript
+ * assessSourceQuality(0.9, '2025-06-28T10:00:00Z', 80, 150, new Date('2025-06-28T12:00:00Z'));
+ * // { score: 0.51, observationAgeMinutes: 120, stationDistanceKm: 80 }
+ * ```
+ */
+export function assessSourceQuality(
+	reliability: number,
+	observationTime: string | null | undefined,
+	stationDistanceKm: number | null | undefined,
+	maxStationDistanceKm: number = QUALITY_THRESHOLDS.DEFAULT_MAX_STATION_KM,
+	now: Date = new Date(),
+): SourceQuality {
+	const observedAt = observationTime ? Date.parse(observationTime) : NaN;
+	const observationAgeMinutes = isNaN(observedAt)
+		? null
+		: Math.max(0, Math.round((now.getTime() - observedAt) / 60000));
+	const distance = stationDistanceKm ?? null;
+
+	const freshness =
+		observationAgeMinutes !== null
+			? decay(
+					observationAgeMinutes,
+					QUALITY_THRESHOLDS.FRESH_OBSERVATION_MINUTES,
+					QUALITY_THRESHOLDS.STALE_OBSERVATION_MINUTES,
+				)
+			: 1;
+	const proximity =
+		distance !== null ? decay(distance, QUALITY_THRESHOLDS.NEARBY_STATION_KM, maxStationDistanceKm) : 1;
+
+	return {
+		score: roundTo(reliability * freshness * proximity, 2),
+		observationAgeMinutes,
+		stationDistanceKm: distance !== null ? roundTo(distance, 1) : null,
+	};
+}
+
+/**
+ * Compares the providers' readings of a variable. A single reading is as trustworthy as its source;
+ * agreeing readings corroborate each other, while diverging readings lower the confidence below
+ * that of the best source alone.
+ *
+ * @param field - Variable compared
+ * @param readings - Provider readings with their source quality
+ * @returns Agreement of the readings, or null if there are none
+ *
+ * @example
+ * ```typescript
+ * assessAgreement('temperature', [
+ *   { source: 'Environment Canada', value: 12, quality: 0.9 },
+ *   { source: 'Open-Meteo', value: 19, quality: 0.8 },
+ * ]);
+ * // { values: {...}, unit: '°C', spread: 7, confidence: 0.54, disagreement: true }
+ * ```
+ */
+export function assessAgreement(field: AgreementField, readings: SourceReading[]): FieldAgreement | null {
+	if (readings.length === 0) {
+		return null;
+	}
+
+	const { tolerance, unit } = AGREEMENT_TOLERANCES[field];
+	const values = readings.map((reading) => reading.value);
+	const spread = Math.max(...values) - Math.min(...values);
+	const best = Math.max(...readings.map((reading) => reading.quality));
+
+	let confidence = best;
+	if (readings.length > 1) {
+		// Independent sources that agree are more trustworthy than either alone
+		const corroborated = 1 - readings.reduce((product, reading) => product * (1 - reading.quality), 1);
+		const agreement = Math.max(0, 1 - spread / (2 * tolerance));
+		confidence = agreement * corroborated + (1 - agreement) * best * DISAGREEMENT_PENALTY;
+	}
+
+	return {
+		values: Object.fromEntries(readings.map((reading) => [reading.source, reading.value])),
+		unit,
+		spread: roundTo(spread, 1),
+		confidence: roundTo(confidence, 2),
+		disagreement: spread > tolerance,
+	};
+}
+
+/**
+ * Combines the confidence of each blended variable into the response's overall confidence.
+ *
+ * @param agreement - Agreement of each variable
+ * @returns Mean confidence, or null if no variable was compared
+ */
+export function combineConfidence(agreement: Partial<Record<AgreementField, FieldAgreement>>): number | null {
+	const confidences = Object.values(agreement).map((entry) => entry.confidence);
+	if (confidences.length === 0) {
+		return null;
+	}
+	return roundTo(confidences.reduce((sum, value) => sum + value, 0) / confidences.length, 2);
+}
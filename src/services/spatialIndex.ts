@@ -0,0 +1,167 @@
+/**
+ * Spatial Index
+ *
+ * A static k-d tree over points on the Earth's surface for fast nearest-neighbour lookups.
+ * Points are stored as 3D unit vectors so that the nearest chord distance is also the
+ * nearest great-circle distance, which keeps lookups correct across the antimeridian and near the poles.
+ *
+ * @module SpatialIndex
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { calculateHaversineDistance } from './geography';
+
+/**
+ * Item that can be placed in the index
+ */
+export interface GeoPoint {
+	lat: number;
+	lon: number;
+}
+
+/**
+ * Result of a nearest-neighbour lookup
+ */
+export interface NearestResult<T> {
+	item: T;
+	distanceKm: number;
+}
+
+/**
+ * Node of the k-d tree
+ */
+interface KdNode<T> {
+	item: T;
+	point: [number, number, number];
+	axis: number;
+	left: KdNode<T> | null;
+	right: KdNode<T> | null;
+}
+
+/**
+ * Converts latitude and longitude to a point on the unit sphere.
+ */
+function toUnitVector(lat: number, lon: number): [number, number, number] {
+	const latRad = (lat * Math.PI) / 180;
+	const lonRad = (lon * Math.PI) / 180;
+	return [Math.cos(latRad) * Math.cos(lonRad), Math.cos(latRad) * Math.sin(lonRad), Math.sin(latRad)];
+}
+
+/**
+ * Squared Euclidean distance between two unit vectors
+ */
+function squaredDistance(a: [number, number, number], b: [number, number, number]): number {
+	const dx = a[0] - b[0];
+	const dy = a[1] - b[1];
+	const dz = a[2] - b[2];
+	return dx * dx + dy * dy + dz * dz;
+}
+
+/**
+ * Immutable nearest-neighbour index over geographic points
+ *
+ * @example
+ * ```typescript
+ * const index = new SpatialIndex([{ name: 'Ottawa', lat: 45.4, lon: -75.7 }]);
+ * const nearest = index.nearest(45.42, -75.69);
+ * console.log(nearest?.item.name, nearest?.distanceKm);
+ * ```
+ */
+export class SpatialIndex<T extends GeoPoint> {
+	private root: KdNode<T> | null;
+	private count: number;
+
+	/**
+	 * Builds a balanced tree from the given items
+	 */
+	constructor(items: T[]) {
+		const nodes = items
+			.filter((item) => !isNaN(item.lat) && !isNaN(item.lon))
+			.map((item) => ({ item, point: toUnitVector(item.lat, item.lon) }));
+		this.count = nodes.length;
+		this.root = this.build(nodes, 0);
+	}
+
+	/**
+	 * Number of indexed items
+	 */
+	get size(): number {
+		return this.count;
+	}
+
+	/**
+	 * Finds the item closest to a coordinate
+	 *
+	 * @param lat - Latitude in decimal degrees
+	 * @param lon - Longitude in decimal degrees
+	 * @returns Nearest item and its distance in kilometres, or null if the index is empty
+	 */
+	nearest(lat: number, lon: number): NearestResult<T> | null {
+		return this.nearestN(lat, lon, 1)[0] || null;
+	}
+
+	/**
+	 * Finds the `n` items closest to a coordinate, nearest first
+	 *
+	 * @param lat - Latitude in decimal degrees
+	 * @param lon - Longitude in decimal degrees
+	 * @param n - Maximum number of items to return
+	 * @returns Nearest items with distances in kilometres
+	 */
+	nearestN(lat: number, lon: number, n: number): NearestResult<T>[] {
+		if (!this.root || n <= 0) {
+			return [];
+		}
+
+		const target = toUnitVector(lat, lon);
+		const best: Array<{ node: KdNode<T>; distance: number }> = [];
+
+		const search = (node: KdNode<T> | null): void => {
+			if (!node) return;
+
+			const distance = squaredDistance(target, node.point);
+			if (best.length < n || distance < best[best.length - 1].distance) {
+				best.push({ node, distance });
+				best.sort((a, b) => a.distance - b.distance);
+				if (best.length > n) best.pop();
+			}
+
+			const delta = target[node.axis] - node.point[node.axis];
+			const [near, far] = delta < 0 ? [node.left, node.right] : [node.right, node.left];
+			search(near);
+			if (best.length < n || delta * delta < best[best.length - 1].distance) {
+				search(far);
+			}
+		};
+
+		search(this.root);
+
+		return best.map(({ node }) => ({
+			item: node.item,
+			distanceKm: calculateHaversineDistance(lat, lon, node.item.lat, node.item.lon),
+		}));
+	}
+
+	/**
+	 * Recursively builds the tree by splitting on the median of each axis in turn
+	 */
+	private build(nodes: Array<{ item: T; point: [number, number, number] }>, depth: number): KdNode<T> | null {
+		if (nodes.length === 0) {
+			return null;
+		}
+
+		const axis = depth % 3;
+		const sorted = [...nodes].sort((a, b) => a.point[axis] - b.point[axis]);
+		const median = Math.floor(sorted.length / 2);
+
+		return {
+			item: sorted[median].item,
+			point: sorted[median].point,
+			axis,
+			left: this.build(sorted.slice(0, median), depth + 1),
+			right: this.build(sorted.slice(median + 1), depth + 1),
+		};
+	}
+}
@@ -0,0 +1,217 @@
+/**
+ * Thermal Comfort
+ *
+ * Standard "feels like" indices shared by the weather services: the Environment Canada humidex,
+ * the Canadian/US wind chill index (JAG/TI, 2001) and the US National Weather Service heat index,
+ * together with the rules that choose which index describes a reading.
+ *
+ * @module ThermalComfort
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { isPointInCanada } from './geography';
+import { roundTo } from './unitConversion';
+
+/**
+ * Index a feels-like temperature was derived from
+ */
+export type FeelsLikeIndex = 'humidex' | 'heatIndex' | 'windChill' | 'apparentTemperature' | 'temperature';
+
+/**
+ * Index used in warm, humid weather: humidex in Canada, heat index elsewhere
+ */
+export type WarmWeatherIndex = 'humidex' | 'heatIndex';
+
+/**
+ * Temperature and wind thresholds of each index
+ */
+const THERMAL_THRESHOLDS = {
+	HUMIDEX_MIN_TEMP: 20, // Environment Canada reports humidex from 20°C...
+	HUMIDEX_MIN_VALUE: 25, // ...once it reaches 25
+	HEAT_INDEX_MIN_TEMP: 26.7, // NWS heat index applies from 80°F
+	WIND_CHILL_MAX_TEMP: 10, // Wind chill applies at 10°C and below...
+	WIND_CHILL_MIN_SPEED: 5, // ...with winds of at least 5 km/h
+} as const;
+
+/**
+ * Readings a feels-like temperature is computed from, in °C, % and km/h
+ */
+export interface ThermalReadings {
+	temperature: number | null;
+	humidity: number | null;
+	/** Dew point; derived from the humidity when missing */
+	dewPoint?: number | null;
+	windSpeed: number | null;
+	/** Humidex reported by an observing station, preferred over the computed value */
+	reportedHumidex?: number | null;
+	/** Wind chill reported by an observing station, preferred over the computed value */
+	reportedWindChill?: number | null;
+	/** Model apparent temperature, only used when the temperature is missing */
+	apparentTemperature?: number | null;
+}
+
+/**
+ * Feels-like temperature and the index it was derived from
+ */
+export interface FeelsLike {
+	value: number | null;
+	index: FeelsLikeIndex | null;
+}
+
+/**
+ * Computes the dew point from the temperature and relative humidity (Magnus formula).
+ *
+ * @param temperature - Air temperature (°C)
+ * @param humidity - Relative humidity (%)
+ * @returns Dew point (°C), or null when the humidity is not positive
+ */
+export function calculateDewPoint(temperature: number, humidity: number): number | null {
+	if (humidity <= 0) {
+		return null;
+	}
+	const gamma = Math.log(Math.min(humidity, 100) / 100) + (17.62 * temperature) / (243.12 + temperature);
+	return (243.12 * gamma) / (17.62 - gamma);
+}
+
+/**
+ * Computes the Environment Canada humidex.
+ *
+ * @param temperature - Air temperature (°C)
+ * @param dewPoint - Dew point (°C)
+ * @returns Humidex (dimensionless, read as °C)
+ *
+ * @example
+ * ```typescript
+ * calculateHumidex(30, 20); // 37.6
+ * ```
+ */
+export function calculateHumidex(temperature: number, dewPoint: number): number {
+	const vapourPressure = 6.11 * Math.exp(5417.753 * (1 / 273.16 - 1 / (273.15 + dewPoint)));
+	return temperature + 0.5555 * (vapourPressure - 10);
+}
+
+/**
+ * Computes the Canadian/US wind chill index.
+ *
+ * @param temperature - Air temperature (°C)
+ * @param windSpeed - Wind speed at 10 m (km/h)
+ * @returns Wind chill (°C equivalent)
+ *
+ * @example
+ * ```typescript
+ * calculateWindChill(-20, 30); // -32.6
+ * ```
+ */
+export function calculateWindChill(temperature: number, windSpeed: number): number {
+	const wind = Math.pow(windSpeed, 0.16);
+	return 13.12 + 0.6215 * temperature - 11.37 * wind + 0.3965 * temperature * wind;
+}
+
+/**
+ * Computes the US National Weather Service heat index: Steadman's approximation, refined with
+ * the Rothfusz regression and its low- and high-humidity adjustments when the result reaches 80°F.
+ *
+ * @param temperature - Air temperature (°C)
+ * @param humidity - Relative humidity (%)
+ * @returns Heat index (°C)
+ *
+ * @example
+ * ```typescript
+ * calculateHeatIndex(32, 60); // 37.1
+ * ```
+ */
+export function calculateHeatIndex(temperature: number, humidity: number): number {
+	const t = (temperature * 9) / 5 + 32;
+	const rh = humidity;
+
+	let heatIndex = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+	if ((heatIndex + t) / 2 >= 80) {
+		heatIndex =
+			-42.379 +
+			2.04901523 * t +
+			10.14333127 * rh -
+			0.22475541 * t * rh -
+			0.00683783 * t * t -
+			0.05481717 * rh * rh +
+			0.00122874 * t * t * rh +
+			0.00085282 * t * rh * rh -
+			0.00000199 * t * t * rh * rh;
+
+		if (rh < 13 && t >= 80 && t <= 112) {
+			heatIndex -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+		} else if (rh > 85 && t >= 80 && t <= 87) {
+			heatIndex += ((rh - 85) / 10) * ((87 - t) / 5);
+		}
+	}
+
+	return ((heatIndex - 32) * 5) / 9;
+}
+
+/**
+ * Chooses the warm-weather index for a location: humidex in Canada, heat index elsewhere.
+ *
+ * @param lat - Latitude in decimal degrees
+ * @param lon - Longitude in decimal degrees
+ * @returns Warm-weather index
+ */
+export function getWarmWeatherIndex(lat: number, lon: number): WarmWeatherIndex {
+	return isPointInCanada(lat, lon) ? 'humidex' : 'heatIndex';
+}
+
+/**
+ * Calculates the feels-like temperature and reports the index it was derived from:
+ * - wind chill at 10°C and below with winds of at least 5 km/h
+ * - humidex from 20°C once it reaches 25, or the heat index from 26.7°C, depending on `warmIndex`
+ * - otherwise the air temperature itself
+ *
+ * Station-reported humidex and wind chill take precedence over computed values. The model apparent
+ * temperature is only used when no temperature is available.
+ *
+ * @param readings - Temperature, humidity, dew point and wind speed
+ * @param warmIndex - Index used in warm weather
+ * @returns Feels-like temperature rounded to 1 decimal place with its index, or nulls if no data is available
+ *
+ * @example
+ * ```typescript
+ * calculateFeelsLike({ temperature: 30, humidity: 55, dewPoint: 20, windSpeed: 10 });
+ * // { value: 37.6, index: 'humidex' }
+ * calculateFeelsLike({ temperature: 30, humidity: 55, windSpeed: 10 }, 'heatIndex');
+ * // { value: 31.9, index: 'heatIndex' }
+ * ```
+ */
+export function calculateFeelsLike(readings: ThermalReadings, warmIndex: WarmWeatherIndex = 'humidex'): FeelsLike {
+	const { temperature, humidity, windSpeed, reportedHumidex, reportedWindChill, apparentTemperature } = readings;
+
+	if (temperature === null) {
+		return apparentTemperature !== null && apparentTemperature !== undefined
+			? { value: roundTo(apparentTemperature, 1), index: 'apparentTemperature' }
+			: { value: null, index: null };
+	}
+
+	if (temperature <= THERMAL_THRESHOLDS.WIND_CHILL_MAX_TEMP) {
+		const windChill =
+			reportedWindChill ??
+			(windSpeed !== null && windSpeed >= THERMAL_THRESHOLDS.WIND_CHILL_MIN_SPEED
+				? calculateWindChill(temperature, windSpeed)
+				: null);
+		if (windChill !== null) {
+			return { value: roundTo(windChill, 1), index: 'windChill' };
+		}
+	}
+
+	if (warmIndex === 'humidex' && temperature >= THERMAL_THRESHOLDS.HUMIDEX_MIN_TEMP) {
+		const dewPoint = readings.dewPoint ?? (humidity !== null ? calculateDewPoint(temperature, humidity) : null);
+		const humidex = reportedHumidex ?? (dewPoint !== null ? calculateHumidex(temperature, dewPoint) : null);
+		if (humidex !== null && humidex >= THERMAL_THRESHOLDS.HUMIDEX_MIN_VALUE) {
+			return { value: roundTo(humidex, 1), index: 'humidex' };
+		}
+	}
+
+	if (warmIndex === 'heatIndex' && temperature >= THERMAL_THRESHOLDS.HEAT_INDEX_MIN_TEMP && humidity !== null) {
+		return { value: roundTo(calculateHeatIndex(temperature, humidity), 1), index: 'heatIndex' };
+	}
+
+	return { value: roundTo(temperature, 1), index: 'temperature' };
+}
@@ -0,0 +1,383 @@
+/**
+ * Unit Conversion
+ *
+ * Converts weather values between unit systems and applies output precision.
+ * Weather services produce canonical metric data (°C, km/h, kPa, km, mm); responses are
+ * converted to the requested unit system, with optional per-quantity overrides, when they are served.
+ *
+ * @module UnitConversion
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+/**
+ * Physical quantities with a selectable unit
+ */
+export type Quantity = 'temperature' | 'speed' | 'pressure' | 'distance' | 'precipitation';
+
+/**
+ * Named unit systems
+ */
+export type UnitSystem = 'metric' | 'imperial' | 'si';
+
+/**
+ * Resolved output units and precision for a response
+ */
+export interface UnitOptions {
+	system: UnitSystem;
+	units: Record<Quantity, string>;
+	/** Decimal places for every converted value; unit defaults are used when null */
+	precision: number | null;
+}
+
+/**
+ * Unit definition: conversion to and from the quantity's base unit and default output precision
+ */
+interface UnitDefinition {
+	quantity: Quantity;
+	toBase: (value: number) => number;
+	fromBase: (value: number) => number;
+	precision: number;
+}
+
+/**
+ * Creates a unit definition for a unit that differs from the base unit by a constant factor.
+ */
+function scaled(quantity: Quantity, factor: number, precision: number): UnitDefinition {
+	return { quantity, toBase: (value) => value * factor, fromBase: (value) => value / factor, precision };
+}
+
+/**
+ * Supported units keyed by their canonical label. Base units are °C, km/h, kPa, km and mm.
+ */
+const UNITS: Record<string, UnitDefinition> = {
+	'°C': scaled('temperature', 1, 0),
+	'°F': {
+		quantity: 'temperature',
+		toBase: (value) => ((value - 32) * 5) / 9,
+		fromBase: (value) => (value * 9) / 5 + 32,
+		precision: 0,
+	},
+	K: {
+		quantity: 'temperature',
+		toBase: (value) => value - 273.15,
+		fromBase: (value) => value + 273.15,
+		precision: 1,
+	},
+	'km/h': scaled('speed', 1, 1),
+	mph: scaled('speed', 1.609344, 1),
+	kn: scaled('speed', 1.852, 1),
+	'm/s': scaled('speed', 3.6, 1),
+	kPa: scaled('pressure', 1, 1),
+	hPa: scaled('pressure', 0.1, 1),
+	Pa: scaled('pressure', 0.001, 0),
+	inHg: scaled('pressure', 3.386389, 2),
+	mmHg: scaled('pressure', 0.133322, 0),
+	km: scaled('distance', 1, 1),
+	mi: scaled('distance', 1.609344, 1),
+	m: scaled('distance', 0.001, 0),
+	mm: scaled('precipitation', 1, 1),
+	cm: scaled('precipitation', 10, 1),
+	in: scaled('precipitation', 25.4, 2),
+};
+
+/**
+ * Alternative spellings accepted in query parameters and upstream data, keyed in lowercase
+ */
+const UNIT_ALIASES: Record<string, string> = {
+	c: '°C',
+	celsius: '°C',
+	f: '°F',
+	fahrenheit: '°F',
+	kelvin: 'K',
+	kmh: 'km/h',
+	kph: 'km/h',
+	ms: 'm/s',
+	mps: 'm/s',
+	kt: 'kn',
+	kts: 'kn',
+	knot: 'kn',
+	knots: 'kn',
+	mb: 'hPa',
+	mbar: 'hPa',
+};
+
+/**
+ * Units of each named unit system
+ */
+export const UNIT_SYSTEMS: Record<UnitSystem, Record<Quantity, string>> = {
+	metric: { temperature: '°C', speed: 'km/h', pressure: 'kPa', distance: 'km', precipitation: 'mm' },
+	imperial: { temperature: '°F', speed: 'mph', pressure: 'inHg', distance: 'mi', precipitation: 'in' },
+	si: { temperature: 'K', speed: 'm/s', pressure: 'Pa', distance: 'm', precipitation: 'mm' },
+};
+
+/**
+ * Unit system used when a request does not specify one
+ */
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+/**
+ * Maximum number of decimal places accepted for `precision`
+ */
+export const MAX_PRECISION = 4;
+
+/**
+ * Value fields of each response section, grouped by the unit field that labels them
+ */
+const SECTION_FIELDS: Record<
+	'current' | 'hourly' | '7day' | '14day',
+	Array<{ unitField: string; quantity: Quantity; fields: string[] }>
+> = {
+	current: [
+		// Environment Canada's humidex and wind chill are expressed on the temperature scale
+		{ unitField: 'temperatureUnit', quantity: 'temperature', fields: ['temperature', 'humidex', 'windChill'] },
+		{ unitField: 'feelsLikeUnit', quantity: 'temperature', fields: ['feelsLike'] },
+		{ unitField: 'dewPointUnit', quantity: 'temperature', fields: ['dewPoint'] },
+		{ unitField: 'windSpeedUnit', quantity: 'speed', fields: ['windSpeed'] },
+		{ unitField: 'windGustUnit', quantity: 'speed', fields: ['windGust'] },
+		{ unitField: 'pressureUnit', quantity: 'pressure', fields: ['pressure'] },
+		{ unitField: 'visibilityUnit', quantity: 'distance', fields: ['visibility'] },
+	],
+	hourly: [
+		{ unitField: 'temperatureUnit', quantity: 'temperature', fields: ['temperature'] },
+		{ unitField: 'feelsLikeUnit', quantity: 'temperature', fields: ['feelsLike'] },
+		{ unitField: 'dewPointUnit', quantity: 'temperature', fields: ['dewPoint'] },
+		{ unitField: 'precipitationUnit', quantity: 'precipitation', fields: ['precipitation'] },
+		{ unitField: 'windSpeedUnit', quantity: 'speed', fields: ['windSpeed', 'windGusts'] },
+		{ unitField: 'pressureUnit', quantity: 'pressure', fields: ['pressure'] },
+		{ unitField: 'visibilityUnit', quantity: 'distance', fields: ['visibility'] },
+	],
+	'7day': [
+		{
+			unitField: 'temperatureUnit',
+			quantity: 'temperature',
+			fields: ['temperatureHigh', 'temperatureLow', 'temperature'],
+		},
+	],
+	'14day': [
+		{ unitField: 'temperatureUnit', quantity: 'temperature', fields: ['temperatureMax', 'temperatureMin'] },
+		{ unitField: 'feelsLikeUnit', quantity: 'temperature', fields: ['feelsLikeMax', 'feelsLikeMin'] },
+		{ unitField: 'precipitationUnit', quantity: 'precipitation', fields: ['precipitationSum'] },
+		{ unitField: 'windSpeedUnit', quantity: 'speed', fields: ['windSpeedMax', 'windGustsMax'] },
+	],
+};
+
+/**
+ * Lists the canonical labels of every unit measuring a quantity.
+ *
+ * @param quantity - Quantity to list units for
+ * @returns Unit labels (e.g. ["km/h", "mph", "kn", "m/s"] for speed)
+ */
+export function getUnitsFor(quantity: Quantity): string[] {
+	return Object.keys(UNITS).filter((label) => UNITS[label].quantity === quantity);
+}
+
+/**
+ * Resolves a unit label or alias to its canonical label.
+ *
+ * @param unit - Unit as written (e.g. "kt", "MB", "°F", "inHg")
+ * @param quantity - When given, the unit must measure this quantity
+ * @returns Canonical unit label, or null if the unit is unknown
+ *
+ * @example
+ * ```typescript
+ * resolveUnit('knots'); // "kn"
+ * resolveUnit('mb', 'pressure'); // "hPa"
+ * resolveUnit('mph', 'pressure'); // null
+ * ```
+ */
+export function resolveUnit(unit: string | null | undefined, quantity?: Quantity): string | null {
+	if (!unit) return null;
+
+	const trimmed = unit.trim();
+	const lower = trimmed.toLowerCase();
+	const label =
+		UNIT_ALIASES[lower] ||
+		Object.keys(UNITS).find((candidate) => candidate === trimmed) ||
+		Object.keys(UNITS).find((candidate) => candidate.toLowerCase() === lower) ||
+		null;
+
+	if (!label || (quantity && UNITS[label].quantity !== quantity)) {
+		return null;
+	}
+	return label;
+}
+
+/**
+ * Rounds a value to a number of decimal places.
+ *
+ * @param value - Value to round
+ * @param decimals - Decimal places
+ * @returns Rounded value
+ */
+export function roundTo(value: number, decimals: number): number {
+	const factor = Math.pow(10, decimals);
+	return Math.round(value * factor) / factor;
+}
+
+/**
+ * Converts a value between two units of the same quantity.
+ *
+ * @param value - Value to convert
+ * @param from - Unit of the value
+ * @param to - Target unit
+ * @returns Converted value (unrounded), null for null input or incompatible units
+ *
+ * @example
+ * ```typescript
+ * convertValue(20, '°C', '°F'); // 68
+ * convertValue(101.3, 'kPa', 'hPa'); // 1013
+ * ```
+ */
+export function convertValue(value: number | null | undefined, from: string, to: string): number | null {
+	if (typeof value !== 'number' || isNaN(value)) return null;
+
+	const source = UNITS[resolveUnit(from) ?? ''];
+	const target = UNITS[resolveUnit(to) ?? ''];
+	if (!source || !target || source.quantity !== target.quantity) {
+		return null;
+	}
+
+	return target.fromBase(source.toBase(value));
+}
+
+/**
+ * Builds unit options from a unit system, per-quantity overrides and a precision.
+ * Inputs are expected to have been validated with `resolveUnit`.
+ *
+ * @param system - Unit system
+ * @param overrides - Units replacing the system's default for individual quantities
+ * @param precision - Decimal places, or null for unit defaults
+ * @returns Resolved unit options
+ */
+export function createUnitOptions(
+	system: UnitSystem = DEFAULT_UNIT_SYSTEM,
+	overrides: Partial<Record<Quantity, string>> = {},
+	precision: number | null = null,
+): UnitOptions {
+	return { system, units: { ...UNIT_SYSTEMS[system], ...overrides }, precision };
+}
+
+/**
+ * Converts every labelled value of a response entry to the requested units.
+ * Values whose unit field is missing or unknown are left untouched.
+ *
+ * @param entry - Current conditions, hourly, 7-day or 14-day entry
+ * @param section - Section the entry belongs to
+ * @param options - Output units and precision
+ * @returns Converted copy of the entry with its unit fields updated
+ */
+function convertEntry<T extends Record<string, any>>(
+	entry: T,
+	section: keyof typeof SECTION_FIELDS,
+	options: UnitOptions,
+): T {
+	const converted: Record<string, any> = { ...entry };
+
+	for (const { unitField, quantity, fields } of SECTION_FIELDS[section]) {
+		const from = resolveUnit(entry[unitField], quantity);
+		if (!from) continue;
+
+		const to = options.units[quantity];
+		const precision = options.precision ?? UNITS[to].precision;
+		for (const field of fields.filter((name) => name in entry)) {
+			const value = convertValue(entry[field], from, to);
+			converted[field] = value !== null ? roundTo(value, precision) : entry[field];
+		}
+		converted[unitField] = to;
+	}
+
+	// Environment Canada observed totals and forecast period amounts are nested with their own unit
+	const precipitation = entry.precipitation;
+	if ((section === 'current' || section === '7day') && precipitation && typeof precipitation === 'object') {
+		const from = resolveUnit(precipitation.unit, 'precipitation');
+		if (from) {
+			const to = options.units.precipitation;
+			const precision = options.precision ?? UNITS[to].precision;
+			const amounts: Record<string, any> = { ...precipitation, unit: to };
+			for (const key of Object.keys(precipitation).filter((name) => typeof precipitation[name] === 'number')) {
+				amounts[key] = roundTo(convertValue(precipitation[key], from, to) ?? precipitation[key], precision);
+			}
+			converted.precipitation = amounts;
+		}
+	}
+
+	// Provider readings behind the blended current values are labelled with their own unit
+	const agreement = entry.sources?.agreement;
+	if (section === 'current' && agreement && typeof agreement === 'object') {
+		const fields: Record<string, any> = {};
+		for (const [field, detail] of Object.entries<any>(agreement)) {
+			const from = resolveUnit(detail.unit);
+			if (!from) {
+				fields[field] = detail;
+				continue;
+			}
+
+			const to = options.units[UNITS[from].quantity];
+			const precision = options.precision ?? UNITS[to].precision;
+			const values = Object.fromEntries(
+				Object.entries<number>(detail.values).map(([source, value]) => [
+					source,
+					roundTo(convertValue(value, from, to) ?? value, precision),
+				]),
+			);
+
+			// The spread is a difference, so it is recomputed rather than converted like a reading
+			const readings = Object.values(values);
+			const spread = roundTo(Math.max(...readings) - Math.min(...readings), precision);
+			fields[field] = { ...detail, values, unit: to, spread };
+		}
+		converted.sources = { ...entry.sources, agreement: fields };
+	}
+
+	// Environment Canada day and night periods are nested in each 7-day entry
+	if (section === '7day') {
+		for (const key of ['day', 'night'].filter((name) => entry[name])) {
+			converted[key] = convertEntry(entry[key], section, options);
+		}
+	}
+
+	return converted as T;
+}
+
+/**
+ * Converts the entries of a single response section to the requested units.
+ *
+ * @param entries - Entries of the section
+ * @param section - Section the entries belong to (daily history entries use the 14-day shape)
+ * @param options - Output units and precision
+ * @returns Converted copies of the entries
+ */
+export function convertSection<T extends Record<string, any>>(
+	entries: T[],
+	section: keyof typeof SECTION_FIELDS,
+	options: UnitOptions,
+): T[] {
+	return entries.map((entry) => convertEntry(entry, section, options));
+}
+
+/**
+ * Converts the current, hourly, 7-day and 14-day sections of weather data to the requested units.
+ *
+ * @param data - Weather data in the units produced by the weather services
+ * @param options - Output units and precision
+ * @returns Converted copy of the data
+ *
+ * @example
+ * ```typescript
+ * const imperial = applyUnits(weatherData, createUnitOptions('imperial', { speed: 'kn' }));
+ * console.log(imperial.current[0].temperatureUnit); // "°F"
+ * ```
+ */
+export function applyUnits<T extends Record<string, any>>(data: T, options: UnitOptions): T {
+	const converted: Record<string, any> = { ...data };
+
+	for (const section of Object.keys(SECTION_FIELDS) as Array<keyof typeof SECTION_FIELDS>) {
+		if (Array.isArray(data[section])) {
+			converted[section] = convertSection(data[section], section, options);
+		}
+	}
+
+	return converted as T;
+}
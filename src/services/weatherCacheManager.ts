@@ -3,6 +3,9 @@
  *
  * Manages cached weather data with automatic refresh every 10 minutes.
  * Provides immediate responses to API requests while keeping data fresh.
+ * Each response language is cached as a separate entry. Separate managers
+ * cache the combined weather data and air quality data. One-off lookups,
+ * such as batch requests, are kept for one refresh interval without being refreshed.
  *
  * @module WeatherCacheManager
  * @author AxleAPI
@@ -11,6 +14,9 @@
  */
 
 import { getAdvancedWeatherData } from './advancedWeatherService';
+import { getAirQualityData } from './airQualityService';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './localization';
+import { WeatherData } from './weatherTypes';
 import { logger } from '../utils/logger';
 
 /**
@@ -21,31 +27,69 @@ const CACHE_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
 /**
  * Cache entry structure with metadata
  */
-interface CacheEntry {
-	data: any;
+interface CacheEntry<T> {
+	data: T;
 	timestamp: number;
 	coordinates: {
 		lat: string;
 		lon: string;
 	};
+	lang: SupportedLanguage;
 	lastError?: string;
 	fetchCount: number;
 	errorCount: number;
 }
 
+/**
+ * Fetches fresh data for a cached location
+ */
+type CacheFetcher<T> = (lat: string, lon: string, lang: SupportedLanguage) => Promise<T>;
+
+/**
+ * Data of a cached location before and after a successful refresh; weather data unless another type is given
+ */
+export interface CacheRefresh<T = WeatherData> {
+	lat: string;
+	lon: string;
+	lang: SupportedLanguage;
+	previous: T;
+	current: T;
+}
+
+/**
+ * Called after every successful refresh of a cached location
+ */
+type RefreshListener<T> = (refresh: CacheRefresh<T>) => void;
+
 /**
  * Weather data cache with automatic refresh capability
+ *
+ * @typeParam T - Data cached for each location
  */
-class WeatherCacheManager {
-	private cache: Map<string, CacheEntry> = new Map();
+export class WeatherCacheManager<T extends object> {
+	private cache: Map<string, CacheEntry<T>> = new Map();
+	/** Data of one-off lookups, kept for one refresh interval and never refreshed */
+	private lookups: Map<string, { data: T; timestamp: number }> = new Map();
 	private refreshIntervals: Map<string, NodeJS.Timeout> = new Map();
+	/** Number of holders, such as subscriptions, keeping each retained location refreshed */
+	private holders: Map<string, number> = new Map();
+	private refreshListeners: RefreshListener<T>[] = [];
 	private isShuttingDown = false;
 
 	/**
-	 * Generates cache key from coordinates
+	 * @param label - Name of the cached data, used in log messages (e.g. "weather")
+	 * @param fetcher - Fetches fresh data for a location
+	 */
+	constructor(
+		private readonly label: string,
+		private readonly fetcher: CacheFetcher<T>,
+	) {}
+
+	/**
+	 * Generates cache key from coordinates and language
 	 */
-	private getCacheKey(lat: string, lon: string): string {
-		return `${lat},${lon}`;
+	private getCacheKey(lat: string, lon: string, lang: SupportedLanguage): string {
+		return `${lat},${lon},${lang}`;
 	}
 
 	/**
@@ -53,21 +97,23 @@ class WeatherCacheManager {
 	 *
 	 * @param lat - Latitude as string
 	 * @param lon - Longitude as string
+	 * @param lang - Response language
 	 * @returns Promise resolving to initial weather data
 	 */
-	async startCaching(lat: string, lon: string): Promise<any> {
-		const key = this.getCacheKey(lat, lon);
+	async startCaching(lat: string, lon: string, lang: SupportedLanguage = DEFAULT_LANGUAGE): Promise<T> {
+		const key = this.getCacheKey(lat, lon, lang);
 
-		logger.info(`Starting weather data caching for coordinates ${lat}, ${lon}`);
+		logger.info(`Starting ${this.label} data caching for coordinates ${lat}, ${lon} (${lang})`);
 
 		// Fetch initial data
-		const initialData = await this.fetchWeatherData(lat, lon);
+		const initialData = await this.fetchWeatherData(lat, lon, lang);
 
 		// Create cache entry
-		const cacheEntry: CacheEntry = {
+		const cacheEntry: CacheEntry<T> = {
 			data: initialData,
 			timestamp: Date.now(),
 			coordinates: { lat, lon },
+			lang,
 			fetchCount: 1,
 			errorCount: 0,
 		};
@@ -75,10 +121,10 @@ class WeatherCacheManager {
 		this.cache.set(key, cacheEntry);
 
 		// Start periodic refresh
-		this.startPeriodicRefresh(lat, lon);
+		this.startPeriodicRefresh(lat, lon, lang);
 
 		logger.info(
-			`Weather data caching started for ${key} with ${CACHE_REFRESH_INTERVAL_MS / 1000}s refresh interval`,
+			`Started ${this.label} data caching for ${key} with ${CACHE_REFRESH_INTERVAL_MS / 1000}s refresh interval`,
 		);
 
 		return initialData;
@@ -89,10 +135,11 @@ class WeatherCacheManager {
 	 *
 	 * @param lat - Latitude as string
 	 * @param lon - Longitude as string
+	 * @param lang - Response language
 	 * @returns Cached weather data or null if not cached
 	 */
-	getCachedData(lat: string, lon: string): any | null {
-		const key = this.getCacheKey(lat, lon);
+	getCachedData(lat: string, lon: string, lang: SupportedLanguage = DEFAULT_LANGUAGE): T | null {
+		const key = this.getCacheKey(lat, lon, lang);
 		const entry = this.cache.get(key);
 
 		if (!entry) {
@@ -103,7 +150,7 @@ class WeatherCacheManager {
 		return {
 			...entry.data,
 			metadata: {
-				...entry.data.metadata,
+				...(entry.data as { metadata?: object }).metadata,
 				cache: {
 					cached: true,
 					timestamp: entry.timestamp,
@@ -116,19 +163,55 @@ class WeatherCacheManager {
 		};
 	}
 
+	/**
+	 * Gets data for coordinates without starting to cache them: cached data is returned when the
+	 * location is cached, otherwise the data is fetched once and reused for one refresh interval.
+	 * Suited to lookups of many locations at once, which would otherwise each start a periodic refresh.
+	 *
+	 * @param lat - Latitude as string
+	 * @param lon - Longitude as string
+	 * @param lang - Response language
+	 * @returns Promise resolving to the weather data
+	 */
+	async getOrFetch(lat: string, lon: string, lang: SupportedLanguage = DEFAULT_LANGUAGE): Promise<T> {
+		const cached = this.getCachedData(lat, lon, lang);
+		if (cached) {
+			return cached;
+		}
+
+		const key = this.getCacheKey(lat, lon, lang);
+		const now = Date.now();
+		const lookup = this.lookups.get(key);
+		if (lookup && now - lookup.timestamp < CACHE_REFRESH_INTERVAL_MS) {
+			return lookup.data;
+		}
+
+		const data = await this.fetchWeatherData(lat, lon, lang);
+
+		// Expired lookups are dropped whenever a new one is stored, so they do not accumulate
+		for (const [lookupKey, { timestamp }] of this.lookups) {
+			if (now - timestamp >= CACHE_REFRESH_INTERVAL_MS) {
+				this.lookups.delete(lookupKey);
+			}
+		}
+		this.lookups.set(key, { data, timestamp: Date.now() });
+
+		return data;
+	}
+
 	/**
 	 * Checks if coordinates are being cached
 	 */
-	isCaching(lat: string, lon: string): boolean {
-		const key = this.getCacheKey(lat, lon);
+	isCaching(lat: string, lon: string, lang: SupportedLanguage = DEFAULT_LANGUAGE): boolean {
+		const key = this.getCacheKey(lat, lon, lang);
 		return this.cache.has(key);
 	}
 
 	/**
 	 * Stops caching for specific coordinates
 	 */
-	stopCaching(lat: string, lon: string): void {
-		const key = this.getCacheKey(lat, lon);
+	stopCaching(lat: string, lon: string, lang: SupportedLanguage = DEFAULT_LANGUAGE): void {
+		const key = this.getCacheKey(lat, lon, lang);
 
 		// Clear interval
 		const interval = this.refreshIntervals.get(key);
@@ -140,16 +223,41 @@ class WeatherCacheManager {
 		// Remove from cache
 		this.cache.delete(key);
 
-		logger.info(`Stopped weather data caching for ${key}`);
+		logger.info(`Stopped ${this.label} data caching for ${key}`);
+	}
+
+	/**
+	 * Keeps a location refreshed on behalf of a holder, such as a subscription relying on its
+	 * refreshes, until the holder releases it. Locations cached by plain requests have no holders.
+	 */
+	retain(lat: string, lon: string, lang: SupportedLanguage = DEFAULT_LANGUAGE): void {
+		const key = this.getCacheKey(lat, lon, lang);
+		this.holders.set(key, (this.holders.get(key) ?? 0) + 1);
+	}
+
+	/**
+	 * Releases a location retained with `retain`, and stops caching it once its last holder has released it
+	 */
+	release(lat: string, lon: string, lang: SupportedLanguage = DEFAULT_LANGUAGE): void {
+		const key = this.getCacheKey(lat, lon, lang);
+		const remaining = (this.holders.get(key) ?? 0) - 1;
+		if (remaining > 0) {
+			this.holders.set(key, remaining);
+			return;
+		}
+
+		this.holders.delete(key);
+		this.stopCaching(lat, lon, lang);
 	}
 
 	/**
 	 * Gets all cached locations
 	 */
-	getCachedLocations(): Array<{ lat: string; lon: string; key: string }> {
+	getCachedLocations(): Array<{ lat: string; lon: string; lang: SupportedLanguage; key: string }> {
 		return Array.from(this.cache.entries()).map(([key, entry]) => ({
 			lat: entry.coordinates.lat,
 			lon: entry.coordinates.lon,
+			lang: entry.lang,
 			key,
 		}));
 	}
@@ -177,11 +285,20 @@ class WeatherCacheManager {
 		};
 	}
 
+	/**
+	 * Registers a listener called with the previous and fresh data after every successful refresh
+	 *
+	 * @param listener - Refresh listener; errors it throws are logged and do not affect the cache
+	 */
+	onRefresh(listener: RefreshListener<T>): void {
+		this.refreshListeners.push(listener);
+	}
+
 	/**
 	 * Starts periodic refresh for coordinates
 	 */
-	private startPeriodicRefresh(lat: string, lon: string): void {
-		const key = this.getCacheKey(lat, lon);
+	private startPeriodicRefresh(lat: string, lon: string, lang: SupportedLanguage): void {
+		const key = this.getCacheKey(lat, lon, lang);
 
 		// Clear existing interval if any
 		const existingInterval = this.refreshIntervals.get(key);
@@ -196,7 +313,7 @@ class WeatherCacheManager {
 			}
 
 			try {
-				await this.refreshCacheEntry(lat, lon);
+				await this.refreshCacheEntry(lat, lon, lang);
 			} catch (error) {
 				logger.error(`Failed to refresh cache for ${key}: ${error instanceof Error ? error.message : error}`);
 			}
@@ -208,8 +325,8 @@ class WeatherCacheManager {
 	/**
 	 * Refreshes cache entry for coordinates
 	 */
-	private async refreshCacheEntry(lat: string, lon: string): Promise<void> {
-		const key = this.getCacheKey(lat, lon);
+	private async refreshCacheEntry(lat: string, lon: string, lang: SupportedLanguage): Promise<void> {
+		const key = this.getCacheKey(lat, lon, lang);
 		const entry = this.cache.get(key);
 
 		if (!entry) {
@@ -218,9 +335,10 @@ class WeatherCacheManager {
 		}
 
 		try {
-			logger.info(`Refreshing weather data cache for ${key}`);
+			logger.info(`Refreshing ${this.label} data cache for ${key}`);
 
-			const freshData = await this.fetchWeatherData(lat, lon);
+			const freshData = await this.fetchWeatherData(lat, lon, lang);
+			const previousData = entry.data;
 
 			// Update cache entry
 			entry.data = freshData;
@@ -228,7 +346,17 @@ class WeatherCacheManager {
 			entry.fetchCount++;
 			delete entry.lastError;
 
-			logger.info(`Weather data cache refreshed successfully for ${key} (fetch #${entry.fetchCount})`);
+			logger.info(`Refreshed ${this.label} data cache successfully for ${key} (fetch #${entry.fetchCount})`);
+
+			for (const listener of this.refreshListeners) {
+				try {
+					listener({ lat, lon, lang, previous: previousData, current: freshData });
+				} catch (error) {
+					logger.error(
+						`${this.label} refresh listener failed for ${key}: ${error instanceof Error ? error.message : error}`,
+					);
+				}
+			}
 		} catch (error) {
 			entry.errorCount++;
 			entry.lastError = error instanceof Error ? error.message : String(error);
@@ -238,17 +366,17 @@ class WeatherCacheManager {
 	}
 
 	/**
-	 * Fetches weather data using the advanced weather service
+	 * Fetches fresh data for coordinates
 	 */
-	private async fetchWeatherData(lat: string, lon: string): Promise<any> {
-		return await getAdvancedWeatherData(lat, lon);
+	private async fetchWeatherData(lat: string, lon: string, lang: SupportedLanguage): Promise<T> {
+		return await this.fetcher(lat, lon, lang);
 	}
 
 	/**
 	 * Gracefully shuts down the cache manager
 	 */
 	shutdown(): void {
-		logger.info('Shutting down weather cache manager...');
+		logger.info(`Shutting down ${this.label} cache manager...`);
 
 		this.isShuttingDown = true;
 
@@ -260,25 +388,34 @@ class WeatherCacheManager {
 
 		this.refreshIntervals.clear();
 		this.cache.clear();
+		this.lookups.clear();
+		this.holders.clear();
 
-		logger.info('Weather cache manager shutdown complete');
+		logger.info(`Shutdown of ${this.label} cache manager complete`);
 	}
 }
 
 /**
- * Global weather cache manager instance
+ * Global weather cache manager instance (combined weather data from the advanced weather service)
+ */
+export const weatherCacheManager = new WeatherCacheManager('weather', getAdvancedWeatherData);
+
+/**
+ * Global air quality cache manager instance
  */
-export const weatherCacheManager = new WeatherCacheManager();
+export const airQualityCacheManager = new WeatherCacheManager('air quality', getAirQualityData);
 
 /**
  * Graceful shutdown handler
  */
 process.on('SIGINT', () => {
 	weatherCacheManager.shutdown();
+	airQualityCacheManager.shutdown();
 	process.exit(0);
 });
 
 process.on('SIGTERM', () => {
 	weatherCacheManager.shutdown();
+	airQualityCacheManager.shutdown();
 	process.exit(0);
 });
@@ -0,0 +1,143 @@
+/**
+ * Weather Calendar Service
+ *
+ * Turns weather data into calendar events for iCalendar feeds: one all-day event per forecast
+ * day, combining the Environment Canada 7-day forecast with the Open-Meteo 14-day forecast, and
+ * a timed event for every alert in effect, lasting until it expires.
+ *
+ * @module WeatherCalendarService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { SupportedLanguage, translate } from './localization';
+import { FourteenDayForecast, SevenDayForecast, WeatherAlert, WeatherData } from './weatherTypes';
+import { CalendarEvent } from '../utils/icalendar';
+
+/**
+ * Domain of event UIDs, keeping them unique across calendars
+ */
+const UID_DOMAIN = 'axleapi';
+
+/**
+ * Length given to alerts without an expiry (milliseconds)
+ */
+const OPEN_ENDED_ALERT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Replaces characters that calendar applications may mishandle in UIDs
+ */
+function toUid(...parts: Array<string | number>): string {
+	return `${parts.join('-').replace(/[^\w.-]/g, '_')}@${UID_DOMAIN}`;
+}
+
+/**
+ * Adds days to a date (YYYY-MM-DD)
+ */
+function addDays(date: string, days: number): string {
+	return new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Formats a temperature with its unit, rounded to a whole degree
+ */
+function formatTemperature(value: number, unit: string): string {
+	return `${Math.round(value)}${unit}`;
+}
+
+/**
+ * Builds the all-day event of a forecast day. Environment Canada's forecast is preferred for the
+ * days it covers, and Open-Meteo's fills in the values it lacks and the days beyond it.
+ */
+function toDayEvent(
+	date: string,
+	official: SevenDayForecast | undefined,
+	extended: FourteenDayForecast | undefined,
+	locationKey: string,
+	lang: SupportedLanguage,
+): CalendarEvent {
+	const high = official?.temperatureHigh ?? extended?.temperatureMax ?? null;
+	const low = official?.temperatureLow ?? extended?.temperatureMin ?? null;
+	const unit = official?.temperatureUnit ?? extended?.temperatureUnit ?? '°C';
+	const condition = official?.condition ?? extended?.condition ?? null;
+	const chance = official?.precipitationChance ?? extended?.precipitationProbability ?? null;
+
+	const summary = [
+		condition,
+		high !== null ? translate('calendarHigh', lang, { temperature: formatTemperature(high, unit) }) : null,
+		low !== null ? translate('calendarLow', lang, { temperature: formatTemperature(low, unit) }) : null,
+		chance !== null ? translate('calendarPrecipitationChance', lang, { chance: Math.round(chance) }) : null,
+	].filter(Boolean);
+
+	const description = [
+		official?.day?.fullSummary ? `${official.day.period}: ${official.day.fullSummary}` : null,
+		official?.night?.fullSummary ? `${official.night.period}: ${official.night.fullSummary}` : null,
+		translate('calendarSources', lang, {
+			sources: [official && 'Environment Canada', extended?.source].filter(Boolean).join(', '),
+		}),
+	].filter(Boolean);
+
+	return {
+		uid: toUid('forecast', date, locationKey),
+		start: { date },
+		end: { date: addDays(date, 1) },
+		summary: summary.length > 0 ? summary.join(' · ') : translate('calendarNoForecast', lang),
+		description: description.join('\n\n'),
+		categories: [translate('calendarForecastCategory', lang)],
+	};
+}
+
+/**
+ * Builds the timed event of an alert, from its issue time (or now) until it expires
+ */
+function toAlertEvent(alert: WeatherAlert, locationKey: string, now: number): CalendarEvent {
+	const issued = alert.issued ? Date.parse(alert.issued) : NaN;
+	const start = isNaN(issued) ? now : issued;
+	const expires = alert.expires ? Date.parse(alert.expires) : NaN;
+	const end = !isNaN(expires) && expires > start ? expires : start + OPEN_ENDED_ALERT_MS;
+
+	return {
+		uid: toUid('alert', alert.id, locationKey),
+		start: { dateTime: new Date(start).toISOString() },
+		end: { dateTime: new Date(end).toISOString() },
+		summary: alert.headline,
+		description: [alert.description, alert.area].filter(Boolean).join('\n\n') || null,
+		url: alert.link,
+		categories: [alert.type, alert.severity],
+		lastModified: isNaN(issued) ? null : alert.issued,
+	};
+}
+
+/**
+ * Builds the calendar events of a location's weather.
+ *
+ * @param data - Weather data, already converted to the requested units
+ * @param locationKey - Identifier of the location in event UIDs (e.g. its coordinates)
+ * @param lang - Language of the event text
+ * @param now - Reference time for alerts without an issue time
+ * @returns Forecast day events in date order, followed by alert events
+ *
+ * @example
+ * ```typescript
+ * const events = getWeatherCalendarEvents(weatherData, '45.4215,-75.6998', 'en');
+ * console.log(events[0].summary); // "Sunny · High 24°C · Low 15°C · POP 40%"
+ * ```
+ */
+export function getWeatherCalendarEvents(
+	data: Partial<WeatherData>,
+	locationKey: string,
+	lang: SupportedLanguage,
+	now: number = Date.now(),
+): CalendarEvent[] {
+	const official = new Map((data['7day'] ?? []).flatMap((day) => (day.date ? [[day.date, day] as const] : [])));
+	const extended = new Map((data['14day'] ?? []).map((day) => [day.date, day] as const));
+	const dates = Array.from(new Set([...official.keys(), ...extended.keys()])).sort();
+
+	const alerts = (data.alerts ?? []).filter((alert) => alert.status === 'active' && alert.type !== 'notice');
+
+	return [
+		...dates.map((date) => toDayEvent(date, official.get(date), extended.get(date), locationKey, lang)),
+		...alerts.map((alert) => toAlertEvent(alert, locationKey, now)),
+	];
+}
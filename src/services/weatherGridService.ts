@@ -0,0 +1,345 @@
+/**
+ * Weather Grid Service
+ *
+ * Samples one forecast variable over a regular latitude/longitude grid for map overlays. Cells
+ * are aligned on a global lattice of the requested resolution, so overlapping bounding boxes
+ * share cells, and each cell's value is cached on its own. Cells missing from the cache are
+ * fetched from the Open-Meteo forecast API with multi-coordinate requests and normalized like
+ * every other Open-Meteo hourly entry.
+ *
+ * @module WeatherGridService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import axios, { AxiosResponse } from 'axios';
+import { collectSeriesVariables, pickVariables, SeriesEntry, SeriesVariable } from './forecastSeriesService';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './localization';
+import { OPEN_METEO_BASE_URL, OpenMeteoResponse, OpenMeteoSeries, toHourlyForecast } from './openMeteoWeatherService';
+import { getWarmWeatherIndex } from './thermalComfort';
+import { roundTo } from './unitConversion';
+import { logger } from '../utils/logger';
+
+/**
+ * HTTP request timeout for grid requests (milliseconds)
+ */
+const GRID_TIMEOUT_MS = 15000;
+
+/**
+ * Most cells in one grid
+ */
+export const MAX_GRID_CELLS = 625;
+
+/**
+ * Finest and coarsest accepted cell sizes (degrees)
+ */
+export const MIN_GRID_RESOLUTION = 0.05;
+export const MAX_GRID_RESOLUTION = 5;
+
+/**
+ * Cell size used when none is requested (degrees)
+ */
+export const DEFAULT_GRID_RESOLUTION = 0.25;
+
+/**
+ * Most coordinates sent in one Open-Meteo request
+ */
+const MAX_COORDINATES_PER_REQUEST = 100;
+
+/**
+ * Cache lifetime for cell values (10 minutes, matching the weather cache refresh)
+ */
+const GRID_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Maximum number of cached cell values; the least recently used entry is evicted first
+ */
+const MAX_GRID_CACHE_ENTRIES = 20000;
+
+/**
+ * Bounding box in degrees
+ */
+export interface GridBounds {
+	west: number;
+	south: number;
+	east: number;
+	north: number;
+}
+
+/**
+ * Cell of a grid, with the entry of its centre
+ */
+export interface GridCell {
+	/** Row from the north edge */
+	row: number;
+	/** Column from the west edge */
+	column: number;
+	latitude: number;
+	longitude: number;
+	bounds: GridBounds;
+	entry: SeriesEntry | null;
+}
+
+/**
+ * Values of a variable over a grid at one time
+ */
+export interface WeatherGrid {
+	/** Bounds of the grid, expanded to whole cells */
+	bounds: GridBounds;
+	resolution: number;
+	rows: number;
+	columns: number;
+	variable: SeriesVariable;
+	/** UTC hour the values are for (YYYY-MM-DDTHH:00) */
+	time: string;
+	/** Cells in row-major order from the north-west corner */
+	cells: GridCell[];
+	cachedCells: number;
+	source: string;
+}
+
+/**
+ * Open-Meteo forecast API response for one coordinate of a grid request
+ */
+interface OpenMeteoGridResponse {
+	hourly?: OpenMeteoSeries<OpenMeteoResponse['hourly']>;
+}
+
+/**
+ * Cached cell value with its expiry
+ */
+interface GridCacheEntry {
+	entry: SeriesEntry | null;
+	expiresAt: number;
+}
+
+/**
+ * Cell values keyed by resolution, lattice position, variable, time and language
+ */
+const gridCache = new Map<string, GridCacheEntry>();
+
+/**
+ * Returns a cached cell value, refreshing its position in the eviction order.
+ */
+function getCachedCell(key: string): GridCacheEntry | null {
+	const entry = gridCache.get(key);
+	if (!entry) {
+		return null;
+	}
+
+	gridCache.delete(key);
+	if (entry.expiresAt <= Date.now()) {
+		return null;
+	}
+
+	gridCache.set(key, entry);
+	return entry;
+}
+
+/**
+ * Stores a cell value, evicting the least recently used entry when the cache is full.
+ */
+function setCachedCell(key: string, entry: SeriesEntry | null): void {
+	if (gridCache.size >= MAX_GRID_CACHE_ENTRIES) {
+		const oldestKey = gridCache.keys().next().value;
+		if (oldestKey !== undefined) {
+			gridCache.delete(oldestKey);
+		}
+	}
+
+	gridCache.set(key, { entry, expiresAt: Date.now() + GRID_TTL_MS });
+}
+
+/**
+ * Finds the lattice columns and rows covering a bounding box. Edges on a lattice line do not
+ * add a cell beyond it.
+ *
+ * @param bounds - Bounding box
+ * @param resolution - Cell size (degrees)
+ * @returns First and last lattice index along each axis
+ */
+function getLatticeRange(bounds: GridBounds, resolution: number) {
+	// Tolerates floating-point error in edges given as multiples of the resolution
+	const index = (value: number, round: (value: number) => number, offset: number) =>
+		round(roundTo(value / resolution, 6)) + offset;
+	return {
+		firstColumn: index(bounds.west, Math.floor, 0),
+		lastColumn: Math.max(index(bounds.east, Math.ceil, -1), index(bounds.west, Math.floor, 0)),
+		firstRow: index(bounds.south, Math.floor, 0),
+		lastRow: Math.max(index(bounds.north, Math.ceil, -1), index(bounds.south, Math.floor, 0)),
+	};
+}
+
+/**
+ * Counts the cells of the grid covering a bounding box, so oversized grids can be rejected
+ * before anything is fetched.
+ *
+ * @param bounds - Bounding box
+ * @param resolution - Cell size (degrees)
+ * @returns Number of cells
+ */
+export function countGridCells(bounds: GridBounds, resolution: number): number {
+	const { firstColumn, lastColumn, firstRow, lastRow } = getLatticeRange(bounds, resolution);
+	return (lastColumn - firstColumn + 1) * (lastRow - firstRow + 1);
+}
+
+/**
+ * Fetches the entries of cells from Open-Meteo, several coordinates per request.
+ *
+ * @param cells - Cells to fetch
+ * @param variable - Variable to fetch
+ * @param time - UTC hour (YYYY-MM-DDTHH:00)
+ * @param lang - Language of the condition text
+ * @returns Entry of each cell, in order
+ */
+async function fetchCells(
+	cells: GridCell[],
+	variable: SeriesVariable,
+	time: string,
+	lang: SupportedLanguage,
+): Promise<Array<SeriesEntry | null>> {
+	const entries: Array<SeriesEntry | null> = [];
+
+	for (let start = 0; start < cells.length; start += MAX_COORDINATES_PER_REQUEST) {
+		const chunk = cells.slice(start, start + MAX_COORDINATES_PER_REQUEST);
+		const params = new URLSearchParams({
+			latitude: chunk.map((cell) => cell.latitude).join(','),
+			longitude: chunk.map((cell) => cell.longitude).join(','),
+			hourly: collectSeriesVariables([variable]).join(','),
+			timezone: 'GMT',
+			start_hour: time,
+			end_hour: time,
+		});
+
+		logger.info(`Fetching ${variable} for ${chunk.length} grid cells at ${time}`);
+
+		const response: AxiosResponse<OpenMeteoGridResponse | OpenMeteoGridResponse[]> = await axios.get(
+			`${OPEN_METEO_BASE_URL}?${params}`,
+			{
+				timeout: GRID_TIMEOUT_MS,
+				headers: {
+					'User-Agent': 'AxleAPI/1.0.0 (Weather Grid Service)',
+					Accept: 'application/json',
+				},
+			},
+		);
+
+		// Open-Meteo answers a single coordinate with an object and several with an array
+		const results = Array.isArray(response.data) ? response.data : [response.data];
+		if (results.length !== chunk.length) {
+			throw new Error('Invalid response format from Open-Meteo API');
+		}
+
+		results.forEach((result, index) => {
+			const hourly = result?.hourly;
+			if (!hourly || !Array.isArray(hourly.time) || hourly.time.length === 0) {
+				entries.push(null);
+				return;
+			}
+			const { latitude, longitude } = chunk[index];
+			const warmIndex = getWarmWeatherIndex(latitude, longitude);
+			entries.push(pickVariables(toHourlyForecast(hourly, 0, lang, 'Open-Meteo', warmIndex), [variable]));
+		});
+	}
+
+	return entries;
+}
+
+/**
+ * Samples a forecast variable at the centre of every cell of a grid covering a bounding box.
+ *
+ * @param bounds - Bounding box; it is expanded to whole cells of the lattice
+ * @param resolution - Cell size (degrees)
+ * @param variable - Variable to sample
+ * @param time - UTC hour (YYYY-MM-DDTHH:00)
+ * @param lang - Language of the condition text
+ * @returns Promise resolving to the grid
+ *
+ * @throws {Error} When the forecast API fails or returns invalid data
+ *
+ * @example
+ * ```typescript
+ * const grid = await getWeatherGrid({ west: -80, south: 43, east: -74, north: 47 }, 0.5, 'temperature', '2025-06-29T18:00');
+ * console.log(`${grid.rows}×${grid.columns} cells`);
+ * ```
+ */
+export async function getWeatherGrid(
+	bounds: GridBounds,
+	resolution: number,
+	variable: SeriesVariable,
+	time: string,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+): Promise<WeatherGrid> {
+	const { firstColumn, lastColumn, firstRow, lastRow } = getLatticeRange(bounds, resolution);
+	const edge = (index: number) => roundTo(index * resolution, 6);
+
+	const cells: GridCell[] = [];
+	const keys: string[] = [];
+	for (let latticeRow = lastRow; latticeRow >= firstRow; latticeRow--) {
+		for (let latticeColumn = firstColumn; latticeColumn <= lastColumn; latticeColumn++) {
+			cells.push({
+				row: lastRow - latticeRow,
+				column: latticeColumn - firstColumn,
+				latitude: edge(latticeRow + 0.5),
+				longitude: edge(latticeColumn + 0.5),
+				bounds: {
+					west: edge(latticeColumn),
+					south: edge(latticeRow),
+					east: edge(latticeColumn + 1),
+					north: edge(latticeRow + 1),
+				},
+				entry: null,
+			});
+			keys.push([resolution, latticeRow, latticeColumn, variable, time, lang].join(','));
+		}
+	}
+
+	const missing: number[] = [];
+	cells.forEach((cell, index) => {
+		const cached = getCachedCell(keys[index]);
+		if (cached) {
+			cell.entry = cached.entry;
+		} else {
+			missing.push(index);
+		}
+	});
+
+	if (missing.length > 0) {
+		try {
+			const entries = await fetchCells(
+				missing.map((index) => cells[index]),
+				variable,
+				time,
+				lang,
+			);
+			missing.forEach((cellIndex, index) => {
+				cells[cellIndex].entry = entries[index];
+				setCachedCell(keys[cellIndex], entries[index]);
+			});
+		} catch (error) {
+			// Open-Meteo explains rejected requests in a `reason` field
+			const reason = axios.isAxiosError(error) ? error.response?.data?.reason : null;
+			const errorMessage = reason || (error instanceof Error ? error.message : 'Unknown error');
+			logger.error(`Open-Meteo weather grid error: ${errorMessage}`);
+			throw new Error(`Weather grid unavailable: ${errorMessage}`);
+		}
+	}
+
+	return {
+		bounds: {
+			west: edge(firstColumn),
+			south: edge(firstRow),
+			east: edge(lastColumn + 1),
+			north: edge(lastRow + 1),
+		},
+		resolution,
+		rows: lastRow - firstRow + 1,
+		columns: lastColumn - firstColumn + 1,
+		variable,
+		time,
+		cells,
+		cachedCells: cells.length - missing.length,
+		source: 'Open-Meteo',
+	};
+}
@@ -0,0 +1,286 @@
+/**
+ * Weather History Service
+ *
+ * Retrieves past hourly and daily observations from the Open-Meteo archive API and
+ * normalizes them into the same shapes as the hourly and 14-day forecasts.
+ * Settled archive data never changes, so results are kept in memory indefinitely.
+ *
+ * @module WeatherHistoryService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import axios, { AxiosResponse } from 'axios';
+import { DEFAULT_LANGUAGE, SupportedLanguage } from './localization';
+import {
+	OpenMeteoResponse,
+	OpenMeteoSeries,
+	summarizeDailyFeelsLike,
+	toDailyForecast,
+	toHourlyForecast,
+} from './openMeteoWeatherService';
+import { getWarmWeatherIndex } from './thermalComfort';
+import { FourteenDayForecast, HourlyForecast } from './weatherTypes';
+import { logger } from '../utils/logger';
+
+/**
+ * Base URL for the Open-Meteo historical weather API
+ */
+const OPEN_METEO_ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+
+/**
+ * HTTP request timeout for archive requests (milliseconds)
+ */
+const ARCHIVE_TIMEOUT_MS = 15000;
+
+/**
+ * Source name reported on history entries
+ */
+const ARCHIVE_SOURCE = 'Open-Meteo Archive';
+
+/**
+ * Earliest date available in the archive
+ */
+export const HISTORY_START_DATE = '1940-01-01';
+
+/**
+ * Maximum number of days returned by a single history request
+ */
+export const MAX_HISTORY_DAYS = 366;
+
+/**
+ * Days after which archive data is final. More recent days are still being filled in
+ * by the reanalysis and are only cached for `RECENT_HISTORY_TTL_MS`.
+ */
+const ARCHIVE_SETTLED_DAYS = 5;
+
+/**
+ * Cache lifetime for ranges that include unsettled days (1 hour)
+ */
+const RECENT_HISTORY_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Maximum number of cached history responses; the least recently used entry is evicted first
+ */
+const MAX_HISTORY_CACHE_ENTRIES = 500;
+
+/**
+ * Variables that can be requested with `vars`, mapped to the Open-Meteo archive variables they need
+ */
+const HISTORY_VARIABLES = {
+	temperature: { hourly: ['temperature_2m'], daily: ['temperature_2m_max', 'temperature_2m_min'] },
+	feelsLike: {
+		hourly: ['temperature_2m', 'relative_humidity_2m', 'dew_point_2m', 'wind_speed_10m', 'apparent_temperature'],
+		daily: ['apparent_temperature_max', 'apparent_temperature_min'],
+	},
+	humidity: { hourly: ['relative_humidity_2m'], daily: [] },
+	dewPoint: { hourly: ['dew_point_2m'], daily: [] },
+	precipitation: { hourly: ['precipitation'], daily: ['precipitation_sum'] },
+	condition: { hourly: ['weather_code'], daily: ['weather_code'] },
+	pressure: { hourly: ['pressure_msl'], daily: [] },
+	cloudCover: { hourly: ['cloud_cover'], daily: [] },
+	wind: {
+		hourly: ['wind_speed_10m', 'wind_direction_10m', 'wind_gusts_10m'],
+		daily: ['wind_speed_10m_max', 'wind_gusts_10m_max', 'wind_direction_10m_dominant'],
+	},
+	sun: { hourly: [], daily: ['sunrise', 'sunset', 'daylight_duration', 'sunshine_duration'] },
+} satisfies Record<string, { hourly: string[]; daily: string[] }>;
+
+/**
+ * Name of a variable group accepted by `vars`
+ */
+export type HistoryVariable = keyof typeof HISTORY_VARIABLES;
+
+/**
+ * All variable groups, returned when `vars` is not given
+ */
+export const HISTORY_VARIABLE_NAMES = Object.keys(HISTORY_VARIABLES) as HistoryVariable[];
+
+/**
+ * Open-Meteo archive API response
+ */
+interface OpenMeteoArchiveResponse {
+	hourly?: OpenMeteoSeries<OpenMeteoResponse['hourly']>;
+	daily?: OpenMeteoSeries<OpenMeteoResponse['daily']>;
+}
+
+/**
+ * Past observations for a location and date range
+ */
+export interface WeatherHistory {
+	start: string;
+	end: string;
+	variables: HistoryVariable[];
+	hourly: HourlyForecast[];
+	daily: FourteenDayForecast[];
+	source: string;
+}
+
+/**
+ * Cached history response with its expiry (null when it never expires)
+ */
+interface HistoryCacheEntry {
+	data: WeatherHistory;
+	expiresAt: number | null;
+}
+
+/**
+ * History responses keyed by location, range, variables and language
+ */
+const historyCache = new Map<string, HistoryCacheEntry>();
+
+/**
+ * Checks whether a history range only covers settled archive days.
+ *
+ * @param end - Last day of the range (YYYY-MM-DD)
+ * @returns True if the range can be cached indefinitely
+ */
+function isSettledRange(end: string): boolean {
+	const settledBefore = Date.now() - ARCHIVE_SETTLED_DAYS * 24 * 60 * 60 * 1000;
+	return Date.parse(`${end}T23:59:59Z`) < settledBefore;
+}
+
+/**
+ * Returns a cached response, refreshing its position in the eviction order.
+ */
+function getCachedHistory(key: string): WeatherHistory | null {
+	const entry = historyCache.get(key);
+	if (!entry) {
+		return null;
+	}
+
+	if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+		historyCache.delete(key);
+		return null;
+	}
+
+	historyCache.delete(key);
+	historyCache.set(key, entry);
+	return entry.data;
+}
+
+/**
+ * Stores a response, evicting the least recently used entry when the cache is full.
+ */
+function setCachedHistory(key: string, data: WeatherHistory): void {
+	if (historyCache.size >= MAX_HISTORY_CACHE_ENTRIES) {
+		const oldestKey = historyCache.keys().next().value;
+		if (oldestKey !== undefined) {
+			historyCache.delete(oldestKey);
+		}
+	}
+
+	historyCache.set(key, {
+		data,
+		expiresAt: isSettledRange(data.end) ? null : Date.now() + RECENT_HISTORY_TTL_MS,
+	});
+}
+
+/**
+ * Collects the Open-Meteo variables needed for a set of variable groups.
+ *
+ * @param variables - Requested variable groups
+ * @param resolution - Hourly or daily variables
+ * @returns Unique Open-Meteo variable names
+ */
+function collectArchiveVariables(variables: HistoryVariable[], resolution: 'hourly' | 'daily'): string[] {
+	return Array.from(new Set(variables.flatMap((variable) => HISTORY_VARIABLES[variable][resolution])));
+}
+
+/**
+ * Retrieves hourly and daily observations for a past date range.
+ *
+ * @param lat - Latitude coordinate as string
+ * @param lon - Longitude coordinate as string
+ * @param start - First day of the range (YYYY-MM-DD)
+ * @param end - Last day of the range (YYYY-MM-DD)
+ * @param variables - Variable groups to include; other fields are null
+ * @param lang - Language of the condition text
+ * @returns Promise resolving to the observations for the range
+ *
+ * @throws {Error} When the archive API fails or returns invalid data
+ *
+ * @example
+ * ```typescript
+ * const history = await getWeatherHistory('45.4215', '-75.6998', '2024-07-01', '2024-07-07', ['temperature']);
+ * console.log(`Hottest day: ${Math.max(...history.daily.map((day) => day.temperatureMax ?? -Infinity))}°C`);
+ * ```
+ */
+export async function getWeatherHistory(
+	lat: string,
+	lon: string,
+	start: string,
+	end: string,
+	variables: HistoryVariable[] = HISTORY_VARIABLE_NAMES,
+	lang: SupportedLanguage = DEFAULT_LANGUAGE,
+): Promise<WeatherHistory> {
+	const key = [lat, lon, start, end, [...variables].sort().join('+'), lang].join(',');
+	const cached = getCachedHistory(key);
+	if (cached) {
+		logger.info(`Serving cached weather history for ${lat}, ${lon} (${start} to ${end})`);
+		return cached;
+	}
+
+	const hourlyVariables = collectArchiveVariables(variables, 'hourly');
+	const dailyVariables = collectArchiveVariables(variables, 'daily');
+	const params = new URLSearchParams({
+		latitude: lat,
+		longitude: lon,
+		start_date: start,
+		end_date: end,
+		timezone: 'auto',
+	});
+	if (hourlyVariables.length > 0) params.set('hourly', hourlyVariables.join(','));
+	if (dailyVariables.length > 0) params.set('daily', dailyVariables.join(','));
+
+	try {
+		logger.info(`Fetching weather history for coordinates ${lat}, ${lon} from ${start} to ${end}`);
+
+		const response: AxiosResponse<OpenMeteoArchiveResponse> = await axios.get(
+			`${OPEN_METEO_ARCHIVE_URL}?${params}`,
+			{
+				timeout: ARCHIVE_TIMEOUT_MS,
+				headers: {
+					'User-Agent': 'AxleAPI/1.0.0 (Weather History Service)',
+					Accept: 'application/json',
+				},
+			},
+		);
+
+		if (!response.data || typeof response.data !== 'object') {
+			throw new Error('Invalid response format from Open-Meteo archive API');
+		}
+
+		const { hourly, daily } = response.data;
+		const warmIndex = getWarmWeatherIndex(parseFloat(lat), parseFloat(lon));
+		const hourlyEntries = hourly
+			? hourly.time.map((_, index) => toHourlyForecast(hourly, index, lang, ARCHIVE_SOURCE, warmIndex))
+			: [];
+		const history: WeatherHistory = {
+			start,
+			end,
+			variables,
+			hourly: hourlyEntries,
+			daily: daily
+				? summarizeDailyFeelsLike(
+						daily.time.map((_, index) => toDailyForecast(daily, index, lang, ARCHIVE_SOURCE)),
+						hourlyEntries,
+					)
+				: [],
+			source: ARCHIVE_SOURCE,
+		};
+
+		setCachedHistory(key, history);
+		logger.info(
+			`Weather history fetched: ${history.hourly.length} hourly and ${history.daily.length} daily entries`,
+		);
+		return history;
+	} catch (error) {
+		// The archive API explains rejected requests in a `reason` field
+		const reason = axios.isAxiosError(error) ? error.response?.data?.reason : null;
+		const errorMessage = reason || (error instanceof Error ? error.message : 'Unknown error');
+		logger.error(`Open-Meteo archive API error: ${errorMessage}`);
+		throw new Error(`Weather history unavailable: ${errorMessage}`);
+	}
+}
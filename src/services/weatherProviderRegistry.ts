@@ -0,0 +1,152 @@
+/**
+ * Weather Provider Registry
+ *
+ * Keeps track of the available weather providers and resolves which of them are
+ * active, in what order, and with what blend weight, based on configuration.
+ *
+ * @module WeatherProviderRegistry
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { weatherProviderConfig, WeatherProviderSettings } from '../config/weatherProviders';
+import { environmentCanadaProvider } from './providers/environmentCanadaProvider';
+import { openMeteoProvider } from './providers/openMeteoProvider';
+import { isWithinCoverageRegion } from './geography';
+import { ProviderRequest, WeatherCapability, WeatherProvider } from './weatherTypes';
+import { logger } from '../utils/logger';
+
+/**
+ * Provider with configuration overrides applied
+ */
+export interface ResolvedWeatherProvider extends WeatherProvider {
+	enabled: boolean;
+}
+
+/**
+ * Registry of weather providers with configurable enablement, priority and weight
+ */
+export class WeatherProviderRegistry {
+	private providers: Map<string, WeatherProvider> = new Map();
+	private settings: Record<string, WeatherProviderSettings>;
+
+	/**
+	 * @param settings - Per-provider overrides keyed by provider ID
+	 */
+	constructor(settings: Record<string, WeatherProviderSettings> = {}) {
+		this.settings = { ...settings };
+	}
+
+	/**
+	 * Registers a provider, replacing any provider with the same ID
+	 */
+	register(provider: WeatherProvider): void {
+		if (this.providers.has(provider.id)) {
+			logger.info(`Replacing weather provider ${provider.id}`);
+		}
+		this.providers.set(provider.id, provider);
+	}
+
+	/**
+	 * Removes a provider from the registry
+	 */
+	unregister(id: string): boolean {
+		return this.providers.delete(id);
+	}
+
+	/**
+	 * Updates the overrides for a provider
+	 */
+	configure(id: string, settings: WeatherProviderSettings): void {
+		this.settings[id] = { ...this.settings[id], ...settings };
+	}
+
+	/**
+	 * Gets a provider with overrides applied, or undefined if not registered
+	 */
+	get(id: string): ResolvedWeatherProvider | undefined {
+		const provider = this.providers.get(id);
+		return provider ? this.resolve(provider) : undefined;
+	}
+
+	/**
+	 * Gets all registered providers with overrides applied, in priority order
+	 */
+	getAll(): ResolvedWeatherProvider[] {
+		return Array.from(this.providers.values())
+			.map((provider) => this.resolve(provider))
+			.sort((a, b) => a.priority - b.priority);
+	}
+
+	/**
+	 * Gets enabled providers in priority order, optionally limited to those offering a capability
+	 */
+	getActiveProviders(capability?: WeatherCapability): ResolvedWeatherProvider[] {
+		return this.getAll().filter(
+			(provider) => provider.enabled && (!capability || provider.capabilities.includes(capability)),
+		);
+	}
+
+	/**
+	 * Gets enabled providers whose coverage includes the requested location, in priority order.
+	 * Providers outside their coverage area are skipped so they never contribute to the response.
+	 */
+	getProvidersForLocation(request: ProviderRequest, capability?: WeatherCapability): ResolvedWeatherProvider[] {
+		return this.getActiveProviders(capability).filter((provider) => {
+			const covered = this.covers(provider, request);
+			if (!covered) {
+				logger.info(`Skipping ${provider.name}: coordinates ${request.lat}, ${request.lon} outside coverage`);
+			}
+			return covered;
+		});
+	}
+
+	/**
+	 * Checks a provider's coverage region and, for station-based providers, the distance to its nearest station
+	 */
+	private covers(provider: ResolvedWeatherProvider, request: ProviderRequest): boolean {
+		const lat = parseFloat(request.lat);
+		const lon = parseFloat(request.lon);
+
+		if (!isWithinCoverageRegion(provider.coverage, lat, lon)) {
+			return false;
+		}
+
+		const maxDistance = provider.coverage.maxStationDistanceKm;
+		if (maxDistance !== undefined && provider.getStationDistance) {
+			const distance = provider.getStationDistance(request);
+			if (distance === null || distance > maxDistance) {
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Applies configuration overrides to a provider
+	 */
+	private resolve(provider: WeatherProvider): ResolvedWeatherProvider {
+		const overrides = this.settings[provider.id] || {};
+
+		// Bind methods explicitly so class-based providers keep their `this`
+		return {
+			...provider,
+			fetch: provider.fetch.bind(provider),
+			normalize: provider.normalize.bind(provider),
+			getStationDistance: provider.getStationDistance?.bind(provider),
+			enabled: overrides.enabled ?? true,
+			priority: overrides.priority ?? provider.priority,
+			weight: overrides.weight ?? provider.weight,
+		};
+	}
+}
+
+/**
+ * Global weather provider registry with the built-in providers registered
+ */
+export const weatherProviderRegistry = new WeatherProviderRegistry(weatherProviderConfig);
+
+weatherProviderRegistry.register(environmentCanadaProvider);
+weatherProviderRegistry.register(openMeteoProvider);
@@ -0,0 +1,274 @@
+/**
+ * Weather Stream Service
+ *
+ * Fans weather cache refreshes out to Server-Sent Events clients. Each streamed location has a
+ * channel that numbers its events and keeps the most recent ones, so clients that reconnect with
+ * their `Last-Event-ID` receive what they missed instead of a fresh snapshot.
+ *
+ * @module WeatherStreamService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { SupportedLanguage } from './localization';
+import { CacheRefresh, weatherCacheManager } from './weatherCacheManager';
+import { WeatherData } from './weatherTypes';
+import { detectEvents } from './webhookService';
+import { logger } from '../utils/logger';
+
+/**
+ * Most open streams at once
+ */
+export const MAX_STREAM_CONNECTIONS = 500;
+
+/**
+ * Most open streams per client IP
+ */
+export const MAX_STREAM_CONNECTIONS_PER_CLIENT = 5;
+
+/**
+ * Interval between heartbeat comments, keeping proxies from closing idle streams (milliseconds)
+ */
+export const STREAM_HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * Delay before a disconnected client's browser reconnects (milliseconds)
+ */
+export const STREAM_RETRY_MS = 10 * 1000;
+
+/**
+ * Events kept per channel for resuming: 12 refreshes cover two hours
+ */
+const MAX_BUFFERED_EVENTS = 36;
+
+/**
+ * Time a channel without clients is kept so its clients can still resume (milliseconds)
+ */
+const IDLE_CHANNEL_TTL_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Event recorded on a channel: a weather refresh, or a new or updated alert found by it
+ */
+export type StreamEvent =
+	| {
+			id: string;
+			event: 'update';
+			createdAt: string;
+			previous: WeatherData | null;
+			current: WeatherData;
+	  }
+	| {
+			id: string;
+			event: 'alert.issued' | 'alert.updated';
+			createdAt: string;
+			data: Record<string, unknown>;
+	  };
+
+/**
+ * Receives the events of a channel
+ */
+export type StreamListener = (event: StreamEvent) => void;
+
+/**
+ * Limit preventing a new stream from opening
+ */
+export type StreamLimit = 'server' | 'client';
+
+/**
+ * Events and listeners of a location
+ */
+interface StreamChannel {
+	/** Channel creation time, prefixed to event IDs so IDs from a previous channel are not resumed from */
+	epoch: string;
+	sequence: number;
+	events: StreamEvent[];
+	listeners: Set<StreamListener>;
+	idleSince: number | null;
+}
+
+/**
+ * Manages Server-Sent Events channels and connection limits.
+ */
+export class WeatherStreamManager {
+	private channels: Map<string, StreamChannel> = new Map();
+	private clientConnections: Map<string, number> = new Map();
+	private connectionCount = 0;
+
+	/**
+	 * Generates channel key from coordinates and language
+	 */
+	private getChannelKey(lat: string, lon: string, lang: SupportedLanguage): string {
+		return `${lat},${lon},${lang}`;
+	}
+
+	/**
+	 * Checks whether a client may open another stream.
+	 *
+	 * @param clientId - Client IP
+	 * @returns Limit that has been reached, or null
+	 */
+	getLimitReached(clientId: string): StreamLimit | null {
+		if (this.connectionCount >= MAX_STREAM_CONNECTIONS) {
+			return 'server';
+		}
+		if ((this.clientConnections.get(clientId) ?? 0) >= MAX_STREAM_CONNECTIONS_PER_CLIENT) {
+			return 'client';
+		}
+		return null;
+	}
+
+	/**
+	 * Adds a listener for a location's events.
+	 *
+	 * @param lat - Latitude as string
+	 * @param lon - Longitude as string
+	 * @param lang - Response language
+	 * @param clientId - Client IP, counted against the per-client limit
+	 * @param listener - Receives every subsequent event
+	 * @returns Function closing the stream
+	 */
+	connect(lat: string, lon: string, lang: SupportedLanguage, clientId: string, listener: StreamListener): () => void {
+		const channel = this.getChannel(lat, lon, lang);
+		channel.listeners.add(listener);
+		channel.idleSince = null;
+
+		this.connectionCount++;
+		this.clientConnections.set(clientId, (this.clientConnections.get(clientId) ?? 0) + 1);
+
+		let closed = false;
+		return () => {
+			if (closed) {
+				return;
+			}
+			closed = true;
+
+			channel.listeners.delete(listener);
+			if (channel.listeners.size === 0) {
+				channel.idleSince = Date.now();
+			}
+
+			this.connectionCount--;
+			const remaining = (this.clientConnections.get(clientId) ?? 1) - 1;
+			if (remaining > 0) {
+				this.clientConnections.set(clientId, remaining);
+			} else {
+				this.clientConnections.delete(clientId);
+			}
+		};
+	}
+
+	/**
+	 * Gets the ID of a location's latest event, which a snapshot of the cached data corresponds to.
+	 *
+	 * @param lat - Latitude as string
+	 * @param lon - Longitude as string
+	 * @param lang - Response language
+	 * @returns Event ID
+	 */
+	getLastEventId(lat: string, lon: string, lang: SupportedLanguage): string {
+		const channel = this.getChannel(lat, lon, lang);
+		return `${channel.epoch}-${channel.sequence}`;
+	}
+
+	/**
+	 * Gets the events recorded after an event, for clients resuming with `Last-Event-ID`.
+	 *
+	 * @param lat - Latitude as string
+	 * @param lon - Longitude as string
+	 * @param lang - Response language
+	 * @param lastEventId - ID of the last event the client received
+	 * @returns Missed events (possibly none), or null if the ID is unknown or no longer buffered
+	 */
+	getEventsSince(lat: string, lon: string, lang: SupportedLanguage, lastEventId: string): StreamEvent[] | null {
+		const channel = this.getChannel(lat, lon, lang);
+		const match = /^([a-z0-9]+)-(\d+)$/.exec(lastEventId);
+		if (!match || match[1] !== channel.epoch) {
+			return null;
+		}
+
+		// Event IDs are consecutive, so the buffer covers resuming from the event before its oldest
+		const missed = channel.sequence - Number(match[2]);
+		if (missed < 0 || missed > channel.events.length) {
+			return null;
+		}
+		return channel.events.slice(channel.events.length - missed);
+	}
+
+	/**
+	 * Gets stream statistics
+	 */
+	getStats(): { connections: number; channels: number } {
+		return { connections: this.connectionCount, channels: this.channels.size };
+	}
+
+	/**
+	 * Records the events of a cache refresh on the location's channel and sends them to its listeners.
+	 * Locations that have never been streamed are ignored.
+	 *
+	 * @param refresh - Cache refresh
+	 */
+	handleRefresh(refresh: CacheRefresh): void {
+		const key = this.getChannelKey(refresh.lat, refresh.lon, refresh.lang);
+		const channel = this.channels.get(key);
+		if (!channel) {
+			return;
+		}
+
+		// Nobody resumes from channels that have been idle for longer than the buffer lasts
+		if (channel.idleSince !== null && Date.now() - channel.idleSince > IDLE_CHANNEL_TTL_MS) {
+			this.channels.delete(key);
+			return;
+		}
+
+		const createdAt = new Date().toISOString();
+		const nextId = () => `${channel.epoch}-${++channel.sequence}`;
+		const events: StreamEvent[] = [
+			{ id: nextId(), event: 'update', createdAt, previous: refresh.previous, current: refresh.current },
+		];
+		for (const { event, data } of detectEvents(refresh.previous, refresh.current)) {
+			if (event !== 'conditions.changed') {
+				events.push({ id: nextId(), event, createdAt, data });
+			}
+		}
+
+		channel.events = [...channel.events, ...events].slice(-MAX_BUFFERED_EVENTS);
+
+		for (const event of events) {
+			for (const listener of channel.listeners) {
+				try {
+					listener(event);
+				} catch (error) {
+					logger.error(
+						`Weather stream listener failed for ${key}: ${error instanceof Error ? error.message : error}`,
+					);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Gets a location's channel, creating it if needed
+	 */
+	private getChannel(lat: string, lon: string, lang: SupportedLanguage): StreamChannel {
+		const key = this.getChannelKey(lat, lon, lang);
+		let channel = this.channels.get(key);
+		if (!channel) {
+			channel = {
+				epoch: Date.now().toString(36),
+				sequence: 0,
+				events: [],
+				listeners: new Set(),
+				idleSince: Date.now(),
+			};
+			this.channels.set(key, channel);
+		}
+		return channel;
+	}
+}
+
+/**
+ * Shared stream manager, fed by the weather cache's refreshes
+ */
+export const weatherStreamManager = new WeatherStreamManager();
+weatherCacheManager.onRefresh((refresh) => weatherStreamManager.handleRefresh(refresh));
@@ -0,0 +1,346 @@
+/**
+ * Weather Types
+ *
+ * Shared type definitions for the weather services: the combined response shapes
+ * returned by the advanced weather service and the contract every weather provider implements.
+ *
+ * @module WeatherTypes
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import { SupportedLanguage } from './localization';
+import { AgreementField, FieldAgreement, SourceQuality } from './sourceAgreement';
+import { FeelsLikeIndex } from './thermalComfort';
+
+/**
+ * Weather data structure for combined results
+ */
+export interface WeatherData {
+	current: CurrentConditions[];
+	hourly: HourlyForecast[];
+	'7day': SevenDayForecast[];
+	'14day': FourteenDayForecast[];
+	alerts: WeatherAlert[];
+	sources: DataSources;
+	site?: ForecastSite | null;
+}
+
+/**
+ * Forecast site or station that served a request
+ */
+export interface ForecastSite {
+	name: string;
+	code: string | null;
+	province: string;
+	latitude: number;
+	longitude: number;
+	distanceKm: number;
+	source?: string;
+}
+
+/**
+ * Current weather conditions interface
+ */
+export interface CurrentConditions {
+	temperature: number | null;
+	temperatureUnit: string;
+	feelsLike: number | null;
+	feelsLikeUnit: string;
+	/** Index the feels-like temperature was derived from */
+	feelsLikeIndex: FeelsLikeIndex | null;
+	condition: string | null;
+	humidity: number | null;
+	humidityUnit: string;
+	windSpeed: number | null;
+	windDirection: string | number | null;
+	windSpeedUnit: string;
+	windDirectionUnit: string;
+	windGust: number | null;
+	windGustUnit: string;
+	pressure: number | null;
+	pressureUnit: string;
+	pressureTendency?: string | null;
+	visibility: number | null;
+	visibilityUnit: string;
+	dewPoint: number | null;
+	dewPointUnit: string;
+	airQuality?: number | null;
+	airQualityUnit?: string | null;
+	stationName?: string | null;
+	stationId?: string;
+	observationTime?: string | null;
+	precipitation?: PrecipitationTotals | null;
+	uvIndex: number | null;
+	cloudCover: number | null;
+	cloudCoverUnit: string | null;
+	/** Local sunrise, sunset, moonrise and moonset times (ISO 8601 with offset) */
+	sunrise?: string | null;
+	sunset?: string | null;
+	moonPhase?: string | null;
+	moonrise?: string | null;
+	moonset?: string | null;
+	sources: {
+		primary: string;
+		secondary?: string[];
+		dataQuality?: string;
+		/** Quality of each provider's data, keyed by provider name */
+		quality?: Record<string, SourceQuality>;
+		/** Provider readings of each compared variable and how closely they agree */
+		agreement?: Partial<Record<AgreementField, FieldAgreement>>;
+	};
+}
+
+/**
+ * Precipitation observed over the past hours (Environment Canada)
+ */
+export interface PrecipitationTotals {
+	past1Hr: number | null;
+	past3Hr: number | null;
+	past6Hr: number | null;
+	past24Hr: number | null;
+	/** Unit of every total, or null when none was reported */
+	unit: string | null;
+}
+
+/**
+ * Hourly forecast data interface
+ */
+export interface HourlyForecast {
+	time: string;
+	temperature: number | null;
+	temperatureUnit: string;
+	feelsLike: number | null;
+	feelsLikeUnit: string;
+	/** Index the feels-like temperature was derived from */
+	feelsLikeIndex: FeelsLikeIndex | null;
+	condition: string | null;
+	humidity: number | null;
+	humidityUnit: string;
+	dewPoint: number | null;
+	dewPointUnit: string;
+	precipitationProbability: number | null;
+	precipitation: number | null;
+	precipitationUnit: string;
+	windSpeed: number | null;
+	windDirection: number | null;
+	windGusts: number | null;
+	windSpeedUnit: string;
+	pressure: number | null;
+	pressureUnit: string;
+	cloudCover: number | null;
+	cloudCoverUnit: string;
+	visibility: number | null;
+	visibilityUnit: string;
+	uvIndex: number | null;
+	source: string;
+}
+
+/**
+ * Precipitation amount expected in an Environment Canada forecast period
+ */
+export interface ForecastPrecipitation {
+	/** Kind of precipitation as written in the forecast (e.g. "rain" or "neige") */
+	type: string;
+	amount: number | null;
+	unit: string;
+}
+
+/**
+ * Single Environment Canada forecast period, such as "Sunday" or "Sunday night"
+ */
+export interface ForecastPeriod {
+	period: string;
+	/** Calendar date of the period in the forecast site's time zone (YYYY-MM-DD) */
+	date: string | null;
+	isNight: boolean;
+	temperature: number | null;
+	temperatureType: string | null;
+	temperatureUnit: string;
+	condition: string | null;
+	precipitationChance: number | null;
+	precipitation: ForecastPrecipitation | null;
+	windSummary: string | null;
+	summary: string;
+	fullSummary: string;
+}
+
+/**
+ * 7-day forecast data interface (Environment Canada format): the day and night periods
+ * of one calendar date, with the day's high, low and highest chance of precipitation
+ */
+export interface SevenDayForecast {
+	date: string | null;
+	temperatureHigh: number | null;
+	temperatureLow: number | null;
+	temperatureUnit: string;
+	condition: string | null;
+	precipitationChance: number | null;
+	day: ForecastPeriod | null;
+	night: ForecastPeriod | null;
+}
+
+/**
+ * 14-day forecast data interface (Open-Meteo format)
+ */
+export interface FourteenDayForecast {
+	date: string;
+	temperatureMax: number | null;
+	temperatureMin: number | null;
+	temperatureUnit: string;
+	feelsLikeMax: number | null;
+	feelsLikeMin: number | null;
+	feelsLikeUnit: string;
+	/** Indices the daily extremes were derived from */
+	feelsLikeMaxIndex: FeelsLikeIndex | null;
+	feelsLikeMinIndex: FeelsLikeIndex | null;
+	condition: string | null;
+	precipitationSum: number | null;
+	precipitationProbability: number | null;
+	precipitationUnit: string;
+	windSpeedMax: number | null;
+	windGustsMax: number | null;
+	windDirection: number | null;
+	windSpeedUnit: string;
+	uvIndexMax: number | null;
+	sunrise: string | null;
+	sunset: string | null;
+	daylightDuration: number | null;
+	sunshineDuration: number | null;
+	source: string;
+}
+
+/**
+ * Kind of weather alert
+ */
+export type AlertType = 'warning' | 'watch' | 'advisory' | 'statement' | 'notice';
+
+/**
+ * Alert severity, from most to least severe
+ */
+export type AlertSeverity = 'extreme' | 'severe' | 'moderate' | 'minor' | 'unknown';
+
+/**
+ * Weather alert interface
+ */
+export interface WeatherAlert {
+	id: string;
+	type: AlertType;
+	severity: AlertSeverity;
+	status: 'active' | 'ended';
+	headline: string;
+	description: string | null;
+	area: string | null;
+	issued: string | null;
+	expires: string | null;
+	link: string | null;
+	source: string;
+}
+
+/**
+ * Data sources metadata interface
+ */
+export interface DataSources {
+	primary: string;
+	secondary: string[];
+	confidence: number;
+	/** Current condition variables on which the providers disagree */
+	disagreements?: AgreementField[];
+}
+
+/**
+ * Sections of the combined response a provider can contribute to
+ */
+export type WeatherCapability = 'current' | 'hourly' | '7day' | '14day' | 'alerts';
+
+/**
+ * Geographic area a provider serves
+ */
+export interface WeatherCoverage {
+	region: 'global' | 'canada';
+	description: string;
+	/** Maximum distance between the requested location and the provider's nearest station, in kilometres */
+	maxStationDistanceKm?: number;
+}
+
+/**
+ * Location and options for a single provider fetch
+ */
+export interface ProviderRequest {
+	lat: string;
+	lon: string;
+	/** Language for condition text and site names; defaults to English */
+	lang?: SupportedLanguage;
+}
+
+/**
+ * Current conditions as reported by a single provider, in canonical units
+ * (°C, %, km/h, kPa, km). Feels-like inputs are kept raw so the combiner can
+ * apply one calculation across all sources.
+ */
+export interface ProviderCurrentConditions {
+	temperature: number | null;
+	apparentTemperature?: number | null;
+	humidex?: number | null;
+	windChill?: number | null;
+	condition: string | null;
+	humidity: number | null;
+	windSpeed: number | null;
+	windDirection: string | number | null;
+	windGust: number | null;
+	pressure: number | null;
+	pressureTendency?: string | null;
+	visibility: number | null;
+	dewPoint: number | null;
+	airQuality?: number | null;
+	airQualityUnit?: string | null;
+	stationName?: string | null;
+	stationId?: string;
+	observationTime?: string | null;
+	precipitation?: PrecipitationTotals | null;
+	uvIndex: number | null;
+	cloudCover: number | null;
+}
+
+/**
+ * Normalized data returned by a provider. Sections the provider does not
+ * supply are left undefined.
+ */
+export interface ProviderWeatherData {
+	site?: ForecastSite | null;
+	current?: ProviderCurrentConditions | null;
+	hourly?: HourlyForecast[];
+	'7day'?: SevenDayForecast[];
+	'14day'?: FourteenDayForecast[];
+	alerts?: WeatherAlert[];
+}
+
+/**
+ * Contract implemented by every weather data source.
+ *
+ * `fetch` retrieves the raw upstream payload and `normalize` maps it onto the
+ * shared shapes above, so the combiner never needs to know about a source's format.
+ */
+export interface WeatherProvider<TRaw = any> {
+	/** Stable identifier used in configuration (e.g. "environmentCanada") */
+	id: string;
+	/** Human-readable name reported in `sources` */
+	name: string;
+	/** Default priority; lower numbers win when sources disagree on categorical data */
+	priority: number;
+	/** Default blend weight for numeric values in current conditions */
+	weight: number;
+	/** Confidence reported when this provider is the only source available */
+	reliability: number;
+	/** Response sections this provider can supply */
+	capabilities: WeatherCapability[];
+	/** Geographic coverage of the provider */
+	coverage: WeatherCoverage;
+	/** Distance in kilometres to the station that would serve the request, for station-based providers */
+	getStationDistance?(request: ProviderRequest): number | null;
+	/** Fetches the raw upstream payload */
+	fetch(request: ProviderRequest): Promise<TRaw>;
+	/** Maps the raw payload onto the shared weather shapes */
+	normalize(raw: TRaw, request: ProviderRequest): ProviderWeatherData;
+}
@@ -0,0 +1,591 @@
+/**
+ * Webhook Service
+ *
+ * Delivers weather events to subscribed webhooks. Whenever the weather cache refreshes a
+ * location, new or updated alerts and changes in the current condition are posted to every
+ * subscription for that location. Deliveries are signed with HMAC-SHA256, retried with
+ * exponential backoff, and kept in a dead-letter list once every attempt has failed. Each
+ * subscription keeps its location refreshed until it is removed, and is managed with a token
+ * returned only when it is created.
+ *
+ * Subscriptions are kept in memory and do not survive a restart. Webhooks may not target loopback,
+ * private or link-local addresses: the host is checked when subscribing and its DNS answer again
+ * at every delivery, unless `WEBHOOK_ALLOW_PRIVATE_URLS` is set for local development.
+ *
+ * @module WebhookService
+ * @author AxleAPI
+ * @version 1.0.0
+ * @since 2025-06-28
+ */
+
+import axios from 'axios';
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { lookup } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { env } from '../config/env';
+import { SupportedLanguage } from './localization';
+import { CacheRefresh, weatherCacheManager } from './weatherCacheManager';
+import { CurrentConditions, WeatherAlert, WeatherData } from './weatherTypes';
+import { logger } from '../utils/logger';
+
+/**
+ * Events a subscription can receive
+ */
+export type WebhookEvent = 'alert.issued' | 'alert.updated' | 'conditions.changed';
+
+/**
+ * All subscribable events
+ */
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['alert.issued', 'alert.updated', 'conditions.changed'];
+
+/**
+ * Events a subscription receives when none are specified
+ */
+export const DEFAULT_WEBHOOK_EVENTS: WebhookEvent[] = ['alert.issued', 'alert.updated'];
+
+/**
+ * Shortest accepted client-provided signing secret (characters)
+ */
+export const MIN_SECRET_LENGTH = 16;
+
+/**
+ * Longest accepted webhook URL (characters)
+ */
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+
+/**
+ * Most subscriptions kept at once
+ */
+export const MAX_SUBSCRIPTIONS = 1000;
+
+/**
+ * Delivery attempts before a delivery is dead-lettered
+ */
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+/**
+ * Delay before the first retry, doubled for each further retry (30 s, 1 min, 2 min, 4 min)
+ */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/**
+ * HTTP request timeout for deliveries (milliseconds)
+ */
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/**
+ * Dead letters kept per subscription; the oldest are dropped first
+ */
+const MAX_DEAD_LETTERS = 100;
+
+/**
+ * Alert fields whose change makes an alert "updated"
+ */
+const ALERT_UPDATE_FIELDS: Array<keyof WeatherAlert> = [
+	'type',
+	'severity',
+	'status',
+	'headline',
+	'description',
+	'issued',
+	'expires',
+];
+
+/**
+ * Webhook subscription for a location
+ */
+export interface WebhookSubscription {
+	id: string;
+	url: string;
+	/** Coordinates as given when subscribing; they identify the cached location */
+	lat: string;
+	lon: string;
+	lang: SupportedLanguage;
+	events: WebhookEvent[];
+	/** HMAC-SHA256 key for the `X-AxleAPI-Signature` header */
+	secret: string;
+	/** Bearer token required to view, test or remove the subscription */
+	managementToken: string;
+	createdAt: string;
+	stats: {
+		delivered: number;
+		failed: number;
+		lastDeliveryAt: string | null;
+		lastError: string | null;
+	};
+}
+
+/**
+ * Body posted to a webhook
+ */
+export interface WebhookPayload {
+	/** Delivery identifier, unchanged across retries */
+	id: string;
+	event: WebhookEvent | 'ping';
+	subscriptionId: string;
+	createdAt: string;
+	location: { latitude: number; longitude: number };
+	language: SupportedLanguage;
+	data: Record<string, unknown>;
+}
+
+/**
+ * Delivery that failed every attempt
+ */
+export interface DeadLetter {
+	payload: WebhookPayload;
+	attempts: number;
+	lastStatus: number | null;
+	lastError: string;
+	failedAt: string;
+}
+
+/**
+ * Outcome of a single delivery attempt
+ */
+export interface DeliveryResult {
+	delivered: boolean;
+	status: number | null;
+	error: string | null;
+	durationMs: number;
+}
+
+/**
+ * Computes the signature of a delivery: the hex HMAC-SHA256 of "<timestamp>.<body>" keyed with
+ * the subscription secret, prefixed with "sha256=".
+ *
+ * @param secret - Subscription secret
+ * @param timestamp - Unix time of the attempt (seconds), sent in `X-AxleAPI-Timestamp`
+ * @param body - Raw JSON body
+ * @returns Value of the `X-AxleAPI-Signature` header
+ *
+ * @example
+ * ```typescript
+ * // Receivers recompute the signature from the raw body and compare in constant time
+ * const expected = signPayload(secret, req.headers['x-axleapi-timestamp'], rawBody);
+ * crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(req.headers['x-axleapi-signature']));
+ * ```
+ */
+export function signPayload(secret: string, timestamp: number | string, body: string): string {
+	return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Checks a bearer token against a subscription's management token in constant time.
+ *
+ * @param subscription - Subscription to manage
+ * @param token - Token presented by the client
+ * @returns True if the token is the subscription's management token
+ */
+export function isManagementToken(subscription: WebhookSubscription, token: string | null | undefined): boolean {
+	if (!token) {
+		return false;
+	}
+	// Digests have the same length, so the comparison does not reveal the token's length
+	const digest = (value: string) => createHash('sha256').update(value).digest();
+	return timingSafeEqual(digest(token), digest(subscription.managementToken));
+}
+
+/**
+ * Address ranges webhooks may not target: unspecified, private, shared (carrier-grade NAT),
+ * loopback, link-local, benchmarking, multicast and reserved addresses. IPv4-mapped IPv6
+ * addresses are checked against the IPv4 ranges.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+	['0.0.0.0', 8],
+	['10.0.0.0', 8],
+	['100.64.0.0', 10],
+	['127.0.0.0', 8],
+	['169.254.0.0', 16],
+	['172.16.0.0', 12],
+	['192.0.0.0', 24],
+	['192.168.0.0', 16],
+	['198.18.0.0', 15],
+	['224.0.0.0', 4],
+	['240.0.0.0', 4],
+] as const) {
+	PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+	['::', 128],
+	['::1', 128],
+	['fc00::', 7],
+	['fe80::', 10],
+	['ff00::', 8],
+] as const) {
+	PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Checks whether an IP address is a loopback, private, link-local or other non-public address.
+ *
+ * @param address - IPv4 or IPv6 address
+ * @returns True if webhooks may not target the address; false for public addresses and non-addresses
+ */
+export function isPrivateAddress(address: string): boolean {
+	const family = isIP(address);
+	return family !== 0 && PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Checks whether a URL host is `localhost` or a non-public IP address. Other host names are
+ * checked when they are resolved for a delivery.
+ */
+function isPrivateHost(hostname: string): boolean {
+	const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+	return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}
+
+/**
+ * DNS lookup for webhook connections that fails when the host resolves to a non-public address,
+ * so a public name pointing at an internal address is refused at connection time.
+ *
+ * @example
+ * ```typescript
+ * new https.Agent({ lookup: lookupPublicAddress });
+ * ```
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+	lookup(hostname, { ...options, all: true }, (error, addresses) => {
+		if (error) {
+			callback(error, '');
+			return;
+		}
+
+		const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+		if (blocked || addresses.length === 0) {
+			const reason = blocked ? `resolves to the private address ${blocked.address}` : 'has no address';
+			callback(Object.assign(new Error(`Webhook host ${hostname} ${reason}`), { code: 'EPRIVATEADDRESS' }), '');
+			return;
+		}
+
+		if (options.all) {
+			callback(null, addresses);
+		} else {
+			callback(null, addresses[0].address, addresses[0].family);
+		}
+	});
+};
+
+/**
+ * Connection agents that only connect to public addresses
+ */
+const PUBLIC_AGENTS = {
+	httpAgent: new http.Agent({ lookup: lookupPublicAddress }),
+	httpsAgent: new https.Agent({ lookup: lookupPublicAddress }),
+};
+
+/**
+ * Validates a webhook URL: it must be http or https, and may not target localhost or a loopback,
+ * private or link-local address unless private URLs are allowed. Host names are only checked
+ * when they are resolved for a delivery.
+ *
+ * @param url - URL to validate
+ * @param allowPrivate - Accept localhost and non-public addresses (`WEBHOOK_ALLOW_PRIVATE_URLS`)
+ * @returns Normalized URL, or null when invalid
+ */
+export function validateWebhookUrl(url: unknown, allowPrivate = env.webhookAllowPrivateUrls): string | null {
+	if (typeof url !== 'string' || url.length > MAX_WEBHOOK_URL_LENGTH) {
+		return null;
+	}
+
+	try {
+		const parsed = new URL(url);
+		if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+			return null;
+		}
+		if (!allowPrivate && isPrivateHost(parsed.hostname)) {
+			return null;
+		}
+		return parsed.toString();
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Webhook subscriptions and their deliveries
+ */
+export class WebhookManager {
+	private subscriptions: Map<string, WebhookSubscription> = new Map();
+	private deadLetters: Map<string, DeadLetter[]> = new Map();
+
+	/**
+	 * @param allowPrivateUrls - Deliver to localhost and non-public addresses (development and tests)
+	 */
+	constructor(private readonly allowPrivateUrls = env.webhookAllowPrivateUrls) {}
+
+	/**
+	 * Registers a webhook for a location.
+	 *
+	 * @param options - Webhook URL, coordinates, language, events and optional signing secret
+	 * @returns New subscription, including its management token and secret (generated when not
+	 *          given), or null when the subscription limit has been reached
+	 */
+	subscribe(options: {
+		url: string;
+		lat: string;
+		lon: string;
+		lang: SupportedLanguage;
+		events: WebhookEvent[];
+		secret?: string;
+	}): WebhookSubscription | null {
+		if (this.subscriptions.size >= MAX_SUBSCRIPTIONS) {
+			logger.error(`Webhook subscription limit of ${MAX_SUBSCRIPTIONS} reached`);
+			return null;
+		}
+
+		const subscription: WebhookSubscription = {
+			id: randomUUID(),
+			url: options.url,
+			lat: options.lat,
+			lon: options.lon,
+			lang: options.lang,
+			events: options.events,
+			secret: options.secret ?? randomBytes(32).toString('hex'),
+			managementToken: randomBytes(32).toString('hex'),
+			createdAt: new Date().toISOString(),
+			stats: { delivered: 0, failed: 0, lastDeliveryAt: null, lastError: null },
+		};
+
+		this.subscriptions.set(subscription.id, subscription);
+		weatherCacheManager.retain(options.lat, options.lon, options.lang);
+		logger.info(
+			`Registered webhook ${subscription.id} for ${options.lat}, ${options.lon} (${options.events.join(', ')})`,
+		);
+		return subscription;
+	}
+
+	/**
+	 * Gets a subscription by identifier
+	 */
+	getSubscription(id: string): WebhookSubscription | null {
+		return this.subscriptions.get(id) ?? null;
+	}
+
+	/**
+	 * Removes a subscription and its dead letters; pending retries are dropped. The location stops
+	 * being cached once its last subscription is removed.
+	 *
+	 * @returns True if the subscription existed
+	 */
+	unsubscribe(id: string): boolean {
+		this.deadLetters.delete(id);
+		const subscription = this.subscriptions.get(id);
+		if (!subscription) {
+			return false;
+		}
+
+		this.subscriptions.delete(id);
+		weatherCacheManager.release(subscription.lat, subscription.lon, subscription.lang);
+		logger.info(`Removed webhook ${id}`);
+		return true;
+	}
+
+	/**
+	 * Gets the deliveries of a subscription that failed every attempt, oldest first
+	 */
+	getDeadLetters(id: string): DeadLetter[] {
+		return this.deadLetters.get(id) ?? [];
+	}
+
+	/**
+	 * Sends a `ping` event to a subscription once, without retries, so receivers can check their
+	 * endpoint and signature verification.
+	 *
+	 * @param subscription - Subscription to test
+	 * @returns Outcome of the delivery
+	 */
+	sendTest(subscription: WebhookSubscription): Promise<DeliveryResult> {
+		return this.post(subscription, this.createPayload(subscription, 'ping', { message: 'Test delivery' }));
+	}
+
+	/**
+	 * Posts the events found by a cache refresh to the subscriptions for the location.
+	 *
+	 * @param refresh - Data before and after the refresh
+	 */
+	handleRefresh({ lat, lon, lang, previous, current }: CacheRefresh): void {
+		const subscriptions = Array.from(this.subscriptions.values()).filter(
+			(subscription) => subscription.lat === lat && subscription.lon === lon && subscription.lang === lang,
+		);
+		if (subscriptions.length === 0) {
+			return;
+		}
+
+		const events = detectEvents(previous, current);
+		for (const subscription of subscriptions) {
+			for (const { event, data } of events) {
+				if (subscription.events.includes(event)) {
+					this.deliver(subscription, this.createPayload(subscription, event, data), 1);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Builds the body of a delivery
+	 */
+	private createPayload(
+		subscription: WebhookSubscription,
+		event: WebhookPayload['event'],
+		data: Record<string, unknown>,
+	): WebhookPayload {
+		return {
+			id: randomUUID(),
+			event,
+			subscriptionId: subscription.id,
+			createdAt: new Date().toISOString(),
+			location: { latitude: parseFloat(subscription.lat), longitude: parseFloat(subscription.lon) },
+			language: subscription.lang,
+			data,
+		};
+	}
+
+	/**
+	 * Attempts a delivery, scheduling a retry with exponential backoff on failure and
+	 * dead-lettering it after the last attempt.
+	 */
+	private async deliver(subscription: WebhookSubscription, payload: WebhookPayload, attempt: number): Promise<void> {
+		// Subscriptions removed while a retry was pending are not delivered to
+		if (!this.subscriptions.has(subscription.id)) {
+			return;
+		}
+
+		const result = await this.post(subscription, payload);
+		if (result.delivered) {
+			subscription.stats.delivered++;
+			subscription.stats.lastDeliveryAt = new Date().toISOString();
+			return;
+		}
+
+		subscription.stats.lastError = result.error;
+		if (attempt < MAX_DELIVERY_ATTEMPTS) {
+			const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+			logger.info(`Webhook delivery ${payload.id} failed (attempt ${attempt}), retrying in ${delay / 1000}s`);
+
+			// Pending retries do not keep the process alive on shutdown
+			setTimeout(() => void this.deliver(subscription, payload, attempt + 1), delay).unref();
+			return;
+		}
+
+		subscription.stats.failed++;
+		logger.error(`Webhook delivery ${payload.id} to ${subscription.id} failed after ${attempt} attempts`);
+
+		const deadLetters = [
+			...this.getDeadLetters(subscription.id),
+			{
+				payload,
+				attempts: attempt,
+				lastStatus: result.status,
+				lastError: result.error ?? 'Unknown error',
+				failedAt: new Date().toISOString(),
+			},
+		];
+		this.deadLetters.set(subscription.id, deadLetters.slice(-MAX_DEAD_LETTERS));
+	}
+
+	/**
+	 * Posts a signed payload once. Any 2xx response counts as delivered; redirects are not followed.
+	 * Unless private URLs are allowed, connections to non-public addresses are refused.
+	 */
+	private async post(subscription: WebhookSubscription, payload: WebhookPayload): Promise<DeliveryResult> {
+		const startTime = Date.now();
+		const body = JSON.stringify(payload);
+		const timestamp = Math.floor(startTime / 1000);
+
+		// IP literals are connected to without a lookup, so they are checked here
+		const host = new URL(subscription.url).hostname.replace(/^\[|\]$/g, '');
+		if (!this.allowPrivateUrls && isPrivateAddress(host)) {
+			return { delivered: false, status: null, error: `Webhook address ${host} is private`, durationMs: 0 };
+		}
+
+		try {
+			const response = await axios.post(subscription.url, body, {
+				timeout: DELIVERY_TIMEOUT_MS,
+				maxRedirects: 0,
+				// A proxy would resolve the host itself, bypassing the address check
+				...(this.allowPrivateUrls ? {} : { ...PUBLIC_AGENTS, proxy: false as const }),
+				validateStatus: () => true,
+				headers: {
+					'Content-Type': 'application/json',
+					'User-Agent': 'AxleAPI/1.0.0 (Webhooks)',
+					'X-AxleAPI-Event': payload.event,
+					'X-AxleAPI-Delivery': payload.id,
+					'X-AxleAPI-Timestamp': String(timestamp),
+					'X-AxleAPI-Signature': signPayload(subscription.secret, timestamp, body),
+				},
+			});
+
+			const delivered = response.status >= 200 && response.status < 300;
+			return {
+				delivered,
+				status: response.status,
+				error: delivered ? null : `HTTP ${response.status}`,
+				durationMs: Date.now() - startTime,
+			};
+		} catch (error) {
+			return {
+				delivered: false,
+				status: null,
+				error: error instanceof Error ? error.message : 'Unknown error',
+				durationMs: Date.now() - startTime,
+			};
+		}
+	}
+}
+
+/**
+ * Compares weather data before and after a refresh.
+ *
+ * @param previous - Data before the refresh
+ * @param current - Data after the refresh
+ * @returns New and updated alerts (informational notices excluded) and a change of the current condition
+ */
+export function detectEvents(
+	previous: Partial<WeatherData> | null,
+	current: Partial<WeatherData> | null,
+): Array<{ event: WebhookEvent; data: Record<string, unknown> }> {
+	const events: Array<{ event: WebhookEvent; data: Record<string, unknown> }> = [];
+
+	const previousAlerts = new Map((previous?.alerts ?? []).map((alert) => [alert.id, alert]));
+	for (const alert of current?.alerts ?? []) {
+		if (alert.type === 'notice') {
+			continue;
+		}
+
+		const before = previousAlerts.get(alert.id);
+		if (!before) {
+			events.push({ event: 'alert.issued', data: { alert } });
+		} else if (ALERT_UPDATE_FIELDS.some((field) => before[field] !== alert[field])) {
+			events.push({ event: 'alert.updated', data: { alert, previous: before } });
+		}
+	}
+
+	const describe = (conditions: CurrentConditions | undefined) =>
+		conditions
+			? {
+					condition: conditions.condition,
+					temperature: conditions.temperature,
+					temperatureUnit: conditions.temperatureUnit,
+					observationTime: conditions.observationTime ?? null,
+				}
+			: null;
+	const before = describe(previous?.current?.[0]);
+	const after = describe(current?.current?.[0]);
+	if (before?.condition && after?.condition && before.condition !== after.condition) {
+		events.push({ event: 'conditions.changed', data: { previous: before, current: after } });
+	}
+
+	return events;
+}
+
+/**
+ * Global webhook manager instance, notified of every weather cache refresh
+ */
+export const webhookManager = new WebhookManager();
+
+weatherCacheManager.onRefresh((refresh) => webhookManager.handleRefresh(refresh));
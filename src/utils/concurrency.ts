@@ -0,0 +1,39 @@
+/**
+ * Bounded concurrency utility for fanning out asynchronous work
+ *
+ * @module utils/concurrency
+ */
+
+/**
+ * Maps items through an asynchronous function, running at most `limit` calls at once.
+ * Results keep the order of the items; a rejected call rejects the whole map, so callers
+ * that need per-item errors should catch them in `fn`.
+ *
+ * @param items - Items to map
+ * @param limit - Most calls in flight at once
+ * @param fn - Function called with each item and its index
+ * @returns Results in item order
+ *
+ * @example
+ * ```typescript
+ * const sizes = await mapWithConcurrency(urls, 4, async (url) => (await axios.get(url)).data.length);
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+	items: readonly T[],
+	limit: number,
+	fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index], index);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+	return results;
+}
@@ -0,0 +1,66 @@
+/**
+ * CSV (RFC 4180) utility for tabular responses
+ *
+ * Serializes rows of objects to CSV with a header row. Nested objects are flattened into
+ * dot-separated columns (e.g. `wind.speed`), so every row of a table shares the same columns.
+ *
+ * @module utils/csv
+ */
+
+/**
+ * Flattens a row into cells keyed by dot-separated column names. Arrays are kept whole, as JSON.
+ */
+function flattenRow(value: unknown, prefix: string, cells: Map<string, unknown>): void {
+	if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+		for (const [key, nested] of Object.entries(value)) {
+			flattenRow(nested, prefix ? `${prefix}.${key}` : key, cells);
+		}
+		return;
+	}
+	cells.set(prefix || 'value', value);
+}
+
+/**
+ * Formats a cell, quoting it when it contains a delimiter, quote or line break
+ */
+function formatCell(value: unknown): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows to a CSV document. Columns are listed in the order they first appear; cells a
+ * row lacks are left empty, as are null values.
+ *
+ * @param rows - Rows of the table; primitive rows fill a single `value` column
+ * @returns CSV document with a header row and CRLF line endings
+ *
+ * @example
+ * ```typescript
+ * toCsv([{ time: '2025-06-28T15:00', temperature: 24.1 }]);
+ * // "time,temperature\r\n2025-06-28T15:00,24.1\r\n"
+ * ```
+ */
+export function toCsv(rows: unknown[]): string {
+	const flattened = rows.map((row) => {
+		const cells = new Map<string, unknown>();
+		flattenRow(row, '', cells);
+		return cells;
+	});
+
+	const keys = Array.from(new Set(flattened.flatMap((cells) => Array.from(cells.keys()))));
+	// A null object leaves its own column next to the columns of its fields in other rows
+	const columns = keys.filter(
+		(key) =>
+			!keys.some((other) => other.startsWith(`${key}.`)) ||
+			flattened.some((cells) => cells.get(key) !== null && cells.get(key) !== undefined),
+	);
+	const lines = [
+		columns.map(formatCell).join(','),
+		...flattened.map((cells) => columns.map((column) => formatCell(cells.get(column))).join(',')),
+	];
+	return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,126 @@
+/**
+ * Field selection utility for sparse responses
+ *
+ * Parses dotted field paths such as `current.temperature` or `forecast.14day.temperatureMax`
+ * into a tree, then keeps or removes the selected fields of a response. Paths pass through
+ * arrays, so `hourly.temperature` selects the temperature of every hourly entry.
+ *
+ * @module utils/fieldSelection
+ */
+
+/**
+ * Selected fields as a tree of path segments. `true` selects the whole value at that path.
+ */
+export type FieldTree = { [segment: string]: FieldTree | true };
+
+/**
+ * Characters allowed in a path segment
+ */
+const SEGMENT_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Parses a comma-separated list of dotted field paths.
+ *
+ * @param value - Query parameter value
+ * @returns Paths split into segments, or null if any path is malformed
+ *
+ * @example
+ * ```typescript
+ * parseFieldPaths('current.temperature,alerts'); // [['current', 'temperature'], ['alerts']]
+ * ```
+ */
+export function parseFieldPaths(value: unknown): string[][] | null {
+	if (typeof value !== 'string') {
+		return null;
+	}
+
+	const paths = value
+		.split(',')
+		.map((path) => path.trim())
+		.filter(Boolean)
+		.map((path) => path.split('.'));
+
+	if (paths.length === 0 || paths.some((segments) => !segments.every((segment) => SEGMENT_PATTERN.test(segment)))) {
+		return null;
+	}
+	return paths;
+}
+
+/**
+ * Builds a field tree from paths. Selecting a field also selects everything below it,
+ * so `current` wins over `current.temperature`.
+ *
+ * @param paths - Paths split into segments
+ * @returns Field tree
+ */
+export function buildFieldTree(paths: string[][]): FieldTree {
+	const tree: FieldTree = {};
+
+	for (const segments of paths) {
+		let node = tree;
+		for (const [index, segment] of segments.entries()) {
+			const child = node[segment];
+			if (child === true) {
+				break;
+			}
+			if (index === segments.length - 1) {
+				node[segment] = true;
+				break;
+			}
+			node = node[segment] = child ?? {};
+		}
+	}
+
+	return tree;
+}
+
+/**
+ * Keeps only the selected fields of a value.
+ *
+ * @param value - Object, array or primitive to shape
+ * @param tree - Fields to keep
+ * @returns Shaped copy of the value
+ */
+export function pickFields(value: unknown, tree: FieldTree): unknown {
+	if (Array.isArray(value)) {
+		return value.map((item) => pickFields(item, tree));
+	}
+	if (!value || typeof value !== 'object') {
+		return value;
+	}
+
+	const picked: Record<string, unknown> = {};
+	for (const [key, selection] of Object.entries(tree)) {
+		if (key in value) {
+			const field = (value as Record<string, unknown>)[key];
+			picked[key] = selection === true ? field : pickFields(field, selection);
+		}
+	}
+	return picked;
+}
+
+/**
+ * Removes the selected fields of a value.
+ *
+ * @param value - Object, array or primitive to shape
+ * @param tree - Fields to remove
+ * @returns Shaped copy of the value
+ */
+export function omitFields(value: unknown, tree: FieldTree): unknown {
+	if (Array.isArray(value)) {
+		return value.map((item) => omitFields(item, tree));
+	}
+	if (!value || typeof value !== 'object') {
+		return value;
+	}
+
+	const remaining: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+	for (const [key, selection] of Object.entries(tree)) {
+		if (selection === true) {
+			delete remaining[key];
+		} else if (key in remaining) {
+			remaining[key] = omitFields(remaining[key], selection);
+		}
+	}
+	return remaining;
+}
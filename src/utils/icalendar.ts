@@ -0,0 +1,149 @@
+/**
+ * iCalendar (RFC 5545) utility for calendar feeds
+ *
+ * Serializes events to an iCalendar document: text values are escaped, lines are folded at
+ * 75 octets and terminated with CRLF, as calendar applications expect.
+ *
+ * @module utils/icalendar
+ */
+
+/**
+ * Event of a calendar feed. All-day events have dates (YYYY-MM-DD, end exclusive); timed
+ * events have ISO 8601 timestamps.
+ */
+export interface CalendarEvent {
+	uid: string;
+	start: { date: string } | { dateTime: string };
+	end: { date: string } | { dateTime: string };
+	summary: string;
+	description?: string | null;
+	url?: string | null;
+	categories?: string[];
+	/** Time of the event's last modification, if known */
+	lastModified?: string | null;
+}
+
+/**
+ * Properties of a calendar feed
+ */
+export interface CalendarOptions {
+	name: string;
+	description?: string;
+	/** Interval at which subscribers should refresh the feed (ISO 8601 duration, e.g. PT1H) */
+	refreshInterval?: string;
+	/** Time the feed was generated, used as the stamp of every event */
+	stamp?: Date;
+}
+
+/**
+ * Escapes backslashes, semicolons, commas and newlines in a text value
+ */
+function escapeText(text: string): string {
+	return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line into lines of at most 75 octets, continued with a leading space.
+ * Multi-byte characters are never split.
+ */
+function foldLine(line: string): string {
+	const lines: string[] = [];
+	let current = '';
+	let octets = 0;
+	for (const character of line) {
+		const size = Buffer.byteLength(character);
+		// Continuation lines start with a space, which counts towards their 75 octets
+		if (octets + size > (lines.length === 0 ? 75 : 74)) {
+			lines.push(current);
+			current = '';
+			octets = 0;
+		}
+		current += character;
+		octets += size;
+	}
+	lines.push(current);
+	return lines.join('\r\n ');
+}
+
+/**
+ * Formats an ISO 8601 timestamp as a UTC date-time (e.g. 20250628T150000Z)
+ */
+function formatDateTime(value: string | Date): string {
+	return new Date(value)
+		.toISOString()
+		.replace(/[-:]/g, '')
+		.replace(/\.\d{3}/, '');
+}
+
+/**
+ * Formats the start or end of an event as a property with its value type
+ */
+function formatTime(name: 'DTSTART' | 'DTEND', time: CalendarEvent['start']): string {
+	return 'date' in time
+		? `${name};VALUE=DATE:${time.date.replace(/-/g, '')}`
+		: `${name}:${formatDateTime(time.dateTime)}`;
+}
+
+/**
+ * Serializes events to an iCalendar document.
+ *
+ * @param events - Events of the calendar
+ * @param options - Calendar name, description, refresh interval and stamp
+ * @returns iCalendar document with CRLF line endings
+ *
+ * @example
+ * ```typescript
+ * buildCalendar([{ uid: 'day-1@example.com', start: { date: '2025-06-28' }, end: { date: '2025-06-29' }, summary: 'Sunny' }], {
+ * 	name: 'Weather',
+ * });
+ * ```
+ */
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions): string {
+	const stamp = formatDateTime(options.stamp ?? new Date());
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//AxleAPI//Weather Calendar 1.0//EN',
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		`NAME:${escapeText(options.name)}`,
+		`X-WR-CALNAME:${escapeText(options.name)}`,
+	];
+	if (options.description) {
+		lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+	}
+	if (options.refreshInterval) {
+		lines.push(
+			`REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`,
+			`X-PUBLISHED-TTL:${options.refreshInterval}`,
+		);
+	}
+
+	for (const event of events) {
+		lines.push(
+			'BEGIN:VEVENT',
+			`UID:${event.uid}`,
+			`DTSTAMP:${stamp}`,
+			formatTime('DTSTART', event.start),
+			formatTime('DTEND', event.end),
+			`SUMMARY:${escapeText(event.summary)}`,
+		);
+		if (event.description) {
+			lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+		}
+		if (event.url) {
+			lines.push(`URL:${event.url}`);
+		}
+		if (event.categories?.length) {
+			lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+		}
+		if (event.lastModified) {
+			lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+		}
+		// Feed events are informational and never mark the subscriber as busy
+		lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+	}
+
+	lines.push('END:VCALENDAR');
+	return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -1,5 +1,5 @@
 /**
- * Logger utility with API, DATABASE, and ERROR levels
+ * Logger utility with API, DATABASE, WARN, and ERROR levels
  * @module utils/logger
  */
 const getTimestamp = (): string => {
@@ -8,13 +8,15 @@ const getTimestamp = (): string => {
 };
 
 /**
- * Logger object for API, DATABASE, and ERROR logs.
+ * Logger object for API, DATABASE, WARN, and ERROR logs.
  * @property {function(string):void} info - Logs API messages
  * @property {function(string):void} database - Logs database messages
+ * @property {function(string):void} warn - Logs warning messages
  * @property {function(string):void} error - Logs error messages
  */
 export const logger = {
 	info: (msg: string) => console.log(`[${getTimestamp()}] [API] ${msg}`),
 	database: (msg: string) => console.log(`[${getTimestamp()}] [DATABASE] ${msg}`),
+	warn: (msg: string) => console.warn(`[${getTimestamp()}] [WARN] ${msg}`),
 	error: (msg: string) => console.error(`[${getTimestamp()}] [ERROR] ${msg}`),
 };
@@ -0,0 +1,48 @@
+/**
+ * JSON Merge Patch utility for incremental responses
+ *
+ * Builds RFC 7396 merge patches: objects are compared key by key, removed keys are set to
+ * `null`, and any other changed value (including arrays) is replaced as a whole.
+ *
+ * @module utils/mergePatch
+ */
+
+/**
+ * Checks whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Creates a merge patch that turns one JSON value into another.
+ *
+ * @param before - Original value
+ * @param after - Updated value
+ * @returns Merge patch, or undefined when the values are equal
+ *
+ * @example
+ * ```typescript
+ * createMergePatch({ a: 1, b: { c: 2, d: 3 } }, { a: 1, b: { c: 4 } }); // { b: { c: 4, d: null } }
+ * ```
+ */
+export function createMergePatch(before: unknown, after: unknown): unknown {
+	if (!isObject(before) || !isObject(after)) {
+		return JSON.stringify(before) === JSON.stringify(after) ? undefined : after;
+	}
+
+	const patch: Record<string, unknown> = {};
+	for (const key of Object.keys(before)) {
+		if (!(key in after)) {
+			patch[key] = null;
+		}
+	}
+	for (const [key, value] of Object.entries(after)) {
+		const change = key in before ? createMergePatch(before[key], value) : value;
+		if (change !== undefined) {
+			patch[key] = change;
+		}
+	}
+
+	return Object.keys(patch).length > 0 ? patch : undefined;
+}
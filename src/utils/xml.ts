@@ -0,0 +1,75 @@
+/**
+ * XML utility for alternative response formats
+ *
+ * Serializes JSON values to XML: object keys become elements and array items become `item`
+ * elements. Keys that are not valid element names (such as `14day` or `Environment Canada`)
+ * become `entry` elements with the key in a `key` attribute.
+ *
+ * @module utils/xml
+ */
+
+/**
+ * Element names kept as they are; XML names cannot start with a digit or contain spaces
+ */
+const ELEMENT_NAME = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * Escapes a text or attribute value, dropping the control characters XML 1.0 does not allow
+ */
+function escapeXml(text: string): string {
+	return text
+		.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+/**
+ * Serializes a value as an element, indented by depth
+ */
+function toElement(name: string, value: unknown, depth: number): string {
+	const indent = '\t'.repeat(depth);
+	const [open, close] = ELEMENT_NAME.test(name) ? [name, name] : [`entry key="${escapeXml(name)}"`, 'entry'];
+
+	if (value === null || value === undefined) {
+		return `${indent}<${open}/>`;
+	}
+	if (Array.isArray(value)) {
+		return value.length === 0
+			? `${indent}<${open}/>`
+			: [
+					`${indent}<${open}>`,
+					...value.map((item) => toElement('item', item, depth + 1)),
+					`${indent}</${close}>`,
+				].join('\n');
+	}
+	if (typeof value === 'object') {
+		const entries = Object.entries(value);
+		return entries.length === 0
+			? `${indent}<${open}/>`
+			: [
+					`${indent}<${open}>`,
+					...entries.map(([key, nested]) => toElement(key, nested, depth + 1)),
+					`${indent}</${close}>`,
+				].join('\n');
+	}
+	return `${indent}<${open}>${escapeXml(String(value))}</${close}>`;
+}
+
+/**
+ * Serializes a JSON value to an XML document. Null values become empty elements.
+ *
+ * @param value - Value to serialize
+ * @param root - Name of the root element
+ * @returns XML document
+ *
+ * @example
+ * ```typescript
+ * toXml({ data: { '14day': [{ date: '2025-06-28' }] } });
+ * // <response><data><entry key="14day"><item><date>2025-06-28</date></item></entry></data></response>
+ * ```
+ */
+export function toXml(value: unknown, root = 'response'): string {
+	return `<?xml version="1.0" encoding="UTF-8"?>\n${toElement(root, value, 0)}\n`;
+}
@@ -0,0 +1,124 @@
+import axios, { AxiosResponse } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { classifyAqhi, classifyUsAqi, getAirQualityData } from '../src/services/airQualityService';
+
+/**
+ * Paris, outside the AQHI network, so only Open-Meteo is queried
+ */
+const PARIS = { lat: '48.8566', lon: '2.3522' };
+
+/**
+ * Answers Open-Meteo air quality requests with one hourly series per variable
+ */
+function mockAirQuality(series: Record<string, Array<number | null>>) {
+	const length = Math.max(...Object.values(series).map((values) => values.length));
+	const time = Array.from({ length }, (_, hour) => `2025-06-29T${String(hour).padStart(2, '0')}:00`);
+	return vi.spyOn(axios, 'get').mockResolvedValue({ data: { hourly: { time, ...series } } } as AxiosResponse);
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('classifyAqhi', () => {
+	it.each([
+		[1, 'low', 'Low risk'],
+		[3, 'low', 'Low risk'],
+		[3.4, 'low', 'Low risk'],
+		[3.5, 'moderate', 'Moderate'],
+		[6, 'moderate', 'Moderate'],
+		[7, 'high', 'High risk'],
+		[10, 'high', 'High risk'],
+		[10.4, 'high', 'High risk'],
+		[11, 'veryHigh', 'Very high risk'],
+	])('rounds %s and classifies it as %s', (value, category, label) => {
+		expect(classifyAqhi(value)).toEqual({ value: Math.round(value), category, label });
+	});
+
+	it('labels categories in French', () => {
+		expect(classifyAqhi(8, 'fr')).toEqual({ value: 8, category: 'high', label: 'Risque élevé' });
+	});
+
+	it.each([null, undefined, NaN])('leaves %s unclassified', (value) => {
+		expect(classifyAqhi(value)).toEqual({ value: null, category: null, label: null });
+	});
+});
+
+describe('classifyUsAqi', () => {
+	it.each([
+		[0, 'good'],
+		[50, 'good'],
+		[51, 'moderate'],
+		[100, 'moderate'],
+		[101, 'unhealthyForSensitiveGroups'],
+		[150, 'unhealthyForSensitiveGroups'],
+		[151, 'unhealthy'],
+		[200, 'unhealthy'],
+		[201, 'veryUnhealthy'],
+		[300, 'veryUnhealthy'],
+		[301, 'hazardous'],
+		[500, 'hazardous'],
+	])('classifies %s as %s', (value, category) => {
+		expect(classifyUsAqi(value).category).toBe(category);
+	});
+
+	it('keeps fractional values on the upper bound in the lower category', () => {
+		expect(classifyUsAqi(50.5).category).toBe('moderate');
+		expect(classifyUsAqi(49.9).category).toBe('good');
+	});
+});
+
+describe('getAirQualityData', () => {
+	it('classifies European AQI values on the EEA bands', async () => {
+		mockAirQuality({ european_aqi: [20, 21, 40, 41, 60, 61, 80, 81, 100, 101, null] });
+
+		const { hourly } = await getAirQualityData(PARIS.lat, PARIS.lon);
+
+		expect(hourly.map(({ europeanAqi }) => europeanAqi.category)).toEqual([
+			'good',
+			'fair',
+			'fair',
+			'moderate',
+			'moderate',
+			'poor',
+			'poor',
+			'veryPoor',
+			'veryPoor',
+			'extremelyPoor',
+			null,
+		]);
+	});
+
+	it.each([
+		['alder', 'alder_pollen', [14, 15, 89, 90, 1499, 1500]],
+		['birch', 'birch_pollen', [14, 15, 89, 90, 1499, 1500]],
+		['olive', 'olive_pollen', [14, 15, 89, 90, 1499, 1500]],
+		['grass', 'grass_pollen', [4, 5, 19, 20, 199, 200]],
+		['mugwort', 'mugwort_pollen', [9, 10, 49, 50, 499, 500]],
+		['ragweed', 'ragweed_pollen', [9, 10, 49, 50, 499, 500]],
+	] as const)('classifies %s pollen counts on its own scale', async (type, variable, counts) => {
+		mockAirQuality({ [variable]: [...counts] });
+
+		const { hourly } = await getAirQualityData(PARIS.lat, PARIS.lon);
+
+		expect(hourly.map(({ pollen }) => pollen[type].category)).toEqual([
+			'low',
+			'moderate',
+			'moderate',
+			'high',
+			'high',
+			'veryHigh',
+		]);
+		expect(hourly[0].pollen[type]).toMatchObject({ value: counts[0], unit: 'grains/m³', label: 'Low risk' });
+	});
+
+	it('leaves pollen outside the modelled area unclassified', async () => {
+		mockAirQuality({ us_aqi: [42], grass_pollen: [null] });
+
+		const { hourly } = await getAirQualityData(PARIS.lat, PARIS.lon, 'fr');
+
+		expect(hourly[0].usAqi).toEqual({ value: 42, category: 'good', label: 'Bon' });
+		expect(hourly[0].pollen.grass).toEqual({ value: null, category: null, label: null, unit: 'grains/m³' });
+		expect(hourly[0].pollen.birch.value).toBeNull();
+	});
+});
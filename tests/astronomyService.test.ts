@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { getAstronomy, getLocalDate, getUtcOffsetMinutes } from '../src/services/astronomyService';
+
+const OTTAWA = { lat: 45.4215, lon: -75.6998, timezone: 'America/Toronto' };
+const TROMSO = { lat: 69.6496, lon: 18.956, timezone: 'Europe/Oslo' };
+
+/**
+ * Seconds between two ISO 8601 timestamps
+ */
+function secondsBetween(actual: string | null, expected: string): number {
+	return Math.abs(Date.parse(actual!) - Date.parse(expected)) / 1000;
+}
+
+describe('getAstronomy sun times', () => {
+	// Reference times from the NOAA solar calculator
+	it.each([
+		['2025-06-21', '2025-06-21T05:14:30-04:00', '2025-06-21T13:04:42-04:00', '2025-06-21T20:54:54-04:00'],
+		['2025-12-21', '2025-12-21T07:39:46-05:00', '2025-12-21T12:01:06-05:00', '2025-12-21T16:22:25-05:00'],
+	])('gives Ottawa sunrise, solar noon and sunset on %s within two minutes', (date, sunrise, noon, sunset) => {
+		const { sun } = getAstronomy(OTTAWA.lat, OTTAWA.lon, date, OTTAWA.timezone);
+
+		expect(secondsBetween(sun.sunrise, sunrise)).toBeLessThan(120);
+		expect(secondsBetween(sun.solarNoon, noon)).toBeLessThan(120);
+		expect(secondsBetween(sun.sunset, sunset)).toBeLessThan(120);
+		expect(sun.sunrise!.slice(-6)).toBe(sunrise.slice(-6));
+	});
+
+	it('orders twilight and golden hour around sunrise and sunset', () => {
+		const { sun } = getAstronomy(OTTAWA.lat, OTTAWA.lon, '2025-06-21', OTTAWA.timezone);
+		const times = [
+			sun.twilight.astronomical.dawn,
+			sun.twilight.nautical.dawn,
+			sun.twilight.civil.dawn,
+			sun.sunrise,
+			sun.goldenHour.morning!.end,
+			sun.solarNoon,
+			sun.goldenHour.evening!.start,
+			sun.sunset,
+			sun.twilight.civil.dusk,
+			sun.twilight.nautical.dusk,
+			sun.twilight.astronomical.dusk,
+		].map((time) => Date.parse(time!));
+
+		expect(times).toEqual([...times].sort((a, b) => a - b));
+		expect(sun.goldenHour.morning!.start).toBe(sun.sunrise);
+		expect(sun.daylightDuration).toBe((Date.parse(sun.sunset!) - Date.parse(sun.sunrise!)) / 1000);
+		expect(sun.noonElevation).toBeCloseTo(90 - OTTAWA.lat + 23.44, 0);
+	});
+
+	it('reports the midnight sun and the polar night', () => {
+		const summer = getAstronomy(TROMSO.lat, TROMSO.lon, '2025-06-21', TROMSO.timezone).sun;
+		const winter = getAstronomy(TROMSO.lat, TROMSO.lon, '2025-12-21', TROMSO.timezone).sun;
+
+		expect(summer).toMatchObject({ sunrise: null, sunset: null, alwaysUp: true, daylightDuration: 86400 });
+		expect(summer.goldenHour).toEqual({ morning: null, evening: null });
+		expect(winter).toMatchObject({ sunrise: null, sunset: null, alwaysDown: true, daylightDuration: 0 });
+		expect(winter.twilight.civil.dawn).not.toBeNull();
+	});
+
+	it('uses today and the current time when no date is given', () => {
+		const now = Date.parse('2025-06-29T02:00:00Z');
+		const astronomy = getAstronomy(OTTAWA.lat, OTTAWA.lon, null, OTTAWA.timezone, 'en', now);
+
+		expect(astronomy).toMatchObject({ date: '2025-06-28', utcOffset: '-04:00', at: '2025-06-28T22:00:00-04:00' });
+	});
+});
+
+describe('getAstronomy moon phase', () => {
+	it.each([
+		['2025-06-25T10:31:00Z', 'newMoon', 'New Moon', 0],
+		['2025-07-02T19:30:00Z', 'firstQuarter', 'First Quarter', 50],
+		['2025-07-10T20:37:00Z', 'fullMoon', 'Full Moon', 100],
+		['2025-07-18T00:38:00Z', 'lastQuarter', 'Last Quarter', 50],
+	])('names the phase at %s', (time, phaseCode, phaseName, illumination) => {
+		const { moon } = getAstronomy(OTTAWA.lat, OTTAWA.lon, null, OTTAWA.timezone, 'en', Date.parse(time));
+
+		expect(moon).toMatchObject({ phaseCode, phaseName });
+		expect(Math.abs(moon.illumination - illumination)).toBeLessThan(3);
+	});
+
+	it('translates the phase name', () => {
+		const now = Date.parse('2025-06-25T10:31:00Z');
+		expect(getAstronomy(OTTAWA.lat, OTTAWA.lon, null, OTTAWA.timezone, 'fr', now).moon.phaseName).toBe(
+			'Nouvelle lune',
+		);
+	});
+
+	it('places the waxing phases between the new and full moon', () => {
+		const phaseAt = (time: string) =>
+			getAstronomy(OTTAWA.lat, OTTAWA.lon, null, OTTAWA.timezone, 'en', Date.parse(time)).moon;
+
+		expect(phaseAt('2025-06-28T12:00:00Z').phaseCode).toBe('waxingCrescent');
+		expect(phaseAt('2025-07-06T12:00:00Z').phaseCode).toBe('waxingGibbous');
+		expect(phaseAt('2025-07-14T12:00:00Z').phaseCode).toBe('waningGibbous');
+		expect(phaseAt('2025-07-21T12:00:00Z').phaseCode).toBe('waningCrescent');
+	});
+});
+
+describe('getUtcOffsetMinutes', () => {
+	it.each([
+		['before the spring transition in Toronto', '2025-03-09T06:59:00Z', 'America/Toronto', -300],
+		['after the spring transition in Toronto', '2025-03-09T07:00:00Z', 'America/Toronto', -240],
+		['in St. John’s', '2025-01-01T00:00:00Z', 'America/St_Johns', -210],
+		['in Kolkata', '2025-01-01T00:00:00Z', 'Asia/Kolkata', 330],
+	])('gives the offset %s', (_description, time, timezone, offset) => {
+		expect(getUtcOffsetMinutes(Date.parse(time), timezone, 0)).toBe(offset);
+	});
+
+	it('approximates the offset from the longitude without a known time zone', () => {
+		expect(getUtcOffsetMinutes(0, null, -123.1)).toBe(-480);
+		expect(getUtcOffsetMinutes(0, 'Not/AZone', -75.7)).toBe(-300);
+		expect(getUtcOffsetMinutes(0, null, 7)).toBe(0);
+	});
+});
+
+describe('getLocalDate', () => {
+	it('gives the date at the location, which can differ from the UTC date', () => {
+		const time = Date.parse('2025-06-29T02:00:00Z');
+
+		expect(getLocalDate(time, 'America/Vancouver', 0)).toBe('2025-06-28');
+		expect(getLocalDate(time, 'Asia/Tokyo', 0)).toBe('2025-06-29');
+		expect(getLocalDate(time, null, -75.7)).toBe('2025-06-28');
+	});
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from '../src/utils/csv';
+
+describe('toCsv', () => {
+	it('writes a header row and CRLF line endings', () => {
+		expect(toCsv([{ time: '2025-06-28T15:00', temperature: 24.1 }])).toBe(
+			'time,temperature\r\n2025-06-28T15:00,24.1\r\n',
+		);
+	});
+
+	it.each([
+		['a delimiter', 'Rain, heavy at times', '"Rain, heavy at times"'],
+		['a quote', 'Wind "gusty"', '"Wind ""gusty"""'],
+		['a line feed', 'Line one\nline two', '"Line one\nline two"'],
+		['a carriage return', 'Line one\r\nline two', '"Line one\r\nline two"'],
+		['an array', ['rain', 'snow'], '"[""rain"",""snow""]"'],
+	])('quotes cells containing %s', (_description, value, expected) => {
+		expect(toCsv([{ value }])).toBe(`value\r\n${expected}\r\n`);
+	});
+
+	it('leaves plain cells unquoted and null cells empty', () => {
+		expect(toCsv([{ text: "Ciel dégagé; 20 °C à l'aube", missing: null, absent: undefined, flag: false }])).toBe(
+			"text,missing,absent,flag\r\nCiel dégagé; 20 °C à l'aube,,,false\r\n",
+		);
+	});
+
+	it('lists columns in the order they first appear and leaves missing cells empty', () => {
+		expect(
+			toCsv([
+				{ a: 1, b: 2 },
+				{ c: 3, a: 4 },
+			]),
+		).toBe('a,b,c\r\n1,2,\r\n4,,3\r\n');
+	});
+
+	it('flattens nested objects into dot-separated columns', () => {
+		expect(toCsv([{ time: 'T1', wind: { speed: 10, direction: { degrees: 270, cardinal: 'W' } } }])).toBe(
+			'time,wind.speed,wind.direction.degrees,wind.direction.cardinal\r\nT1,10,270,W\r\n',
+		);
+	});
+
+	it('drops the column of an object that is null in some rows and has fields in others', () => {
+		expect(
+			toCsv([
+				{ time: 'T1', wind: null },
+				{ time: 'T2', wind: { speed: 10 } },
+			]),
+		).toBe('time,wind.speed\r\nT1,\r\nT2,10\r\n');
+	});
+
+	it('keeps the column of a field that is not always an object', () => {
+		expect(toCsv([{ wind: 'calm' }, { wind: { speed: 10 } }])).toBe('wind,wind.speed\r\ncalm,\r\n,10\r\n');
+	});
+
+	it('keeps the column of an object that is null in every row', () => {
+		expect(toCsv([{ time: 'T1', wind: null }])).toBe('time,wind\r\nT1,\r\n');
+	});
+
+	it('puts primitive rows in a value column', () => {
+		expect(toCsv(['a,b', 2, null])).toBe('value\r\n"a,b"\r\n2\r\n\r\n');
+	});
+
+	it('writes an empty header row without rows', () => {
+		expect(toCsv([])).toBe('\r\n');
+	});
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import {
+	AtomEntry,
+	parseAlertEntries,
+	parseEcLocalDate,
+	parseEcTimestamp,
+} from '../src/services/environmentCanadaAlerts';
+
+/**
+ * "Warnings and Watches" entry with the given title and summary, as parsed by xml2js
+ */
+function createAlertEntry(title: string, summary: string, overrides: Partial<AtomEntry> = {}): AtomEntry {
+	return {
+		id: `tag:weather.gc.ca,2013-04-16:${title}`,
+		title,
+		summary: { _: summary, type: 'html' },
+		link: { type: 'text/html', href: 'https://weather.gc.ca/warnings/report_e.html?on61' },
+		category: { term: 'Warnings and Watches' },
+		published: '2025-06-28T15:09:00Z',
+		updated: '2025-06-28T15:09:00Z',
+		...overrides,
+	};
+}
+
+describe('parseEcTimestamp', () => {
+	it.each([
+		['11:09 AM EDT Saturday 28 June 2025', '2025-06-28T15:09:00.000Z'],
+		['12:00 AM EST Wednesday 1 January 2025', '2025-01-01T05:00:00.000Z'],
+		['12:30 PM MST Wednesday 1 January 2025', '2025-01-01T19:30:00.000Z'],
+		['9:00 PM PDT Saturday 28 June 2025', '2025-06-29T04:00:00.000Z'],
+		['6:00 AM NST Wednesday 1 January 2025', '2025-01-01T09:30:00.000Z'],
+	])('parses the English timestamp %s', (text, expected) => {
+		expect(parseEcTimestamp(text)).toBe(expected);
+	});
+
+	it.each([
+		['11h09 HAE samedi 28 juin 2025', '2025-06-28T15:09:00.000Z'],
+		['15h00 HAE le samedi 28 juin 2025', '2025-06-28T19:00:00.000Z'],
+		['0h00 HNE mercredi 1er janvier 2025', '2025-01-01T05:00:00.000Z'],
+		['21h00 HAP samedi 16 août 2025', '2025-08-17T04:00:00.000Z'],
+	])('parses the French timestamp %s', (text, expected) => {
+		expect(parseEcTimestamp(text)).toBe(expected);
+	});
+
+	it.each([
+		['an unknown time zone', '11:09 AM XYZ Saturday 28 June 2025'],
+		['an unknown month', '11:09 AM EDT Saturday 28 Juin 2025'],
+		['text without a timestamp', 'Saturday afternoon'],
+		['a missing timestamp', undefined],
+	])('returns null for %s', (_, text) => {
+		expect(parseEcTimestamp(text)).toBeNull();
+	});
+});
+
+describe('parseEcLocalDate', () => {
+	it('keeps the local date of evening timestamps', () => {
+		expect(parseEcLocalDate('9:00 PM PDT Saturday 28 June 2025')).toBe('2025-06-28');
+		expect(parseEcLocalDate('21h00 HAP samedi 28 juin 2025')).toBe('2025-06-28');
+	});
+});
+
+describe('parseAlertEntries', () => {
+	it('reads the issue and expiry times of English alerts', () => {
+		const [alert] = parseAlertEntries([
+			createAlertEntry(
+				'HEAT WARNING IN EFFECT, Ottawa (Kanata - Orléans)',
+				'A prolonged period of very hot weather is expected.<br/>Issued: 5:03 AM EDT Saturday 28 June 2025<br/>Expires: 5:00 AM EDT Monday 30 June 2025',
+			),
+		]);
+
+		expect(alert).toEqual({
+			id: 'tag:weather.gc.ca,2013-04-16:HEAT WARNING IN EFFECT, Ottawa (Kanata - Orléans)',
+			type: 'warning',
+			severity: 'severe',
+			status: 'active',
+			headline: 'HEAT WARNING IN EFFECT',
+			description: 'A prolonged period of very hot weather is expected.',
+			area: 'Ottawa (Kanata - Orléans)',
+			issued: '2025-06-28T09:03:00.000Z',
+			expires: '2025-06-30T09:00:00.000Z',
+			link: 'https://weather.gc.ca/warnings/report_e.html?on61',
+			source: 'Environment Canada',
+		});
+	});
+
+	it('reads the issue and expiry times of French alerts', () => {
+		const [alert] = parseAlertEntries([
+			createAlertEntry(
+				'AVERTISSEMENT DE CHALEUR EN VIGUEUR, Ottawa (Kanata - Orléans)',
+				'Une période prolongée de temps très chaud est prévue.<br/>Émis : 5h03 HAE samedi 28 juin 2025<br/>Expiration : 5h00 HAE lundi 30 juin 2025',
+				{ category: { term: 'Veilles et avertissements' } },
+			),
+		]);
+
+		expect(alert).toMatchObject({
+			type: 'warning',
+			severity: 'severe',
+			headline: 'AVERTISSEMENT DE CHALEUR EN VIGUEUR',
+			description: 'Une période prolongée de temps très chaud est prévue.',
+			issued: '2025-06-28T09:03:00.000Z',
+			expires: '2025-06-30T09:00:00.000Z',
+		});
+	});
+
+	it('falls back to the publication time when the summary has no issue time', () => {
+		const [alert] = parseAlertEntries([createAlertEntry('SPECIAL WEATHER STATEMENT IN EFFECT', 'Rain at times.')]);
+
+		expect(alert).toMatchObject({ issued: '2025-06-28T15:09:00Z', expires: null, area: null });
+	});
+
+	it.each([
+		['SEVERE THUNDERSTORM WARNING IN EFFECT', 'warning', 'severe', 'active'],
+		['TORNADO WARNING IN EFFECT', 'warning', 'extreme', 'active'],
+		['SEVERE THUNDERSTORM WATCH IN EFFECT', 'watch', 'moderate', 'active'],
+		['FOG ADVISORY IN EFFECT', 'advisory', 'minor', 'active'],
+		['SPECIAL WEATHER STATEMENT IN EFFECT', 'statement', 'minor', 'active'],
+		['ORANGE WARNING - RAINFALL', 'warning', 'severe', 'active'],
+		['SEVERE THUNDERSTORM WARNING ENDED', 'warning', 'severe', 'ended'],
+		['SEVERE THUNDERSTORM WATCH ENDED', 'watch', 'moderate', 'ended'],
+		['VEILLE D’ORAGES VIOLENTS EN VIGUEUR', 'watch', 'moderate', 'active'],
+		['AVERTISSEMENT DE TORNADE EN VIGUEUR', 'warning', 'extreme', 'active'],
+		['AVERTISSEMENT DE CHALEUR TERMINÉ', 'warning', 'severe', 'ended'],
+		['VEILLE D’ORAGES VIOLENTS TERMINÉE', 'watch', 'moderate', 'ended'],
+	])('classifies "%s" as a %s that is %s and %s', (headline, type, severity, status) => {
+		const [alert] = parseAlertEntries([createAlertEntry(`${headline}, Ottawa`, 'Details.')]);
+
+		expect(alert).toMatchObject({ headline, type, severity, status });
+	});
+
+	it('only reads entries of the warnings category', () => {
+		const alerts = parseAlertEntries([
+			createAlertEntry('HEAT WARNING IN EFFECT', 'Hot.'),
+			createAlertEntry('Sunday: Sunny. High 31.', 'Sunny. High 31.', { category: { term: 'Weather Forecasts' } }),
+			createAlertEntry('Current Conditions: 27.4°C', 'Condition: Sunny', {
+				category: { term: 'Current Conditions' },
+			}),
+			createAlertEntry('FROST ADVISORY IN EFFECT', 'Cold.', { category: undefined }),
+			createAlertEntry('VEILLE DE TEMPÊTE HIVERNALE EN VIGUEUR', 'Neige.', {
+				category: { term: 'Veilles et avertissements' },
+			}),
+		]);
+
+		expect(alerts.map((alert) => alert.headline)).toEqual([
+			'HEAT WARNING IN EFFECT',
+			'VEILLE DE TEMPÊTE HIVERNALE EN VIGUEUR',
+		]);
+	});
+
+	it('returns no alerts for feeds reporting none in effect', () => {
+		expect(
+			parseAlertEntries([
+				createAlertEntry(
+					'No watches or warnings in effect, Ottawa (Kanata - Orléans)',
+					'No watches or warnings in effect.',
+				),
+				createAlertEntry(
+					'Aucune veille ou alerte en vigueur, Ottawa (Kanata - Orléans)',
+					'Aucune veille ou alerte en vigueur.',
+					{ category: { term: 'Veilles et avertissements' } },
+				),
+			]),
+		).toEqual([]);
+	});
+
+	it('reads plain-text titles, summaries and links', () => {
+		const [alert] = parseAlertEntries([
+			{
+				title: 'FOG ADVISORY IN EFFECT, Halifax',
+				summary: 'Near-zero visibility in fog. Issued: 4:30 AM ADT Sunday 29 June 2025',
+				link: 'https://weather.gc.ca/warnings/report_e.html?ns19',
+				category: { term: 'Warnings and Watches' },
+			},
+		]);
+
+		expect(alert).toMatchObject({
+			id: 'FOG ADVISORY IN EFFECT|Halifax',
+			description: 'Near-zero visibility in fog.',
+			issued: '2025-06-29T07:30:00.000Z',
+			link: 'https://weather.gc.ca/warnings/report_e.html?ns19',
+		});
+	});
+});
@@ -0,0 +1,29 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseWeatherFeed } from '../src/services/environmentCanadaWeatherService';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'environmentCanada');
+
+describe('parseWeatherFeed', () => {
+	it.each(['summer', 'summerFrench', 'winter', 'edgeCases', 'variableWind', 'fullForecast'])(
+		'matches the golden output for %s',
+		async (fixture) => {
+			const xml = readFileSync(join(FIXTURES_DIR, `${fixture}.xml`), 'utf8');
+			const result = await parseWeatherFeed(xml, 'test-site');
+
+			await expect(JSON.stringify(result, null, '\t')).toMatchFileSnapshot(
+				join(FIXTURES_DIR, `${fixture}.golden.json`),
+			);
+		},
+	);
+
+	it('rejects feeds without current conditions', async () => {
+		const xml = readFileSync(join(FIXTURES_DIR, 'summer.xml'), 'utf8').replace(
+			'<category term="Current Conditions"/>',
+			'<category term="Weather Forecasts"/>',
+		);
+
+		await expect(parseWeatherFeed(xml, 'test-site')).rejects.toThrow('Current conditions not found');
+	});
+});
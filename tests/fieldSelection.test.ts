@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { buildWeatherResponse, validateWeatherQuery, WeatherQuery } from '../src/controllers/WeatherController';
+import { WeatherData } from '../src/services/weatherTypes';
+import { buildFieldTree, omitFields, parseFieldPaths, pickFields } from '../src/utils/fieldSelection';
+
+/**
+ * Weather data with only the fields the tests select
+ */
+const WEATHER = {
+	current: [{ temperature: 20, temperatureUnit: '°C', windSpeed: 36, windSpeedUnit: 'km/h', condition: 'Sunny' }],
+	hourly: [
+		{ time: '2025-06-28T15:00', temperature: 20, temperatureUnit: '°C', humidity: 55 },
+		{ time: '2025-06-28T16:00', temperature: 21, temperatureUnit: '°C', humidity: 50 },
+	],
+	'7day': [],
+	'14day': [{ date: '2025-06-28', temperatureMax: 30, temperatureMin: 10, temperatureUnit: '°C' }],
+	alerts: [],
+	sources: { current: ['Environment Canada'] },
+} as unknown as WeatherData;
+
+/**
+ * Validates query parameters the way `GET /weather` does, failing the test on an error response
+ */
+function query(params: Record<string, unknown>): WeatherQuery {
+	const validated = validateWeatherQuery({ lat: '45.4215', lon: '-75.6998', ...params });
+	if ('error' in validated) {
+		throw new Error(`Unexpected ${validated.error.status} response`);
+	}
+	return validated.value;
+}
+
+describe('parseFieldPaths', () => {
+	it('splits comma-separated dotted paths', () => {
+		expect(parseFieldPaths('current.temperature, forecast.14day.temperatureMax,alerts')).toEqual([
+			['current', 'temperature'],
+			['forecast', '14day', 'temperatureMax'],
+			['alerts'],
+		]);
+	});
+
+	it.each([[''], [' , '], ['current..temperature'], ['current.temp$'], [['current']], [undefined]])(
+		'rejects %j',
+		(value) => {
+			expect(parseFieldPaths(value)).toBeNull();
+		},
+	);
+});
+
+describe('buildFieldTree', () => {
+	it('merges nested paths and lets a parent path win over its children', () => {
+		expect(
+			buildFieldTree([
+				['data', 'current', 'temperature'],
+				['data', 'current', 'windSpeed'],
+				['data', 'forecast', '14day'],
+				['data', 'forecast', '14day', 'temperatureMax'],
+				['location'],
+			]),
+		).toEqual({
+			data: { current: { temperature: true, windSpeed: true }, forecast: { '14day': true } },
+			location: true,
+		});
+	});
+});
+
+describe('pickFields and omitFields', () => {
+	const value = { a: { b: 1, c: [{ d: 1, e: 2 }] }, f: 3 };
+
+	it('keeps nested fields through arrays', () => {
+		expect(pickFields(value, buildFieldTree([['a', 'c', 'e'], ['missing']]))).toEqual({ a: { c: [{ e: 2 }] } });
+	});
+
+	it('removes nested fields through arrays without changing the input', () => {
+		expect(omitFields(value, buildFieldTree([['a', 'c', 'd'], ['f']]))).toEqual({ a: { b: 1, c: [{ e: 2 }] } });
+		expect(value).toEqual({ a: { b: 1, c: [{ d: 1, e: 2 }] }, f: 3 });
+	});
+});
+
+describe('field selection in weather responses', () => {
+	it.each([
+		['fields', 'current.temperature,wind'],
+		['include', 'data.current'],
+		['exclude', 'current..temperature'],
+	])('rejects %s=%s with a 400', (parameter, value) => {
+		const validated = validateWeatherQuery({ lat: '45.4215', lon: '-75.6998', [parameter]: value });
+		expect(validated).toMatchObject({ error: { status: 400, body: { error: 'Invalid fields', provided: value } } });
+	});
+
+	it('keeps the selected paths of data and the always-included fields', () => {
+		const response = buildWeatherResponse(
+			WEATHER,
+			query({ fields: 'current.temperature,hourly.time,forecast.14day.temperatureMax' }),
+		) as any;
+
+		expect(Object.keys(response).sort()).toEqual(['data', 'language', 'location', 'timestamp', 'units']);
+		expect(response.data).toEqual({
+			current: [{ temperature: 20 }],
+			hourly: [{ time: '2025-06-28T15:00' }, { time: '2025-06-28T16:00' }],
+			forecast: { '14day': [{ temperatureMax: 30 }] },
+		});
+	});
+
+	it('applies exclude after fields and include', () => {
+		const response = buildWeatherResponse(
+			WEATHER,
+			query({ include: 'hourly,metadata.limitations', exclude: 'hourly.humidity,location' }),
+		) as any;
+
+		expect(Object.keys(response).sort()).toEqual(['data', 'language', 'metadata', 'timestamp', 'units']);
+		expect(Object.keys(response.metadata)).toEqual(['limitations']);
+		expect(response.data.hourly[0]).toEqual({ time: '2025-06-28T15:00', temperature: 20, temperatureUnit: '°C' });
+	});
+
+	it('selects converted values, so a kept value and its unit label agree', () => {
+		const response = buildWeatherResponse(
+			WEATHER,
+			query({ units: 'imperial', fields: 'current.temperature,current.temperatureUnit' }),
+		) as any;
+
+		expect(response.data.current).toEqual([{ temperature: 68, temperatureUnit: '°F' }]);
+		expect(response.units).toMatchObject({ system: 'imperial', temperature: '°F' });
+	});
+
+	it('converts the values left after excluding fields', () => {
+		const response = buildWeatherResponse(
+			WEATHER,
+			query({ units: 'si', exclude: 'current.condition,current.temperatureUnit' }),
+		) as any;
+
+		expect(response.data.current).toEqual([{ temperature: 293.2, windSpeed: 10, windSpeedUnit: 'm/s' }]);
+	});
+});
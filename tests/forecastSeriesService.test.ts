@@ -0,0 +1,198 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getForecastSeries, getUnavailableVariables, MAX_SERIES_DAYS } from '../src/services/forecastSeriesService';
+
+const API = 'http://localhost:3001/api';
+
+/**
+ * Open-Meteo hourly series for two hours
+ */
+const HOURLY = {
+	time: ['2025-06-29T00:00', '2025-06-29T01:00'],
+	temperature_2m: [18.4, 17.9],
+	wind_gusts_10m: [32, 28],
+	pressure_msl: [1012.3, 1012.8],
+};
+
+/**
+ * Answers Open-Meteo requests with the given body
+ */
+function mockOpenMeteo(data: unknown) {
+	return vi.spyOn(axios, 'get').mockResolvedValue({ data } as AxiosResponse);
+}
+
+/**
+ * Query parameters of the Open-Meteo request made by a mocked call
+ */
+function requestedParams(get: ReturnType<typeof mockOpenMeteo>, call = 0): URLSearchParams {
+	return new URL(get.mock.calls[call][0]).searchParams;
+}
+
+/**
+ * UTC date a number of days from now (YYYY-MM-DD)
+ */
+function daysFromNow(days: number): string {
+	return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('getUnavailableVariables', () => {
+	it('lists the variables Open-Meteo has no 15-minute data for', () => {
+		expect(
+			getUnavailableVariables(
+				['temperature', 'pressure', 'cloudCover', 'uvIndex', 'precipitationProbability'],
+				'15min',
+			),
+		).toEqual(['pressure', 'cloudCover', 'uvIndex', 'precipitationProbability']);
+		expect(getUnavailableVariables(['temperature', 'windGusts', 'visibility'], '15min')).toEqual([]);
+	});
+
+	it('accepts every variable hourly', () => {
+		expect(getUnavailableVariables(['pressure', 'uvIndex'], 'hourly')).toEqual([]);
+	});
+});
+
+describe('getForecastSeries', () => {
+	it('requests the next 24 hours of the needed variables and keeps only the requested ones', async () => {
+		const get = mockOpenMeteo({ timezone: 'America/Toronto', utc_offset_seconds: -14400, hourly: HOURLY });
+
+		const series = await getForecastSeries('45.01', '-75.01', null, ['temperature', 'windGusts']);
+
+		const params = requestedParams(get);
+		expect(params.get('hourly')).toBe('temperature_2m,wind_gusts_10m');
+		expect(params.get('forecast_hours')).toBe('24');
+		expect(params.has('start_hour')).toBe(false);
+		expect(series).toEqual({
+			resolution: 'hourly',
+			timezone: 'America/Toronto',
+			utcOffsetSeconds: -14400,
+			variables: ['temperature', 'windGusts'],
+			entries: [
+				{
+					time: '2025-06-29T00:00',
+					temperature: 18.4,
+					temperatureUnit: '°C',
+					windGusts: 32,
+					windSpeedUnit: 'km/h',
+				},
+				{
+					time: '2025-06-29T01:00',
+					temperature: 17.9,
+					temperatureUnit: '°C',
+					windGusts: 28,
+					windSpeedUnit: 'km/h',
+				},
+			],
+			source: 'Open-Meteo',
+		});
+	});
+
+	it('requests a window by its local start and end', async () => {
+		const get = mockOpenMeteo({ hourly: HOURLY });
+
+		await getForecastSeries('45.02', '-75.02', { from: '2025-06-29T00:00', to: '2025-06-30T23:00' }, ['pressure']);
+
+		const params = requestedParams(get);
+		expect(params.get('start_hour')).toBe('2025-06-29T00:00');
+		expect(params.get('end_hour')).toBe('2025-06-30T23:00');
+		expect(params.has('forecast_hours')).toBe(false);
+	});
+
+	it('requests 15-minute series from the minutely_15 variables', async () => {
+		const get = mockOpenMeteo({
+			minutely_15: { time: ['2025-06-29T00:00', '2025-06-29T00:15'], temperature_2m: [18, 17.8] },
+		});
+
+		const series = await getForecastSeries('45.03', '-75.03', null, ['temperature'], '15min');
+
+		const params = requestedParams(get);
+		expect(params.get('minutely_15')).toBe('temperature_2m');
+		expect(params.get('forecast_minutely_15')).toBe('96');
+		expect(series.entries.map(({ time }) => time)).toEqual(['2025-06-29T00:00', '2025-06-29T00:15']);
+	});
+
+	it('serves repeated requests from the cache', async () => {
+		const get = mockOpenMeteo({ hourly: HOURLY });
+
+		const first = await getForecastSeries('45.04', '-75.04', null, ['temperature', 'pressure']);
+		const second = await getForecastSeries('45.04', '-75.04', null, ['pressure', 'temperature']);
+
+		expect(second).toBe(first);
+		expect(get).toHaveBeenCalledOnce();
+	});
+
+	it('fails on responses without the requested series', async () => {
+		mockOpenMeteo({ hourly: { temperature_2m: [18] } });
+
+		await expect(getForecastSeries('45.05', '-75.05', null, ['temperature'])).rejects.toThrow(
+			'Forecast series unavailable: Invalid response format from Open-Meteo API',
+		);
+	});
+
+	it('reports the reason Open-Meteo gives for rejecting a request', async () => {
+		const reason = 'Parameter start_hour is out of allowed range';
+		vi.spyOn(axios, 'get').mockRejectedValue(
+			new AxiosError('Request failed with status code 400', 'ERR_BAD_REQUEST', undefined, undefined, {
+				status: 400,
+				data: { error: true, reason },
+			} as AxiosResponse),
+		);
+
+		await expect(getForecastSeries('45.06', '-75.06', null, ['temperature'])).rejects.toThrow(
+			`Forecast series unavailable: ${reason}`,
+		);
+	});
+});
+
+describe('GET /weather/hourly validation', () => {
+	it.each([
+		['a start before yesterday', { from: daysFromNow(-3) }],
+		['an end beyond the forecast horizon', { from: daysFromNow(1), to: daysFromNow(MAX_SERIES_DAYS + 2) }],
+		['a start beyond the forecast horizon', { from: daysFromNow(MAX_SERIES_DAYS + 1) }],
+		['an end before the start', { from: `${daysFromNow(2)}T12:00`, to: `${daysFromNow(2)}T06:00` }],
+	])('rejects %s', async (_, window) => {
+		const get = vi.spyOn(axios, 'get');
+
+		const response = await fetch(`${API}/weather/hourly?lat=45.4215&lon=-75.6998&${new URLSearchParams(window)}`);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: 'Invalid time window' });
+		expect(get).not.toHaveBeenCalled();
+	});
+
+	it.each(['2025-06-31', '2025-06-29T24:00', 'tomorrow'])('rejects the malformed time from=%s', async (from) => {
+		const response = await fetch(`${API}/weather/hourly?lat=45.4215&lon=-75.6998&from=${from}`);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: 'Invalid time', provided: from });
+	});
+
+	it('rejects variables without 15-minute data', async () => {
+		const response = await fetch(
+			`${API}/weather/hourly?lat=45.4215&lon=-75.6998&resolution=15min&vars=temperature,pressure,uvIndex`,
+		);
+
+		expect(response.status).toBe(400);
+		const body = await response.json();
+		expect(body).toMatchObject({ error: 'Invalid variables', provided: 'temperature,pressure,uvIndex' });
+		expect(body.message).toContain('pressure, uvIndex');
+	});
+
+	it('requests a window reaching the end of the forecast horizon from its first to its last hour', async () => {
+		const get = mockOpenMeteo({ hourly: HOURLY });
+		const from = daysFromNow(1);
+		const to = daysFromNow(MAX_SERIES_DAYS);
+
+		const response = await fetch(
+			`${API}/weather/hourly?lat=45.07&lon=-75.07&vars=temperature&from=${from}&to=${to}`,
+		);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ period: { from: `${from}T00:00`, to: `${to}T23:00` } });
+		expect(requestedParams(get).get('start_hour')).toBe(`${from}T00:00`);
+		expect(requestedParams(get).get('end_hour')).toBe(`${to}T23:00`);
+	});
+});
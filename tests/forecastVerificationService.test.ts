@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+import { ForecastVerifier, VERIFYING_SOURCE } from '../src/services/forecastVerificationService';
+import { WeatherData } from '../src/services/weatherTypes';
+
+/**
+ * Ottawa, whose local times are Eastern Daylight Time (UTC-4) in the test period
+ */
+const LOCATION = { lat: '45.4215', lon: '-75.6998', lang: 'en' as const };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Hourly forecast for a UTC time, with its local wall-clock time as the weather services give it
+ */
+function hourly(validAt: number, temperature: number, precipitationProbability: number, source = 'Open-Meteo') {
+	const time = new Date(validAt - 4 * HOUR_MS).toISOString().slice(0, 16);
+	return { time, temperature, precipitationProbability, precipitation: null, source };
+}
+
+/**
+ * Environment Canada observation at a UTC time
+ */
+function observation(observedAt: number, temperature: number, condition = 'Sunny') {
+	return {
+		observationTime: new Date(observedAt).toISOString(),
+		condition,
+		sources: {
+			primary: VERIFYING_SOURCE,
+			agreement: { temperature: { values: { [VERIFYING_SOURCE]: temperature } } },
+		},
+	};
+}
+
+/**
+ * Simulates a cache refresh of the test location at a time
+ */
+function refresh(verifier: ForecastVerifier, now: number, current: Record<string, unknown>, lang: 'en' | 'fr' = 'en') {
+	verifier.handleRefresh({ ...LOCATION, lang, previous: null, current: current as Partial<WeatherData> }, now);
+}
+
+const VALID_AT = Date.parse('2025-06-28T18:00:00Z');
+
+describe('ForecastVerifier hourly scores', () => {
+	it('scores temperature and precipitation forecasts once their hour is observed', () => {
+		const verifier = new ForecastVerifier();
+		refresh(verifier, VALID_AT - 2 * HOUR_MS, {
+			hourly: [hourly(VALID_AT, 22, 60), hourly(VALID_AT, 17, 10, VERIFYING_SOURCE)],
+		});
+		expect(verifier.getStats()).toEqual({ locations: 1, pendingForecasts: 2, scoreGroups: 0 });
+
+		refresh(verifier, VALID_AT + 10 * 60000, { current: [observation(VALID_AT + 5 * 60000, 20, 'Light Rain')] });
+
+		const { summary, scores } = verifier.getReport();
+		expect(scores).toEqual([
+			{
+				source: VERIFYING_SOURCE,
+				kind: 'hourly',
+				leadTime: '0-3h',
+				location: { latitude: 45.4215, longitude: -75.6998 },
+				temperature: { count: 1, mae: 3, bias: -3, unit: '°C' },
+				precipitation: { count: 1, hitRate: 0, hits: 0, falseAlarms: 0, misses: 1 },
+			},
+			{
+				source: 'Open-Meteo',
+				kind: 'hourly',
+				leadTime: '0-3h',
+				location: { latitude: 45.4215, longitude: -75.6998 },
+				temperature: { count: 1, mae: 2, bias: 2, unit: '°C' },
+				precipitation: { count: 1, hitRate: 1, hits: 1, falseAlarms: 0, misses: 0 },
+			},
+		]);
+		expect(summary.map(({ source, kind }) => [source, kind])).toEqual([
+			[VERIFYING_SOURCE, 'hourly'],
+			['Open-Meteo', 'hourly'],
+		]);
+		expect(verifier.getStats().pendingForecasts).toBe(0);
+	});
+
+	it('groups forecasts by their lead time', () => {
+		const verifier = new ForecastVerifier();
+		for (const leadHours of [50, 30, 13, 7, 4, 1, 0]) {
+			refresh(verifier, VALID_AT - leadHours * HOUR_MS, { hourly: [hourly(VALID_AT, 20 + leadHours, 0)] });
+		}
+		refresh(verifier, VALID_AT, { current: [observation(VALID_AT, 20)] });
+
+		const { summary, scores } = verifier.getReport();
+		expect(scores.map(({ leadTime, temperature }) => [leadTime, temperature?.count, temperature?.mae])).toEqual([
+			['0-3h', 2, 0.5],
+			['3-6h', 1, 4],
+			['6-12h', 1, 7],
+			['12-24h', 1, 13],
+			['24-48h', 1, 30],
+			['48h+', 1, 50],
+		]);
+		expect(summary).toEqual([
+			{
+				source: 'Open-Meteo',
+				kind: 'hourly',
+				temperature: { count: 7, mae: 15, bias: 15, unit: '°C' },
+				precipitation: { count: 7, hitRate: 1, hits: 0, falseAlarms: 0, misses: 0 },
+			},
+		]);
+	});
+
+	it('scores each observed hour once, whatever the refresh language', () => {
+		const verifier = new ForecastVerifier();
+		refresh(verifier, VALID_AT - HOUR_MS, { hourly: [hourly(VALID_AT, 22, 0)] });
+		refresh(verifier, VALID_AT, { current: [observation(VALID_AT, 20)] });
+		refresh(verifier, VALID_AT, { current: [observation(VALID_AT, 20)], hourly: [hourly(VALID_AT, 25, 0)] }, 'fr');
+
+		expect(verifier.getReport().scores[0].temperature).toMatchObject({ count: 1, mae: 2 });
+		expect(verifier.getStats().pendingForecasts).toBe(0);
+	});
+
+	it('only compares precipitation when the condition is Environment Canada’s observation', () => {
+		const verifier = new ForecastVerifier();
+		const blended = {
+			...observation(VALID_AT, 20, 'Rain'),
+			sources: { ...observation(VALID_AT, 20).sources, primary: 'Open-Meteo' },
+		};
+		refresh(verifier, VALID_AT - HOUR_MS, { hourly: [hourly(VALID_AT, 20, 80)] });
+		refresh(verifier, VALID_AT, { current: [blended] });
+
+		expect(verifier.getReport().scores[0]).toMatchObject({ temperature: { count: 1 }, precipitation: null });
+	});
+
+	it('filters the report by source and location', () => {
+		const verifier = new ForecastVerifier();
+		refresh(verifier, VALID_AT - HOUR_MS, {
+			hourly: [hourly(VALID_AT, 22, 0), hourly(VALID_AT, 21, 0, VERIFYING_SOURCE)],
+		});
+		refresh(verifier, VALID_AT, { current: [observation(VALID_AT, 20)] });
+
+		expect(verifier.getReport({ source: 'Open-Meteo' }).scores).toHaveLength(1);
+		expect(verifier.getReport({ lat: 45.4215, lon: -75.6998 }).scores).toHaveLength(2);
+		expect(verifier.getReport({ lat: 45.42 }).scores).toEqual([]);
+	});
+});
+
+describe('ForecastVerifier daily scores', () => {
+	// 2025-06-28 in Ottawa runs from 04:00 UTC to 04:00 UTC the next day
+	const DAY_START = Date.parse('2025-06-28T04:00:00Z');
+
+	/**
+	 * Archives a day-ahead forecast for 2025-06-28, then observes the given hours of that day and
+	 * one hour of the next day, which completes it
+	 */
+	function observeDay(verifier: ForecastVerifier, observedHours: number) {
+		refresh(verifier, DAY_START - 12 * HOUR_MS, {
+			'14day': [
+				{
+					date: '2025-06-28',
+					temperatureMax: 28,
+					temperatureMin: 15,
+					precipitationProbability: 70,
+					precipitationSum: 5,
+					source: 'Open-Meteo',
+				},
+			],
+		});
+		for (let hour = 0; hour < observedHours; hour++) {
+			const temperature = 14 + hour / 2;
+			refresh(verifier, DAY_START + hour * HOUR_MS, {
+				current: [observation(DAY_START + hour * HOUR_MS, temperature)],
+			});
+		}
+		refresh(verifier, DAY_START + 25 * HOUR_MS, { current: [observation(DAY_START + 25 * HOUR_MS, 18)] });
+	}
+
+	it('scores the high, low and precipitation of a day with at least 18 observed hours', () => {
+		const verifier = new ForecastVerifier();
+		observeDay(verifier, 18);
+
+		expect(verifier.getReport().scores).toEqual([
+			{
+				source: 'Open-Meteo',
+				kind: 'daily',
+				leadTime: '1d',
+				location: { latitude: 45.4215, longitude: -75.6998 },
+				temperature: null,
+				// Observed high 22.5°C and low 14°C; no observation reported precipitation
+				temperatureHigh: { count: 1, mae: 5.5, bias: 5.5, unit: '°C' },
+				temperatureLow: { count: 1, mae: 1, bias: 1, unit: '°C' },
+				precipitation: { count: 1, hitRate: 0, hits: 0, falseAlarms: 1, misses: 0 },
+			},
+		]);
+	});
+
+	it('does not score days with fewer than 18 observed hours', () => {
+		const verifier = new ForecastVerifier();
+		observeDay(verifier, 17);
+
+		expect(verifier.getReport().scores).toEqual([]);
+		expect(verifier.getStats().pendingForecasts).toBe(1);
+	});
+});
+
+describe('ForecastVerifier pruning', () => {
+	it('discards forecasts that were never verified after two days', () => {
+		const verifier = new ForecastVerifier();
+		refresh(verifier, VALID_AT - HOUR_MS, {
+			hourly: [hourly(VALID_AT, 22, 0)],
+			'14day': [
+				{
+					date: '2025-06-28',
+					temperatureMax: 28,
+					temperatureMin: 15,
+					precipitationProbability: 70,
+					precipitationSum: 5,
+					source: 'Open-Meteo',
+				},
+			],
+		});
+		expect(verifier.getStats().pendingForecasts).toBe(2);
+
+		refresh(verifier, VALID_AT + 47 * HOUR_MS, {});
+		expect(verifier.getStats().pendingForecasts).toBe(2);
+
+		refresh(verifier, VALID_AT + 49 * HOUR_MS, {});
+		expect(verifier.getStats().pendingForecasts).toBe(1);
+
+		refresh(verifier, Date.parse('2025-07-01T12:00:00Z'), {});
+		expect(verifier.getStats()).toEqual({ locations: 1, pendingForecasts: 0, scoreGroups: 0 });
+	});
+
+	it('ignores refreshes without data', () => {
+		const verifier = new ForecastVerifier();
+		verifier.handleRefresh({ ...LOCATION, previous: null, current: null }, VALID_AT);
+
+		expect(verifier.getStats()).toEqual({ locations: 0, pendingForecasts: 0, scoreGroups: 0 });
+	});
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { geocodePlace, normalizePlaceName, reverseGeocode } from '../src/services/geocodingService';
+
+describe('normalizePlaceName', () => {
+	it.each([
+		["St. John's", 'saint johns'],
+		['Ste-Foy', 'sainte foy'],
+		['Montréal', 'montreal'],
+		['  Trois-Rivières ', 'trois rivieres'],
+	])('normalizes %s', (name, expected) => {
+		expect(normalizePlaceName(name)).toBe(expected);
+	});
+});
+
+describe('geocodePlace', () => {
+	it.each([
+		['Paris', 'Paris', 'FR', 'France', 'Europe/Paris'],
+		['Tokyo', 'Tokyo', 'JP', 'Japan', 'Asia/Tokyo'],
+		['Ottawa', 'Ottawa', 'CA', 'Canada', 'America/Toronto'],
+		['Montreal', 'Montréal', 'CA', 'Canada', 'America/Toronto'],
+	])('finds the most populous place named %s', (query, name, country, countryName, timezone) => {
+		expect(geocodePlace(query)).toMatchObject({ name, country, countryName, timezone });
+	});
+
+	it.each([
+		['Paris, ON', 'Paris', 'ON', 'Ontario'],
+		['London, Ontario, Canada', 'London', 'ON', 'Ontario'],
+		['Portland, Oregon', 'Portland', 'OR', 'Oregon'],
+		['Portland,ME', 'Portland', 'ME', 'Maine'],
+		['Sudbury, ON', 'Greater Sudbury', 'ON', 'Ontario'],
+	])('narrows %s down by region', (query, name, region, regionName) => {
+		expect(geocodePlace(query)).toMatchObject({ name, region, regionName });
+	});
+
+	it('matches Saint spellings and accents', () => {
+		expect(geocodePlace("Saint John's, NL")?.name).toBe("St. John's");
+		expect(geocodePlace('Quebec, QC')?.name).toBe('Québec');
+	});
+
+	it('finds nothing for unknown names, unmatched qualifiers and empty queries', () => {
+		expect(geocodePlace('Nowhereville')).toBeNull();
+		expect(geocodePlace('Paris, Japan')).toBeNull();
+		expect(geocodePlace(' , ON')).toBeNull();
+	});
+});
+
+describe('reverseGeocode', () => {
+	it.each([
+		[45.42, -75.69, 'Ottawa', 'America/Toronto'],
+		[48.85, 2.35, 'Paris', 'Europe/Paris'],
+		[-33.87, 151.2, 'Sydney', 'Australia/Sydney'],
+	])('names the place nearest to %d, %d', (lat, lon, name, timezone) => {
+		const nearest = reverseGeocode(lat, lon);
+
+		expect(nearest?.place).toMatchObject({ name, timezone });
+		expect(nearest!.distanceKm).toBeLessThan(5);
+	});
+
+	it('finds nothing more than 150 km from any place', () => {
+		expect(reverseGeocode(0, -140)).toBeNull();
+	});
+});
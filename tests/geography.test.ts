@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { calculateHaversineDistance, isPointInCanada, isWithinCoverageRegion } from '../src/services/geography';
+
+describe('isPointInCanada', () => {
+	it.each([
+		['Ottawa', 45.4215, -75.6998],
+		['Vancouver', 49.2827, -123.1207],
+		['Iqaluit', 63.7467, -68.517],
+		['Sault Ste. Marie, ON', 46.5219, -84.3461],
+		['Sarnia, ON', 42.9745, -82.4066],
+		['Windsor, ON', 42.3149, -83.0364],
+		['Pelee Island, ON', 41.7769, -82.6753],
+		['Fort Erie, ON', 42.905, -78.93],
+		['Niagara Falls, ON', 43.0896, -79.0849],
+		['Queenston, ON', 43.163, -79.055],
+		['Kingston, ON', 44.2312, -76.486],
+		['Gananoque, ON', 44.33, -76.16],
+		['Prescott, ON', 44.7106, -75.5182],
+		['Cornwall, ON', 45.0213, -74.7303],
+		['Fort Frances, ON', 48.609, -93.402],
+		['Thunder Bay, ON', 48.3809, -89.2477],
+		['Stanstead, QC', 45.0, -72.1],
+		['Edmundston, NB', 47.3737, -68.3251],
+		['Saint-Léonard, NB', 47.1717, -67.9247],
+		['Qikiqtarjuaq, NU', 67.55, -64.03],
+		['Clyde River, NU', 70.4742, -68.5914],
+		['St. Lawrence, NL', 46.9167, -55.3833],
+	])('places %s in Canada', (_name, lat, lon) => {
+		expect(isPointInCanada(lat, lon)).toBe(true);
+	});
+
+	it.each([
+		['Tokyo', 35.6762, 139.6503],
+		['Seattle', 47.6062, -122.3321],
+		['Sault Ste. Marie, MI', 46.4953, -84.3453],
+		['Port Huron, MI', 42.9709, -82.4249],
+		['Detroit, MI', 42.3314, -83.0458],
+		['Buffalo, NY', 42.8864, -78.8784],
+		['Niagara Falls, NY', 43.0962, -79.0377],
+		['Lewiston, NY', 43.1726, -79.0356],
+		['Cape Vincent, NY', 44.1275, -76.3327],
+		['Alexandria Bay, NY', 44.3359, -75.9177],
+		['Ogdensburg, NY', 44.6942, -75.4863],
+		['Massena, NY', 44.9281, -74.8919],
+		['International Falls, MN', 48.6011, -93.4105],
+		['Duluth, MN', 46.7867, -92.1005],
+		['Cleveland, OH', 41.4993, -81.6944],
+		['Erie, PA', 42.1292, -80.0851],
+		['Rouses Point, NY', 44.9939, -73.3654],
+		['Coburn Gore, ME', 45.4, -70.8],
+		['Jackman, ME', 45.6245, -70.2573],
+		['Madawaska, ME', 47.36, -68.33],
+		['Van Buren, ME', 47.1573, -67.9353],
+		['Saint-Pierre', 46.78, -56.17],
+		['Miquelon', 47.0975, -56.3814],
+		['Nuuk, Greenland', 64.1814, -51.6941],
+	])('places %s outside Canada', (_name, lat, lon) => {
+		expect(isPointInCanada(lat, lon)).toBe(false);
+	});
+});
+
+describe('isWithinCoverageRegion', () => {
+	it('limits Canadian coverage to Canada and leaves global coverage unrestricted', () => {
+		expect(isWithinCoverageRegion({ region: 'canada', description: 'Canada' }, 42.3314, -83.0458)).toBe(false);
+		expect(isWithinCoverageRegion({ region: 'global', description: 'Worldwide' }, 42.3314, -83.0458)).toBe(true);
+	});
+});
+
+describe('calculateHaversineDistance', () => {
+	it('measures the distance between Ottawa and Montreal', () => {
+		expect(calculateHaversineDistance(45.4215, -75.6998, 45.5017, -73.5673)).toBeCloseTo(166.9, 0);
+	});
+});
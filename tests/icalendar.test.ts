@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, CalendarEvent } from '../src/utils/icalendar';
+
+const STAMP = new Date('2025-06-28T12:00:00Z');
+
+const DAY: CalendarEvent = {
+	uid: '2025-06-28@weather.example',
+	start: { date: '2025-06-28' },
+	end: { date: '2025-06-29' },
+	summary: 'Sunny',
+};
+
+/**
+ * Splits a calendar into its physical lines, without the final CRLF
+ */
+function physicalLines(calendar: string): string[] {
+	return calendar.slice(0, -2).split('\r\n');
+}
+
+/**
+ * Unfolds a calendar into its content lines, as RFC 5545 section 3.1 describes
+ */
+function contentLines(calendar: string): string[] {
+	return physicalLines(calendar.replace(/\r\n /g, ''));
+}
+
+describe('buildCalendar', () => {
+	it('wraps events in a calendar with CRLF line endings', () => {
+		const calendar = buildCalendar([DAY], { name: 'Weather', refreshInterval: 'PT1H', stamp: STAMP });
+
+		expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+		expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+		expect(contentLines(calendar)).toEqual([
+			'BEGIN:VCALENDAR',
+			'VERSION:2.0',
+			'PRODID:-//AxleAPI//Weather Calendar 1.0//EN',
+			'CALSCALE:GREGORIAN',
+			'METHOD:PUBLISH',
+			'NAME:Weather',
+			'X-WR-CALNAME:Weather',
+			'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+			'X-PUBLISHED-TTL:PT1H',
+			'BEGIN:VEVENT',
+			'UID:2025-06-28@weather.example',
+			'DTSTAMP:20250628T120000Z',
+			'DTSTART;VALUE=DATE:20250628',
+			'DTEND;VALUE=DATE:20250629',
+			'SUMMARY:Sunny',
+			'TRANSP:TRANSPARENT',
+			'END:VEVENT',
+			'END:VCALENDAR',
+		]);
+	});
+
+	it('gives timed events UTC date-times and their optional properties', () => {
+		const calendar = buildCalendar(
+			[
+				{
+					uid: 'alert-1@weather.example',
+					start: { dateTime: '2025-06-28T10:00:00-04:00' },
+					end: { dateTime: '2025-06-29T02:30:00.500Z' },
+					summary: 'Heat warning',
+					description: 'Hot and humid',
+					url: 'https://weather.gc.ca/warnings/report_e.html?on61',
+					categories: ['Warning', 'Severe'],
+					lastModified: '2025-06-28T09:15:00Z',
+				},
+			],
+			{ name: 'Alerts', stamp: STAMP },
+		);
+
+		expect(contentLines(calendar)).toEqual(
+			expect.arrayContaining([
+				'DTSTART:20250628T140000Z',
+				'DTEND:20250629T023000Z',
+				'DESCRIPTION:Hot and humid',
+				'URL:https://weather.gc.ca/warnings/report_e.html?on61',
+				'CATEGORIES:Warning,Severe',
+				'LAST-MODIFIED:20250628T091500Z',
+			]),
+		);
+	});
+
+	it('escapes backslashes, semicolons, commas and newlines in text values', () => {
+		const calendar = buildCalendar(
+			[
+				{
+					...DAY,
+					summary: 'Rain; heavy at times, 20\\30 mm',
+					description: 'Line one\r\nLine two\nLine three',
+					categories: ['Rain, heavy'],
+				},
+			],
+			{ name: 'Météo; Ottawa', description: 'Forecast, alerts', stamp: STAMP },
+		);
+
+		expect(contentLines(calendar)).toEqual(
+			expect.arrayContaining([
+				'NAME:Météo\\; Ottawa',
+				'X-WR-CALDESC:Forecast\\, alerts',
+				'SUMMARY:Rain\\; heavy at times\\, 20\\\\30 mm',
+				'DESCRIPTION:Line one\\nLine two\\nLine three',
+				'CATEGORIES:Rain\\, heavy',
+			]),
+		);
+	});
+
+	it('folds lines at 75 octets without splitting multi-byte characters', () => {
+		const description =
+			'Températures élevées prévues : maximum de 33 °C, humidex de 40 à 42. ' +
+			'Un épisode de chaleur accablante est prévu à compter d’aujourd’hui pour une durée de trois jours.';
+		const calendar = buildCalendar([{ ...DAY, description }], { name: 'Météo', stamp: STAMP });
+		const lines = physicalLines(calendar);
+		const following = lines.slice(lines.findIndex((line) => line.startsWith('DESCRIPTION:')) + 1);
+		const continuation = following.slice(
+			0,
+			following.findIndex((line) => !line.startsWith(' ')),
+		);
+
+		expect(continuation.length).toBeGreaterThan(1);
+		for (const line of lines) {
+			expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+			expect(line).not.toContain('�');
+		}
+		expect(contentLines(calendar)).toContain(`DESCRIPTION:${description.replace(/,/g, '\\,')}`);
+	});
+
+	it('fills folded lines up to the limit', () => {
+		const calendar = buildCalendar([{ ...DAY, summary: 'é'.repeat(100) }], { name: 'Weather', stamp: STAMP });
+		const lines = physicalLines(calendar);
+		const index = lines.findIndex((line) => line.startsWith('SUMMARY:'));
+
+		// "SUMMARY:" is 8 octets, leaving room for 33 two-octet characters; continuations hold 37
+		expect(lines[index]).toBe(`SUMMARY:${'é'.repeat(33)}`);
+		expect(lines[index + 1]).toBe(` ${'é'.repeat(37)}`);
+		expect(lines[index + 2]).toBe(` ${'é'.repeat(30)}`);
+	});
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createMergePatch } from '../src/utils/mergePatch';
+
+/**
+ * Applies a merge patch as described in RFC 7396, section 2
+ */
+function applyMergePatch(target: unknown, patch: unknown): unknown {
+	if (patch === null || typeof patch !== 'object' || Array.isArray(patch)) {
+		return patch;
+	}
+
+	const result: Record<string, unknown> =
+		target !== null && typeof target === 'object' && !Array.isArray(target) ? { ...target } : {};
+	for (const [key, value] of Object.entries(patch)) {
+		if (value === null) {
+			delete result[key];
+		} else {
+			result[key] = applyMergePatch(result[key], value);
+		}
+	}
+	return result;
+}
+
+describe('createMergePatch', () => {
+	it('returns undefined for equal values', () => {
+		expect(
+			createMergePatch({ a: 1, b: [1, 2], c: { d: null } }, { a: 1, b: [1, 2], c: { d: null } }),
+		).toBeUndefined();
+		expect(createMergePatch(3, 3)).toBeUndefined();
+	});
+
+	it('only includes changed and added keys', () => {
+		expect(createMergePatch({ a: 1, b: { c: 2, d: 3 } }, { a: 1, b: { c: 4, d: 3 }, e: 'new' })).toEqual({
+			b: { c: 4 },
+			e: 'new',
+		});
+	});
+
+	it('deletes removed keys with null', () => {
+		expect(createMergePatch({ a: 1, b: { c: 2, d: 3 } }, { a: 1, b: { c: 2 } })).toEqual({ b: { d: null } });
+		expect(createMergePatch({ a: { b: 1 } }, {})).toEqual({ a: null });
+	});
+
+	it('replaces changed arrays whole', () => {
+		expect(createMergePatch({ list: [{ id: 1 }, { id: 2 }] }, { list: [{ id: 1 }, { id: 3 }] })).toEqual({
+			list: [{ id: 1 }, { id: 3 }],
+		});
+		expect(createMergePatch({ list: [1, 2, 3] }, { list: [1, 2] })).toEqual({ list: [1, 2] });
+	});
+
+	it('replaces values that change between objects and other types', () => {
+		expect(createMergePatch({ a: { b: 1 } }, { a: [1] })).toEqual({ a: [1] });
+		expect(createMergePatch({ a: 'text' }, { a: { b: 1 } })).toEqual({ a: { b: 1 } });
+		expect(createMergePatch([1], { a: 1 })).toEqual({ a: 1 });
+	});
+
+	it('removes fields that become null, which a merge patch cannot set to null', () => {
+		const patch = createMergePatch({ a: 1, b: 2 }, { a: null, b: 2 });
+
+		expect(patch).toEqual({ a: null });
+		expect(applyMergePatch({ a: 1, b: 2 }, patch)).toEqual({ b: 2 });
+	});
+
+	it('produces patches that turn the original into the updated value', () => {
+		const before = {
+			current: [{ temperature: 20, condition: 'Sunny', wind: { speed: 10, gust: 20 } }],
+			alerts: [{ id: 'a' }],
+			metadata: { note: 'unchanged' },
+		};
+		const after = {
+			current: [{ temperature: 21, condition: 'Cloudy', wind: { speed: 12 } }],
+			alerts: [],
+			metadata: { note: 'unchanged', refreshed: true },
+		};
+
+		expect(applyMergePatch(before, createMergePatch(before, after))).toEqual(after);
+	});
+});
@@ -0,0 +1,110 @@
+import axios, { AxiosResponse } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getModelComparison } from '../src/services/modelComparisonService';
+
+const HOURS = ['2025-06-29T00:00', '2025-06-29T01:00', '2025-06-29T02:00'];
+
+/**
+ * Answers Open-Meteo requests with the given hourly and daily series
+ */
+function mockOpenMeteo(hourly: Record<string, Array<number | null>>, daily: Record<string, Array<number | null>>) {
+	return vi.spyOn(axios, 'get').mockResolvedValue({
+		data: {
+			timezone: 'America/Toronto',
+			utc_offset_seconds: -14400,
+			hourly: { time: HOURS, ...hourly },
+			daily: { time: ['2025-06-29'], ...daily },
+		},
+	} as AxiosResponse);
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('getModelComparison', () => {
+	it('requests every model and splits the suffixed series by model', async () => {
+		const get = mockOpenMeteo(
+			{ temperature_2m_gem_seamless: [10, 11, 12], temperature_2m_gfs_seamless: [14, 15, 16] },
+			{ temperature_2m_max_gem_seamless: [25], temperature_2m_max_gfs_seamless: [27] },
+		);
+
+		const comparison = await getModelComparison('45.01', '-75.01', ['gem', 'gfs'], ['temperature'], 1);
+
+		const params = new URL(get.mock.calls[0][0]).searchParams;
+		expect(params.get('models')).toBe('gem_seamless,gfs_seamless');
+		expect(params.get('hourly')).toBe('temperature_2m');
+		expect(params.get('forecast_days')).toBe('1');
+		expect(comparison.models.gem).toMatchObject({
+			name: 'GEM (Environment Canada)',
+			openMeteoModel: 'gem_seamless',
+			hourly: [{ temperature: 10 }, { temperature: 11 }, { temperature: 12 }],
+			daily: [{ date: '2025-06-29', temperatureMax: 25 }],
+		});
+		expect(comparison.models.gfs?.hourly.map((entry) => entry.temperature)).toEqual([14, 15, 16]);
+	});
+
+	it('leaves models without a value out of the spread and nulls values no model has', async () => {
+		mockOpenMeteo(
+			{
+				temperature_2m_gem_seamless: [10, null, null],
+				temperature_2m_gfs_seamless: [14, 12, null],
+				temperature_2m_ecmwf_ifs025: [12.5, null, null],
+			},
+			{
+				temperature_2m_max_gem_seamless: [25],
+				temperature_2m_max_gfs_seamless: [null],
+				temperature_2m_max_ecmwf_ifs025: [28],
+				uv_index_max_gem_seamless: [null],
+				uv_index_max_gfs_seamless: [null],
+				uv_index_max_ecmwf_ifs025: [null],
+			},
+		);
+
+		const { spread } = await getModelComparison('45.02', '-75.02', ['gem', 'gfs', 'ecmwf'], ['temperature'], 1);
+
+		expect(spread.hourly.min.map((entry) => entry.temperature)).toEqual([10, 12, null]);
+		expect(spread.hourly.mean.map((entry) => entry.temperature)).toEqual([12.17, 12, null]);
+		expect(spread.hourly.max.map((entry) => entry.temperature)).toEqual([14, 12, null]);
+		expect(spread.daily.min[0]).toMatchObject({ temperatureMax: 25, uvIndexMax: null });
+		expect(spread.daily.mean[0]).toMatchObject({ temperatureMax: 26.5, uvIndexMax: null });
+		expect(spread.daily.max[0]).toMatchObject({ temperatureMax: 28, uvIndexMax: null });
+	});
+
+	it('copies units and times to the spread and leaves out conditions and directions', async () => {
+		mockOpenMeteo(
+			{ temperature_2m_gem_seamless: [10, 11, 12], temperature_2m_icon_seamless: [11, 12, 13] },
+			{
+				weather_code_gem_seamless: [3],
+				weather_code_icon_seamless: [61],
+				wind_direction_10m_dominant_gem_seamless: [350],
+				wind_direction_10m_dominant_icon_seamless: [10],
+			},
+		);
+
+		const { spread } = await getModelComparison('45.03', '-75.03', ['gem', 'icon'], ['temperature'], 1);
+
+		expect(spread.hourly.mean[0]).toEqual({ time: HOURS[0], temperature: 10.5, temperatureUnit: '°C' });
+		expect(spread.daily.mean[0]).toMatchObject({ date: '2025-06-29', temperatureUnit: '°C' });
+		expect(spread.daily.mean[0]).not.toHaveProperty('condition');
+		expect(spread.daily.mean[0]).not.toHaveProperty('windDirection');
+	});
+
+	it('reads unsuffixed series when a single model is requested', async () => {
+		mockOpenMeteo({ temperature_2m: [9, null, 11] }, { temperature_2m_max: [22] });
+
+		const comparison = await getModelComparison('45.04', '-75.04', ['hrdps'], ['temperature'], 1);
+
+		expect(comparison.models.hrdps?.hourly.map((entry) => entry.temperature)).toEqual([9, null, 11]);
+		expect(comparison.spread.hourly.min.map((entry) => entry.temperature)).toEqual([9, null, 11]);
+		expect(comparison.spread.daily.max[0].temperatureMax).toBe(22);
+	});
+
+	it('fails on responses without hourly or daily series', async () => {
+		vi.spyOn(axios, 'get').mockResolvedValue({ data: { hourly: { time: HOURS } } } as AxiosResponse);
+
+		await expect(getModelComparison('45.05', '-75.05', ['gem', 'gfs'], ['temperature'], 1)).rejects.toThrow(
+			'Model comparison unavailable: Invalid response format from Open-Meteo API',
+		);
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+// Served by the test server started in `tests/setup.ts`; format errors are sent before the endpoint runs
+const API = 'http://localhost:3001/api';
+
+describe('negotiateFormat', () => {
+	it('rejects unsupported formats with a 400 response listing the endpoint formats', async () => {
+		const response = await fetch(`${API}/weather?lat=45.4215&lon=-75.6998&format=pdf`);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({
+			error: 'Invalid format',
+			message: 'Format must be one of: json, xml, csv, geojson',
+			provided: 'pdf',
+		});
+	});
+
+	it('rejects CSV for endpoints without tables', async () => {
+		const response = await fetch(`${API}/astronomy?lat=45.4215&lon=-75.6998&format=csv&lang=fr`);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			error: 'Invalid format',
+			message: 'Le format doit être l’un des suivants : json, xml, geojson',
+			provided: 'csv',
+		});
+	});
+
+	it('rejects unknown tables with a 400 response listing the endpoint tables', async () => {
+		const response = await fetch(`${API}/weather?lat=45.4215&lon=-75.6998&format=csv&table=daily`);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({
+			error: 'Invalid table',
+			message: 'CSV table must be one of: hourly, 14day',
+			provided: 'daily',
+		});
+	});
+
+	it('rejects Accept headers matching no format with a 406 response', async () => {
+		const response = await fetch(`${API}/weather?lat=45.4215&lon=-75.6998`, {
+			headers: { Accept: 'image/png, text/html;q=0.5' },
+		});
+
+		expect(response.status).toBe(406);
+		expect(response.headers.get('vary')).toContain('Accept');
+		expect(await response.json()).toEqual({
+			error: 'Not acceptable',
+			message:
+				'None of the accepted media types is available. Supported media types: application/json, application/xml, text/xml, text/csv, application/geo+json',
+			provided: 'image/png, text/html;q=0.5',
+		});
+	});
+
+	it('does not offer the CSV media type of endpoints without tables', async () => {
+		const response = await fetch(`${API}/astronomy?lat=45.4215&lon=-75.6998`, {
+			headers: { Accept: 'text/csv' },
+		});
+
+		expect(response.status).toBe(406);
+	});
+
+	it('negotiates the format from the Accept header', async () => {
+		const response = await fetch(`${API}/astronomy?lat=45.4215&lon=-75.6998&date=2025-06-21`, {
+			headers: { Accept: 'text/html, application/xml;q=0.9' },
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get('content-type')).toBe('application/xml; charset=utf-8');
+		expect(await response.text()).toMatch(/^<\?xml version="1\.0" encoding="UTF-8"\?>\n<response>/);
+	});
+});
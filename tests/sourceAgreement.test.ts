@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+	AgreementField,
+	assessAgreement,
+	assessSourceQuality,
+	combineConfidence,
+	FieldAgreement,
+} from '../src/services/sourceAgreement';
+
+const NOW = new Date('2025-06-28T12:00:00Z');
+
+/**
+ * Observation time a number of minutes before `NOW`
+ */
+function minutesAgo(minutes: number): string {
+	return new Date(NOW.getTime() - minutes * 60000).toISOString();
+}
+
+describe('assessSourceQuality', () => {
+	it('keeps the full reliability for fresh observations from nearby stations', () => {
+		expect(assessSourceQuality(0.9, minutesAgo(60), 10, 150, NOW)).toEqual({
+			score: 0.9,
+			observationAgeMinutes: 60,
+			stationDistanceKm: 10,
+		});
+	});
+
+	it.each([
+		[90, 0.88],
+		[120, 0.75],
+		[180, 0.5],
+		[600, 0.5],
+	])('decays an observation %d minutes old to %d of its weight', (age, factor) => {
+		expect(assessSourceQuality(1, minutesAgo(age), null, 150, NOW).score).toBe(factor);
+	});
+
+	it.each([
+		[45, 0.88],
+		[80, 0.75],
+		[150, 0.5],
+		[400, 0.5],
+	])('decays a station %d km away to %d of its weight', (distance, factor) => {
+		expect(assessSourceQuality(1, null, distance, 150, NOW).score).toBe(factor);
+	});
+
+	it('halves the weight at the provider’s own maximum station distance', () => {
+		expect(assessSourceQuality(1, null, 30, 50, NOW).score).toBe(0.75);
+		expect(assessSourceQuality(1, null, 50, 50, NOW).score).toBe(0.5);
+	});
+
+	it('combines reliability, age and distance', () => {
+		expect(assessSourceQuality(0.9, minutesAgo(120), 80, 150, NOW)).toEqual({
+			score: 0.51,
+			observationAgeMinutes: 120,
+			stationDistanceKm: 80,
+		});
+	});
+
+	it('treats model data without an observation time or station as fresh and local', () => {
+		expect(assessSourceQuality(0.8, null, undefined, 150, NOW)).toEqual({
+			score: 0.8,
+			observationAgeMinutes: null,
+			stationDistanceKm: null,
+		});
+		expect(assessSourceQuality(0.8, 'not a date', null, 150, NOW).observationAgeMinutes).toBeNull();
+	});
+
+	it('does not reward observations timed in the future', () => {
+		expect(assessSourceQuality(0.8, minutesAgo(-30), 12.345, 150, NOW)).toMatchObject({
+			observationAgeMinutes: 0,
+			stationDistanceKm: 12.3,
+		});
+	});
+});
+
+describe('assessAgreement', () => {
+	const reading = (source: string, value: number, quality: number) => ({ source, value, quality });
+
+	it('gives a single reading the quality of its source', () => {
+		expect(assessAgreement('temperature', [reading('Environment Canada', 12, 0.9)])).toEqual({
+			values: { 'Environment Canada': 12 },
+			unit: '°C',
+			spread: 0,
+			confidence: 0.9,
+			disagreement: false,
+		});
+		expect(assessAgreement('temperature', [])).toBeNull();
+	});
+
+	it('raises the confidence of readings that agree above either source', () => {
+		const agreement = assessAgreement('temperature', [reading('A', 12, 0.9), reading('B', 12, 0.8)]);
+		expect(agreement).toMatchObject({ spread: 0, confidence: 0.98, disagreement: false });
+	});
+
+	it('lowers the confidence as the spread approaches twice the tolerance', () => {
+		const at = (spread: number) =>
+			assessAgreement('temperature', [reading('A', 12, 0.9), reading('B', 12 + spread, 0.8)])!;
+
+		expect(at(3)).toMatchObject({ spread: 3, confidence: 0.76, disagreement: false });
+		expect(at(3.1).disagreement).toBe(true);
+		expect(at(6)).toMatchObject({ confidence: 0.54, disagreement: true });
+		expect(at(7)).toMatchObject({ spread: 7, confidence: 0.54, disagreement: true });
+	});
+
+	it.each([
+		['temperature', 3, '°C'],
+		['dewPoint', 3, '°C'],
+		['humidity', 15, '%'],
+		['windSpeed', 15, 'km/h'],
+		['pressure', 0.5, 'kPa'],
+	] as Array<[AgreementField, number, string]>)(
+		'flags %s once the spread exceeds %d %s',
+		(field, tolerance, unit) => {
+			const within = assessAgreement(field, [reading('A', 100, 0.9), reading('B', 100 + tolerance, 0.8)]);
+			const beyond = assessAgreement(field, [reading('A', 100, 0.9), reading('B', 100 + tolerance * 1.2, 0.8)]);
+
+			expect(within).toMatchObject({ unit, disagreement: false });
+			expect(beyond).toMatchObject({ unit, disagreement: true });
+		},
+	);
+});
+
+describe('combineConfidence', () => {
+	const withConfidence = (confidence: number) => ({ confidence }) as FieldAgreement;
+
+	it('averages the confidence of the compared variables', () => {
+		expect(combineConfidence({ temperature: withConfidence(0.54), humidity: withConfidence(0.98) })).toBe(0.76);
+		expect(combineConfidence({ pressure: withConfidence(0.7) })).toBe(0.7);
+	});
+
+	it('returns null when no variable was compared', () => {
+		expect(combineConfidence({})).toBeNull();
+	});
+});
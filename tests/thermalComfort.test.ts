@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { roundTo } from '../src/services/unitConversion';
+import {
+	calculateDewPoint,
+	calculateFeelsLike,
+	calculateHeatIndex,
+	calculateHumidex,
+	calculateWindChill,
+	getWarmWeatherIndex,
+} from '../src/services/thermalComfort';
+
+describe('thermal indices', () => {
+	it.each([
+		[30, 20, 37.6],
+		[25, 15, 29],
+		[35, 25, 47.3],
+	])('computes the humidex of %d°C with a %d°C dew point', (temperature, dewPoint, expected) => {
+		expect(roundTo(calculateHumidex(temperature, dewPoint), 1)).toBe(expected);
+	});
+
+	it.each([
+		[-20, 30, -32.6],
+		[0, 10, -3.3],
+		[-40, 60, -64.2],
+	])('computes the wind chill of %d°C with %d km/h winds', (temperature, windSpeed, expected) => {
+		expect(roundTo(calculateWindChill(temperature, windSpeed), 1)).toBe(expected);
+	});
+
+	it.each([
+		[32, 60, 37.1],
+		// Steadman's approximation below 80°F
+		[25, 50, 24.9],
+		// Rothfusz regression with the low-humidity adjustment
+		[40, 10, 36.7],
+		// Rothfusz regression with the high-humidity adjustment
+		[28, 90, 34],
+	])('computes the heat index of %d°C at %d% humidity', (temperature, humidity, expected) => {
+		expect(roundTo(calculateHeatIndex(temperature, humidity), 1)).toBe(expected);
+	});
+
+	it('computes the dew point from the relative humidity', () => {
+		expect(roundTo(calculateDewPoint(20, 50)!, 1)).toBe(9.3);
+		expect(calculateDewPoint(20, 100)).toBeCloseTo(20, 5);
+		expect(calculateDewPoint(20, 0)).toBeNull();
+	});
+});
+
+describe('calculateFeelsLike', () => {
+	it('uses the wind chill at 10°C and below with winds of at least 5 km/h', () => {
+		expect(calculateFeelsLike({ temperature: -20, humidity: 70, windSpeed: 30 })).toEqual({
+			value: -32.6,
+			index: 'windChill',
+		});
+		expect(calculateFeelsLike({ temperature: 10, humidity: 70, windSpeed: 5 }).index).toBe('windChill');
+		expect(calculateFeelsLike({ temperature: 10.1, humidity: 70, windSpeed: 30 }).index).toBe('temperature');
+		expect(calculateFeelsLike({ temperature: -20, humidity: 70, windSpeed: 4.9 })).toEqual({
+			value: -20,
+			index: 'temperature',
+		});
+		expect(calculateFeelsLike({ temperature: -20, humidity: 70, windSpeed: null }).index).toBe('temperature');
+	});
+
+	it('uses the humidex from 20°C once it reaches 25', () => {
+		expect(calculateFeelsLike({ temperature: 30, humidity: null, dewPoint: 20, windSpeed: 10 })).toEqual({
+			value: 37.6,
+			index: 'humidex',
+		});
+		// 20°C with a 15°C dew point gives a humidex of 24, below the cut-off
+		expect(calculateFeelsLike({ temperature: 20, humidity: null, dewPoint: 15, windSpeed: 10 }).index).toBe(
+			'temperature',
+		);
+		expect(calculateFeelsLike({ temperature: 19.9, humidity: 100, windSpeed: 10 }).index).toBe('temperature');
+		expect(calculateFeelsLike({ temperature: 25, humidity: 80, windSpeed: 10 }).index).toBe('humidex');
+	});
+
+	it('uses the heat index from 26.7°C outside Canada', () => {
+		expect(calculateFeelsLike({ temperature: 32, humidity: 60, windSpeed: 10 }, 'heatIndex')).toEqual({
+			value: 37.1,
+			index: 'heatIndex',
+		});
+		expect(calculateFeelsLike({ temperature: 26.6, humidity: 90, windSpeed: 10 }, 'heatIndex').index).toBe(
+			'temperature',
+		);
+		expect(calculateFeelsLike({ temperature: 32, humidity: null, windSpeed: 10 }, 'heatIndex').index).toBe(
+			'temperature',
+		);
+	});
+
+	it('prefers station-reported indices over computed ones', () => {
+		expect(calculateFeelsLike({ temperature: -20, humidity: 70, windSpeed: 30, reportedWindChill: -31 })).toEqual({
+			value: -31,
+			index: 'windChill',
+		});
+		expect(
+			calculateFeelsLike({ temperature: 30, humidity: 55, dewPoint: 20, windSpeed: 10, reportedHumidex: 38 }),
+		).toEqual({ value: 38, index: 'humidex' });
+	});
+
+	it('falls back to the apparent temperature only without a temperature', () => {
+		expect(
+			calculateFeelsLike({ temperature: null, humidity: null, windSpeed: null, apparentTemperature: 12.34 }),
+		).toEqual({ value: 12.3, index: 'apparentTemperature' });
+		expect(calculateFeelsLike({ temperature: null, humidity: null, windSpeed: null })).toEqual({
+			value: null,
+			index: null,
+		});
+	});
+});
+
+describe('getWarmWeatherIndex', () => {
+	it('uses the humidex in Canada and the heat index elsewhere', () => {
+		expect(getWarmWeatherIndex(43.6532, -79.3832)).toBe('humidex');
+		expect(getWarmWeatherIndex(42.3314, -83.0458)).toBe('heatIndex');
+	});
+});
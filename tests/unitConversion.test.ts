@@ -0,0 +1,304 @@
+import { describe, expect, it } from 'vitest';
+import { validateWeatherQuery } from '../src/controllers/WeatherController';
+import {
+	applyUnits,
+	convertSection,
+	convertValue,
+	createUnitOptions,
+	getUnitsFor,
+	MAX_PRECISION,
+	resolveUnit,
+	roundTo,
+	UNIT_SYSTEMS,
+} from '../src/services/unitConversion';
+
+/**
+ * Current conditions in the canonical metric units, with every unit-labelled field
+ */
+const CURRENT = {
+	temperature: 20,
+	temperatureUnit: '°C',
+	humidex: 25,
+	windChill: -10,
+	feelsLike: 25,
+	feelsLikeUnit: '°C',
+	dewPoint: 10,
+	dewPointUnit: '°C',
+	windSpeed: 36,
+	windSpeedUnit: 'km/h',
+	windGust: 54,
+	windGustUnit: 'km/h',
+	pressure: 101.3,
+	pressureUnit: 'kPa',
+	visibility: 16.1,
+	visibilityUnit: 'km',
+	precipitation: { past1Hr: 2.5, past3Hr: null, past6Hr: null, past24Hr: 12.7, unit: 'mm' },
+	humidity: 55,
+	humidityUnit: '%',
+};
+
+const HOURLY = {
+	time: '2025-06-28T15:00',
+	temperature: 20,
+	temperatureUnit: '°C',
+	feelsLike: 20,
+	feelsLikeUnit: '°C',
+	dewPoint: 10,
+	dewPointUnit: '°C',
+	precipitation: 25.4,
+	precipitationUnit: 'mm',
+	windSpeed: 36,
+	windGusts: 72,
+	windSpeedUnit: 'km/h',
+	pressure: 100,
+	pressureUnit: 'kPa',
+	visibility: 1.609344,
+	visibilityUnit: 'km',
+	humidity: 55,
+	humidityUnit: '%',
+};
+
+const SEVEN_DAY = {
+	date: '2025-06-28',
+	temperatureHigh: 30,
+	temperatureLow: 10,
+	temperatureUnit: '°C',
+	day: {
+		period: 'Saturday',
+		temperature: 30,
+		temperatureUnit: '°C',
+		precipitation: { type: 'rain', amount: 25.4, unit: 'mm' },
+	},
+	night: { period: 'Saturday night', temperature: 10, temperatureUnit: '°C', precipitation: null },
+};
+
+const FOURTEEN_DAY = {
+	date: '2025-06-28',
+	temperatureMax: 30,
+	temperatureMin: 10,
+	temperatureUnit: '°C',
+	feelsLikeMax: 35,
+	feelsLikeMin: 5,
+	feelsLikeUnit: '°C',
+	precipitationSum: 50.8,
+	precipitationUnit: 'mm',
+	windSpeedMax: 18,
+	windGustsMax: 36,
+	windSpeedUnit: 'km/h',
+};
+
+describe('convertValue', () => {
+	it.each([
+		[20, '°C', '°F', 68],
+		[-40, '°C', '°F', -40],
+		[0, '°C', 'K', 273.15],
+		[100, 'km/h', 'mph', 62.137],
+		[100, 'km/h', 'kn', 53.996],
+		[36, 'km/h', 'm/s', 10],
+		[101.325, 'kPa', 'hPa', 1013.25],
+		[101.325, 'kPa', 'inHg', 29.921],
+		[1, 'mmHg', 'kPa', 0.133],
+		[100, 'kPa', 'Pa', 100000],
+		[1, 'mi', 'km', 1.609],
+		[1, 'km', 'm', 1000],
+		[25.4, 'mm', 'in', 1],
+		[10, 'mm', 'cm', 1],
+	])('converts %d %s to %s', (value, from, to, expected) => {
+		expect(roundTo(convertValue(value, from, to)!, 3)).toBeCloseTo(expected, 3);
+	});
+
+	it('accepts aliases for both units', () => {
+		expect(convertValue(10, 'kts', 'kph')).toBeCloseTo(18.52, 5);
+		expect(convertValue(1000, 'mbar', 'kPa')).toBeCloseTo(100, 5);
+	});
+
+	it('returns null for missing values and incompatible or unknown units', () => {
+		expect(convertValue(null, '°C', '°F')).toBeNull();
+		expect(convertValue(NaN, '°C', '°F')).toBeNull();
+		expect(convertValue(10, 'km/h', 'kPa')).toBeNull();
+		expect(convertValue(10, 'furlongs', 'km')).toBeNull();
+	});
+});
+
+describe('resolveUnit', () => {
+	it.each([
+		['knots', 'kn'],
+		['KT', 'kn'],
+		['MB', 'hPa'],
+		['Celsius', '°C'],
+		['f', '°F'],
+		['kelvin', 'K'],
+		['kmh', 'km/h'],
+		['mps', 'm/s'],
+		[' inhg ', 'inHg'],
+		['MI', 'mi'],
+	])('resolves %s to %s', (unit, expected) => {
+		expect(resolveUnit(unit)).toBe(expected);
+	});
+
+	it('keeps the case-sensitive label when two units differ only by case', () => {
+		expect(resolveUnit('m')).toBe('m');
+		expect(resolveUnit('Pa')).toBe('Pa');
+	});
+
+	it('rejects unknown units and units of another quantity', () => {
+		expect(resolveUnit('furlongs')).toBeNull();
+		expect(resolveUnit('')).toBeNull();
+		expect(resolveUnit(null)).toBeNull();
+		expect(resolveUnit('mph', 'pressure')).toBeNull();
+		expect(resolveUnit('mb', 'pressure')).toBe('hPa');
+	});
+});
+
+describe('getUnitsFor', () => {
+	it('lists the units of each quantity, including the units of every system', () => {
+		expect(getUnitsFor('speed')).toEqual(['km/h', 'mph', 'kn', 'm/s']);
+		for (const units of Object.values(UNIT_SYSTEMS)) {
+			for (const [quantity, unit] of Object.entries(units)) {
+				expect(getUnitsFor(quantity as keyof typeof units)).toContain(unit);
+			}
+		}
+	});
+});
+
+describe('applyUnits', () => {
+	const data = { current: [CURRENT], hourly: [HOURLY], '7day': [SEVEN_DAY], '14day': [FOURTEEN_DAY], alerts: [] };
+
+	it('keeps metric values, rounded to the default precision of each unit', () => {
+		const metric = applyUnits(data, createUnitOptions('metric'));
+		expect(metric.current[0]).toEqual(CURRENT);
+		expect(metric.hourly[0]).toEqual({ ...HOURLY, visibility: 1.6 });
+		expect(metric['14day'][0]).toEqual(FOURTEEN_DAY);
+	});
+
+	it('converts every section to imperial units with their default precision', () => {
+		const imperial = applyUnits(data, createUnitOptions('imperial'));
+
+		expect(imperial.current[0]).toMatchObject({
+			temperature: 68,
+			temperatureUnit: '°F',
+			humidex: 77,
+			windChill: 14,
+			feelsLike: 77,
+			dewPoint: 50,
+			windSpeed: 22.4,
+			windSpeedUnit: 'mph',
+			windGust: 33.6,
+			windGustUnit: 'mph',
+			pressure: 29.91,
+			pressureUnit: 'inHg',
+			visibility: 10,
+			visibilityUnit: 'mi',
+			precipitation: { past1Hr: 0.1, past3Hr: null, past6Hr: null, past24Hr: 0.5, unit: 'in' },
+			humidity: 55,
+		});
+		expect(imperial.hourly[0]).toMatchObject({ precipitation: 1, windGusts: 44.7, visibility: 1 });
+		expect(imperial['7day'][0]).toMatchObject({
+			temperatureHigh: 86,
+			temperatureLow: 50,
+			day: { temperature: 86, temperatureUnit: '°F', precipitation: { type: 'rain', amount: 1, unit: 'in' } },
+			night: { temperature: 50, temperatureUnit: '°F', precipitation: null },
+		});
+		expect(imperial['14day'][0]).toMatchObject({
+			temperatureMax: 86,
+			feelsLikeMin: 41,
+			precipitationSum: 2,
+			windGustsMax: 22.4,
+		});
+		expect(imperial.alerts).toEqual([]);
+	});
+
+	it('converts to SI units', () => {
+		const si = applyUnits(data, createUnitOptions('si'));
+
+		expect(si.current[0]).toMatchObject({
+			temperature: 293.2,
+			temperatureUnit: 'K',
+			windSpeed: 10,
+			windSpeedUnit: 'm/s',
+			pressure: 101300,
+			pressureUnit: 'Pa',
+			visibility: 16100,
+			visibilityUnit: 'm',
+			precipitation: { past1Hr: 2.5, unit: 'mm' },
+		});
+	});
+
+	it('applies per-quantity overrides on top of the system', () => {
+		const options = createUnitOptions('imperial', { speed: 'kn', pressure: 'hPa' });
+		const [current] = convertSection([CURRENT], 'current', options);
+
+		expect(current).toMatchObject({ temperatureUnit: '°F', windSpeed: 19.4, windSpeedUnit: 'kn', pressure: 1013 });
+	});
+
+	it('rounds every converted value to the requested precision', () => {
+		const [current] = convertSection([CURRENT], 'current', createUnitOptions('imperial', {}, 3));
+
+		expect(current.temperature).toBe(68);
+		expect(current.windSpeed).toBe(22.369);
+		expect(current.pressure).toBe(29.914);
+	});
+
+	it('labels every field listed for each section with the requested unit', () => {
+		const imperial = applyUnits(data, createUnitOptions('imperial'));
+		const unitsOf = (entry: Record<string, unknown>) =>
+			Object.entries(entry).filter(([key]) => key.endsWith('Unit') && key !== 'humidityUnit');
+
+		for (const entry of [imperial.current[0], imperial.hourly[0], imperial['14day'][0]]) {
+			for (const [field, unit] of unitsOf(entry)) {
+				expect(Object.values(UNIT_SYSTEMS.imperial), field).toContain(unit);
+			}
+		}
+	});
+
+	it('converts forecast period amounts from the unit they were forecast in', () => {
+		const entry = {
+			...SEVEN_DAY,
+			day: { ...SEVEN_DAY.day, precipitation: { type: 'snow', amount: 5, unit: 'cm' } },
+		};
+
+		const [imperial] = convertSection([entry], '7day', createUnitOptions('imperial'));
+		const [metric] = convertSection([entry], '7day', createUnitOptions('metric', { precipitation: 'cm' }));
+
+		expect(imperial.day.precipitation).toEqual({ type: 'snow', amount: 1.97, unit: 'in' });
+		expect(metric.day.precipitation).toEqual({ type: 'snow', amount: 5, unit: 'cm' });
+	});
+
+	it('recomputes the agreement spread after converting provider readings', () => {
+		const current = {
+			...CURRENT,
+			sources: {
+				agreement: {
+					temperature: { values: { A: 20, B: 22 }, unit: '°C', spread: 2, tolerance: 2, agrees: true },
+				},
+			},
+		};
+		const [converted] = convertSection([current], 'current', createUnitOptions('imperial'));
+
+		expect(converted.sources.agreement.temperature).toMatchObject({
+			values: { A: 68, B: 72 },
+			unit: '°F',
+			spread: 4,
+		});
+	});
+});
+
+describe('precision parameter', () => {
+	it.each(['0', String(MAX_PRECISION)])('accepts precision=%s', (precision) => {
+		const validated = validateWeatherQuery({ precision });
+		expect('value' in validated && validated.value.units.precision).toBe(Number(precision));
+	});
+
+	it.each(['-1', String(MAX_PRECISION + 1), '1.5', 'two'])('rejects precision=%s', (precision) => {
+		const validated = validateWeatherQuery({ precision });
+		expect('error' in validated && validated.error.status).toBe(400);
+	});
+
+	it('rejects unknown unit systems and overrides of the wrong quantity', () => {
+		expect(validateWeatherQuery({ units: 'nautical' })).toMatchObject({ error: { status: 400 } });
+		expect(validateWeatherQuery({ wind: 'kPa' })).toMatchObject({ error: { status: 400 } });
+		expect(validateWeatherQuery({ units: 'si', wind: 'knots' })).toMatchObject({
+			value: { units: { system: 'si', units: { speed: 'kn', temperature: 'K' } } },
+		});
+	});
+});
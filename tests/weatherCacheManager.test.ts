@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WeatherCacheManager } from '../src/services/weatherCacheManager';
+
+/**
+ * Cache manager whose fetcher counts its calls and returns the call number
+ */
+function createManager() {
+	let fetches = 0;
+	const manager = new WeatherCacheManager('test', async (lat, lon, lang) => ({ lat, lon, lang, fetch: ++fetches }));
+	return { manager, fetchCount: () => fetches };
+}
+
+describe('WeatherCacheManager.getOrFetch', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('fetches uncached locations once without starting to cache them', async () => {
+		vi.useFakeTimers();
+		const { manager, fetchCount } = createManager();
+
+		expect(await manager.getOrFetch('45.42', '-75.7', 'en')).toEqual({
+			lat: '45.42',
+			lon: '-75.7',
+			lang: 'en',
+			fetch: 1,
+		});
+		expect(await manager.getOrFetch('45.42', '-75.7', 'en')).toMatchObject({ fetch: 1 });
+		expect(manager.isCaching('45.42', '-75.7', 'en')).toBe(false);
+		expect(manager.getCacheStats().totalLocations).toBe(0);
+
+		// No refresh is scheduled for the location
+		await vi.advanceTimersByTimeAsync(9 * 60 * 1000);
+		expect(fetchCount()).toBe(1);
+		expect(vi.getTimerCount()).toBe(0);
+	});
+
+	it('fetches again once the lookup is older than the refresh interval', async () => {
+		vi.useFakeTimers();
+		const { manager } = createManager();
+
+		await manager.getOrFetch('45.42', '-75.7', 'en');
+		vi.advanceTimersByTime(10 * 60 * 1000);
+
+		expect(await manager.getOrFetch('45.42', '-75.7', 'en')).toMatchObject({ fetch: 2 });
+	});
+
+	it('keeps languages apart', async () => {
+		const { manager } = createManager();
+
+		await manager.getOrFetch('45.42', '-75.7', 'en');
+		expect(await manager.getOrFetch('45.42', '-75.7', 'fr')).toMatchObject({ lang: 'fr', fetch: 2 });
+	});
+
+	it('serves locations that are already cached from the cache', async () => {
+		const { manager, fetchCount } = createManager();
+		await manager.startCaching('45.42', '-75.7', 'en');
+
+		expect(await manager.getOrFetch('45.42', '-75.7', 'en')).toMatchObject({
+			fetch: 1,
+			metadata: { cache: { cached: true } },
+		});
+		expect(fetchCount()).toBe(1);
+		manager.stopCaching('45.42', '-75.7', 'en');
+	});
+
+	it('does not keep failed lookups', async () => {
+		let fail = true;
+		const manager = new WeatherCacheManager('test', async () => {
+			if (fail) {
+				throw new Error('Upstream unavailable');
+			}
+			return { ok: true };
+		});
+
+		await expect(manager.getOrFetch('45.42', '-75.7', 'en')).rejects.toThrow('Upstream unavailable');
+		fail = false;
+		expect(await manager.getOrFetch('45.42', '-75.7', 'en')).toEqual({ ok: true });
+	});
+});
+
+describe('WeatherCacheManager.retain', () => {
+	it('keeps refreshing a location until its last holder releases it', async () => {
+		vi.useFakeTimers();
+		const { manager, fetchCount } = createManager();
+		await manager.startCaching('45.42', '-75.7', 'en');
+		manager.retain('45.42', '-75.7', 'en');
+		manager.retain('45.42', '-75.7', 'en');
+
+		manager.release('45.42', '-75.7', 'en');
+		await vi.advanceTimersByTimeAsync(10 * 60 * 1000);
+		expect(manager.isCaching('45.42', '-75.7', 'en')).toBe(true);
+		expect(fetchCount()).toBe(2);
+
+		manager.release('45.42', '-75.7', 'en');
+		expect(manager.isCaching('45.42', '-75.7', 'en')).toBe(false);
+		expect(vi.getTimerCount()).toBe(0);
+		vi.useRealTimers();
+	});
+
+	it('keeps holders of each language apart', async () => {
+		const { manager } = createManager();
+		await manager.startCaching('45.42', '-75.7', 'en');
+		await manager.startCaching('45.42', '-75.7', 'fr');
+		manager.retain('45.42', '-75.7', 'en');
+		manager.retain('45.42', '-75.7', 'fr');
+
+		manager.release('45.42', '-75.7', 'fr');
+		expect(manager.isCaching('45.42', '-75.7', 'en')).toBe(true);
+		expect(manager.isCaching('45.42', '-75.7', 'fr')).toBe(false);
+		manager.release('45.42', '-75.7', 'en');
+	});
+});
@@ -0,0 +1,197 @@
+import axios, { AxiosResponse } from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { countGridCells, getWeatherGrid, MAX_GRID_CELLS } from '../src/services/weatherGridService';
+
+const API = 'http://localhost:3001/api';
+
+/**
+ * Open-Meteo hourly response for one coordinate with the given temperature
+ */
+function createCellResponse(temperature: number, time = '2025-06-29T18:00') {
+	return { hourly: { time: [time], temperature_2m: [temperature] } };
+}
+
+/**
+ * Answers every Open-Meteo request with one response per requested coordinate, numbering the
+ * temperatures from 1 across requests
+ */
+function mockOpenMeteo() {
+	let count = 0;
+	return vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+		const latitudes = new URL(url).searchParams.get('latitude')!.split(',');
+		const results = latitudes.map(() => createCellResponse(++count));
+		return { data: results.length === 1 ? results[0] : results } as AxiosResponse;
+	});
+}
+
+/**
+ * Coordinates requested by a mocked call
+ */
+function requestedCoordinates(get: ReturnType<typeof mockOpenMeteo>, call = 0) {
+	const params = new URL(get.mock.calls[call][0]).searchParams;
+	return { latitudes: params.get('latitude')!.split(','), longitudes: params.get('longitude')!.split(',') };
+}
+
+afterEach(() => {
+	vi.restoreAllMocks();
+});
+
+describe('countGridCells', () => {
+	it.each([
+		['edges on lattice lines', { west: -76, south: 45, east: -75, north: 46 }, 0.5, 4],
+		['edges between lattice lines', { west: -75.9, south: 45.1, east: -75.4, north: 45.6 }, 0.25, 9],
+		['edges inside one cell', { west: -75.7, south: 45.1, east: -75.6, north: 45.2 }, 0.25, 1],
+		['edges with floating-point error', { west: 0, south: 0, east: 0.1 * 3, north: 0.1 * 3 }, 0.1, 9],
+		['the whole globe', { west: -180, south: -90, east: 180, north: 90 }, 5, 72 * 36],
+	])('counts the cells covering %s', (_, bounds, resolution, cells) => {
+		expect(countGridCells(bounds, resolution)).toBe(cells);
+	});
+});
+
+describe('getWeatherGrid', () => {
+	it('expands the bounds to the lattice and orders cells from the north-west corner', async () => {
+		const get = mockOpenMeteo();
+
+		const grid = await getWeatherGrid(
+			{ west: -75.9, south: 45.1, east: -75.4, north: 45.6 },
+			0.25,
+			'temperature',
+			'2025-06-29T01:00',
+		);
+
+		expect(grid).toMatchObject({
+			bounds: { west: -76, south: 45, east: -75.25, north: 45.75 },
+			resolution: 0.25,
+			rows: 3,
+			columns: 3,
+			cachedCells: 0,
+		});
+		expect(grid.cells[0]).toMatchObject({
+			row: 0,
+			column: 0,
+			latitude: 45.625,
+			longitude: -75.875,
+			bounds: { west: -76, south: 45.5, east: -75.75, north: 45.75 },
+			entry: { temperature: 1, temperatureUnit: '°C' },
+		});
+		expect(grid.cells[8]).toMatchObject({ row: 2, column: 2, latitude: 45.125, longitude: -75.375 });
+		expect(grid.cells.map((cell) => cell.entry?.temperature)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+		const { latitudes, longitudes } = requestedCoordinates(get);
+		expect(latitudes.slice(0, 4)).toEqual(['45.625', '45.625', '45.625', '45.375']);
+		expect(longitudes.slice(0, 4)).toEqual(['-75.875', '-75.625', '-75.375', '-75.875']);
+	});
+
+	it('reads the single object Open-Meteo answers one coordinate with', async () => {
+		const get = mockOpenMeteo();
+
+		const grid = await getWeatherGrid(
+			{ west: 10.1, south: 50.1, east: 10.2, north: 50.2 },
+			0.5,
+			'temperature',
+			'2025-06-29T02:00',
+		);
+
+		expect(get.mock.calls).toHaveLength(1);
+		expect(requestedCoordinates(get)).toEqual({ latitudes: ['50.25'], longitudes: ['10.25'] });
+		expect(grid.cells).toHaveLength(1);
+		expect(grid.cells[0].entry).toMatchObject({ temperature: 1 });
+	});
+
+	it('keeps a null entry for coordinates Open-Meteo has no series for', async () => {
+		vi.spyOn(axios, 'get').mockResolvedValue({
+			data: [createCellResponse(12), { hourly: { time: [] } }, {}, createCellResponse(15)],
+		} as AxiosResponse);
+
+		const grid = await getWeatherGrid(
+			{ west: 20, south: 30, east: 21, north: 31 },
+			0.5,
+			'temperature',
+			'2025-06-29T03:00',
+		);
+
+		expect(grid.cells.map((cell) => cell.entry?.temperature ?? null)).toEqual([12, null, null, 15]);
+	});
+
+	it('splits large grids into requests of at most 100 coordinates', async () => {
+		const get = mockOpenMeteo();
+
+		const grid = await getWeatherGrid(
+			{ west: 0, south: 0, east: 11, north: 10 },
+			1,
+			'temperature',
+			'2025-06-29T04:00',
+		);
+
+		expect(grid.cells).toHaveLength(110);
+		expect(get.mock.calls.map((_, call) => requestedCoordinates(get, call).latitudes.length)).toEqual([100, 10]);
+		expect(grid.cells[109].entry).toMatchObject({ temperature: 110 });
+	});
+
+	it('serves cached cells and fetches only the missing ones', async () => {
+		const get = mockOpenMeteo();
+		await getWeatherGrid({ west: 30, south: 30, east: 31, north: 31 }, 0.5, 'temperature', '2025-06-29T05:00');
+
+		const grid = await getWeatherGrid(
+			{ west: 30, south: 30, east: 31.5, north: 31 },
+			0.5,
+			'temperature',
+			'2025-06-29T05:00',
+		);
+
+		expect(grid.cachedCells).toBe(4);
+		expect(get.mock.calls).toHaveLength(2);
+		expect(requestedCoordinates(get, 1)).toEqual({ latitudes: ['30.75', '30.25'], longitudes: ['31.25', '31.25'] });
+		expect(grid.cells.map((cell) => cell.entry?.temperature)).toEqual([1, 2, 5, 3, 4, 6]);
+	});
+
+	it('fails when Open-Meteo returns a different number of coordinates', async () => {
+		vi.spyOn(axios, 'get').mockResolvedValue({ data: [createCellResponse(12)] } as AxiosResponse);
+
+		await expect(
+			getWeatherGrid({ west: 40, south: 30, east: 41, north: 31 }, 0.5, 'temperature', '2025-06-29T06:00'),
+		).rejects.toThrow('Weather grid unavailable: Invalid response format from Open-Meteo API');
+	});
+});
+
+describe('GET /weather/grid validation', () => {
+	it.each([
+		['a missing bounding box', ''],
+		['too few edges', 'bbox=-76,45,-75'],
+		['a non-numeric edge', 'bbox=-76,45,east,46'],
+		['a west edge east of the east edge', 'bbox=-75,45,-76,46'],
+		['a south edge north of the north edge', 'bbox=-76,46,-75,45'],
+		['edges beyond the globe', 'bbox=-181,45,-75,46'],
+	])('rejects %s', async (_, query) => {
+		const response = await fetch(`${API}/weather/grid?${query}`);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: 'Invalid bounding box' });
+	});
+
+	it(`rejects grids of more than ${MAX_GRID_CELLS} cells before fetching anything`, async () => {
+		const get = vi.spyOn(axios, 'get');
+
+		const response = await fetch(`${API}/weather/grid?bbox=-80,40,-73.5,46.5&resolution=0.25`);
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			error: 'Grid too large',
+			provided: { bbox: '-80,40,-73.5,46.5', resolution: 0.25 },
+		});
+		expect(get).not.toHaveBeenCalled();
+	});
+
+	it(`accepts grids of exactly ${MAX_GRID_CELLS} cells`, async () => {
+		mockOpenMeteo();
+
+		const response = await fetch(`${API}/weather/grid?bbox=-80,40,-73.75,46.25&resolution=0.25`);
+
+		expect(response.status).toBe(200);
+		const body = await response.json();
+		expect(body.grid).toMatchObject({ rows: 25, columns: 25 });
+		expect(body.data.latitudes[0]).toBe(46.125);
+		expect(body.data.longitudes[0]).toBe(-79.875);
+		expect(body.data.values[0].slice(0, 3)).toEqual([1, 2, 3]);
+	});
+});
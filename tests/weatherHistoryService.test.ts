@@ -0,0 +1,119 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getWeatherHistory } from '../src/services/weatherHistoryService';
+
+const NOW = new Date('2025-06-29T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Answers Open-Meteo archive requests with one day of daily temperatures, numbering the
+ * maximum temperature from 1 across requests
+ */
+function mockArchive() {
+	let count = 0;
+	return vi.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+		const date = new URL(url).searchParams.get('start_date');
+		return {
+			data: { daily: { time: [date], temperature_2m_max: [++count], temperature_2m_min: [10] } },
+		} as AxiosResponse;
+	});
+}
+
+beforeEach(() => {
+	// Only the clock is faked, so the test server keeps answering
+	vi.useFakeTimers({ toFake: ['Date'] });
+	vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe('getWeatherHistory', () => {
+	it('requests the archive variables of the requested groups', async () => {
+		const get = mockArchive();
+
+		const history = await getWeatherHistory('45.4215', '-75.01', '2025-06-01', '2025-06-01', ['temperature']);
+
+		const params = new URL(get.mock.calls[0][0]).searchParams;
+		expect(params.get('daily')).toBe('temperature_2m_max,temperature_2m_min');
+		expect(params.get('hourly')).toBe('temperature_2m');
+		expect(history).toMatchObject({
+			start: '2025-06-01',
+			end: '2025-06-01',
+			variables: ['temperature'],
+			daily: [{ date: '2025-06-01', temperatureMax: 1, temperatureMin: 10 }],
+			source: 'Open-Meteo Archive',
+		});
+	});
+
+	it('keeps ranges of settled days cached indefinitely', async () => {
+		const get = mockArchive();
+		const first = await getWeatherHistory('45.4215', '-75.02', '2025-06-20', '2025-06-23', ['temperature']);
+
+		vi.setSystemTime(NOW.getTime() + 30 * 24 * HOUR_MS);
+		const second = await getWeatherHistory('45.4215', '-75.02', '2025-06-20', '2025-06-23', ['temperature']);
+
+		expect(second).toBe(first);
+		expect(get).toHaveBeenCalledOnce();
+	});
+
+	it('refreshes ranges reaching the last five days after an hour', async () => {
+		const get = mockArchive();
+		const first = await getWeatherHistory('45.4215', '-75.03', '2025-06-20', '2025-06-24', ['temperature']);
+
+		vi.setSystemTime(NOW.getTime() + HOUR_MS - 1);
+		expect(await getWeatherHistory('45.4215', '-75.03', '2025-06-20', '2025-06-24', ['temperature'])).toBe(first);
+		expect(get).toHaveBeenCalledOnce();
+
+		vi.setSystemTime(NOW.getTime() + HOUR_MS);
+		const refreshed = await getWeatherHistory('45.4215', '-75.03', '2025-06-20', '2025-06-24', ['temperature']);
+		expect(refreshed).not.toBe(first);
+		expect(refreshed.daily[0].temperatureMax).toBe(2);
+		expect(get).toHaveBeenCalledTimes(2);
+	});
+
+	it('caches requests for the same variables in any order together', async () => {
+		const get = mockArchive();
+
+		await getWeatherHistory('45.4215', '-75.04', '2025-06-01', '2025-06-02', ['wind', 'temperature']);
+		await getWeatherHistory('45.4215', '-75.04', '2025-06-01', '2025-06-02', ['temperature', 'wind']);
+		await getWeatherHistory('45.4215', '-75.04', '2025-06-01', '2025-06-02', ['temperature']);
+		await getWeatherHistory('45.4215', '-75.04', '2025-06-01', '2025-06-02', ['temperature', 'wind'], 'fr');
+
+		expect(get).toHaveBeenCalledTimes(3);
+	});
+
+	it('evicts the least recently used range when 500 ranges are cached', async () => {
+		const get = mockArchive();
+		const request = (index: number) =>
+			getWeatherHistory(`${index / 100}`, '-75.05', '2025-06-01', '2025-06-01', ['temperature']);
+		for (let index = 0; index < 500; index++) {
+			await request(index);
+		}
+
+		// Reading the oldest range makes the second one the least recently used
+		await request(0);
+		await request(500);
+		expect(get).toHaveBeenCalledTimes(501);
+
+		await request(0);
+		expect(get).toHaveBeenCalledTimes(501);
+		await request(1);
+		expect(get).toHaveBeenCalledTimes(502);
+	});
+
+	it('reports the reason the archive gives for rejecting a request', async () => {
+		vi.spyOn(axios, 'get').mockRejectedValue(
+			new AxiosError('Request failed with status code 400', 'ERR_BAD_REQUEST', undefined, undefined, {
+				status: 400,
+				data: { error: true, reason: 'Parameter end_date is out of allowed range' },
+			} as AxiosResponse),
+		);
+
+		await expect(
+			getWeatherHistory('45.4215', '-75.06', '2025-06-01', '2025-06-01', ['temperature']),
+		).rejects.toThrow('Weather history unavailable: Parameter end_date is out of allowed range');
+	});
+});
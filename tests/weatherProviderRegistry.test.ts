@@ -0,0 +1,221 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { weatherProviderConfig } from '../src/config/weatherProviders';
+import { getAdvancedWeatherData } from '../src/services/advancedWeatherService';
+import { WeatherProviderRegistry, weatherProviderRegistry } from '../src/services/weatherProviderRegistry';
+import { ProviderCurrentConditions, ProviderRequest, WeatherProvider } from '../src/services/weatherTypes';
+
+const OTTAWA: ProviderRequest = { lat: '45.4215', lon: '-75.6998' };
+const SEATTLE: ProviderRequest = { lat: '47.6062', lon: '-122.3321' };
+
+/**
+ * Provider serving the whole world with the given current temperature, unless overridden
+ */
+function createProvider(id: string, overrides: Partial<WeatherProvider> = {}, temperature = 20): WeatherProvider {
+	const current: ProviderCurrentConditions = {
+		temperature,
+		condition: `Reported by ${id}`,
+		humidity: null,
+		windSpeed: null,
+		windDirection: null,
+		windGust: null,
+		pressure: null,
+		visibility: null,
+		dewPoint: null,
+		uvIndex: null,
+		cloudCover: null,
+	};
+	return {
+		id,
+		name: `Provider ${id}`,
+		priority: 1,
+		weight: 1,
+		reliability: 0.8,
+		capabilities: ['current'],
+		coverage: { region: 'global', description: 'Worldwide' },
+		fetch: async () => current,
+		normalize: (raw: ProviderCurrentConditions) => ({ current: raw }),
+		...overrides,
+	};
+}
+
+describe('WeatherProviderRegistry', () => {
+	it('registers, replaces and unregisters providers by ID', () => {
+		const registry = new WeatherProviderRegistry();
+		registry.register(createProvider('a', { name: 'First' }));
+		registry.register(createProvider('a', { name: 'Replacement' }));
+
+		expect(registry.getAll().map((provider) => provider.name)).toEqual(['Replacement']);
+		expect(registry.get('a')).toMatchObject({ name: 'Replacement', enabled: true });
+		expect(registry.unregister('a')).toBe(true);
+		expect(registry.unregister('a')).toBe(false);
+		expect(registry.get('a')).toBeUndefined();
+	});
+
+	it('lists providers in priority order, with configured priorities and weights', () => {
+		const registry = new WeatherProviderRegistry({ b: { priority: 0, weight: 0.25 } });
+		registry.register(createProvider('a', { priority: 1, weight: 0.75 }));
+		registry.register(createProvider('b', { priority: 2, weight: 0.5 }));
+		registry.register(createProvider('c', { priority: 3 }));
+
+		expect(registry.getAll().map(({ id, priority, weight }) => ({ id, priority, weight }))).toEqual([
+			{ id: 'b', priority: 0, weight: 0.25 },
+			{ id: 'a', priority: 1, weight: 0.75 },
+			{ id: 'c', priority: 3, weight: 1 },
+		]);
+
+		registry.configure('c', { priority: -1 });
+		registry.configure('b', { weight: 0.1 });
+		expect(registry.getAll().map(({ id }) => id)).toEqual(['c', 'b', 'a']);
+		expect(registry.get('b')).toMatchObject({ priority: 0, weight: 0.1 });
+	});
+
+	it('leaves out disabled providers and providers without a capability', () => {
+		const registry = new WeatherProviderRegistry({ b: { enabled: false } });
+		registry.register(createProvider('a', { capabilities: ['current', 'hourly'] }));
+		registry.register(createProvider('b', { capabilities: ['current', 'hourly'] }));
+		registry.register(createProvider('c', { capabilities: ['alerts'] }));
+
+		expect(registry.getActiveProviders().map(({ id }) => id)).toEqual(['a', 'c']);
+		expect(registry.getActiveProviders('hourly').map(({ id }) => id)).toEqual(['a']);
+	});
+
+	it('skips providers whose region does not cover the location', () => {
+		const registry = new WeatherProviderRegistry();
+		registry.register(createProvider('global'));
+		registry.register(createProvider('canada', { coverage: { region: 'canada', description: 'Canada' } }));
+
+		expect(registry.getProvidersForLocation(OTTAWA).map(({ id }) => id)).toEqual(['global', 'canada']);
+		expect(registry.getProvidersForLocation(SEATTLE).map(({ id }) => id)).toEqual(['global']);
+	});
+
+	it('skips station-based providers without a station close enough', () => {
+		const registry = new WeatherProviderRegistry();
+		const coverage = { region: 'global' as const, description: 'Stations', maxStationDistanceKm: 50 };
+		registry.register(createProvider('near', { coverage, getStationDistance: () => 12 }));
+		registry.register(createProvider('far', { coverage, getStationDistance: () => 80 }));
+		registry.register(createProvider('none', { coverage, getStationDistance: () => null }));
+
+		expect(registry.getProvidersForLocation(OTTAWA).map(({ id }) => id)).toEqual(['near']);
+	});
+
+	it('keeps `this` of class-based providers', async () => {
+		class StationProvider {
+			id = 'station';
+			name = 'Station';
+			priority = 1;
+			weight = 1;
+			reliability = 0.8;
+			capabilities = ['current' as const];
+			coverage = { region: 'global' as const, description: 'Worldwide', maxStationDistanceKm: 50 };
+			private distance = 10;
+			getStationDistance() {
+				return this.distance;
+			}
+			async fetch() {
+				return this.distance;
+			}
+			normalize() {
+				return {};
+			}
+		}
+		const registry = new WeatherProviderRegistry();
+		registry.register(new StationProvider());
+		const [provider] = registry.getProvidersForLocation(OTTAWA);
+
+		expect(provider.getStationDistance!(OTTAWA)).toBe(10);
+		expect(await provider.fetch(OTTAWA)).toBe(10);
+	});
+});
+
+describe('combined weather from the registered providers', () => {
+	const builtIn = weatherProviderRegistry.getAll().map(({ id }) => id);
+	const testIds: string[] = [];
+
+	/**
+	 * Replaces the built-in providers of the global registry with test providers
+	 */
+	function useProviders(...providers: WeatherProvider[]): void {
+		for (const id of builtIn) {
+			weatherProviderRegistry.configure(id, { enabled: false });
+		}
+		for (const provider of providers) {
+			weatherProviderRegistry.register(provider);
+			testIds.push(provider.id);
+		}
+	}
+
+	afterEach(() => {
+		for (const id of testIds.splice(0)) {
+			weatherProviderRegistry.unregister(id);
+		}
+		for (const id of builtIn) {
+			weatherProviderRegistry.configure(id, { enabled: weatherProviderConfig[id]?.enabled ?? true });
+		}
+	});
+
+	it('blends current conditions by weight and names sources in priority order', async () => {
+		useProviders(
+			createProvider('test-low', { priority: 2, weight: 0.25 }, 10),
+			createProvider('test-high', { priority: 1, weight: 0.75 }, 20),
+		);
+
+		const weather = await getAdvancedWeatherData(OTTAWA.lat, OTTAWA.lon);
+
+		expect(weather.sources).toMatchObject({ primary: 'Provider test-high', secondary: ['Provider test-low'] });
+		expect(weather.current[0]).toMatchObject({ temperature: 17.5, condition: 'Reported by test-high' });
+	});
+
+	it('skips providers that throw while fetching or normalizing', async () => {
+		useProviders(
+			createProvider('test-fetch', {
+				priority: 1,
+				fetch: async () => {
+					throw new Error('Upstream timeout');
+				},
+			}),
+			createProvider('test-normalize', {
+				priority: 2,
+				normalize: () => {
+					throw new Error('Unexpected payload');
+				},
+			}),
+			createProvider('test-working', { priority: 3 }, 15),
+		);
+
+		const weather = await getAdvancedWeatherData(OTTAWA.lat, OTTAWA.lon);
+
+		expect(weather.sources).toMatchObject({ primary: 'Provider test-working', secondary: [] });
+		expect(weather.current[0].temperature).toBe(15);
+	});
+
+	it('skips providers that do not cover the location', async () => {
+		useProviders(
+			createProvider('test-canada', { priority: 1, coverage: { region: 'canada', description: 'Canada' } }, 5),
+			createProvider('test-global', { priority: 2 }, 25),
+		);
+
+		const weather = await getAdvancedWeatherData(SEATTLE.lat, SEATTLE.lon);
+
+		expect(weather.sources).toMatchObject({ primary: 'Provider test-global', secondary: [] });
+		expect(weather.current[0].temperature).toBe(25);
+	});
+
+	it('fails when every provider fails or none covers the location', async () => {
+		useProviders(
+			createProvider('test-failing', {
+				fetch: async () => {
+					throw new Error('Upstream timeout');
+				},
+			}),
+		);
+		await expect(getAdvancedWeatherData(OTTAWA.lat, OTTAWA.lon)).rejects.toThrow(
+			'Failed to fetch data from all weather sources',
+		);
+
+		weatherProviderRegistry.configure('test-failing', { enabled: false });
+		useProviders(createProvider('test-canada', { coverage: { region: 'canada', description: 'Canada' } }));
+		await expect(getAdvancedWeatherData(SEATTLE.lat, SEATTLE.lon)).rejects.toThrow(
+			'No enabled weather providers cover coordinates',
+		);
+	});
+});
@@ -0,0 +1,269 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { WeatherSocketController } from '../src/controllers/WeatherSocketController';
+import { weatherProviderConfig } from '../src/config/weatherProviders';
+import { CacheRefresh, weatherCacheManager } from '../src/services/weatherCacheManager';
+import { weatherProviderRegistry } from '../src/services/weatherProviderRegistry';
+import { ProviderCurrentConditions, WeatherData } from '../src/services/weatherTypes';
+
+const TOKEN = 'socket-test-token';
+const OTTAWA = { lat: '45.4215', lon: '-75.6998' };
+
+/**
+ * Weather data with the given current temperature
+ */
+function createWeather(temperature: number): WeatherData {
+	return {
+		current: [{ temperature, temperatureUnit: '°C' } as WeatherData['current'][number]],
+		hourly: [],
+		'7day': [],
+		'14day': [],
+		alerts: [],
+		sources: { primary: 'Test', secondary: [], confidence: 0.8 },
+	};
+}
+
+/**
+ * Open client connection with its received messages
+ */
+interface TestClient {
+	socket: WebSocket;
+	/** Resolves with the next message not read yet */
+	next(): Promise<Record<string, any>>;
+	send(message: Record<string, unknown>): void;
+}
+
+let server: Server;
+let baseUrl: string;
+let refresh: (refresh: CacheRefresh) => void;
+const clients: WebSocket[] = [];
+const builtInProviders = weatherProviderRegistry.getAll().map(({ id }) => id);
+
+/**
+ * Starts a server with its own socket controller, capturing the controller's refresh listener
+ */
+beforeAll(async () => {
+	// Subscriptions are served by a test provider instead of the upstream services
+	for (const id of builtInProviders) {
+		weatherProviderRegistry.configure(id, { enabled: false });
+	}
+	weatherProviderRegistry.register({
+		id: 'socketTest',
+		name: 'Socket test',
+		priority: 1,
+		weight: 1,
+		reliability: 0.8,
+		capabilities: ['current'],
+		coverage: { region: 'global', description: 'Worldwide' },
+		fetch: async () => ({ temperature: 21 }),
+		normalize: (raw: Partial<ProviderCurrentConditions>) => ({ current: raw as ProviderCurrentConditions }),
+	});
+
+	const onRefresh = vi.spyOn(weatherCacheManager, 'onRefresh');
+	server = createServer();
+	new WeatherSocketController(server, [TOKEN], false);
+	refresh = onRefresh.mock.calls[0][0];
+	onRefresh.mockRestore();
+
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+	baseUrl = `ws://localhost:${(server.address() as AddressInfo).port}/api/weather/socket`;
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+	for (const client of clients.splice(0)) {
+		client.terminate();
+	}
+});
+
+afterAll(async () => {
+	weatherCacheManager.stopCaching(OTTAWA.lat, OTTAWA.lon, 'en');
+	weatherProviderRegistry.unregister('socketTest');
+	for (const id of builtInProviders) {
+		weatherProviderRegistry.configure(id, { enabled: weatherProviderConfig[id]?.enabled ?? true });
+	}
+	await new Promise((resolve) => server.close(resolve));
+});
+
+/**
+ * Connects with the given token and reads the welcome message
+ */
+async function connect(token: string | null = TOKEN): Promise<TestClient> {
+	const socket = new WebSocket(baseUrl, token ? { headers: { Authorization: `Bearer ${token}` } } : {});
+	clients.push(socket);
+
+	const received: Record<string, any>[] = [];
+	const waiting: Array<(message: Record<string, any>) => void> = [];
+	socket.on('message', (data) => {
+		const message = JSON.parse(data.toString());
+		const resolve = waiting.shift();
+		if (resolve) {
+			resolve(message);
+		} else {
+			received.push(message);
+		}
+	});
+
+	const client: TestClient = {
+		socket,
+		next: () =>
+			received.length > 0 ? Promise.resolve(received.shift()!) : new Promise((resolve) => waiting.push(resolve)),
+		send: (message) => socket.send(JSON.stringify(message)),
+	};
+	expect(await client.next()).toMatchObject({ type: 'welcome' });
+	return client;
+}
+
+/**
+ * Attempts a connection and resolves with the HTTP status it was refused with
+ */
+function refusedStatus(url: string, headers: Record<string, string> = {}): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const socket = new WebSocket(url, { headers });
+		socket.on('error', () => undefined);
+		socket.on('unexpected-response', (req, res) => {
+			req.destroy();
+			resolve(res.statusCode ?? 0);
+		});
+		socket.on('open', () => reject(new Error('Connection was accepted')));
+	});
+}
+
+describe('weather WebSocket authentication', () => {
+	it('refuses connections without a token or with a wrong one', async () => {
+		expect(await refusedStatus(baseUrl)).toBe(401);
+		expect(await refusedStatus(baseUrl, { Authorization: 'Bearer wrong-token' })).toBe(401);
+		expect(await refusedStatus(`${baseUrl}?token=${TOKEN.slice(0, -1)}`)).toBe(401);
+	});
+
+	it('accepts a valid token in the Authorization header or the query', async () => {
+		await connect();
+
+		const socket = new WebSocket(`${baseUrl}?token=${TOKEN}`);
+		clients.push(socket);
+		await new Promise((resolve, reject) => socket.on('open', resolve).on('unexpected-response', reject));
+	});
+
+	it('refuses every connection when no token is configured', async () => {
+		const closedServer = createServer();
+		new WeatherSocketController(closedServer);
+		await new Promise<void>((resolve) => closedServer.listen(0, resolve));
+		const url = `ws://localhost:${(closedServer.address() as AddressInfo).port}/api/weather/socket`;
+
+		expect(await refusedStatus(url)).toBe(401);
+		expect(await refusedStatus(url, { Authorization: 'Bearer ' })).toBe(401);
+		await new Promise((resolve) => closedServer.close(resolve));
+	});
+
+	it('refuses other paths', async () => {
+		expect(await refusedStatus(baseUrl.replace('/socket', '/sockets'), { Authorization: `Bearer ${TOKEN}` })).toBe(
+			404,
+		);
+	});
+});
+
+describe('weather WebSocket subscriptions', () => {
+	it('subscribes to a location, sends its snapshots and unsubscribes', async () => {
+		const client = await connect();
+
+		client.send({ type: 'subscribe', id: 1, ...OTTAWA, units: 'imperial' });
+		const subscribed = await client.next();
+		expect(subscribed).toMatchObject({
+			type: 'subscribed',
+			requestId: 1,
+			subscription: { location: { latitude: 45.4215, longitude: -75.6998 }, units: 'imperial' },
+		});
+		const subscription = subscribed.subscription.id;
+		expect(await client.next()).toMatchObject({ type: 'snapshot', subscription });
+
+		refresh({ ...OTTAWA, lang: 'en', previous: createWeather(21), current: createWeather(25) });
+		const snapshot = await client.next();
+		expect(snapshot).toMatchObject({ type: 'snapshot', subscription });
+		expect(JSON.stringify(snapshot.data)).toContain('77');
+
+		client.send({ type: 'list', id: 2 });
+		expect(await client.next()).toMatchObject({
+			type: 'subscriptions',
+			requestId: 2,
+			subscriptions: [{ id: subscription }],
+		});
+
+		client.send({ type: 'unsubscribe', id: 3, subscription });
+		expect(await client.next()).toEqual({ type: 'unsubscribed', requestId: 3, subscription });
+
+		// Refreshes no longer reach the connection
+		refresh({ ...OTTAWA, lang: 'en', previous: createWeather(25), current: createWeather(30) });
+		client.send({ type: 'ping', id: 4 });
+		expect(await client.next()).toMatchObject({ type: 'pong', requestId: 4 });
+	});
+
+	it('replies with errors to invalid messages and unknown subscriptions', async () => {
+		const client = await connect();
+
+		client.send({ type: 'shout', id: 1 });
+		expect(await client.next()).toMatchObject({
+			type: 'error',
+			requestId: 1,
+			error: 'Invalid message',
+			provided: 'shout',
+		});
+
+		client.send({ type: 'unsubscribe', id: 2, subscription: '99.1' });
+		expect(await client.next()).toMatchObject({ type: 'error', requestId: 2, error: 'Subscription not found' });
+
+		client.send({ type: 'subscribe', id: 3, ...OTTAWA, channels: ['radar'] });
+		expect(await client.next()).toMatchObject({ type: 'error', requestId: 3, error: 'Invalid channels' });
+	});
+
+	it('limits the locations a connection can subscribe to', async () => {
+		const client = await connect();
+
+		for (let id = 1; id <= 50; id++) {
+			client.send({ type: 'subscribe', id, ...OTTAWA, channels: ['alerts'] });
+			expect(await client.next()).toMatchObject({ type: 'subscribed', requestId: id });
+		}
+		client.send({ type: 'subscribe', id: 51, ...OTTAWA, channels: ['alerts'] });
+
+		expect(await client.next()).toMatchObject({
+			type: 'error',
+			requestId: 51,
+			error: 'Subscription limit reached',
+			provided: 50,
+		});
+	});
+});
+
+describe('weather WebSocket backpressure', () => {
+	it('holds back snapshots of a congested connection and sends only the latest one', async () => {
+		const client = await connect();
+		client.send({ type: 'subscribe', id: 1, ...OTTAWA });
+		const { subscription } = await client.next();
+		await client.next();
+
+		const buffered = vi.spyOn(WebSocket.prototype, 'bufferedAmount', 'get').mockReturnValue(2 * 1024 * 1024);
+		refresh({ ...OTTAWA, lang: 'en', previous: createWeather(21), current: createWeather(22) });
+		refresh({ ...OTTAWA, lang: 'en', previous: createWeather(22), current: createWeather(23) });
+		buffered.mockReturnValue(0);
+
+		client.send({ type: 'ping', id: 2 });
+		expect(await client.next()).toMatchObject({ type: 'pong', requestId: 2 });
+		const snapshot = await client.next();
+		expect(snapshot).toMatchObject({ type: 'snapshot', subscription: subscription.id });
+		expect(JSON.stringify(snapshot.data)).toContain('23');
+
+		client.send({ type: 'ping', id: 3 });
+		expect(await client.next()).toMatchObject({ type: 'pong', requestId: 3 });
+	});
+
+	it('drops connections that fall too far behind', async () => {
+		const client = await connect();
+		const closed = new Promise((resolve) => client.socket.on('close', resolve));
+
+		vi.spyOn(WebSocket.prototype, 'bufferedAmount', 'get').mockReturnValue(9 * 1024 * 1024);
+		client.send({ type: 'ping', id: 1 });
+
+		expect(await closed).toBe(1006);
+	});
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { StreamEvent, WeatherStreamManager } from '../src/services/weatherStreamService';
+import { WeatherAlert, WeatherData } from '../src/services/weatherTypes';
+
+const LOCATION = { lat: '45.4215', lon: '-75.6998', lang: 'en' as const };
+
+const WARNING: WeatherAlert = {
+	id: 'warning-1',
+	type: 'warning',
+	severity: 'severe',
+	status: 'active',
+	headline: 'Heat warning',
+	description: null,
+	area: 'Ottawa',
+	issued: '2025-06-28T10:00:00Z',
+	expires: null,
+	link: null,
+	source: 'Environment Canada',
+};
+
+/**
+ * Opens a stream for the test location and collects the events sent to it
+ */
+function connect(manager: WeatherStreamManager, clientId = '203.0.113.1') {
+	const received: StreamEvent[] = [];
+	const close = manager.connect(LOCATION.lat, LOCATION.lon, LOCATION.lang, clientId, (event) => received.push(event));
+	return { received, close };
+}
+
+/**
+ * Simulates a cache refresh of the test location
+ */
+function refresh(manager: WeatherStreamManager, previous: unknown, current: unknown) {
+	manager.handleRefresh({ ...LOCATION, previous: previous as WeatherData, current: current as WeatherData });
+}
+
+describe('WeatherStreamManager', () => {
+	it('numbers the events of a refresh and sends them to every listener', () => {
+		const manager = new WeatherStreamManager();
+		const first = connect(manager);
+		const second = connect(manager, '203.0.113.2');
+		const start = manager.getLastEventId(LOCATION.lat, LOCATION.lon, LOCATION.lang);
+		const epoch = start.split('-')[0];
+
+		refresh(manager, { alerts: [] }, { alerts: [WARNING] });
+
+		expect(start).toBe(`${epoch}-0`);
+		expect(first.received.map(({ id, event }) => [id, event])).toEqual([
+			[`${epoch}-1`, 'update'],
+			[`${epoch}-2`, 'alert.issued'],
+		]);
+		expect(second.received).toEqual(first.received);
+		expect(manager.getLastEventId(LOCATION.lat, LOCATION.lon, LOCATION.lang)).toBe(`${epoch}-2`);
+	});
+
+	it('replays the events after a Last-Event-ID', () => {
+		const manager = new WeatherStreamManager();
+		const { close } = connect(manager);
+		const start = manager.getLastEventId(LOCATION.lat, LOCATION.lon, LOCATION.lang);
+		const epoch = start.split('-')[0];
+
+		refresh(manager, { alerts: [] }, { alerts: [WARNING] });
+		refresh(manager, { alerts: [WARNING] }, { alerts: [{ ...WARNING, severity: 'extreme' }] });
+		close();
+
+		const since = (id: string) => manager.getEventsSince(LOCATION.lat, LOCATION.lon, LOCATION.lang, id);
+		expect(since(start)?.map(({ id }) => id)).toEqual([1, 2, 3, 4].map((sequence) => `${epoch}-${sequence}`));
+		expect(since(`${epoch}-2`)?.map(({ event }) => event)).toEqual(['update', 'alert.updated']);
+		expect(since(`${epoch}-4`)).toEqual([]);
+	});
+
+	it('does not replay from unknown, future or foreign event IDs', () => {
+		const manager = new WeatherStreamManager();
+		connect(manager);
+		const epoch = manager.getLastEventId(LOCATION.lat, LOCATION.lon, LOCATION.lang).split('-')[0];
+		refresh(manager, null, { alerts: [] });
+
+		const since = (id: string) => manager.getEventsSince(LOCATION.lat, LOCATION.lon, LOCATION.lang, id);
+		expect(since(`${epoch}-2`)).toBeNull();
+		expect(since(`${epoch}x-0`)).toBeNull();
+		expect(since('not-an-id')).toBeNull();
+	});
+
+	it('stops replaying once the missed events are no longer buffered', () => {
+		const manager = new WeatherStreamManager();
+		connect(manager);
+		const start = manager.getLastEventId(LOCATION.lat, LOCATION.lon, LOCATION.lang);
+		const epoch = start.split('-')[0];
+
+		for (let index = 0; index < 40; index++) {
+			refresh(manager, { alerts: [] }, { alerts: [] });
+		}
+
+		const since = (id: string) => manager.getEventsSince(LOCATION.lat, LOCATION.lon, LOCATION.lang, id);
+		expect(since(start)).toBeNull();
+		expect(since(`${epoch}-4`)).toHaveLength(36);
+		expect(since(`${epoch}-3`)).toBeNull();
+	});
+
+	it('ignores refreshes of locations that have never been streamed', () => {
+		const manager = new WeatherStreamManager();
+		refresh(manager, null, { alerts: [WARNING] });
+
+		expect(manager.getStats()).toEqual({ connections: 0, channels: 0 });
+	});
+
+	it('counts connections against the server and per-client limits', () => {
+		const manager = new WeatherStreamManager();
+		const streams = Array.from({ length: 5 }, () => connect(manager));
+
+		expect(manager.getLimitReached('203.0.113.1')).toBe('client');
+		expect(manager.getLimitReached('203.0.113.2')).toBeNull();
+
+		streams[0].close();
+		streams[0].close();
+		expect(manager.getLimitReached('203.0.113.1')).toBeNull();
+		expect(manager.getStats()).toEqual({ connections: 4, channels: 1 });
+	});
+});
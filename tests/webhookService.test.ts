@@ -0,0 +1,227 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { weatherCacheManager } from '../src/services/weatherCacheManager';
+import {
+	isManagementToken,
+	isPrivateAddress,
+	lookupPublicAddress,
+	signPayload,
+	validateWebhookUrl,
+	WebhookManager,
+	webhookManager,
+} from '../src/services/webhookService';
+
+const API = 'http://localhost:3001/api';
+
+/**
+ * Subscribes to the test server started in `tests/setup.ts`, which has no webhook route
+ */
+function subscribeToTestServer(manager: WebhookManager) {
+	return manager.subscribe({
+		url: 'http://localhost:3001/webhook',
+		lat: '45.4215',
+		lon: '-75.6998',
+		lang: 'en',
+		events: ['alert.issued'],
+	})!;
+}
+
+describe('isPrivateAddress', () => {
+	it.each([
+		'0.0.0.0',
+		'10.1.2.3',
+		'100.64.0.1',
+		'100.127.255.255',
+		'127.0.0.1',
+		'169.254.169.254',
+		'172.16.0.1',
+		'172.31.255.255',
+		'192.168.1.1',
+		'224.0.0.1',
+		'255.255.255.255',
+		'::',
+		'::1',
+		'fd00::1',
+		'fe80::1',
+		'::ffff:127.0.0.1',
+		'::ffff:a9fe:a9fe',
+	])('refuses %s', (address) => {
+		expect(isPrivateAddress(address)).toBe(true);
+	});
+
+	it.each(['8.8.8.8', '100.63.255.255', '100.128.0.1', '172.32.0.1', '2606:4700:4700::1111', 'example.com'])(
+		'accepts %s',
+		(address) => {
+			expect(isPrivateAddress(address)).toBe(false);
+		},
+	);
+});
+
+describe('validateWebhookUrl', () => {
+	it.each([
+		'http://localhost:8080/hook',
+		'http://api.localhost/hook',
+		'http://127.0.0.1/hook',
+		'http://10.0.0.5/hook',
+		'http://100.64.1.1/hook',
+		'http://169.254.169.254/latest/meta-data/',
+		'http://[::1]/hook',
+		'http://[fe80::1]/hook',
+		'http://[::ffff:127.0.0.1]/hook',
+		'ftp://example.com/hook',
+		'not a url',
+		42,
+	])('rejects %s', (url) => {
+		expect(validateWebhookUrl(url)).toBeNull();
+	});
+
+	it('accepts public http and https URLs', () => {
+		expect(validateWebhookUrl('https://example.com/hooks?id=1')).toBe('https://example.com/hooks?id=1');
+		expect(validateWebhookUrl('http://8.8.8.8/hook')).toBe('http://8.8.8.8/hook');
+	});
+
+	it('accepts private URLs only when explicitly allowed', () => {
+		expect(validateWebhookUrl('http://127.0.0.1:3001/hook', true)).toBe('http://127.0.0.1:3001/hook');
+	});
+});
+
+describe('lookupPublicAddress', () => {
+	it('refuses host names that resolve to a private address', async () => {
+		const error = await new Promise<NodeJS.ErrnoException | null>((resolve) =>
+			lookupPublicAddress('localhost', { family: 4 }, (lookupError) => resolve(lookupError)),
+		);
+
+		expect(error).toMatchObject({ code: 'EPRIVATEADDRESS' });
+		expect(error?.message).toContain('127.0.0.1');
+	});
+
+	it('passes IP literals resolving to public addresses through', async () => {
+		const address = await new Promise<unknown>((resolve) =>
+			lookupPublicAddress('8.8.8.8', { family: 4 }, (_error, result) => resolve(result)),
+		);
+
+		expect(address).toBe('8.8.8.8');
+	});
+});
+
+describe('webhook deliveries', () => {
+	it('refuses to connect to a host that resolves to a private address', async () => {
+		const manager = new WebhookManager(false);
+		const result = await manager.sendTest(subscribeToTestServer(manager));
+
+		expect(result).toMatchObject({ delivered: false, status: null });
+		expect(result.error).toContain('resolves to the private address');
+	});
+
+	it('refuses IP literals of private addresses', async () => {
+		const manager = new WebhookManager(false);
+		const subscription = { ...subscribeToTestServer(manager), url: 'http://127.0.0.1:3001/webhook' };
+
+		expect(await manager.sendTest(subscription)).toMatchObject({
+			delivered: false,
+			status: null,
+			error: 'Webhook address 127.0.0.1 is private',
+		});
+	});
+
+	it('delivers to private addresses when explicitly allowed', async () => {
+		const manager = new WebhookManager(true);
+		const result = await manager.sendTest(subscribeToTestServer(manager));
+
+		expect(result).toMatchObject({ delivered: false, status: 404, error: 'HTTP 404' });
+	});
+});
+
+describe('signPayload', () => {
+	it('signs the timestamp and body with HMAC-SHA256', () => {
+		expect(signPayload('secret', 1751126400, '{}')).toBe(
+			'sha256=788748173d4d957a569ce825df86761e4f96bb2a3486ea5581abc302f37acc9f',
+		);
+	});
+});
+
+describe('isManagementToken', () => {
+	it('accepts only the management token of the subscription', () => {
+		const manager = new WebhookManager(true);
+		const subscription = subscribeToTestServer(manager);
+		const other = subscribeToTestServer(manager);
+
+		expect(subscription.managementToken).toMatch(/^[0-9a-f]{64}$/);
+		expect(isManagementToken(subscription, subscription.managementToken)).toBe(true);
+		expect(isManagementToken(subscription, other.managementToken)).toBe(false);
+		expect(isManagementToken(subscription, subscription.secret)).toBe(false);
+		expect(isManagementToken(subscription, subscription.managementToken.slice(1))).toBe(false);
+		expect(isManagementToken(subscription, '')).toBe(false);
+		expect(isManagementToken(subscription, null)).toBe(false);
+	});
+});
+
+describe('subscription caching', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('releases the location once its last subscription is removed', () => {
+		const retain = vi.spyOn(weatherCacheManager, 'retain');
+		const stopCaching = vi.spyOn(weatherCacheManager, 'stopCaching').mockImplementation(() => undefined);
+		const manager = new WebhookManager(true);
+		// A location no other test subscribes to
+		const options = { url: 'http://localhost:3001/webhook', lat: '43.6532', lon: '-79.3832', lang: 'fr' } as const;
+		const first = manager.subscribe({ ...options, events: ['alert.issued'] })!;
+		const second = manager.subscribe({ ...options, events: ['conditions.changed'] })!;
+		expect(retain).toHaveBeenCalledTimes(2);
+
+		expect(manager.unsubscribe(first.id)).toBe(true);
+		expect(stopCaching).not.toHaveBeenCalled();
+		expect(manager.unsubscribe(first.id)).toBe(false);
+		expect(stopCaching).not.toHaveBeenCalled();
+
+		expect(manager.unsubscribe(second.id)).toBe(true);
+		expect(stopCaching).toHaveBeenCalledExactlyOnceWith('43.6532', '-79.3832', 'fr');
+	});
+});
+
+describe('subscription management routes', () => {
+	it.each([
+		['GET', ''],
+		['DELETE', ''],
+		['POST', '/test'],
+		['GET', '/dead-letters'],
+	])('requires the management token for %s /subscriptions/:id%s', async (method, path) => {
+		const subscription = subscribeToTestServer(webhookManager);
+		const other = subscribeToTestServer(webhookManager);
+		const url = `${API}/subscriptions/${subscription.id}${path}`;
+
+		const missing = await fetch(url, { method });
+		expect(missing.status).toBe(401);
+		expect(await missing.json()).toMatchObject({ error: 'Missing management token' });
+
+		for (const token of [other.managementToken, subscription.secret]) {
+			const invalid = await fetch(url, { method, headers: { Authorization: `Bearer ${token}` } });
+			expect(invalid.status).toBe(403);
+			expect(await invalid.json()).toMatchObject({ error: 'Invalid management token' });
+		}
+		expect(webhookManager.getSubscription(subscription.id)).not.toBeNull();
+
+		webhookManager.unsubscribe(subscription.id);
+		webhookManager.unsubscribe(other.id);
+	});
+
+	it('manages a subscription with its management token', async () => {
+		const subscription = subscribeToTestServer(webhookManager);
+		const headers = { Authorization: `Bearer ${subscription.managementToken}` };
+		const url = `${API}/subscriptions/${subscription.id}`;
+
+		const details = await fetch(url, { headers });
+		expect(details.status).toBe(200);
+		const body = await details.json();
+		expect(body).toMatchObject({ id: subscription.id, deadLetters: 0 });
+		expect(body).not.toHaveProperty('managementToken');
+		expect(body).not.toHaveProperty('secret');
+
+		const deadLetters = await fetch(`${url}/dead-letters`, { headers });
+		expect(await deadLetters.json()).toMatchObject({ subscriptionId: subscription.id, count: 0 });
+
+		expect((await fetch(url, { method: 'DELETE', headers })).status).toBe(204);
+		expect((await fetch(url, { headers })).status).toBe(404);
+	});
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { toXml } from '../src/utils/xml';
+
+const DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+describe('toXml', () => {
+	it('writes object keys as elements and array items as item elements', () => {
+		expect(toXml({ data: { alerts: [{ title: 'Heat warning' }, { title: 'Air quality statement' }] } })).toBe(
+			`${DECLARATION}<response>
+	<data>
+		<alerts>
+			<item>
+				<title>Heat warning</title>
+			</item>
+			<item>
+				<title>Air quality statement</title>
+			</item>
+		</alerts>
+	</data>
+</response>
+`,
+		);
+	});
+
+	it.each([
+		['ampersands', 'Rain & drizzle', 'Rain &amp; drizzle'],
+		['angle brackets', '<b>Warning</b>', '&lt;b&gt;Warning&lt;/b&gt;'],
+		['quotes', 'Winds "gusting" to 70', 'Winds &quot;gusting&quot; to 70'],
+		['escaped entities', '&amp;', '&amp;amp;'],
+		['control characters', 'Heat\u0000 warning\u0007\u001F', 'Heat warning'],
+	])('escapes %s in text', (_description, text, expected) => {
+		expect(toXml({ text })).toBe(`${DECLARATION}<response>\n\t<text>${expected}</text>\n</response>\n`);
+	});
+
+	it('keeps tabs, line breaks and non-ASCII characters', () => {
+		expect(toXml('Ciel dégagé\n\t20 °C')).toBe(`${DECLARATION}<response>Ciel dégagé\n\t20 °C</response>\n`);
+	});
+
+	it('writes keys that are not element names as entry elements with an escaped key attribute', () => {
+		expect(toXml({ '14day': 1, 'Environment Canada': 2, 'a"<b>&': 3, _valid: 4 })).toBe(
+			`${DECLARATION}<response>
+	<entry key="14day">1</entry>
+	<entry key="Environment Canada">2</entry>
+	<entry key="a&quot;&lt;b&gt;&amp;">3</entry>
+	<_valid>4</_valid>
+</response>
+`,
+		);
+	});
+
+	it('writes null values, empty arrays and empty objects as empty elements', () => {
+		expect(toXml({ gust: null, alerts: [], units: {}, '7day': null })).toBe(
+			`${DECLARATION}<response>
+	<gust/>
+	<alerts/>
+	<units/>
+	<entry key="7day"/>
+</response>
+`,
+		);
+	});
+
+	it('serializes numbers and booleans as text, under the given root', () => {
+		expect(toXml([1.5, true], 'values')).toBe(
+			`${DECLARATION}<values>\n\t<item>1.5</item>\n\t<item>true</item>\n</values>\n`,
+		);
+	});
+});